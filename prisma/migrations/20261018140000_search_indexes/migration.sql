@@ -0,0 +1,20 @@
+-- Full-text search indexes. Prisma can't express expression indexes, so these
+-- live here only; the expressions mirror SEARCH_SOURCES in src/lib/search.ts.
+
+-- CreateIndex
+CREATE INDEX "Task_search_idx" ON "Task" USING GIN ((to_tsvector('english', "title" || ' ' || "notes")));
+
+-- CreateIndex
+CREATE INDEX "Idea_search_idx" ON "Idea" USING GIN ((to_tsvector('english', "title" || ' ' || "notes")));
+
+-- CreateIndex
+CREATE INDEX "Article_search_idx" ON "Article" USING GIN ((to_tsvector('english', "title" || ' ' || "notes" || ' ' || "author" || ' ' || "source")));
+
+-- CreateIndex
+CREATE INDEX "FeedbackItem_search_idx" ON "FeedbackItem" USING GIN ((to_tsvector('english', "message")));
+
+-- CreateIndex
+CREATE INDEX "LearningPlan_search_idx" ON "LearningPlan" USING GIN (((to_tsvector('english', "title" || ' ' || "subtitle") || jsonb_to_tsvector('english', "phases", '["string"]') || jsonb_to_tsvector('english', "sections", '["string"]'))));
+
+-- CreateIndex
+CREATE INDEX "CalendarEvent_search_idx" ON "CalendarEvent" USING GIN ((to_tsvector('english', "title")));
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Idea" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "LearningPlan" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "FeedbackItem" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Task_deletedAt_idx" ON "Task"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Idea_deletedAt_idx" ON "Idea"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Article_deletedAt_idx" ON "Article"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "LearningPlan_deletedAt_idx" ON "LearningPlan"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "FeedbackItem_deletedAt_idx" ON "FeedbackItem"("deletedAt");
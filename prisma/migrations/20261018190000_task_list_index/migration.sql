@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Task_userId_completed_createdAt_idx" ON "Task"("userId", "completed", "createdAt");
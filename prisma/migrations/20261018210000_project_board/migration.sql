@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "boardColumns" JSONB;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "boardColumn" TEXT;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "sortKey" TEXT NOT NULL DEFAULT '';
+
+-- Backfill: keep each user's current newest-first order
+UPDATE "Task" AS t
+SET "sortKey" = 'a' || lpad(to_hex(o.n), 8, '0') || 'i'
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "userId" ORDER BY "createdAt" DESC, "id" DESC) AS n
+  FROM "Task"
+) AS o
+WHERE t."id" = o."id";
+
+-- CreateIndex
+CREATE INDEX "Task_userId_sortKey_idx" ON "Task"("userId", "sortKey");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DayPlan" ADD COLUMN "reflection" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "reviewedAt" TIMESTAMP(3);
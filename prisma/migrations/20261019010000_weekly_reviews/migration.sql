@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "WeeklyReview" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekStart" TEXT NOT NULL,
+    "stats" JSONB NOT NULL,
+    "notes" TEXT NOT NULL DEFAULT '',
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WeeklyReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WeeklyReview_userId_completedAt_idx" ON "WeeklyReview"("userId", "completedAt");
+
+-- AddForeignKey
+ALTER TABLE "WeeklyReview" ADD CONSTRAINT "WeeklyReview_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
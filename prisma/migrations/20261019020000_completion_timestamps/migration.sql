@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "completedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "readAt" TIMESTAMP(3);
+
+-- Best guess for existing rows: the last edit
+UPDATE "Task" SET "completedAt" = "updatedAt" WHERE "completed" = true;
+UPDATE "Article" SET "readAt" = "updatedAt" WHERE "read" = true;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_completedAt_idx" ON "Task"("userId", "completedAt");
@@ -0,0 +1,15 @@
+-- Sort keys now start with a variable-length integer part (see lib/sort-key).
+-- Rewrite each user's keys as "l" plus four base-36 digits, keeping their order;
+-- empty keys predate manual ordering and stay as they are.
+UPDATE "Task" AS t
+SET "sortKey" = 'l'
+  || substr('0123456789abcdefghijklmnopqrstuvwxyz', ((o.n / 46656) % 36)::int + 1, 1)
+  || substr('0123456789abcdefghijklmnopqrstuvwxyz', ((o.n / 1296) % 36)::int + 1, 1)
+  || substr('0123456789abcdefghijklmnopqrstuvwxyz', ((o.n / 36) % 36)::int + 1, 1)
+  || substr('0123456789abcdefghijklmnopqrstuvwxyz', (o.n % 36)::int + 1, 1)
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "userId" ORDER BY "sortKey" COLLATE "C", "id") - 1 AS n
+  FROM "Task"
+  WHERE "sortKey" <> ''
+) AS o
+WHERE t."id" = o."id";
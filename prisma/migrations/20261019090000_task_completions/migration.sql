@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "TaskCompletion" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "dueAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskCompletion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskCompletion_taskId_idx" ON "TaskCompletion"("taskId");
+
+-- CreateIndex
+CREATE INDEX "TaskCompletion_userId_completedAt_idx" ON "TaskCompletion"("userId", "completedAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskCompletion" ADD CONSTRAINT "TaskCompletion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskCompletion" ADD CONSTRAINT "TaskCompletion_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the latest completion of every task. A repeating task that rolled
+-- on is open again, and the due date of the occurrence it finished is gone.
+INSERT INTO "TaskCompletion" ("id", "userId", "taskId", "dueAt", "completedAt")
+SELECT gen_random_uuid()::text, "userId", "id", CASE WHEN "completed" THEN "dueAt" END, "completedAt"
+FROM "Task"
+WHERE "completedAt" IS NOT NULL;
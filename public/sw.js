@@ -65,10 +65,12 @@ self.addEventListener("notificationclick", (event) => {
         }
 
         // Default click: focus existing window or open app
+        const url = event.notification.data?.url || "/";
         if (appClient && "focus" in appClient) {
+          // Links into a view (e.g. the day review) are handed to the open app
+          if (url !== "/") appClient.postMessage({ type: "NOTIFICATION_OPEN", url });
           return appClient.focus();
         }
-        const url = event.notification.data?.url || "/";
         return clients.openWindow(url);
       })
   );
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+const LIMIT = 100;
+
+// GET /api/activity?entityType=task&entityId=…   one entity's history
+// GET /api/activity?projectId=…                  the project and everything in it
+// Newest first, capped at LIMIT entries.
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const params = req.nextUrl.searchParams;
+  const entityType = params.get("entityType");
+  const entityId = params.get("entityId");
+  const projectId = params.get("projectId");
+
+  let where: Prisma.ActivityWhereInput;
+  if (projectId) where = { userId: session.user.id, projectId };
+  else if (entityType && entityId) where = { userId: session.user.id, entityType, entityId };
+  else return NextResponse.json({ error: "entityType and entityId, or projectId, are required" }, { status: 400 });
+
+  const entries = await prisma.activity.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: LIMIT,
+    select: { id: true, entityType: true, entityId: true, projectId: true, action: true, source: true, title: true, changes: true, createdAt: true },
+  });
+  return NextResponse.json({ entries });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_ANALYTICS_DAYS, MAX_ANALYTICS_DAYS, buildAnalytics } from "@/lib/analytics";
+import { isDayKey, planTaskIds, shiftDayKey, todayKey } from "@/lib/day-plan";
+import { userTimeZone } from "@/lib/plan-store";
+
+// Covers every zone's offset from UTC; lib/analytics sorts rows into local days
+const ZONE_SLACK_MS = 14 * 60 * 60 * 1000;
+
+// GET /api/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD&space=professional&personal=1
+//   from, to    inclusive days in the user's timezone, default the last 30
+//   space       only one space (tasks, articles and the plans' tasks)
+//   personal=1  include personal-space items (the client passes it when unlocked)
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const params = req.nextUrl.searchParams;
+  const timeZone = await userTimeZone(userId);
+  const to = params.get("to") ?? todayKey(timeZone);
+  const from = params.get("from") ?? shiftDayKey(to, -(DEFAULT_ANALYTICS_DAYS - 1));
+  if (!isDayKey(from) || !isDayKey(to) || from > to) return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+  if (shiftDayKey(from, MAX_ANALYTICS_DAYS) <= to) {
+    return NextResponse.json({ error: `At most ${MAX_ANALYTICS_DAYS} days at a time` }, { status: 400 });
+  }
+
+  const space = params.get("space");
+  const includePersonal = params.get("personal") === "1";
+  const spaceWhere = space === "personal" || space === "professional"
+    ? { space: space === "personal" && !includePersonal ? { in: [] } : space }
+    : includePersonal ? {} : { space: { not: "personal" } };
+
+  const start = new Date(new Date(`${from}T00:00:00Z`).getTime() - ZONE_SLACK_MS);
+  const end = new Date(new Date(`${shiftDayKey(to, 1)}T00:00:00Z`).getTime() + ZONE_SLACK_MS);
+
+  const plans = await prisma.dayPlan.findMany({
+    where: { userId, date: { gte: from, lte: to } },
+    select: { date: true, critical: true, important: true, light: true },
+  });
+
+  // An occurrence counts if it was completed in the range, or after its start
+  // while due before its end (it was overdue for part of the range)
+  const counted = { completedAt: { gte: start }, OR: [{ completedAt: { lt: end } }, { dueAt: { lt: end } }] };
+  const planIds = plans.flatMap(planTaskIds);
+
+  const [tasks, articles, projects] = await Promise.all([
+    prisma.task.findMany({
+      where: {
+        userId,
+        ...spaceWhere,
+        OR: [
+          { createdAt: { gte: start, lt: end } },
+          { completions: { some: counted } },
+          // Could have been overdue on some day of the range
+          { completed: false, dueAt: { lt: end }, createdAt: { lt: end } },
+          { id: { in: planIds } },
+        ],
+      },
+      select: { id: true, projectId: true, dueAt: true, completed: true, deletedAt: true, createdAt: true },
+    }),
+    prisma.article.findMany({
+      where: { userId, ...spaceWhere, OR: [{ createdAt: { gte: start, lt: end } }, { readAt: { gte: start, lt: end } }] },
+      select: { createdAt: true, readAt: true },
+    }),
+    prisma.project.findMany({ where: { userId }, select: { id: true, title: true } }),
+  ]);
+
+  const completions = await prisma.taskCompletion.findMany({
+    where: { userId, taskId: { in: tasks.map((t) => t.id) }, OR: [counted, { taskId: { in: planIds } }] },
+    select: { taskId: true, dueAt: true, completedAt: true },
+  });
+
+  const entries = await prisma.timeEntry.findMany({
+    where: { userId, taskId: { in: completions.filter((c) => c.completedAt >= start && c.completedAt < end).map((c) => c.taskId) } },
+    select: { taskId: true, startedAt: true, endedAt: true },
+  });
+
+  return NextResponse.json(buildAnalytics({ from, to, timeZone, now: new Date(), tasks, completions, entries, plans, articles, projects }));
+}
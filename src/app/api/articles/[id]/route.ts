@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
 
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
@@ -10,10 +11,17 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
   const body = await req.json();
 
   const article = await prisma.article.findUnique({ where: { id } });
-  if (!article || article.userId !== session.user.id) {
+  if (!article || article.userId !== session.user.id || article.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(session.user.id, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
   const updated = await prisma.article.update({
     where: { id },
     data: {
@@ -22,7 +30,11 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
       ...(body.source !== undefined && { source: body.source }),
       ...(body.notes  !== undefined && { notes:  body.notes }),
       ...(body.read   !== undefined && { read:   body.read }),
+      ...(body.read === true && !article.read && { readAt: new Date() }),
+      ...(body.read === false && { readAt: null }),
+      ...(tagIds && { tags: { set: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
+    include: TAG_INCLUDE,
   });
   return NextResponse.json(updated);
 }
@@ -33,10 +45,10 @@ export async function DELETE(_req: NextRequest, { params }: { params: Promise<{
 
   const { id } = await params;
   const article = await prisma.article.findUnique({ where: { id } });
-  if (!article || article.userId !== session.user.id) {
+  if (!article || article.userId !== session.user.id || article.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
-  await prisma.article.delete({ where: { id } });
+  await prisma.article.update({ where: { id }, data: { deletedAt: new Date() } });
   return NextResponse.json({ ok: true });
 }
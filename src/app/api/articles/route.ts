@@ -1,17 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { ListQueryError, articleListQuery, pageArgs, toPage } from "@/lib/list-query";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
 import { enrichUrl } from "@/lib/enrich";
 
-export async function GET() {
+// GET takes the list parameters from lib/list-query
+export async function GET(req: NextRequest) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+  let query, page;
+  try {
+    query = articleListQuery(req.nextUrl.searchParams);
+    page = pageArgs(req.nextUrl.searchParams);
+  } catch (err) {
+    if (err instanceof ListQueryError) return NextResponse.json({ error: err.message }, { status: 400 });
+    throw err;
+  }
+
   const articles = await prisma.article.findMany({
-    where: { userId: session.user.id },
-    orderBy: [{ read: "asc" }, { createdAt: "desc" }],
+    where: { ...query.where, userId: session.user.id, deletedAt: null },
+    orderBy: query.orderBy,
+    include: TAG_INCLUDE,
+    ...page,
   });
-  return NextResponse.json(articles);
+  return NextResponse.json(page ? toPage(articles, page) : articles);
 }
 
 export async function POST(req: NextRequest) {
@@ -21,6 +35,13 @@ export async function POST(req: NextRequest) {
   const body = await req.json();
   if (!body.url?.trim()) return NextResponse.json({ error: "URL is required" }, { status: 400 });
 
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(session.user.id, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
   const url = body.url.trim();
   const enriched = await enrichUrl(url);
 
@@ -37,7 +58,9 @@ export async function POST(req: NextRequest) {
       thumbnail: enriched.thumbnail,
       author: enriched.author,
       type: enriched.type,
+      ...(tagIds && { tags: { connect: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
+    include: TAG_INCLUDE,
   });
   return NextResponse.json(article, { status: 201 });
 }
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { recordActivity } from "@/lib/activity";
 import { prisma } from "@/lib/prisma";
 import { enrichUrl } from "@/lib/enrich";
 
@@ -48,6 +49,7 @@ export async function POST(req: NextRequest) {
       type: enriched.type,
     },
   });
+  await recordActivity({ userId: user.id, entityType: "article", entityId: article.id, action: "create", source: "capture", title: article.title });
 
   return NextResponse.json(
     { ok: true, saved: { title: article.title, platform: article.platform } },
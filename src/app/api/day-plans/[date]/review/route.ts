@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isDayKey, sectionOfTask } from "@/lib/day-plan";
+import { DAY_PLAN_SELECT, DAY_REVIEW_SOURCE, appendToPlan, resolvePlanDate, toDayPlan } from "@/lib/plan-store";
+import type { DayPlan, PlanSection } from "@/lib/types";
+
+// POST /api/day-plans/[date]/review  { reflection, moves: [{ taskId, to }] }
+// Saves the end-of-day review: each move puts an unfinished item into a later
+// day's plan (tomorrow to carry it over, any later date to defer it), in the
+// section it had. Rescheduling goes through /api/tasks/[id] like any due-date
+// change; dropped items simply aren't moved.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const date = await resolvePlanDate(userId, (await params).date, req.nextUrl.searchParams.get("tz"));
+  if (!date) return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+
+  const stored = await prisma.dayPlan.findUnique({ where: { userId_date: { userId, date } }, select: DAY_PLAN_SELECT });
+  if (!stored) return NextResponse.json({ error: "Nothing was planned for that day" }, { status: 404 });
+  const plan = toDayPlan(stored);
+
+  const body = await req.json();
+  if (body.reflection !== undefined && typeof body.reflection !== "string") {
+    return NextResponse.json({ error: "Invalid reflection" }, { status: 400 });
+  }
+  const moves = body.moves ?? [];
+  if (!Array.isArray(moves)) return NextResponse.json({ error: "moves must be a list" }, { status: 400 });
+
+  const byDate = new Map<string, Array<{ taskId: string; section: PlanSection }>>();
+  for (const move of moves as Array<{ taskId?: unknown; to?: unknown }>) {
+    const section = typeof move.taskId === "string" ? sectionOfTask(plan, move.taskId) : null;
+    if (!section) return NextResponse.json({ error: "Only tasks from the day's plan can be moved" }, { status: 400 });
+    if (!isDayKey(move.to) || move.to <= date) return NextResponse.json({ error: "Moves must go to a later day" }, { status: 400 });
+    byDate.set(move.to, [...(byDate.get(move.to) ?? []), { taskId: move.taskId as string, section }]);
+  }
+
+  const updated: DayPlan[] = [];
+  for (const [to, additions] of byDate) updated.push(await appendToPlan(userId, to, additions));
+
+  const reviewed = await prisma.dayPlan.update({
+    where: { userId_date: { userId, date } },
+    data: { reviewedAt: new Date(), ...(body.reflection !== undefined && { reflection: body.reflection.trim() }) },
+    select: DAY_PLAN_SELECT,
+  });
+  // Reviewed before the evening push went out — no need to send it
+  await prisma.scheduledNotification.deleteMany({ where: { userId, sourceType: DAY_REVIEW_SOURCE, sourceId: date, sentAt: null } });
+
+  console.log(`[day-plans/review] user=${userId} date=${date} moved=${moves.length}`);
+  return NextResponse.json({ plan: toDayPlan(reviewed), updated });
+}
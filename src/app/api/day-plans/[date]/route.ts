@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parsePlanSections } from "@/lib/day-plan";
+import { DAY_PLAN_SELECT, findDayPlan, resolvePlanDate, toDayPlan } from "@/lib/plan-store";
+
+// /api/day-plans/YYYY-MM-DD, or /api/day-plans/today?tz=Europe/Berlin for the
+// current day in the browser's zone.
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const date = await resolvePlanDate(session.user.id, (await params).date, req.nextUrl.searchParams.get("tz"));
+  if (!date) return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+
+  return NextResponse.json(await findDayPlan(session.user.id, date));
+}
+
+// PUT { critical?, important?, light? }  replaces the listed sections
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const date = await resolvePlanDate(userId, (await params).date, req.nextUrl.searchParams.get("tz"));
+  if (!date) return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+
+  const parsed = parsePlanSections(await req.json());
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+  // Ids of tasks purged since the plan was loaded are dropped rather than rejected
+  const owned = await prisma.task.findMany({ where: { id: { in: Object.values(parsed.data).flat() }, userId }, select: { id: true } });
+  const ownedIds = new Set(owned.map((t) => t.id));
+  const data = Object.fromEntries(Object.entries(parsed.data).map(([section, ids]) => [section, ids.filter((id) => ownedIds.has(id))]));
+
+  const plan = await prisma.dayPlan.upsert({
+    where: { userId_date: { userId, date } },
+    create: { userId, date, ...data },
+    update: data,
+    select: DAY_PLAN_SELECT,
+  });
+  return NextResponse.json(toDayPlan(plan));
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { BLOCKED_BY_INCLUDE, withBlockedByIds } from "@/lib/dependencies";
+import { suggestDayPlan } from "@/lib/day-suggest";
+import { findDayPlan, resolvePlanDate, userTimeZone } from "@/lib/plan-store";
+
+// Wide enough to catch the whole day in any timezone; lib/day-suggest keeps
+// only the events that start on it
+const EVENT_WINDOW_MS = 38 * 60 * 60 * 1000;
+
+// GET /api/day-plans/today/suggestions?tz=…  a proposed plan for the day's open
+// slots; see lib/day-suggest
+export async function GET(req: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const date = await resolvePlanDate(userId, (await params).date, req.nextUrl.searchParams.get("tz"));
+  if (!date) return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+
+  const middayUtc = new Date(`${date}T12:00:00Z`).getTime();
+  const [timeZone, plan, tasks, activeProjects, events] = await Promise.all([
+    userTimeZone(userId),
+    findDayPlan(userId, date),
+    prisma.task.findMany({
+      where: { userId, completed: false, deletedAt: null },
+      select: {
+        id: true, title: true, completed: true, inProgress: true, pinned: true, dueAt: true, priority: true,
+        projectId: true, parentId: true, sortKey: true, createdAt: true, ...BLOCKED_BY_INCLUDE,
+      },
+    }),
+    prisma.project.findMany({ where: { userId, deletedAt: null, status: "active" }, select: { id: true, title: true } }),
+    prisma.calendarEvent.findMany({
+      where: { userId, startAt: { gte: new Date(middayUtc - EVENT_WINDOW_MS), lt: new Date(middayUtc + EVENT_WINDOW_MS) } },
+      select: { startAt: true, endAt: true },
+    }),
+  ]);
+
+  return NextResponse.json(suggestDayPlan({ tasks: tasks.map(withBlockedByIds), activeProjects, events, plan, timeZone }));
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isDayKey, planTaskIds, shiftDayKey } from "@/lib/day-plan";
+import { DAY_PLAN_SELECT, userToday } from "@/lib/plan-store";
+
+const DEFAULT_HISTORY_DAYS = 30;
+
+// GET /api/day-plans?from=YYYY-MM-DD&to=YYYY-MM-DD  stored plans in the range
+// (inclusive, default the last 30 days), newest first, with the title and
+// done state of every task they mention.
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const params = req.nextUrl.searchParams;
+  const to = params.get("to") ?? (await userToday(userId));
+  const from = params.get("from") ?? shiftDayKey(to, -(DEFAULT_HISTORY_DAYS - 1));
+  if (!isDayKey(from) || !isDayKey(to)) return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+
+  const plans = await prisma.dayPlan.findMany({
+    where: { userId, date: { gte: from, lte: to } },
+    orderBy: { date: "desc" },
+    select: DAY_PLAN_SELECT,
+  });
+  // Trashed tasks still show up; purged ones drop out of the lookup
+  const tasks = await prisma.task.findMany({
+    where: { userId, id: { in: plans.flatMap(planTaskIds) } },
+    select: { id: true, title: true, completed: true },
+  });
+
+  return NextResponse.json({ plans, tasks });
+}
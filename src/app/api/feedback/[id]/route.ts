@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { FEEDBACK_FIELDS, activitySnapshot, activitySource, diffFields, feedbackTitle, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
 
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
@@ -9,11 +11,18 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
   const { id } = await params;
   const body = await req.json();
 
-  const item = await prisma.feedbackItem.findUnique({ where: { id } });
-  if (!item || item.userId !== session.user.id) {
+  const item = await prisma.feedbackItem.findUnique({ where: { id }, include: TAG_INCLUDE });
+  if (!item || item.userId !== session.user.id || item.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(session.user.id, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
   const updated = await prisma.feedbackItem.update({
     where: { id },
     data: {
@@ -21,21 +30,43 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
       ...(body.message !== undefined && { message: body.message }),
       ...(body.status !== undefined && { status: body.status }),
       ...("dueAt" in body && { dueAt: body.dueAt ? new Date(body.dueAt) : null }),
+      ...(tagIds && { tags: { set: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
+    include: TAG_INCLUDE,
   });
+  const changes = diffFields(activitySnapshot(item), activitySnapshot(updated), FEEDBACK_FIELDS);
+  if (changes) {
+    await recordActivity({
+      userId: session.user.id,
+      entityType: "feedback",
+      entityId: id,
+      action: "update",
+      source: activitySource(req),
+      title: feedbackTitle(updated),
+      changes,
+    });
+  }
   return NextResponse.json(updated);
 }
 
-export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const { id } = await params;
   const item = await prisma.feedbackItem.findUnique({ where: { id } });
-  if (!item || item.userId !== session.user.id) {
+  if (!item || item.userId !== session.user.id || item.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
-  await prisma.feedbackItem.delete({ where: { id } });
+  await prisma.feedbackItem.update({ where: { id }, data: { deletedAt: new Date() } });
+  await recordActivity({
+    userId: session.user.id,
+    entityType: "feedback",
+    entityId: id,
+    action: "delete",
+    source: activitySource(req),
+    title: feedbackTitle(item),
+  });
   return NextResponse.json({ ok: true });
 }
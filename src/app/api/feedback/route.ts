@@ -1,16 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
+import { activitySource, feedbackTitle, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { ListQueryError, feedbackListQuery, pageArgs, toPage } from "@/lib/list-query";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
 
-export async function GET() {
+// GET takes the list parameters from lib/list-query
+export async function GET(req: NextRequest) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+  let query, page;
+  try {
+    query = feedbackListQuery(req.nextUrl.searchParams);
+    page = pageArgs(req.nextUrl.searchParams);
+  } catch (err) {
+    if (err instanceof ListQueryError) return NextResponse.json({ error: err.message }, { status: 400 });
+    throw err;
+  }
+
   const items = await prisma.feedbackItem.findMany({
-    where: { userId: session.user.id },
-    orderBy: { receivedAt: "desc" },
+    where: { ...query.where, userId: session.user.id, deletedAt: null },
+    orderBy: query.orderBy,
+    include: TAG_INCLUDE,
+    ...page,
   });
-  return NextResponse.json(items);
+  return NextResponse.json(page ? toPage(items, page) : items);
 }
 
 export async function POST(req: NextRequest) {
@@ -18,6 +33,13 @@ export async function POST(req: NextRequest) {
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const body = await req.json();
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(session.user.id, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
   const item = await prisma.feedbackItem.create({
     data: {
       userId: session.user.id,
@@ -25,7 +47,17 @@ export async function POST(req: NextRequest) {
       message: body.message,
       dueAt: body.dueAt ? new Date(body.dueAt) : null,
       status: body.status ?? "new",
+      ...(tagIds && { tags: { connect: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
+    include: TAG_INCLUDE,
+  });
+  await recordActivity({
+    userId: session.user.id,
+    entityType: "feedback",
+    entityId: item.id,
+    action: "create",
+    source: activitySource(req),
+    title: feedbackTitle(item),
   });
   return NextResponse.json(item, { status: 201 });
 }
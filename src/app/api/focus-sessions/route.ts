@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/focus-sessions?from=ISO&to=ISO  sessions started in the range
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const from = new Date(req.nextUrl.searchParams.get("from") ?? "");
+  const to = new Date(req.nextUrl.searchParams.get("to") ?? "");
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return NextResponse.json({ error: "from and to are required" }, { status: 400 });
+  }
+
+  const sessions = await prisma.focusSession.findMany({
+    where: { userId: session.user.id, startedAt: { gte: from, lt: to } },
+    orderBy: { startedAt: "asc" },
+    select: { id: true, taskId: true, startedAt: true, endedAt: true, minutes: true, completed: true },
+  });
+  return NextResponse.json({ sessions });
+}
+
+// POST /api/focus-sessions  { taskId, startedAt, endedAt, minutes, completed }
+// Logged by the Today view at the end of each work interval.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json();
+  const task = typeof body.taskId === "string"
+    ? await prisma.task.findUnique({ where: { id: body.taskId }, select: { userId: true, deletedAt: true } })
+    : null;
+  if (!task || task.userId !== session.user.id || task.deletedAt) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const startedAt = new Date(body.startedAt);
+  const endedAt = new Date(body.endedAt);
+  const minutes = Number(body.minutes);
+  if (Number.isNaN(startedAt.getTime()) || Number.isNaN(endedAt.getTime()) || endedAt < startedAt) {
+    return NextResponse.json({ error: "Invalid session times" }, { status: 400 });
+  }
+  if (!Number.isInteger(minutes) || minutes < 1) return NextResponse.json({ error: "minutes must be a positive whole number" }, { status: 400 });
+
+  const created = await prisma.focusSession.create({
+    data: { userId: session.user.id, taskId: body.taskId, startedAt, endedAt, minutes, completed: body.completed !== false },
+    select: { id: true, taskId: true, startedAt: true, endedAt: true, minutes: true, completed: true },
+  });
+  return NextResponse.json(created, { status: 201 });
+}
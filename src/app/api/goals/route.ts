@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { goalStatus } from "@/lib/goal-store";
+import { parseGoals } from "@/lib/goals";
+
+// GET /api/goals  the daily goals, today's progress on each and the streak
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  return NextResponse.json(await goalStatus(session.user.id));
+}
+
+// PUT /api/goals  { goals: [{ kind, target }] }  replaces the goals; an empty
+// list turns them (and the evening nudge) off
+export async function PUT(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json();
+  const goals = parseGoals(body.goals);
+  if (!goals) return NextResponse.json({ error: "Invalid goals" }, { status: 400 });
+
+  const userId = session.user.id;
+  await prisma.user.update({ where: { id: userId }, data: { dailyGoals: goals.length > 0 ? goals : Prisma.DbNull } });
+  return NextResponse.json(await goalStatus(userId));
+}
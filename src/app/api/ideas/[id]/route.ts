@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { IDEA_FIELDS, activitySnapshot, activitySource, diffFields, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
 
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
@@ -9,32 +11,61 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
   const { id } = await params;
   const body = await req.json();
 
-  const idea = await prisma.idea.findUnique({ where: { id } });
-  if (!idea || idea.userId !== session.user.id) {
+  const idea = await prisma.idea.findUnique({ where: { id }, include: TAG_INCLUDE });
+  if (!idea || idea.userId !== session.user.id || idea.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(session.user.id, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
   const updated = await prisma.idea.update({
     where: { id },
     data: {
       ...(body.title !== undefined && { title: body.title }),
       ...(body.notes !== undefined && { notes: body.notes }),
       ...(body.sourceUrl !== undefined && { sourceUrl: body.sourceUrl }),
+      ...(tagIds && { tags: { set: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
+    include: TAG_INCLUDE,
   });
+  const changes = diffFields(activitySnapshot(idea), activitySnapshot(updated), IDEA_FIELDS);
+  if (changes) {
+    await recordActivity({
+      userId: session.user.id,
+      entityType: "idea",
+      entityId: id,
+      action: "update",
+      source: activitySource(req),
+      title: updated.title,
+      changes,
+    });
+  }
   return NextResponse.json(updated);
 }
 
-export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const { id } = await params;
   const idea = await prisma.idea.findUnique({ where: { id } });
-  if (!idea || idea.userId !== session.user.id) {
+  if (!idea || idea.userId !== session.user.id || idea.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
-  await prisma.idea.delete({ where: { id } });
+  await prisma.idea.update({ where: { id }, data: { deletedAt: new Date() } });
+  await recordActivity({
+    userId: session.user.id,
+    entityType: "idea",
+    entityId: id,
+    action: "delete",
+    source: activitySource(req),
+    title: idea.title,
+  });
   return NextResponse.json({ ok: true });
 }
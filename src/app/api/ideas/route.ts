@@ -1,16 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
+import { activitySource, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { ListQueryError, ideaListQuery, pageArgs, toPage } from "@/lib/list-query";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
 
-export async function GET() {
+// GET takes the list parameters from lib/list-query
+export async function GET(req: NextRequest) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+  let query, page;
+  try {
+    query = ideaListQuery(req.nextUrl.searchParams);
+    page = pageArgs(req.nextUrl.searchParams);
+  } catch (err) {
+    if (err instanceof ListQueryError) return NextResponse.json({ error: err.message }, { status: 400 });
+    throw err;
+  }
+
   const ideas = await prisma.idea.findMany({
-    where: { userId: session.user.id },
-    orderBy: { createdAt: "desc" },
+    where: { ...query.where, userId: session.user.id, deletedAt: null },
+    orderBy: query.orderBy,
+    include: TAG_INCLUDE,
+    ...page,
   });
-  return NextResponse.json(ideas);
+  return NextResponse.json(page ? toPage(ideas, page) : ideas);
 }
 
 export async function POST(req: NextRequest) {
@@ -18,6 +33,13 @@ export async function POST(req: NextRequest) {
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const body = await req.json();
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(session.user.id, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
   const idea = await prisma.idea.create({
     data: {
       userId: session.user.id,
@@ -25,7 +47,17 @@ export async function POST(req: NextRequest) {
       notes: body.notes ?? "",
       sourceUrl: body.sourceUrl ?? null,
       space: body.space === "personal" ? "personal" : "professional",
+      ...(tagIds && { tags: { connect: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
+    include: TAG_INCLUDE,
+  });
+  await recordActivity({
+    userId: session.user.id,
+    entityType: "idea",
+    entityId: idea.id,
+    action: "create",
+    source: activitySource(req),
+    title: idea.title,
   });
   return NextResponse.json(idea, { status: 201 });
 }
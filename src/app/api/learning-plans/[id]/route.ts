@@ -10,7 +10,7 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
   const body = await req.json();
 
   const plan = await prisma.learningPlan.findUnique({ where: { id } });
-  if (!plan || plan.userId !== session.user.id) {
+  if (!plan || plan.userId !== session.user.id || plan.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
@@ -32,10 +32,10 @@ export async function DELETE(_req: NextRequest, { params }: { params: Promise<{
 
   const { id } = await params;
   const plan = await prisma.learningPlan.findUnique({ where: { id } });
-  if (!plan || plan.userId !== session.user.id) {
+  if (!plan || plan.userId !== session.user.id || plan.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
-  await prisma.learningPlan.delete({ where: { id } });
+  await prisma.learningPlan.update({ where: { id }, data: { deletedAt: new Date() } });
   return NextResponse.json({ ok: true });
 }
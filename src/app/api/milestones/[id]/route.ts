@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { deleteMilestoneEvents, syncMilestoneEvent } from "@/lib/milestone-store";
+import { parseMilestoneInput } from "@/lib/milestones";
+import { prisma } from "@/lib/prisma";
+
+// PATCH /api/milestones/[id]  { title?, dueDate?, taskIds? }
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const milestone = await prisma.milestone.findUnique({ where: { id } });
+  if (!milestone || milestone.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const parsed = parseMilestoneInput(await req.json(), true);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+  const { data } = parsed;
+
+  if (data.taskIds) {
+    const owned = await prisma.task.count({
+      where: { id: { in: data.taskIds }, userId: session.user.id, projectId: milestone.projectId, deletedAt: null },
+    });
+    if (owned !== data.taskIds.length) return NextResponse.json({ error: "Milestone tasks must belong to the project" }, { status: 400 });
+  }
+
+  const updated = await prisma.milestone.update({
+    where: { id },
+    data,
+    include: { project: { select: { title: true } } },
+  });
+
+  try {
+    await syncMilestoneEvent(updated);
+  } catch (err) {
+    console.error(`[milestones/PATCH] Calendar sync failed for milestone ${id}:`, err instanceof Error ? err.message : err);
+  }
+
+  // Re-read for the event id a first sync stores
+  const saved = await prisma.milestone.findUnique({ where: { id } });
+  return NextResponse.json(saved);
+}
+
+// Milestones skip the trash; their tasks are left as they are
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const milestone = await prisma.milestone.findUnique({ where: { id } });
+  if (!milestone || milestone.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await deleteMilestoneEvents(session.user.id, [milestone]);
+  await prisma.milestone.delete({ where: { id } });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { syncMilestoneEvent } from "@/lib/milestone-store";
+import { parseMilestoneInput } from "@/lib/milestones";
+import type { MilestoneFields } from "@/lib/milestones";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/milestones?projectId=…  — a project's milestones, soonest first
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const projectId = req.nextUrl.searchParams.get("projectId");
+  if (!projectId) return NextResponse.json({ error: "projectId is required" }, { status: 400 });
+
+  const milestones = await prisma.milestone.findMany({
+    where: { userId: session.user.id, projectId },
+    orderBy: [{ dueDate: "asc" }, { createdAt: "asc" }],
+  });
+  return NextResponse.json(milestones);
+}
+
+// POST /api/milestones  { projectId, title, dueDate, taskIds? }
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const body = await req.json();
+  const parsed = parseMilestoneInput(body, false);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+  const data = parsed.data as MilestoneFields;
+
+  const project = typeof body.projectId === "string"
+    ? await prisma.project.findUnique({ where: { id: body.projectId }, select: { id: true, userId: true, title: true, deletedAt: true } })
+    : null;
+  if (!project || project.userId !== userId || project.deletedAt) return NextResponse.json({ error: "Project not found" }, { status: 400 });
+
+  const owned = await prisma.task.count({ where: { id: { in: data.taskIds }, userId, projectId: project.id, deletedAt: null } });
+  if (owned !== data.taskIds.length) return NextResponse.json({ error: "Milestone tasks must belong to the project" }, { status: 400 });
+
+  const milestone = await prisma.milestone.create({ data: { ...data, userId, projectId: project.id } });
+
+  try {
+    await syncMilestoneEvent({ ...milestone, project });
+  } catch (err) {
+    // Best-effort — the milestone is already saved
+    console.error(`[milestones/POST] Calendar sync failed for milestone ${milestone.id}:`, err instanceof Error ? err.message : err);
+  }
+
+  const saved = await prisma.milestone.findUnique({ where: { id: milestone.id } });
+  return NextResponse.json(saved, { status: 201 });
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { activitySource, recordActivity } from "@/lib/activity";
+import { auth } from "@/lib/auth";
+import { rememberTimeZone } from "@/lib/plan-store";
+import { prisma } from "@/lib/prisma";
+import { parseApplyTemplateInput, templateChecklist, templateDueAt } from "@/lib/project-templates";
+import { buildReminderRows } from "@/lib/reminders";
+import { syncTaskEvents } from "@/lib/task-effects";
+import { topSortKeys } from "@/lib/task-order";
+import type { CalendarOutcome } from "@/lib/trash";
+import type { ProjectTemplateTask } from "@/lib/types";
+
+// POST /api/project-templates/[id]/apply
+//   { startDate: "YYYY-MM-DD", title?, space?, timeZone?, reminderWindows?: number[] }
+// Creates the project, its tasks with concrete due dates and their reminders in
+// one transaction; Google events follow in batched requests and never fail the call.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const { id } = await params;
+  const template = await prisma.projectTemplate.findUnique({ where: { id } });
+  if (!template || template.userId !== userId) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  const parsed = parseApplyTemplateInput(body);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+  const { startDate, title, space } = parsed.data;
+
+  const timeZone = await rememberTimeZone(userId, body.timeZone);
+  const reminderWindows: number[] = Array.isArray(body.reminderWindows)
+    ? body.reminderWindows.filter((m: unknown): m is number => typeof m === "number" && m > 0)
+    : [];
+  const items = template.tasks as ProjectTemplateTask[];
+
+  console.log(`[project-templates/apply] Creating project from template=${id} start=${startDate} with ${items.length} task(s) for user=${userId}`);
+
+  const { project, tasks } = await prisma.$transaction(async (tx) => {
+    const project = await tx.project.create({
+      data: {
+        userId,
+        title: title ?? template.title,
+        description: template.description,
+        space: space ?? template.space,
+      },
+    });
+
+    // Tasks keep the template's order, above the user's other tasks
+    const sortKeys = await topSortKeys(userId, items.length, tx);
+    const tasks = [];
+    const ids: string[] = [];
+    for (const [index, item] of items.entries()) {
+      const checklist = templateChecklist(item);
+      const task = await tx.task.create({
+        data: {
+          userId,
+          projectId: project.id,
+          // parentIndex always points at an earlier entry, so the parent exists by now
+          parentId: item.parentIndex !== null ? ids[item.parentIndex] ?? null : null,
+          space: project.space,
+          title: item.title,
+          notes: item.notes,
+          priority: item.priority,
+          dueAt: templateDueAt(item, startDate, timeZone),
+          sortKey: sortKeys[index],
+          ...(checklist.length > 0 && { checklist }),
+        },
+        include: { project: { select: { title: true } } },
+      });
+      tasks.push(task);
+      ids.push(task.id);
+    }
+
+    const reminders = tasks.flatMap((t) => (t.dueAt
+      ? buildReminderRows({ userId, sourceId: t.id, sourceType: "task", title: t.title, dueAt: t.dueAt, reminderWindows })
+      : []));
+    if (reminders.length > 0) await tx.scheduledNotification.createMany({ data: reminders });
+
+    return { project, tasks };
+    // A full template is a few hundred writes, more than the default 5s allows
+  }, { timeout: 30_000 });
+
+  const source = activitySource(req);
+  await recordActivity([
+    { userId, entityType: "project", entityId: project.id, projectId: project.id, action: "create", source, title: project.title },
+    ...tasks.map((t) => ({
+      userId, entityType: "task" as const, entityId: t.id, projectId: project.id, action: "create" as const, source, title: t.title,
+    })),
+  ]);
+
+  let calendar: CalendarOutcome = { synced: 0, failed: 0 };
+  const dated = tasks.filter((t) => t.dueAt);
+  if (dated.length > 0) {
+    try {
+      calendar = await syncTaskEvents(userId, dated);
+    } catch (err) {
+      // Best-effort — the project and its tasks are already saved
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[project-templates/apply] Calendar sync failed:`, message);
+      calendar = { error: message };
+    }
+  }
+
+  // Event ids were stored after the tasks were created
+  const created = await prisma.task.findMany({ where: { projectId: project.id }, orderBy: { sortKey: "asc" } });
+  return NextResponse.json({ project, tasks: created, calendar }, { status: 201 });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { rememberTimeZone } from "@/lib/plan-store";
+import { prisma } from "@/lib/prisma";
+import { MAX_TEMPLATE_TASKS, parseSaveTemplateInput, templateTasksFromProject } from "@/lib/project-templates";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const templates = await prisma.projectTemplate.findMany({
+    where: { userId: session.user.id },
+    orderBy: { name: "asc" },
+  });
+  return NextResponse.json(templates);
+}
+
+// POST /api/project-templates  { name, projectId, startDate: "YYYY-MM-DD", timeZone? }
+// Saves the project and its tasks (done ones included, trashed ones not); due
+// dates are stored as offsets from startDate in the user's zone.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const body = await req.json();
+  const parsed = parseSaveTemplateInput(body);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+  const { name, projectId, startDate } = parsed.data;
+
+  const project = await prisma.project.findUnique({ where: { id: projectId } });
+  if (!project || project.userId !== userId || project.deletedAt) return NextResponse.json({ error: "Project not found" }, { status: 400 });
+
+  const existing = await prisma.projectTemplate.findUnique({ where: { userId_name: { userId, name } } });
+  if (existing) return NextResponse.json({ error: "A template with that name already exists" }, { status: 409 });
+
+  const tasks = await prisma.task.findMany({
+    where: { userId, projectId, deletedAt: null },
+    orderBy: [{ sortKey: "asc" }, { createdAt: "asc" }],
+    select: { id: true, parentId: true, title: true, notes: true, checklist: true, priority: true, dueAt: true },
+  });
+  if (tasks.length > MAX_TEMPLATE_TASKS) {
+    return NextResponse.json({ error: `Templates hold at most ${MAX_TEMPLATE_TASKS} tasks` }, { status: 400 });
+  }
+
+  const timeZone = await rememberTimeZone(userId, body.timeZone);
+  const template = await prisma.projectTemplate.create({
+    data: {
+      userId,
+      name,
+      title: project.title,
+      description: project.description,
+      space: project.space,
+      tasks: templateTasksFromProject(tasks, startDate, timeZone),
+    },
+  });
+  console.log(`[project-templates/POST] Saved template id=${template.id} from project=${projectId} with ${tasks.length} task(s)`);
+  return NextResponse.json(template, { status: 201 });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// PATCH /api/project-updates/[id]  { body }  — the date and health stay as written
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const update = await prisma.projectUpdate.findUnique({ where: { id } });
+  if (!update || update.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  if (typeof body.body !== "string" || !body.body.trim()) return NextResponse.json({ error: "The update is empty" }, { status: 400 });
+
+  const updated = await prisma.projectUpdate.update({ where: { id }, data: { body: body.body.trim() } });
+  return NextResponse.json(updated);
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const update = await prisma.projectUpdate.findUnique({ where: { id } });
+  if (!update || update.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await prisma.projectUpdate.delete({ where: { id } });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { todayKey } from "@/lib/day-plan";
+import { userTimeZone } from "@/lib/plan-store";
+import { prisma } from "@/lib/prisma";
+import { isHealthLevel } from "@/lib/project-health";
+
+// GET /api/project-updates?projectId=…  — a project's status updates, newest first
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const projectId = req.nextUrl.searchParams.get("projectId");
+  if (!projectId) return NextResponse.json({ error: "projectId is required" }, { status: 400 });
+
+  const updates = await prisma.projectUpdate.findMany({
+    where: { userId: session.user.id, projectId },
+    orderBy: { createdAt: "desc" },
+  });
+  return NextResponse.json(updates);
+}
+
+// POST /api/project-updates  { projectId, body, health }  — dated today in the user's timezone
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const body = await req.json();
+  if (typeof body.body !== "string" || !body.body.trim()) return NextResponse.json({ error: "The update is empty" }, { status: 400 });
+  if (!isHealthLevel(body.health)) return NextResponse.json({ error: "health must be on-track, needs-attention or off-track" }, { status: 400 });
+
+  const project = typeof body.projectId === "string"
+    ? await prisma.project.findUnique({ where: { id: body.projectId }, select: { id: true, userId: true, deletedAt: true } })
+    : null;
+  if (!project || project.userId !== userId || project.deletedAt) return NextResponse.json({ error: "Project not found" }, { status: 400 });
+
+  const update = await prisma.projectUpdate.create({
+    data: {
+      userId,
+      projectId: project.id,
+      date: todayKey(await userTimeZone(userId)),
+      body: body.body.trim(),
+      health: body.health,
+    },
+  });
+  return NextResponse.json(update, { status: 201 });
+}
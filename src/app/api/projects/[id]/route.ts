@@ -1,6 +1,10 @@
+import { Prisma } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
+import { PROJECT_FIELDS, activitySource, diffFields, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
+import { parseBoardColumns } from "@/lib/board";
 import { prisma } from "@/lib/prisma";
+import { trashProject } from "@/lib/trash";
 
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
@@ -10,32 +14,65 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
   const body = await req.json();
 
   const project = await prisma.project.findUnique({ where: { id } });
-  if (!project || project.userId !== session.user.id) {
+  if (!project || project.userId !== session.user.id || project.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
+  // null puts the board back on the default columns
+  let boardColumns: ReturnType<typeof parseBoardColumns> | undefined;
+  if (body.boardColumns !== undefined && body.boardColumns !== null) {
+    boardColumns = parseBoardColumns(body.boardColumns);
+    if (!boardColumns) {
+      return NextResponse.json({ error: "boardColumns must be 1–12 columns with a name and an open, in-progress or done status" }, { status: 400 });
+    }
+  }
+
   const updated = await prisma.project.update({
     where: { id },
     data: {
       ...(body.title !== undefined && { title: body.title }),
       ...(body.description !== undefined && { description: body.description }),
       ...(body.status !== undefined && { status: body.status }),
+      ...(body.boardColumns !== undefined && { boardColumns: boardColumns ?? Prisma.DbNull }),
     },
   });
 
+  const changes = diffFields(project, updated, PROJECT_FIELDS);
+  if (changes) {
+    await recordActivity({
+      userId: session.user.id,
+      entityType: "project",
+      entityId: id,
+      projectId: id,
+      action: "update",
+      source: activitySource(req),
+      title: updated.title,
+      changes,
+    });
+  }
+
   return NextResponse.json(updated);
 }
 
-export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const { id } = await params;
   const project = await prisma.project.findUnique({ where: { id } });
-  if (!project || project.userId !== session.user.id) {
+  if (!project || project.userId !== session.user.id || project.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
-  await prisma.project.delete({ where: { id } });
+  await trashProject(session.user.id, id);
+  await recordActivity({
+    userId: session.user.id,
+    entityType: "project",
+    entityId: id,
+    projectId: id,
+    action: "delete",
+    source: activitySource(req),
+    title: project.title,
+  });
   return NextResponse.json({ ok: true });
 }
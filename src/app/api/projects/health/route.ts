@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { userTimeZone } from "@/lib/plan-store";
+import { prisma } from "@/lib/prisma";
+import { projectHealth } from "@/lib/project-health";
+import type { ProjectHealthSignal } from "@/lib/project-health";
+
+// Older completed tasks are only needed for the date of the latest one, which
+// is loaded per project on its own
+const RECENT_MS = 30 * 24 * 60 * 60 * 1000;
+
+// GET /api/projects/health  — { [projectId]: { level, score, factors } } for every project
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const now = new Date();
+  const [projects, milestones, timeZone, latest] = await Promise.all([
+    prisma.project.findMany({ where: { userId, deletedAt: null }, select: { id: true, createdAt: true } }),
+    prisma.milestone.findMany({ where: { userId }, select: { projectId: true, title: true, dueDate: true, taskIds: true } }),
+    userTimeZone(userId),
+    prisma.task.groupBy({
+      by: ["projectId"],
+      where: { userId, projectId: { not: null }, deletedAt: null, completedAt: { not: null } },
+      _max: { completedAt: true },
+    }),
+  ]);
+  const lastCompletedAt = new Map(latest.map((row) => [row.projectId, row._max.completedAt]));
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      userId,
+      projectId: { not: null },
+      deletedAt: null,
+      // Milestone tasks count towards their progress however long ago they were done
+      OR: [{ completed: false }, { completedAt: { gte: new Date(now.getTime() - RECENT_MS) } }, { id: { in: milestones.flatMap((m) => m.taskIds) } }],
+    },
+    select: {
+      id: true,
+      title: true,
+      projectId: true,
+      completed: true,
+      completedAt: true,
+      dueAt: true,
+      blockedBy: { where: { blocker: { deletedAt: null, completed: false } }, select: { blockerId: true } },
+    },
+  });
+
+  const health: Record<string, ProjectHealthSignal> = {};
+  for (const project of projects) {
+    health[project.id] = projectHealth({
+      project: { ...project, lastCompletedAt: lastCompletedAt.get(project.id) ?? null },
+      tasks: tasks.filter((t) => t.projectId === project.id).map(({ blockedBy, ...t }) => ({ ...t, blocked: blockedBy.length > 0 })),
+      milestones: milestones.filter((m) => m.projectId === project.id),
+      now,
+      timeZone,
+    });
+  }
+  return NextResponse.json(health);
+}
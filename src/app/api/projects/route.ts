@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { activitySource, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 
@@ -7,7 +8,7 @@ export async function GET() {
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const projects = await prisma.project.findMany({
-    where: { userId: session.user.id },
+    where: { userId: session.user.id, deletedAt: null },
     orderBy: { createdAt: "desc" },
   });
 
@@ -29,5 +30,15 @@ export async function POST(req: NextRequest) {
     },
   });
 
+  await recordActivity({
+    userId: session.user.id,
+    entityType: "project",
+    entityId: project.id,
+    projectId: project.id,
+    action: "create",
+    source: activitySource(req),
+    title: project.title,
+  });
+
   return NextResponse.json(project, { status: 201 });
 }
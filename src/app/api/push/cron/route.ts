@@ -1,10 +1,17 @@
 import webpush from "web-push";
 import { NextResponse } from "next/server";
 
+import { queueGoalNudges } from "@/lib/goal-store";
+import { DAY_REVIEW_SOURCE, queueDayReviews } from "@/lib/plan-store";
 import { prisma } from "@/lib/prisma";
+import { purgeExpiredTrash } from "@/lib/trash";
 
 export const dynamic = "force-dynamic";
 
+// Scheduled hourly in vercel.json. Reminders are sent on the first run at or
+// after their time, and the evening pushes are queued by local hour, so a
+// less frequent schedule would skip most timezones.
+
 export async function GET(request: Request) {
   // Initialise inside the handler so env vars are available at runtime, not build time
   webpush.setVapidDetails(
@@ -20,6 +27,18 @@ export async function GET(request: Request) {
   const now = new Date();
   const windowEnd = new Date(now.getTime() + 60_000); // 1 minute lookahead
 
+  // Evening review pushes and goal nudges are queued here so they go out in this same run
+  try {
+    await queueDayReviews(now);
+  } catch (err) {
+    console.error("[push/cron] Queueing day reviews failed:", err instanceof Error ? err.message : err);
+  }
+  try {
+    await queueGoalNudges(now);
+  } catch (err) {
+    console.error("[push/cron] Queueing goal nudges failed:", err instanceof Error ? err.message : err);
+  }
+
   const due = await prisma.scheduledNotification.findMany({
     where: { scheduledAt: { lte: windowEnd }, sentAt: null },
     include: { user: { include: { pushSubscriptions: true } } },
@@ -35,7 +54,12 @@ export async function GET(request: Request) {
         title: notification.title,
         body: notification.body,
         tag: `${notification.sourceType}-${notification.sourceId}`,
-        data: { url: "/", sourceId: notification.sourceId, sourceType: notification.sourceType }
+        data: {
+          // The day review opens straight into that day's plan
+          url: notification.sourceType === DAY_REVIEW_SOURCE ? `/?review=${notification.sourceId}` : "/",
+          sourceId: notification.sourceId,
+          sourceType: notification.sourceType,
+        }
       });
 
       await Promise.allSettled(
@@ -62,5 +86,14 @@ export async function GET(request: Request) {
   );
 
   const sent = results.filter((r) => r.status === "fulfilled").length;
-  return NextResponse.json({ ok: true, sent });
+
+  // Housekeeping rides along; purging an already empty window is cheap
+  let purged = 0;
+  try {
+    purged = await purgeExpiredTrash(now);
+  } catch (err) {
+    console.error("[push/cron] Trash purge failed:", err instanceof Error ? err.message : err);
+  }
+
+  return NextResponse.json({ ok: true, sent, purged });
 }
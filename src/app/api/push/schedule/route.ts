@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 
 import { requireCurrentUser } from "@/lib/current-user";
 import { prisma } from "@/lib/prisma";
+import { buildReminderRows } from "@/lib/reminders";
 
 export async function POST(request: Request) {
   try {
@@ -29,41 +30,7 @@ export async function POST(request: Request) {
       where: { userId: user.id, sourceId, sentAt: null }
     });
 
-    const now = new Date();
-    const notifications = [];
-
-    for (const windowMinutes of reminderWindows) {
-      const scheduledAt = new Date(dueDate.getTime() - windowMinutes * 60_000);
-      if (scheduledAt <= now) continue;
-
-      const minutesLabel =
-        windowMinutes < 60
-          ? `${windowMinutes} minutes`
-          : windowMinutes < 1440
-          ? `${windowMinutes / 60} hour${windowMinutes / 60 === 1 ? "" : "s"}`
-          : `${windowMinutes / 1440} day`;
-
-      notifications.push({
-        userId: user.id,
-        sourceId,
-        sourceType,
-        title: `Upcoming: ${title}`,
-        body: `Due in ${minutesLabel}`,
-        scheduledAt
-      });
-    }
-
-    // Also schedule an "at due time" notification
-    if (dueDate > now) {
-      notifications.push({
-        userId: user.id,
-        sourceId,
-        sourceType,
-        title: `Due now: ${title}`,
-        body: "This task is due.",
-        scheduledAt: dueDate
-      });
-    }
+    const notifications = buildReminderRows({ userId: user.id, sourceId, sourceType, title, dueAt: dueDate, reminderWindows });
 
     if (notifications.length > 0) {
       await prisma.scheduledNotification.createMany({ data: notifications });
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { SEARCH_SOURCES, searchSource, toPrefixQuery } from "@/lib/search";
+import type { SearchGroup, SearchType } from "@/lib/search";
+
+// GET /api/search?q=roadmap&personal=1&types=task,idea&space=professional&limit=5
+//   personal=1  include personal-space items (the client passes it when unlocked)
+//   types       restrict to some entity types
+//   space       only one space; feedback and calendar count as professional
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const params = req.nextUrl.searchParams;
+  const query = toPrefixQuery(params.get("q") ?? "");
+  if (!query) return NextResponse.json({ query: "", groups: [] });
+
+  const types = params.get("types")?.split(",").filter(Boolean) as SearchType[] | undefined;
+  const space = params.get("space") === "personal" || params.get("space") === "professional"
+    ? params.get("space") as "personal" | "professional"
+    : null;
+  const limit = Math.min(Math.max(Number(params.get("limit")) || 5, 1), 20);
+  const includePersonal = params.get("personal") === "1";
+
+  const sources = SEARCH_SOURCES.filter((s) => !types?.length || types.includes(s.type));
+
+  let groups: SearchGroup[];
+  try {
+    groups = await Promise.all(sources.map(async (source) => ({
+      type: source.type,
+      label: source.label,
+      results: await searchSource(source, { userId, query, includePersonal, space, limit }),
+    })));
+  } catch (err) {
+    console.error("[search] Query failed:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+
+  // Groups with the strongest hit come first
+  const ranked = groups
+    .filter((g) => g.results.length > 0)
+    .sort((a, b) => b.results[0].rank - a.results[0].rank);
+
+  return NextResponse.json({ query, groups: ranked });
+}
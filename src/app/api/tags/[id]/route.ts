@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isTagColor } from "@/lib/tags";
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const body = await req.json();
+
+  const tag = await prisma.tag.findUnique({ where: { id } });
+  if (!tag || tag.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : undefined;
+  if (name === "") return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  if (body.color !== undefined && !isTagColor(body.color)) {
+    return NextResponse.json({ error: "Color must be a #rrggbb value" }, { status: 400 });
+  }
+
+  if (name && name !== tag.name) {
+    const clash = await prisma.tag.findUnique({ where: { userId_name: { userId: session.user.id, name } } });
+    if (clash) return NextResponse.json({ error: "A tag with that name already exists" }, { status: 409 });
+  }
+
+  const updated = await prisma.tag.update({
+    where: { id },
+    data: {
+      ...(name !== undefined       && { name }),
+      ...(body.color !== undefined && { color: body.color }),
+    },
+  });
+  return NextResponse.json(updated);
+}
+
+// Deleting a tag only removes the links; tagged items are untouched
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const tag = await prisma.tag.findUnique({ where: { id } });
+  if (!tag || tag.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await prisma.tag.delete({ where: { id } });
+  return NextResponse.json({ ok: true });
+}
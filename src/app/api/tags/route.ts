@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isTagColor } from "@/lib/tags";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const tags = await prisma.tag.findMany({
+    where: { userId: session.user.id },
+    orderBy: { name: "asc" },
+    include: {
+      _count: {
+        select: {
+          tasks:         { where: { deletedAt: null } },
+          ideas:         { where: { deletedAt: null } },
+          articles:      { where: { deletedAt: null } },
+          feedbackItems: { where: { deletedAt: null } },
+        },
+      },
+    },
+  });
+  return NextResponse.json(tags);
+}
+
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json();
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  if (!isTagColor(body.color)) return NextResponse.json({ error: "Color must be a #rrggbb value" }, { status: 400 });
+
+  const existing = await prisma.tag.findUnique({ where: { userId_name: { userId: session.user.id, name } } });
+  if (existing) return NextResponse.json({ error: "A tag with that name already exists" }, { status: 409 });
+
+  const tag = await prisma.tag.create({
+    data: { userId: session.user.id, name, color: body.color },
+  });
+  return NextResponse.json(tag, { status: 201 });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseTemplateInput } from "@/lib/templates";
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const template = await prisma.taskTemplate.findUnique({ where: { id } });
+  if (!template || template.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const parsed = parseTemplateInput(await req.json(), true);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+  const { data } = parsed;
+
+  if (data.projectId) {
+    const project = await prisma.project.findUnique({ where: { id: data.projectId }, select: { userId: true, deletedAt: true } });
+    if (!project || project.userId !== session.user.id || project.deletedAt) return NextResponse.json({ error: "Project not found" }, { status: 400 });
+  }
+
+  if (data.name && data.name !== template.name) {
+    const clash = await prisma.taskTemplate.findUnique({ where: { userId_name: { userId: session.user.id, name: data.name } } });
+    if (clash) return NextResponse.json({ error: "A template with that name already exists" }, { status: 409 });
+  }
+
+  const updated = await prisma.taskTemplate.update({ where: { id }, data });
+  return NextResponse.json(updated);
+}
+
+// Templates skip the trash; tasks made from one are unaffected
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const template = await prisma.taskTemplate.findUnique({ where: { id } });
+  if (!template || template.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await prisma.taskTemplate.delete({ where: { id } });
+  return NextResponse.json({ ok: true });
+}
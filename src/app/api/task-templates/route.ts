@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseTemplateInput } from "@/lib/templates";
+import type { TemplateFields } from "@/lib/templates";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const templates = await prisma.taskTemplate.findMany({
+    where: { userId: session.user.id },
+    orderBy: { name: "asc" },
+  });
+  return NextResponse.json(templates);
+}
+
+// POST /api/task-templates  { name, title, notes?, checklist?, dueOffsetMinutes?, projectId? }
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = parseTemplateInput(await req.json(), false);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+  const data = parsed.data as TemplateFields;
+
+  if (data.projectId) {
+    const project = await prisma.project.findUnique({ where: { id: data.projectId }, select: { userId: true, deletedAt: true } });
+    if (!project || project.userId !== session.user.id || project.deletedAt) return NextResponse.json({ error: "Project not found" }, { status: 400 });
+  }
+
+  const existing = await prisma.taskTemplate.findUnique({ where: { userId_name: { userId: session.user.id, name: data.name } } });
+  if (existing) return NextResponse.json({ error: "A template with that name already exists" }, { status: 409 });
+
+  const template = await prisma.taskTemplate.create({ data: { ...data, userId: session.user.id } });
+  return NextResponse.json(template, { status: 201 });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TASK_FIELDS, activitySnapshot, activitySource, diffFields, recordActivity } from "@/lib/activity";
+import { auth } from "@/lib/auth";
+import { BLOCKED_BY_INCLUDE, withBlockedByIds } from "@/lib/dependencies";
+import { TAG_INCLUDE } from "@/lib/tags";
+import { prisma } from "@/lib/prisma";
+import { topSortKeys } from "@/lib/task-order";
+
+// Turns a task's inline checklist into real child tasks. Each item becomes a
+// subtask in the same project and space, keeping its done state; the
+// checklist is cleared in the same transaction.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const task = await prisma.task.findUnique({ where: { id } });
+  if (!task || task.userId !== session.user.id || task.deletedAt) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const items = Array.isArray(task.checklist)
+    ? (task.checklist as Array<{ text?: string; done?: boolean }>).filter((item) => item.text?.trim())
+    : [];
+  if (items.length === 0) {
+    return NextResponse.json({ error: "Task has no checklist items" }, { status: 400 });
+  }
+
+  const { subtasks, updated } = await prisma.$transaction(async (tx) => {
+    const subtasks = [];
+    // Subtasks keep the checklist's order, above the user's other tasks
+    const sortKeys = await topSortKeys(task.userId, items.length, tx);
+    for (const [index, item] of items.entries()) {
+      subtasks.push(
+        await tx.task.create({
+          data: {
+            userId: task.userId,
+            parentId: task.id,
+            projectId: task.projectId,
+            space: task.space,
+            title: item.text!.trim(),
+            completed: Boolean(item.done),
+            completedAt: item.done ? new Date() : null,
+            ...(item.done && { completions: { create: { userId: task.userId } } }),
+            sortKey: sortKeys[index],
+          },
+        })
+      );
+    }
+    const updated = await tx.task.update({ where: { id }, data: { checklist: [] }, include: { ...BLOCKED_BY_INCLUDE, ...TAG_INCLUDE } });
+    return { subtasks, updated };
+  });
+
+  const source = activitySource(req);
+  await recordActivity([
+    ...subtasks.map((sub) => ({
+      userId: task.userId, entityType: "task" as const, entityId: sub.id, projectId: sub.projectId, action: "create" as const, source, title: sub.title,
+    })),
+    {
+      userId: task.userId, entityType: "task", entityId: id, projectId: task.projectId, action: "update", source, title: task.title,
+      changes: diffFields(activitySnapshot(task), activitySnapshot(updated), TASK_FIELDS),
+    },
+  ]);
+
+  return NextResponse.json({ task: withBlockedByIds(updated), subtasks }, { status: 201 });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { BLOCKED_BY_INCLUDE, withBlockedByIds } from "@/lib/dependencies";
+import { TAG_INCLUDE } from "@/lib/tags";
+import { prisma } from "@/lib/prisma";
+import { keyBetween } from "@/lib/sort-key";
+
+// Moves a task in the manual order. Body: { afterId, beforeId } — the tasks it
+// should now sit after and before, either of them null at the ends of a list.
+// Only the moved task gets a new key; its neighbours keep theirs.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const body = await req.json();
+  const afterId = typeof body.afterId === "string" ? body.afterId : null;
+  const beforeId = typeof body.beforeId === "string" ? body.beforeId : null;
+  if (!afterId && !beforeId) {
+    return NextResponse.json({ error: "afterId or beforeId is required" }, { status: 400 });
+  }
+  if (afterId === id || beforeId === id) {
+    return NextResponse.json({ error: "A task can't be placed next to itself" }, { status: 400 });
+  }
+
+  const rows = await prisma.task.findMany({
+    where: { id: { in: [id, afterId, beforeId].filter((x): x is string => x !== null) }, userId: session.user.id, deletedAt: null },
+    select: { id: true, sortKey: true },
+  });
+  const keyOf = (taskId: string | null) => (taskId ? rows.find((t) => t.id === taskId)?.sortKey : null);
+  const afterKey = keyOf(afterId);
+  const beforeKey = keyOf(beforeId);
+  if (!rows.some((t) => t.id === id) || afterKey === undefined || beforeKey === undefined) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  // Neighbours out of order (or tied) mean the client's list is stale
+  if (afterKey !== null && beforeKey !== null && afterKey >= beforeKey) {
+    return NextResponse.json({ error: "The list has changed — reload and try again" }, { status: 409 });
+  }
+
+  // Empty keys predate manual ordering and sort first
+  const sortKey = keyBetween(afterKey || null, beforeKey || null);
+  const task = await prisma.task.update({
+    where: { id },
+    data: { sortKey },
+    include: { ...BLOCKED_BY_INCLUDE, ...TAG_INCLUDE },
+  });
+
+  console.log(`[tasks/reorder] Task ${id} sortKey=${sortKey}`);
+  return NextResponse.json(withBlockedByIds(task));
+}
@@ -1,10 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
+import { TASK_FIELDS, activitySnapshot, activitySource, diffFields, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { createGoogleCalendarEvent, updateGoogleCalendarEvent, deleteGoogleCalendarEvent } from "@/lib/calendar";
+import { BLOCKED_BY_INCLUDE, withBlockedByIds } from "@/lib/dependencies";
+import { refreshMilestoneEvents } from "@/lib/milestone-store";
+import { userTimeZone } from "@/lib/plan-store";
+import { advanceRecurrence, parseRRule } from "@/lib/recurrence";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
+import { notifyUnblocked } from "@/lib/task-effects";
+import { syncTimer } from "@/lib/time-tracking";
+import { trashTasks } from "@/lib/trash";
+import { isTaskPriority } from "@/lib/types";
 
 // Fields whose changes should trigger a calendar event sync
-const CALENDAR_FIELDS = new Set(["title", "notes", "dueAt", "completed", "inProgress", "projectId", "checklist"]);
+const CALENDAR_FIELDS = new Set(["title", "notes", "dueAt", "completed", "inProgress", "projectId", "checklist", "recurrence"]);
+
+// Walks up from the proposed parent; reaching the task itself means the move
+// would make the task its own ancestor.
+async function wouldCreateCycle(taskId: string, parentId: string) {
+  let current: string | null = parentId;
+  while (current) {
+    if (current === taskId) return true;
+    const row: { parentId: string | null } | null = await prisma.task.findUnique({ where: { id: current }, select: { parentId: true } });
+    current = row?.parentId ?? null;
+  }
+  return false;
+}
+
+// A dependency cycle exists if the task is already (transitively) a blocker of
+// any of its proposed blockers.
+async function wouldCreateDependencyCycle(taskId: string, blockerIds: string[]) {
+  const seen = new Set<string>();
+  let frontier = blockerIds;
+  while (frontier.length > 0) {
+    if (frontier.includes(taskId)) return true;
+    frontier.forEach((blockerId) => seen.add(blockerId));
+    const rows = await prisma.taskDependency.findMany({ where: { blockedId: { in: frontier } }, select: { blockerId: true } });
+    frontier = rows.map((r) => r.blockerId).filter((blockerId) => !seen.has(blockerId));
+  }
+  return false;
+}
 
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
@@ -13,25 +49,135 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
   const { id } = await params;
   const body = await req.json();
 
-  const task = await prisma.task.findUnique({ where: { id } });
-  if (!task || task.userId !== session.user.id) {
+  const task = await prisma.task.findUnique({ where: { id }, include: { ...BLOCKED_BY_INCLUDE, ...TAG_INCLUDE } });
+  if (!task || task.userId !== session.user.id || task.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
+  if (body.parentId) {
+    const parent = await prisma.task.findUnique({ where: { id: body.parentId }, select: { userId: true, deletedAt: true } });
+    if (!parent || parent.userId !== session.user.id || parent.deletedAt) {
+      return NextResponse.json({ error: "Parent task not found" }, { status: 400 });
+    }
+    if (await wouldCreateCycle(id, body.parentId)) {
+      return NextResponse.json({ error: "A task can't be nested under itself or its subtasks" }, { status: 400 });
+    }
+  }
+
+  let blockedByIds: string[] | undefined;
+  if (body.blockedByIds !== undefined) {
+    if (!Array.isArray(body.blockedByIds) || body.blockedByIds.some((b: unknown) => typeof b !== "string")) {
+      return NextResponse.json({ error: "blockedByIds must be an array of task ids" }, { status: 400 });
+    }
+    blockedByIds = [...new Set<string>(body.blockedByIds)];
+    if (blockedByIds.includes(id)) {
+      return NextResponse.json({ error: "A task can't block itself" }, { status: 400 });
+    }
+    const owned = await prisma.task.count({ where: { id: { in: blockedByIds }, userId: session.user.id, deletedAt: null } });
+    if (owned !== blockedByIds.length) {
+      return NextResponse.json({ error: "Blocking task not found" }, { status: 400 });
+    }
+    if (await wouldCreateDependencyCycle(id, blockedByIds)) {
+      return NextResponse.json({ error: "That dependency would create a cycle" }, { status: 400 });
+    }
+  }
+
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(session.user.id, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
+  if ("recurrence" in body) {
+    body.recurrence = typeof body.recurrence === "string" && body.recurrence.trim() ? body.recurrence.trim() : null;
+    if (body.recurrence && !parseRRule(body.recurrence)) {
+      return NextResponse.json({ error: "Invalid recurrence rule" }, { status: 400 });
+    }
+  }
+
+  // Completing one occurrence of a repeating task rolls it forward to the next
+  // occurrence instead of closing it. The last occurrence completes normally.
+  const recurrence = "recurrence" in body ? body.recurrence : task.recurrence;
+  const dueAt = "dueAt" in body ? (body.dueAt ? new Date(body.dueAt) : null) : task.dueAt;
+  // Occurrences are counted from the due date, so a repeating task needs one
+  if (("recurrence" in body || "dueAt" in body) && recurrence && !dueAt) {
+    return NextResponse.json({ error: "Recurring tasks need a due date" }, { status: 400 });
+  }
+  const completing = body.completed === true && !task.completed;
+  const next = completing && recurrence && dueAt
+    ? advanceRecurrence(recurrence, dueAt, await userTimeZone(session.user.id))
+    : null;
+
+  if (next) {
+    console.log(`[tasks/PATCH] Rolling recurring task ${id} forward to ${next.dueAt.toISOString()}`);
+    body.completed  = false;
+    body.inProgress = false;
+    body.dueAt      = next.dueAt.toISOString();
+    body.recurrence = next.recurrence;
+    if (Array.isArray(task.checklist)) {
+      body.checklist = (task.checklist as Array<{ done: boolean }>).map((item) => ({ ...item, done: false }));
+    }
+  }
+
+  // Reopening takes back the completion that closed the task
+  const reopening = body.completed === false && task.completed;
+  const closing = reopening
+    ? await prisma.taskCompletion.findFirst({ where: { taskId: id }, orderBy: { completedAt: "desc" }, select: { id: true } })
+    : null;
+
+  const completedAt = new Date();
   const updated = await prisma.task.update({
     where: { id },
     data: {
       ...(body.title      !== undefined && { title:      body.title }),
       ...(body.notes      !== undefined && { notes:      body.notes }),
       ...(body.completed  !== undefined && { completed:  body.completed }),
+      ...(completing                    && { completedAt, completions: { create: { userId: session.user.id, dueAt, completedAt } } }),
+      ...(reopening                     && { completedAt: null, ...(closing && { completions: { delete: { id: closing.id } } }) }),
       ...(body.inProgress !== undefined && { inProgress: body.inProgress }),
       ...(body.pinned     !== undefined && { pinned:     body.pinned }),
       ...("dueAt" in body              && { dueAt:      body.dueAt ? new Date(body.dueAt) : null }),
       ...(body.projectId  !== undefined && { projectId:  body.projectId }),
+      // Column ids belong to one project's board, so a move starts the task afresh there
+      ...((body.boardColumn !== undefined || (body.projectId !== undefined && body.projectId !== task.projectId)) && {
+        boardColumn: typeof body.boardColumn === "string" ? body.boardColumn : null,
+      }),
       ...(body.checklist  !== undefined && { checklist:  body.checklist }),
+      ...("recurrence" in body         && { recurrence: body.recurrence }),
+      ...("priority" in body           && { priority:   isTaskPriority(body.priority) ? body.priority : null }),
+      ...(body.parentId   !== undefined && { parentId:   body.parentId || null }),
+      ...(blockedByIds              && { blockedBy:  { deleteMany: {}, create: blockedByIds.map((blockerId) => ({ blockerId })) } }),
+      ...(tagIds                    && { tags:       { set: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
+    include: { ...BLOCKED_BY_INCLUDE, ...TAG_INCLUDE },
   });
 
+  await syncTimer(session.user.id, task, updated);
+
+  const changes = diffFields(activitySnapshot(task), activitySnapshot(updated), TASK_FIELDS);
+  if (changes) {
+    await recordActivity({
+      userId: session.user.id,
+      entityType: "task",
+      entityId: id,
+      // A task moved out of a project stays on that project's timeline
+      projectId: updated.projectId ?? task.projectId,
+      action: "update",
+      source: activitySource(req),
+      title: updated.title,
+      changes,
+    });
+  }
+
+  if (updated.completed && !task.completed) {
+    try {
+      await notifyUnblocked(session.user.id, updated);
+    } catch (err) {
+      console.error(`[tasks/PATCH] Unblock notification failed for task ${id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
   // Decide whether a calendar sync is needed
   const calendarRelevantChange = Object.keys(body).some((k) => CALENDAR_FIELDS.has(k));
 
@@ -63,6 +209,7 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
             checklist,
             completed:   updated.completed,
             inProgress:  updated.inProgress,
+            recurrence:  updated.recurrence,
           });
         } else {
           // Due date removed — delete the calendar event
@@ -81,6 +228,7 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
           checklist,
           completed:   updated.completed,
           inProgress:  updated.inProgress,
+          recurrence:  updated.recurrence,
         });
         if (externalId) {
           await prisma.task.update({ where: { id }, data: { calendarEventId: externalId } });
@@ -92,27 +240,33 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
     }
   }
 
-  return NextResponse.json(updated);
+  // Milestone events list their tasks with a done state
+  if (updated.completed !== task.completed || updated.title !== task.title) {
+    await refreshMilestoneEvents(session.user.id, [id]);
+  }
+
+  const result = withBlockedByIds(updated);
+  return NextResponse.json(next ? { ...result, _rolledForward: true } : result);
 }
 
-export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const { id } = await params;
   const task = await prisma.task.findUnique({ where: { id } });
-  if (!task || task.userId !== session.user.id) {
+  if (!task || task.userId !== session.user.id || task.deletedAt) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
 
-  if (task.calendarEventId) {
-    try {
-      await deleteGoogleCalendarEvent(session.user.id, task.calendarEventId);
-    } catch (err) {
-      console.error(`[tasks/DELETE] Calendar event delete failed:`, err instanceof Error ? err.message : err);
-    }
-  }
-
-  await prisma.task.delete({ where: { id } });
-  return NextResponse.json({ ok: true });
+  // Goes to the trash together with its subtasks; see lib/trash
+  const userId = session.user.id;
+  const { trashed, calendar } = await trashTasks(userId, [id]);
+  const trashedIds = trashed.map((t) => t.id);
+  console.log(`[tasks/DELETE] Trashed task ${id} with ${trashedIds.length - 1} subtask(s)`);
+  const source = activitySource(req);
+  await recordActivity(trashed.map((t) => ({
+    userId, entityType: "task" as const, entityId: t.id, projectId: t.projectId, action: "delete" as const, source, title: t.title,
+  })));
+  return NextResponse.json({ ok: true, trashedIds, calendar });
 }
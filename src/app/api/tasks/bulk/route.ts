@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { TASK_FIELDS, activitySnapshot, activitySource, diffFields, recordActivity } from "@/lib/activity";
+import type { ActivityInput } from "@/lib/activity";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { BLOCKED_BY_INCLUDE, withBlockedByIds } from "@/lib/dependencies";
+import { refreshMilestoneEvents } from "@/lib/milestone-store";
+import { userTimeZone } from "@/lib/plan-store";
+import { advanceRecurrence } from "@/lib/recurrence";
+import { buildReminderRows } from "@/lib/reminders";
+import { TAG_INCLUDE } from "@/lib/tags";
+import { notifyUnblocked, syncTaskEvents } from "@/lib/task-effects";
+import { stopTimers } from "@/lib/time-tracking";
+import { trashTasks } from "@/lib/trash";
+import type { CalendarOutcome } from "@/lib/trash";
+
+const ACTIONS = ["complete", "reschedule", "move", "space", "delete"] as const;
+type BulkAction = (typeof ACTIONS)[number];
+
+const MAX_IDS = 500;
+
+// POST /api/tasks/bulk
+//   { ids, action: "complete" }
+//   { ids, action: "reschedule", dueAt: ISO | null, reminderWindows?: number[] }
+//   { ids, action: "move", projectId: string | null }
+//   { ids, action: "space", space: "personal" | "professional" }
+//   { ids, action: "delete" }
+// Database changes run in one transaction; Google Calendar follows in batched
+// requests afterwards and never fails the call.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const body = await req.json();
+  const action = body.action as BulkAction;
+  if (!ACTIONS.includes(action)) return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+
+  const ids = Array.isArray(body.ids) ? [...new Set(body.ids.filter((id: unknown): id is string => typeof id === "string"))] as string[] : [];
+  if (ids.length === 0) return NextResponse.json({ error: "No tasks selected" }, { status: 400 });
+  if (ids.length > MAX_IDS) return NextResponse.json({ error: `At most ${MAX_IDS} tasks at a time` }, { status: 400 });
+
+  const tasks = await prisma.task.findMany({ where: { id: { in: ids }, userId, deletedAt: null } });
+  if (tasks.length !== ids.length) return NextResponse.json({ error: "Some tasks were not found" }, { status: 404 });
+
+  console.log(`[tasks/bulk] ${action} on ${ids.length} task(s) for user=${userId}`);
+  const source = activitySource(req);
+
+  // ── Delete ────────────────────────────────────────────────────────────────
+  if (action === "delete") {
+    // Trashed, not purged — restorable from the trash view
+    const { trashed, calendar } = await trashTasks(userId, ids);
+    await recordActivity(trashed.map((t) => ({
+      userId, entityType: "task" as const, entityId: t.id, projectId: t.projectId, action: "delete" as const, source, title: t.title,
+    })));
+    return NextResponse.json({ ok: true, action, deletedIds: trashed.map((t) => t.id), calendar });
+  }
+
+  // ── Updates ───────────────────────────────────────────────────────────────
+  const writes: Prisma.PrismaPromise<unknown>[] = [];
+  const completedNow: typeof tasks = [];
+  const rescheduled: Array<{ id: string; title: string; dueAt: Date }> = [];
+  let calendarIds: string[] = ids;
+
+  if (action === "complete") {
+    const open = tasks.filter((t) => !t.completed);
+    const closing: string[] = [];
+    const timeZone = await userTimeZone(userId);
+    const completedAt = new Date();
+    for (const task of open) {
+      // Same rule as a single PATCH: repeating tasks roll to their next occurrence
+      const next = task.recurrence && task.dueAt ? advanceRecurrence(task.recurrence, task.dueAt, timeZone) : null;
+      if (!next) {
+        closing.push(task.id);
+        completedNow.push(task);
+        continue;
+      }
+      rescheduled.push({ id: task.id, title: task.title, dueAt: next.dueAt });
+      writes.push(prisma.task.update({
+        where: { id: task.id },
+        data: {
+          completed: false,
+          completedAt,
+          inProgress: false,
+          dueAt: next.dueAt,
+          recurrence: next.recurrence,
+          ...(Array.isArray(task.checklist) && {
+            checklist: (task.checklist as Array<{ done: boolean }>).map((item) => ({ ...item, done: false })),
+          }),
+        },
+      }));
+    }
+    writes.push(prisma.task.updateMany({ where: { id: { in: closing } }, data: { completed: true, completedAt, inProgress: false } }));
+    // One row per occurrence, rolled or closed, with the due date it had
+    writes.push(prisma.taskCompletion.createMany({ data: open.map((t) => ({ userId, taskId: t.id, dueAt: t.dueAt, completedAt })) }));
+    writes.push(prisma.scheduledNotification.deleteMany({ where: { userId, sourceId: { in: ids }, sentAt: null } }));
+    writes.push(stopTimers(open.map((t) => t.id)));
+    calendarIds = open.map((t) => t.id);
+  }
+
+  if (action === "reschedule") {
+    if (!("dueAt" in body)) return NextResponse.json({ error: "dueAt is required" }, { status: 400 });
+    const dueAt = body.dueAt ? new Date(body.dueAt) : null;
+    if (dueAt && Number.isNaN(dueAt.getTime())) return NextResponse.json({ error: "Invalid dueAt" }, { status: 400 });
+
+    // Repeating tasks can't exist without a due date
+    writes.push(prisma.task.updateMany({ where: { id: { in: ids } }, data: { dueAt, ...(!dueAt && { recurrence: null }) } }));
+    writes.push(prisma.scheduledNotification.deleteMany({ where: { userId, sourceId: { in: ids }, sentAt: null } }));
+    if (dueAt) rescheduled.push(...tasks.filter((t) => !t.completed).map((t) => ({ id: t.id, title: t.title, dueAt })));
+  }
+
+  if (action === "move") {
+    const projectId = typeof body.projectId === "string" && body.projectId ? body.projectId : null;
+    if (projectId) {
+      const project = await prisma.project.findFirst({ where: { id: projectId, userId, deletedAt: null }, select: { id: true } });
+      if (!project) return NextResponse.json({ error: "Project not found" }, { status: 400 });
+    }
+    writes.push(prisma.task.updateMany({ where: { id: { in: ids } }, data: { projectId, boardColumn: null } }));
+    // Only the event description mentions the project
+    calendarIds = tasks.filter((t) => t.calendarEventId).map((t) => t.id);
+  }
+
+  if (action === "space") {
+    if (body.space !== "personal" && body.space !== "professional") {
+      return NextResponse.json({ error: "Space must be personal or professional" }, { status: 400 });
+    }
+    writes.push(prisma.task.updateMany({ where: { id: { in: ids } }, data: { space: body.space } }));
+    calendarIds = [];
+  }
+
+  // Reminders for the new due dates, built with the caller's reminder windows
+  if (rescheduled.length > 0 && Array.isArray(body.reminderWindows)) {
+    const reminderWindows = body.reminderWindows.filter((m: unknown): m is number => typeof m === "number" && m > 0);
+    const rows = rescheduled.flatMap((t) => buildReminderRows({ userId, sourceId: t.id, sourceType: "task", title: t.title, dueAt: t.dueAt, reminderWindows }));
+    if (rows.length > 0) writes.push(prisma.scheduledNotification.createMany({ data: rows }));
+  }
+
+  await prisma.$transaction(writes);
+
+  const notified = new Set<string>();
+  for (const task of completedNow) {
+    try {
+      await notifyUnblocked(userId, task, notified);
+    } catch (err) {
+      console.error(`[tasks/bulk] Unblock notification failed for task ${task.id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  await refreshMilestoneEvents(userId, completedNow.map((t) => t.id));
+
+  let calendar: CalendarOutcome = { synced: 0, failed: 0 };
+  if (calendarIds.length > 0) {
+    const toSync = await prisma.task.findMany({
+      where: { id: { in: calendarIds } },
+      include: { project: { select: { title: true } } },
+    });
+    try {
+      calendar = await syncTaskEvents(userId, toSync);
+    } catch (err) {
+      // Best-effort — the tasks are already saved
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[tasks/bulk] Calendar sync failed:`, message);
+      calendar = { error: message };
+    }
+  }
+
+  const updated = await prisma.task.findMany({
+    where: { id: { in: ids } },
+    include: { ...BLOCKED_BY_INCLUDE, ...TAG_INCLUDE },
+  });
+
+  // One entry per task that actually changed (completing an already done task doesn't)
+  const before = new Map(tasks.map((t) => [t.id, t]));
+  const entries: ActivityInput[] = [];
+  for (const task of updated) {
+    const prev = before.get(task.id);
+    const changes = prev && diffFields(activitySnapshot(prev), activitySnapshot(task), TASK_FIELDS);
+    if (!changes) continue;
+    entries.push({ userId, entityType: "task", entityId: task.id, projectId: task.projectId ?? prev.projectId, action: "update", source, title: task.title, changes });
+  }
+  await recordActivity(entries);
+
+  return NextResponse.json({
+    ok: true,
+    action,
+    tasks: updated.map(withBlockedByIds),
+    rolledForwardIds: action === "complete" ? rescheduled.map((t) => t.id) : [],
+    calendar,
+  });
+}
@@ -1,91 +1,109 @@
 import { NextRequest, NextResponse } from "next/server";
+import { activitySource, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { createGoogleCalendarEvent } from "@/lib/calendar";
+import { BLOCKED_BY_INCLUDE, withBlockedByIds } from "@/lib/dependencies";
+import { parseRRule } from "@/lib/recurrence";
+import { ListQueryError, pageArgs, taskListQuery, toPage } from "@/lib/list-query";
+import { TAG_INCLUDE, resolveTagIds } from "@/lib/tags";
+import { createTaskEvent } from "@/lib/task-effects";
+import { topSortKey } from "@/lib/task-order";
+import { isTaskPriority } from "@/lib/types";
 
-export async function GET() {
+// GET /api/tasks?status&dueFrom&dueTo&overdue&project&space&pinned&q&tag&sort&limit&cursor
+// See lib/list-query for the parameters. Without `limit` the whole list comes
+// back as an array; with it, one page as { items, nextCursor }.
+export async function GET(req: NextRequest) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+  let query, page;
+  try {
+    query = taskListQuery(req.nextUrl.searchParams);
+    page = pageArgs(req.nextUrl.searchParams);
+  } catch (err) {
+    if (err instanceof ListQueryError) return NextResponse.json({ error: err.message }, { status: 400 });
+    throw err;
+  }
+
   const tasks = await prisma.task.findMany({
-    where: { userId: session.user.id },
-    orderBy: [{ pinned: "desc" }, { createdAt: "desc" }],
+    // Tasks of a project in the trash come back with it
+    where: { ...query.where, userId: session.user.id, deletedAt: null, NOT: { project: { is: { deletedAt: { not: null } } } } },
+    orderBy: query.orderBy,
+    include: { ...BLOCKED_BY_INCLUDE, ...TAG_INCLUDE },
+    ...page,
   });
 
-  return NextResponse.json(tasks);
+  const rows = tasks.map(withBlockedByIds);
+  return NextResponse.json(page ? toPage(rows, page) : rows);
 }
 
 export async function POST(req: NextRequest) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const userId = session.user.id;
 
   const body = await req.json();
   const dueAt = body.dueAt ? new Date(body.dueAt) : null;
 
-  console.log(`[tasks/POST] Creating task for user=${session.user.id} title="${body.title}" dueAt=${dueAt?.toISOString() ?? "none"}`);
+  const recurrence = typeof body.recurrence === "string" && body.recurrence.trim() ? body.recurrence.trim() : null;
+  if (recurrence && !parseRRule(recurrence)) {
+    return NextResponse.json({ error: "Invalid recurrence rule" }, { status: 400 });
+  }
+  if (recurrence && !dueAt) {
+    return NextResponse.json({ error: "Recurring tasks need a due date" }, { status: 400 });
+  }
 
-  const task = await prisma.task.create({
+  // Subtasks inherit their parent's project and space unless told otherwise
+  let parent: { projectId: string | null; space: string } | null = null;
+  if (body.parentId) {
+    parent = await prisma.task.findFirst({
+      where: { id: body.parentId, userId, deletedAt: null },
+      select: { projectId: true, space: true },
+    });
+    if (!parent) return NextResponse.json({ error: "Parent task not found" }, { status: 400 });
+  }
+
+  let tagIds: string[] | undefined;
+  if (body.tagIds !== undefined) {
+    const resolved = await resolveTagIds(userId, body.tagIds);
+    if (!resolved) return NextResponse.json({ error: "Unknown tag" }, { status: 400 });
+    tagIds = resolved;
+  }
+
+  console.log(`[tasks/POST] Creating task for user=${userId} title="${body.title}" dueAt=${dueAt?.toISOString() ?? "none"}`);
+
+  const task = await prisma.$transaction(async (tx) => tx.task.create({
     data: {
-      userId: session.user.id,
+      userId,
       title: body.title,
       notes: body.notes ?? "",
       dueAt,
-      projectId: body.projectId ?? null,
-      space: body.space === "personal" ? "personal" : "professional",
+      recurrence,
+      priority: isTaskPriority(body.priority) ? body.priority : null,
+      // Tasks made from a template arrive with their checklist
+      ...(Array.isArray(body.checklist) && body.checklist.length > 0 && { checklist: body.checklist }),
+      parentId: body.parentId ?? null,
+      projectId: body.projectId !== undefined ? body.projectId : parent?.projectId ?? null,
+      space: (body.space ?? parent?.space) === "personal" ? "personal" : "professional",
+      sortKey: await topSortKey(userId, tx),
+      ...(tagIds && { tags: { connect: tagIds.map((tagId) => ({ id: tagId })) } }),
     },
-  });
+    include: TAG_INCLUDE,
+  }));
 
   console.log(`[tasks/POST] Task created id=${task.id}`);
+  await recordActivity({
+    userId,
+    entityType: "task",
+    entityId: task.id,
+    projectId: task.projectId,
+    action: "create",
+    source: activitySource(req),
+    title: task.title,
+  });
 
-  if (!dueAt) {
-    console.log(`[tasks/POST] No dueAt — skipping calendar sync`);
-    return NextResponse.json({ ...task, _calendarStatus: "skipped_no_due_date" }, { status: 201 });
-  }
-
-  let calendarStatus = "not_attempted";
-  try {
-    const googleAccount = await prisma.account.findFirst({
-      where: { userId: session.user.id, provider: "google" },
-      select: { id: true, refresh_token: true, scope: true },
-    });
-
-    if (!googleAccount) {
-      console.warn(`[tasks/POST] No Google account linked — skipping calendar sync`);
-      calendarStatus = "skipped_no_google_account";
-    } else {
-      // Resolve project name if task belongs to a project
-      let projectName: string | null = null;
-      if (task.projectId) {
-        const project = await prisma.project.findUnique({ where: { id: task.projectId }, select: { title: true } });
-        projectName = project?.title ?? null;
-      }
-
-      const end = new Date(dueAt.getTime() + 30 * 60 * 1000);
-      const { externalId } = await createGoogleCalendarEvent(session.user.id, {
-        title: task.title,
-        startAt: dueAt,
-        endAt: end,
-        notes: task.notes || null,
-        projectName,
-        checklist: null,
-        completed: false,
-        inProgress: false,
-      });
-
-      console.log(`[tasks/POST] Calendar event created externalId=${externalId}`);
-
-      if (externalId) {
-        await prisma.task.update({ where: { id: task.id }, data: { calendarEventId: externalId } });
-        task.calendarEventId = externalId;
-        calendarStatus = "synced";
-      }
-    }
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    console.error(`[tasks/POST] Calendar sync failed: ${message}`);
-    calendarStatus = `error: ${message}`;
-  }
-
+  const calendarStatus = await createTaskEvent(userId, task, "tasks/POST");
   console.log(`[tasks/POST] Done calendarStatus=${calendarStatus}`);
   return NextResponse.json({ ...task, _calendarStatus: calendarStatus }, { status: 201 });
 }
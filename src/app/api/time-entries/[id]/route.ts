@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// PATCH /api/time-entries/:id  { startedAt?, endedAt? }
+// endedAt stays null on a running entry unless the edit sets it; null keeps it
+// running, and a stopped entry can't be reopened.
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const body = await req.json();
+
+  const entry = await prisma.timeEntry.findUnique({ where: { id } });
+  if (!entry || entry.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const startedAt = body.startedAt !== undefined ? new Date(body.startedAt) : entry.startedAt;
+  const endedAt = body.endedAt === undefined ? entry.endedAt : body.endedAt === null ? null : new Date(body.endedAt);
+  // Entries run only while their task's timer does (see lib/time-tracking)
+  if (!endedAt && entry.endedAt) {
+    return NextResponse.json({ error: "A stopped entry can't be reopened; start the task's timer instead" }, { status: 400 });
+  }
+  if (Number.isNaN(startedAt.getTime()) || (endedAt && Number.isNaN(endedAt.getTime()))) {
+    return NextResponse.json({ error: "Invalid time" }, { status: 400 });
+  }
+  if (endedAt && endedAt <= startedAt) return NextResponse.json({ error: "The end must be after the start" }, { status: 400 });
+  if (!endedAt && startedAt.getTime() > Date.now()) {
+    return NextResponse.json({ error: "A running timer can't start in the future" }, { status: 400 });
+  }
+
+  const updated = await prisma.timeEntry.update({
+    where: { id },
+    data: { startedAt, endedAt },
+    select: { id: true, taskId: true, startedAt: true, endedAt: true },
+  });
+  return NextResponse.json(updated);
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const entry = await prisma.timeEntry.findUnique({ where: { id } });
+  if (!entry || entry.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await prisma.timeEntry.delete({ where: { id } });
+  return NextResponse.json({ ok: true });
+}
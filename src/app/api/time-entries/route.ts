@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+const ENTRY_SELECT = { id: true, taskId: true, startedAt: true, endedAt: true } as const;
+
+// GET /api/time-entries?taskId=…                    one task's entries
+// GET /api/time-entries?from=ISO&to=ISO&personal=1  entries overlapping a range,
+//                                                   with task and project names
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const params = req.nextUrl.searchParams;
+  const taskId = params.get("taskId");
+  if (taskId) {
+    const entries = await prisma.timeEntry.findMany({
+      where: { userId: session.user.id, taskId },
+      orderBy: { startedAt: "desc" },
+      select: ENTRY_SELECT,
+    });
+    return NextResponse.json({ entries });
+  }
+
+  const from = new Date(params.get("from") ?? "");
+  const to = new Date(params.get("to") ?? "");
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    return NextResponse.json({ error: "taskId, or a from/to range, is required" }, { status: 400 });
+  }
+
+  // Personal-space tasks only when the client says the space is unlocked
+  const personal = params.get("personal") === "1";
+  const entries = await prisma.timeEntry.findMany({
+    where: {
+      userId: session.user.id,
+      startedAt: { lt: to },
+      OR: [{ endedAt: null }, { endedAt: { gt: from } }],
+      task: { deletedAt: null, ...(!personal && { space: { not: "personal" } }) },
+    },
+    orderBy: { startedAt: "asc" },
+    select: { ...ENTRY_SELECT, task: { select: { title: true, projectId: true, project: { select: { title: true } } } } },
+  });
+  return NextResponse.json({ entries });
+}
+
+// POST /api/time-entries  { taskId, startedAt, endedAt }
+// A manual entry for time that wasn't tracked with the timer.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json();
+  const task = typeof body.taskId === "string"
+    ? await prisma.task.findUnique({ where: { id: body.taskId }, select: { userId: true, deletedAt: true } })
+    : null;
+  if (!task || task.userId !== session.user.id || task.deletedAt) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const startedAt = new Date(body.startedAt);
+  const endedAt = new Date(body.endedAt);
+  if (Number.isNaN(startedAt.getTime()) || Number.isNaN(endedAt.getTime())) {
+    return NextResponse.json({ error: "Start and end times are required" }, { status: 400 });
+  }
+  if (endedAt <= startedAt) return NextResponse.json({ error: "The end must be after the start" }, { status: 400 });
+
+  const entry = await prisma.timeEntry.create({
+    data: { userId: session.user.id, taskId: body.taskId, startedAt, endedAt },
+    select: ENTRY_SELECT,
+  });
+  return NextResponse.json(entry, { status: 201 });
+}
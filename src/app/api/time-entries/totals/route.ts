@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { trackedTotals } from "@/lib/time-tracking";
+
+// GET /api/time-entries/totals → { totals: { [taskId]: ms }, projects: { [projectId]: ms } }
+// Running timers count up to the time of the request.
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  return NextResponse.json(await trackedTotals(session.user.id));
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { purgeItems } from "@/lib/trash";
+import { isTrashType } from "@/lib/types";
+import type { TrashRef } from "@/lib/types";
+
+// POST /api/trash/purge  { items?: [{ type, id }] }
+// Permanently deletes the given trashed items; without `items` empties the
+// whole trash. Live items are never touched.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  let items: TrashRef[] | null = null;
+  if (body.items !== undefined) {
+    if (!Array.isArray(body.items)) return NextResponse.json({ error: "items must be an array" }, { status: 400 });
+    items = body.items.filter((item: { type?: unknown; id?: unknown }) => isTrashType(item?.type) && typeof item.id === "string");
+  }
+
+  const purged = await purgeItems(session.user.id, items);
+  console.log(`[trash/purge] Purged ${purged} item(s) for user=${session.user.id}`);
+  return NextResponse.json({ ok: true, purged });
+}
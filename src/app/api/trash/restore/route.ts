@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { activitySource, feedbackTitle, recordActivity } from "@/lib/activity";
+import { auth } from "@/lib/auth";
+import { restoreItems } from "@/lib/trash";
+import { isTrashType } from "@/lib/types";
+import type { TrashRef } from "@/lib/types";
+
+// POST /api/trash/restore  { items: [{ type, id }], reminderWindows?: number[] }
+// Restored tasks get their reminders rebuilt with the caller's windows and
+// their Google events re-created.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json();
+  const items: TrashRef[] = Array.isArray(body.items)
+    ? body.items.filter((item: { type?: unknown; id?: unknown }) => isTrashType(item?.type) && typeof item.id === "string")
+    : [];
+  if (items.length === 0) return NextResponse.json({ error: "Nothing to restore" }, { status: 400 });
+
+  const reminderWindows = Array.isArray(body.reminderWindows)
+    ? body.reminderWindows.filter((m: unknown): m is number => typeof m === "number" && m > 0)
+    : [];
+
+  console.log(`[trash/restore] Restoring ${items.length} item(s) for user=${session.user.id}`);
+  const userId = session.user.id;
+  const restored = await restoreItems(userId, items, reminderWindows);
+
+  const source = activitySource(req);
+  const action = "restore" as const;
+  await recordActivity([
+    ...restored.tasks.map((t) => ({ userId, entityType: "task" as const, entityId: t.id, projectId: t.projectId, action, source, title: t.title })),
+    ...restored.projects.map((p) => ({ userId, entityType: "project" as const, entityId: p.id, projectId: p.id, action, source, title: p.title })),
+    ...restored.ideas.map((i) => ({ userId, entityType: "idea" as const, entityId: i.id, action, source, title: i.title })),
+    ...restored.articles.map((a) => ({ userId, entityType: "article" as const, entityId: a.id, action, source, title: a.title })),
+    ...restored.feedback.map((f) => ({ userId, entityType: "feedback" as const, entityId: f.id, action, source, title: feedbackTitle(f) })),
+  ]);
+  return NextResponse.json({ ok: true, ...restored });
+}
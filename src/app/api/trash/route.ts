@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listTrash } from "@/lib/trash";
+
+// GET /api/trash?personal=1
+// Everything in the trash, newest first. Personal-space items are only listed
+// when the client says the space is unlocked (same contract as /api/search).
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const items = await listTrash(session.user.id, req.nextUrl.searchParams.get("personal") === "1");
+  return NextResponse.json({ items });
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import Anthropic from "@anthropic-ai/sdk";
+import { feedbackTitle, recordActivity } from "@/lib/activity";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { parseQuickAdd } from "@/lib/quick-add";
+import { buildReminderRows } from "@/lib/reminders";
+import { createTaskEvent } from "@/lib/task-effects";
+import { topSortKey } from "@/lib/task-order";
 
 const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
 
@@ -30,45 +35,89 @@ Rules:
 - Keep title concise (the core action/name). Put extra detail in notes.
 - Return ONLY the JSON object. No explanation, no markdown.`;
 
+// Spoken preambles the offline parser should drop from the title
+const COMMAND_PREFIX = /^(please\s+)?(remind me to|add (a )?task( to)?|create (a )?task( to)?|new task)\s+/i;
+
+// A spoken task gets what a typed one does: its Google event as in POST
+// /api/tasks, and the reminders the client would otherwise schedule.
+async function finishTask(userId: string, task: Parameters<typeof createTaskEvent>[1], reminderWindows: number[]) {
+  await recordActivity({ userId, entityType: "task", entityId: task.id, projectId: task.projectId, action: "create", source: "voice", title: task.title });
+  if (!task.dueAt) return;
+  const rows = buildReminderRows({ userId, sourceId: task.id, sourceType: "task", title: task.title, dueAt: task.dueAt, reminderWindows });
+  if (rows.length > 0) await prisma.scheduledNotification.createMany({ data: rows });
+  await createTaskEvent(userId, task, "voice");
+}
+
+// When the model is unavailable or answers with something unusable, fall back
+// to the offline quick-add parser and file the text as a task.
+async function createFallbackTask(userId: string, text: string, timezoneOffset: number | undefined) {
+  const [projects, tags] = await Promise.all([
+    prisma.project.findMany({ where: { userId, deletedAt: null }, select: { id: true, title: true } }),
+    prisma.tag.findMany({ where: { userId }, select: { id: true, name: true } }),
+  ]);
+
+  const parsed = parseQuickAdd(text.trim().replace(COMMAND_PREFIX, ""), { projects, timezoneOffset });
+  const tagIds = tags.filter((t) => parsed.tags.some((name) => name.toLowerCase() === t.name.toLowerCase())).map((t) => t.id);
+
+  return prisma.$transaction(async (tx) => tx.task.create({
+    data: {
+      userId,
+      title: parsed.title || text.trim(),
+      dueAt: parsed.dueAt,
+      projectId: parsed.projectId,
+      priority: parsed.priority,
+      space: parsed.space ?? "professional",
+      sortKey: await topSortKey(userId, tx),
+      ...(tagIds.length > 0 && { tags: { connect: tagIds.map((id) => ({ id })) } }),
+    },
+  }));
+}
+
 export async function POST(req: NextRequest) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
-  const { text } = await req.json();
+  const { text, tzOffset, reminderWindows: windows } = await req.json();
   if (!text?.trim()) return NextResponse.json({ error: "No text provided" }, { status: 400 });
+  const reminderWindows: number[] = Array.isArray(windows)
+    ? windows.filter((m: unknown): m is number => typeof m === "number" && m > 0)
+    : [];
 
+  const userId = session.user.id;
   const now = new Date().toISOString();
   const userMessage = `Current date/time: ${now}\n\nUser said: "${text}"`;
 
-  const message = await client.messages.create({
-    model: "claude-3-5-haiku-20241022",
-    max_tokens: 512,
-    system: SYSTEM,
-    messages: [{ role: "user", content: userMessage }],
-  });
-
-  const raw = message.content[0].type === "text" ? message.content[0].text.trim() : "";
-
   let parsed: Record<string, unknown>;
   try {
+    const message = await client.messages.create({
+      model: "claude-3-5-haiku-20241022",
+      max_tokens: 512,
+      system: SYSTEM,
+      messages: [{ role: "user", content: userMessage }],
+    });
+    const raw = message.content[0].type === "text" ? message.content[0].text.trim() : "";
     parsed = JSON.parse(raw);
-  } catch {
-    return NextResponse.json({ error: "Failed to parse intent", raw }, { status: 422 });
+  } catch (err) {
+    console.error("[voice] Intent parsing failed, using offline parser:", err instanceof Error ? err.message : err);
+    const task = await createFallbackTask(userId, text, typeof tzOffset === "number" ? tzOffset : undefined);
+    await finishTask(userId, task, reminderWindows);
+    return NextResponse.json({ ok: true, type: "task", entity: task, fallback: true });
   }
 
-  const userId = session.user.id;
   const type = parsed.type as string;
 
   if (type === "task") {
-    const task = await prisma.task.create({
+    const task = await prisma.$transaction(async (tx) => tx.task.create({
       data: {
         userId,
         title: String(parsed.title || "Untitled task"),
         notes: String(parsed.notes || ""),
         dueAt: parsed.dueAt ? new Date(parsed.dueAt as string) : null,
         projectId: parsed.projectId ? String(parsed.projectId) : null,
+        sortKey: await topSortKey(userId, tx),
       },
-    });
+    }));
+    await finishTask(userId, task, reminderWindows);
     return NextResponse.json({ ok: true, type: "task", entity: task });
   }
 
@@ -81,6 +130,7 @@ export async function POST(req: NextRequest) {
         status: String(parsed.status || "planning"),
       },
     });
+    await recordActivity({ userId, entityType: "project", entityId: project.id, projectId: project.id, action: "create", source: "voice", title: project.title });
     return NextResponse.json({ ok: true, type: "project", entity: project });
   }
 
@@ -92,6 +142,7 @@ export async function POST(req: NextRequest) {
         notes: String(parsed.notes || ""),
       },
     });
+    await recordActivity({ userId, entityType: "idea", entityId: idea.id, action: "create", source: "voice", title: idea.title });
     return NextResponse.json({ ok: true, type: "idea", entity: idea });
   }
 
@@ -104,6 +155,7 @@ export async function POST(req: NextRequest) {
         dueAt: parsed.dueAt ? new Date(parsed.dueAt as string) : null,
       },
     });
+    await recordActivity({ userId, entityType: "feedback", entityId: item.id, action: "create", source: "voice", title: feedbackTitle(item) });
     return NextResponse.json({ ok: true, type: "feedback", entity: item });
   }
 
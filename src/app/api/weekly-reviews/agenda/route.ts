@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { dayKey, shiftDayKey, todayKey } from "@/lib/day-plan";
+import { userTimeZone } from "@/lib/plan-store";
+import { FEEDBACK_NEW, weekStartKey } from "@/lib/weekly-review";
+import type { WeeklyReviewAgenda } from "@/lib/weekly-review";
+
+const MAX_ITEMS = 100;
+
+// Covers every zone's offset from UTC; events are then kept by local date
+const ZONE_SLACK_MS = 14 * 60 * 60 * 1000;
+
+// GET /api/weekly-reviews/agenda?personal=1  everything the weekly review walks
+// through. The ideas inbox is what was captured since the last finished review.
+//   personal=1  include personal-space items (the client passes it when unlocked)
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const space = req.nextUrl.searchParams.get("personal") === "1" ? {} : { space: { not: "personal" } };
+  const timeZone = await userTimeZone(userId);
+  const weekStart = weekStartKey(todayKey(timeZone));
+  const nextWeekStart = shiftDayKey(weekStart, 7);
+  const nextWeekEnd = shiftDayKey(nextWeekStart, 7);
+
+  const lastReview = await prisma.weeklyReview.findFirst({
+    where: { userId },
+    orderBy: { completedAt: "desc" },
+    select: { completedAt: true },
+  });
+
+  const [ideas, feedback, projects, overdue, articles, events] = await Promise.all([
+    prisma.idea.findMany({
+      where: { userId, deletedAt: null, ...space, ...(lastReview && { createdAt: { gt: lastReview.completedAt } }) },
+      orderBy: { createdAt: "asc" },
+      take: MAX_ITEMS,
+      select: { id: true, title: true, notes: true, space: true, createdAt: true },
+    }),
+    prisma.feedbackItem.findMany({
+      where: { userId, deletedAt: null, status: FEEDBACK_NEW },
+      orderBy: { receivedAt: "asc" },
+      take: MAX_ITEMS,
+      select: { id: true, from: true, message: true, receivedAt: true, dueAt: true },
+    }),
+    prisma.project.findMany({
+      where: { userId, deletedAt: null, status: "active", ...space },
+      orderBy: { title: "asc" },
+      select: { id: true, title: true, space: true },
+    }),
+    prisma.task.findMany({
+      where: { userId, deletedAt: null, completed: false, dueAt: { lt: new Date() }, ...space },
+      orderBy: { dueAt: "asc" },
+      take: MAX_ITEMS,
+      select: { id: true, title: true, dueAt: true, projectId: true },
+    }),
+    prisma.article.findMany({
+      where: { userId, deletedAt: null, read: false, ...space },
+      orderBy: { createdAt: "asc" },
+      take: MAX_ITEMS,
+      select: { id: true, title: true, url: true, source: true, createdAt: true },
+    }),
+    prisma.calendarEvent.findMany({
+      where: {
+        userId,
+        startAt: {
+          gte: new Date(new Date(`${nextWeekStart}T00:00:00Z`).getTime() - ZONE_SLACK_MS),
+          lt: new Date(new Date(`${nextWeekEnd}T00:00:00Z`).getTime() + ZONE_SLACK_MS),
+        },
+      },
+      orderBy: { startAt: "asc" },
+      select: { id: true, title: true, startAt: true, endAt: true, location: true },
+    }),
+  ]);
+
+  // First open top-level task of each project in manual order, the same one
+  // the project list shows on top
+  const nextActions = await prisma.task.findMany({
+    where: { userId, projectId: { in: projects.map((p) => p.id) }, parentId: null, completed: false, deletedAt: null },
+    orderBy: [{ pinned: "desc" }, { sortKey: "asc" }, { createdAt: "desc" }],
+    distinct: ["projectId"],
+    select: { id: true, title: true, projectId: true },
+  });
+  const nextByProject = new Map(nextActions.map((t) => [t.projectId, { id: t.id, title: t.title }]));
+
+  const agenda: WeeklyReviewAgenda = {
+    weekStart,
+    nextWeekStart,
+    lastReviewedAt: lastReview?.completedAt.toISOString() ?? null,
+    ideas: ideas.map((i) => ({ ...i, createdAt: i.createdAt.toISOString() })),
+    feedback: feedback.map((f) => ({ ...f, receivedAt: f.receivedAt.toISOString(), dueAt: f.dueAt?.toISOString() ?? null })),
+    projects: projects.map((p) => ({ ...p, nextAction: nextByProject.get(p.id) ?? null })),
+    overdue: overdue.map((t) => ({ ...t, dueAt: t.dueAt!.toISOString() })),
+    articles: articles.map((a) => ({ ...a, createdAt: a.createdAt.toISOString() })),
+    events: events
+      .filter((e) => {
+        const day = dayKey(e.startAt, timeZone);
+        return day >= nextWeekStart && day < nextWeekEnd;
+      })
+      .map((e) => ({ ...e, startAt: e.startAt.toISOString(), endAt: e.endAt.toISOString() })),
+  };
+  return NextResponse.json(agenda);
+}
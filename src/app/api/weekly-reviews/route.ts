@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { userToday } from "@/lib/plan-store";
+import { parseReviewStats, weekStartKey } from "@/lib/weekly-review";
+
+const HISTORY_LIMIT = 52;
+
+const REVIEW_SELECT = { id: true, weekStart: true, stats: true, notes: true, completedAt: true } as const;
+
+// GET /api/weekly-reviews  finished reviews, newest first (about a year's worth)
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const reviews = await prisma.weeklyReview.findMany({
+    where: { userId: session.user.id },
+    orderBy: { completedAt: "desc" },
+    take: HISTORY_LIMIT,
+    select: REVIEW_SELECT,
+  });
+  return NextResponse.json({ reviews });
+}
+
+// POST /api/weekly-reviews  { stats, notes }  records a finished review
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const userId = session.user.id;
+  const body = await req.json();
+  const stats = parseReviewStats(body.stats);
+  if (!stats) return NextResponse.json({ error: "Invalid stats" }, { status: 400 });
+  if (body.notes !== undefined && typeof body.notes !== "string") {
+    return NextResponse.json({ error: "Invalid notes" }, { status: 400 });
+  }
+
+  const review = await prisma.weeklyReview.create({
+    data: { userId, weekStart: weekStartKey(await userToday(userId)), stats, notes: body.notes?.trim() ?? "" },
+    select: REVIEW_SELECT,
+  });
+  console.log(`[weekly-reviews/POST] user=${userId} week=${review.weekStart}`);
+  return NextResponse.json(review, { status: 201 });
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { PRIORITY_META } from "@/lib/types";
+import type { ActivityEntityType, ActivityEntry, ActivitySource, TaskPriority } from "@/lib/types";
+
+// History of one entity (or of a project and its tasks) as recorded by the
+// API routes; see lib/activity for what gets logged.
+
+const ACTION_VERB: Record<ActivityEntry["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Moved to trash",
+  restore: "Restored",
+};
+
+const SOURCE_LABEL: Partial<Record<ActivitySource, string>> = {
+  voice: "via voice",
+  capture: "via capture",
+  push: "from a notification",
+};
+
+const ENTITY_LABEL: Record<ActivityEntityType, string> = {
+  task: "Task",
+  project: "Project",
+  idea: "Idea",
+  feedback: "Feedback",
+  article: "Article",
+};
+
+const FIELD_LABEL: Record<string, string> = {
+  title: "title",
+  notes: "notes",
+  description: "description",
+  completed: "status",
+  inProgress: "in progress",
+  pinned: "pin",
+  dueAt: "due date",
+  projectId: "project",
+  parentId: "parent task",
+  checklist: "checklist",
+  recurrence: "repeat",
+  priority: "priority",
+  space: "space",
+  status: "status",
+  boardColumns: "board columns",
+  blockedByIds: "dependencies",
+  tagIds: "tags",
+  boardColumn: "board column",
+  sourceUrl: "link",
+  from: "sender",
+  message: "message",
+};
+
+// Long text and lists only say that they changed
+const SUMMARY_ONLY = new Set(["notes", "description", "message", "checklist", "blockedByIds", "tagIds", "parentId", "recurrence", "boardColumn", "boardColumns"]);
+
+function formatValue(field: string, value: unknown, projectNames: Map<string, string>): string {
+  if (value === null || value === "") return "none";
+  if (field === "dueAt") return new Date(String(value)).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+  if (field === "completed") return value ? "done" : "open";
+  if (field === "projectId") return projectNames.get(String(value)) ?? "another project";
+  if (field === "priority") return PRIORITY_META[value as TaskPriority]?.label ?? String(value);
+  if (typeof value === "boolean") return value ? "on" : "off";
+  return String(value);
+}
+
+function describeChanges(entry: ActivityEntry, projectNames: Map<string, string>): string[] {
+  if (!entry.changes) return [];
+  return Object.entries(entry.changes).map(([field, { from, to }]) => {
+    const label = FIELD_LABEL[field] ?? field;
+    if (SUMMARY_ONLY.has(field)) return `Edited ${label}`;
+    return `${label[0].toUpperCase()}${label.slice(1)}: ${formatValue(field, from, projectNames)} → ${formatValue(field, to, projectNames)}`;
+  });
+}
+
+function relativeTime(iso: string) {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.round(hours / 24);
+  if (days < 7) return `${days} d ago`;
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export default function ActivityTimeline({
+  query,
+  refreshKey,
+  projects = [],
+  showEntity = false,
+}: {
+  // Either `entityType=…&entityId=…` or `projectId=…`
+  query: string;
+  // Refetches whenever this changes, e.g. the task object after an update
+  refreshKey?: unknown;
+  projects?: Array<{ id: string; title: string }>;
+  // Name the entity on each row (project timelines mix tasks and the project)
+  showEntity?: boolean;
+}) {
+  const [entries, setEntries] = useState<ActivityEntry[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/activity?${query}`)
+      .then((r) => (r.ok ? r.json() : Promise.reject()))
+      .then((data: { entries: ActivityEntry[] }) => {
+        if (cancelled) return;
+        setEntries(data.entries);
+        setError(false);
+      })
+      .catch(() => { if (!cancelled) setError(true); });
+    return () => { cancelled = true; };
+  }, [query, refreshKey]);
+
+  if (error) return <p className="text-xs text-ink-soft">Couldn&apos;t load activity.</p>;
+  if (!entries) return <p className="text-xs text-ink-soft">Loading…</p>;
+  if (entries.length === 0) return <p className="text-xs text-ink-soft">No activity yet.</p>;
+
+  const projectNames = new Map(projects.map((p) => [p.id, p.title]));
+
+  return (
+    <ol className="flex flex-col">
+      {entries.map((entry) => {
+        const lines = describeChanges(entry, projectNames);
+        const source = SOURCE_LABEL[entry.source];
+        return (
+          <li key={entry.id} className="relative border-l border-hairline pb-3 pl-4 last:pb-0">
+            <span className={`absolute -left-[4px] top-1.5 h-[7px] w-[7px] rounded-full ${entry.action === "delete" ? "bg-ink-soft" : "bg-coral"}`} />
+            <p className="text-xs text-ink">
+              <span className="font-medium">{ACTION_VERB[entry.action]}</span>
+              {showEntity && <span className="text-ink-muted"> · {ENTITY_LABEL[entry.entityType]} “{entry.title}”</span>}
+            </p>
+            {lines.map((line) => (
+              <p key={line} className="mt-0.5 text-xs text-ink-muted">{line}</p>
+            ))}
+            <p className="mt-0.5 text-[11px] text-ink-soft">
+              {relativeTime(entry.createdAt)}{source && ` · ${source}`}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+import { usePersonalSpaceCtx } from "@/components/DashboardShell";
+import { rate, weeklySeries } from "@/lib/analytics";
+import type { Analytics } from "@/lib/analytics";
+import { shiftDayKey, todayKey } from "@/lib/day-plan";
+import { formatDuration } from "@/lib/timesheet";
+
+// Analytics module: trends from GET /api/analytics for a date range and space,
+// shown per day or per week.
+
+type SpaceFilter = "all" | "professional" | "personal";
+type Granularity = "day" | "week";
+
+const RANGE_PRESETS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "Year" },
+];
+
+type Bucket = { date: string; [key: string]: number | string };
+type Series = { key: string; label: string; color: string };
+
+function bucketLabel(date: string, granularity: Granularity) {
+  const label = new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return granularity === "week" ? `Week of ${label}` : label;
+}
+
+function percent(value: number | null) {
+  return value === null ? "–" : `${value}%`;
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="flex flex-col gap-1 rounded-xl border border-hairline bg-surface-card px-5 py-4">
+      <p className="text-xs font-medium uppercase tracking-[1.5px] text-ink-muted">{label}</p>
+      <p className="font-display text-3xl font-normal text-ink">{value}</p>
+      <p className="text-xs text-ink-soft">{detail}</p>
+    </div>
+  );
+}
+
+// Grouped bars, one group per day or week; values scale to the tallest bar
+function BarChart({ title, buckets, series, granularity, max }: {
+  title: string;
+  buckets: Bucket[];
+  series: Series[];
+  granularity: Granularity;
+  max?: number;
+}) {
+  const top = max ?? Math.max(1, ...buckets.flatMap((b) => series.map((s) => Number(b[s.key]))));
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-hairline px-5 py-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-ink">{title}</p>
+        <div className="flex items-center gap-3">
+          {series.map((s) => (
+            <span key={s.key} className="flex items-center gap-1.5 text-[11px] text-ink-soft">
+              <span className={`h-2 w-2 rounded-sm ${s.color}`} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="flex h-32 items-end gap-px">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.date}
+            title={`${bucketLabel(bucket.date, granularity)}: ${series.map((s) => `${s.label} ${bucket[s.key]}`).join(", ")}`}
+            className="flex h-full min-w-0 flex-1 items-end justify-center gap-px"
+          >
+            {series.map((s) => (
+              <div
+                key={s.key}
+                className={`w-full max-w-[14px] rounded-t-sm ${s.color}`}
+                style={{ height: `${(Number(bucket[s.key]) / top) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      {buckets.length > 0 && (
+        <div className="flex justify-between text-[10px] text-ink-soft">
+          <span>{bucketLabel(buckets[0].date, granularity)}</span>
+          <span>{bucketLabel(buckets[buckets.length - 1].date, granularity)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AnalyticsApp() {
+  const { unlocked } = usePersonalSpaceCtx();
+  const [to, setTo] = useState(() => todayKey());
+  const [from, setFrom] = useState(() => shiftDayKey(todayKey(), -29));
+  const [space, setSpace] = useState<SpaceFilter>("all");
+  const [granularity, setGranularity] = useState<Granularity>("day");
+  const [data, setData] = useState<Analytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ from, to });
+    if (space !== "all") params.set("space", space);
+    if (unlocked) params.set("personal", "1");
+    setLoading(true);
+    fetch(`/api/analytics?${params}`)
+      .then(async (r) => {
+        const body = await r.json();
+        if (!r.ok) throw new Error(body.error ?? "Could not load analytics");
+        setData(body);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [from, to, space, unlocked]);
+
+  // Personal is hidden while the space is locked
+  useEffect(() => {
+    if (!unlocked && space === "personal") setSpace("all");
+  }, [unlocked, space]);
+
+  const buckets = useMemo(() => {
+    if (!data) return [];
+    return granularity === "week" ? weeklySeries(data.days) : data.days;
+  }, [data, granularity]);
+
+  const hitRates = useMemo(
+    () => buckets.map((b) => ({ ...b, planRate: rate(b.planDone, b.planned) ?? 0 })),
+    [buckets]
+  );
+
+  function applyPreset(days: number) {
+    const today = todayKey();
+    setTo(today);
+    setFrom(shiftDayKey(today, -(days - 1)));
+    if (days > 90) setGranularity("week");
+  }
+
+  const totals = data?.totals;
+  const dated = totals ? totals.onTime + totals.late : 0;
+
+  return (
+    <section className="flex w-full flex-col gap-8 px-8 py-10 lg:px-10">
+      <header className="flex flex-col gap-6 border-b border-hairline pb-6">
+        <div>
+          <p className="text-xs font-medium uppercase tracking-[1.5px] text-ink-muted">Trends</p>
+          <h1 className="mt-2 font-display text-4xl font-normal tracking-[-1px] text-ink md:text-5xl">Analytics</h1>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-1">
+            {RANGE_PRESETS.map((preset) => (
+              <button
+                key={preset.days}
+                type="button"
+                onClick={() => applyPreset(preset.days)}
+                className={`rounded-full px-4 py-1.5 text-sm font-medium transition ${
+                  from === shiftDayKey(to, -(preset.days - 1)) && to === todayKey() ? "bg-coral text-white" : "text-ink-muted hover:bg-surface-card"
+                }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-ink-soft">
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+              className="rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink outline-none focus:border-coral"
+            />
+            to
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setTo(e.target.value)}
+              className="rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink outline-none focus:border-coral"
+            />
+          </div>
+          <select
+            value={space}
+            onChange={(e) => setSpace(e.target.value as SpaceFilter)}
+            className="rounded-md border border-hairline bg-canvas px-2 py-1.5 text-xs text-ink-muted outline-none focus:border-coral"
+          >
+            <option value="all">All spaces</option>
+            <option value="professional">Professional</option>
+            {unlocked && <option value="personal">Personal</option>}
+          </select>
+          <div className="ml-auto flex items-center gap-1">
+            {(["day", "week"] as const).map((g) => (
+              <button
+                key={g}
+                type="button"
+                onClick={() => setGranularity(g)}
+                className={`rounded-md border px-3 py-1 text-xs font-medium capitalize transition ${
+                  granularity === g ? "border-coral bg-coral/10 text-coral" : "border-hairline text-ink-muted hover:border-coral/40"
+                }`}
+              >
+                Per {g}
+              </button>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      {error ? (
+        <p className="text-sm text-coral">{error}</p>
+      ) : !data || !totals ? (
+        <p className="text-sm text-ink-soft">Loading…</p>
+      ) : (
+        <div className={`flex flex-col gap-6 transition-opacity ${loading ? "opacity-60" : ""}`}>
+          <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+            <StatCard label="Completed" value={String(totals.completed)} detail={`${totals.created} created in the same period`} />
+            <StatCard
+              label="On time"
+              value={percent(rate(totals.onTime, dated))}
+              detail={`${totals.onTime} on time, ${totals.late} late${totals.undated ? `, ${totals.undated} without a due date` : ""}`}
+            />
+            <StatCard label="Today plan hit rate" value={percent(rate(totals.planDone, totals.planned))} detail={`${totals.planDone} of ${totals.planned} planned items done that day`} />
+            <StatCard label="Reading list" value={percent(rate(totals.read, totals.saved))} detail={`${totals.read} read, ${totals.saved} saved`} />
+          </div>
+
+          <BarChart
+            title="Created vs completed"
+            buckets={buckets}
+            granularity={granularity}
+            series={[{ key: "created", label: "Created", color: "bg-ink-soft/40" }, { key: "completed", label: "Completed", color: "bg-coral" }]}
+          />
+          <BarChart
+            title="Overdue backlog"
+            buckets={buckets}
+            granularity={granularity}
+            series={[{ key: "overdue", label: "Overdue at day's end", color: "bg-coral/70" }]}
+          />
+          <div className="grid gap-6 lg:grid-cols-2">
+            <BarChart
+              title="Today plan hit rate"
+              buckets={hitRates}
+              granularity={granularity}
+              max={100}
+              series={[{ key: "planRate", label: "% of planned done", color: "bg-coral" }]}
+            />
+            <BarChart
+              title="Reading list"
+              buckets={buckets}
+              granularity={granularity}
+              series={[{ key: "saved", label: "Saved", color: "bg-ink-soft/40" }, { key: "read", label: "Read", color: "bg-coral" }]}
+            />
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="flex flex-col gap-3 rounded-xl border border-hairline px-5 py-4">
+              <p className="text-sm font-medium text-ink">Time in progress</p>
+              {data.inProgress.tasks === 0 ? (
+                <p className="text-xs text-ink-soft">No tracked time on tasks completed in this period.</p>
+              ) : (
+                <div className="flex gap-8">
+                  <div>
+                    <p className="font-display text-2xl text-ink">{formatDuration(data.inProgress.medianMinutes * 60000)}</p>
+                    <p className="text-xs text-ink-soft">median per completed task</p>
+                  </div>
+                  <div>
+                    <p className="font-display text-2xl text-ink">{formatDuration(data.inProgress.totalMinutes * 60000)}</p>
+                    <p className="text-xs text-ink-soft">across {data.inProgress.tasks} tracked tasks</p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-3 rounded-xl border border-hairline px-5 py-4">
+              <p className="text-sm font-medium text-ink">Per-project throughput</p>
+              {data.projects.length === 0 ? (
+                <p className="text-xs text-ink-soft">No task activity in this period.</p>
+              ) : (
+                data.projects.map((project) => {
+                  const top = Math.max(1, data.projects[0].completed);
+                  return (
+                    <div key={project.id ?? "none"} className="flex items-center gap-3 text-xs">
+                      <span className={`w-32 shrink-0 truncate ${project.id ? "text-ink" : "italic text-ink-soft"}`}>{project.title}</span>
+                      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-surface-card">
+                        <div className="h-full rounded-full bg-coral" style={{ width: `${(project.completed / top) * 100}%` }} />
+                      </div>
+                      <span className="w-24 shrink-0 text-right text-ink-soft">{project.completed} done · {project.created} new</span>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
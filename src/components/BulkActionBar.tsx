@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+
+import type { BulkTaskChange, Project } from "@/lib/types";
+
+// Floating bar shown while tasks are multi-selected in Tasks or Projects. Each
+// action goes to /api/tasks/bulk in one request via `onApply`.
+
+function atHour(daysFromNow: number, hour: number) {
+  const d = new Date();
+  d.setDate(d.getDate() + daysFromNow);
+  d.setHours(hour, 0, 0, 0);
+  return d;
+}
+
+function nextMonday() {
+  const d = atHour(0, 9);
+  d.setDate(d.getDate() + (((8 - d.getDay()) % 7) || 7));
+  return d;
+}
+
+const QUICK_DATES: Array<{ label: string; date: () => Date }> = [
+  { label: "Today 5pm",     date: () => atHour(0, 17) },
+  { label: "Tomorrow 9am",  date: () => atHour(1, 9) },
+  { label: "Next Monday",   date: nextMonday },
+  { label: "In a week",     date: () => atHour(7, 9) },
+];
+
+export function SelectCheckbox({ checked, onChange }: { checked: boolean; onChange: () => void }) {
+  return (
+    <button
+      type="button"
+      role="checkbox"
+      aria-checked={checked}
+      onClick={onChange}
+      className={`mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded border-2 transition ${
+        checked ? "border-coral bg-coral" : "border-hairline bg-canvas hover:border-coral"
+      }`}
+    >
+      {checked && (
+        <svg width="8" height="8" viewBox="0 0 10 10" fill="none">
+          <path d="M1.5 5l3 3 4-4.5" stroke="white" strokeWidth="1.8" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+      )}
+    </button>
+  );
+}
+
+export default function BulkActionBar({
+  selectedIds,
+  totalCount,
+  projects,
+  onApply,
+  onSelectAll,
+  onClear,
+  onDone,
+}: {
+  selectedIds: string[];
+  totalCount: number;
+  projects: Project[];
+  onApply: (change: BulkTaskChange) => Promise<string | null>;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: () => void;
+}) {
+  const [menu, setMenu] = useState<"reschedule" | "move" | "space" | null>(null);
+  const [customDue, setCustomDue] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const count = selectedIds.length;
+
+  async function apply(change: BulkTaskChange) {
+    if (count === 0) return;
+    setBusy(true);
+    setMenu(null);
+    const message = await onApply(change);
+    setBusy(false);
+    setError(message);
+    if (!message) onClear();
+  }
+
+  const actionButton = "rounded-md px-3 py-1.5 text-xs font-medium text-ink transition hover:bg-surface-card disabled:opacity-40";
+
+  return (
+    <div className="fixed inset-x-0 bottom-6 z-40 flex justify-center px-4">
+      <div className="animate-rise relative flex flex-wrap items-center gap-1 rounded-xl border border-hairline bg-canvas px-3 py-2 shadow-lg">
+        <span className="px-2 text-xs font-medium text-ink-muted">
+          {count} selected
+        </span>
+        <button
+          type="button"
+          onClick={count === totalCount ? onClear : onSelectAll}
+          className="rounded-md px-2 py-1.5 text-xs text-ink-soft transition hover:text-ink"
+        >
+          {count === totalCount ? "Clear" : "Select all"}
+        </button>
+        <span className="mx-1 h-5 w-px bg-hairline" />
+
+        <button type="button" disabled={busy || count === 0} onClick={() => apply({ action: "complete" })} className={actionButton}>Complete</button>
+        <button type="button" disabled={busy || count === 0} onClick={() => setMenu(menu === "reschedule" ? null : "reschedule")} className={actionButton}>Reschedule</button>
+        <button type="button" disabled={busy || count === 0} onClick={() => setMenu(menu === "move" ? null : "move")} className={actionButton}>Move</button>
+        <button type="button" disabled={busy || count === 0} onClick={() => setMenu(menu === "space" ? null : "space")} className={actionButton}>Space</button>
+        <button type="button" disabled={busy || count === 0} onClick={() => apply({ action: "delete" })} className={`${actionButton} text-coral`}>Delete</button>
+
+        <span className="mx-1 h-5 w-px bg-hairline" />
+        <button type="button" onClick={onDone} className="rounded-md bg-coral px-3 py-1.5 text-xs font-medium text-white transition hover:bg-coral-active">Done</button>
+
+        {menu && (
+          <div className="absolute bottom-full left-1/2 mb-2 w-72 -translate-x-1/2 rounded-xl border border-hairline bg-canvas p-3 shadow-lg">
+            {menu === "reschedule" && (
+              <div className="flex flex-col gap-2">
+                <div className="grid grid-cols-2 gap-1.5">
+                  {QUICK_DATES.map((q) => (
+                    <button
+                      key={q.label}
+                      type="button"
+                      onClick={() => apply({ action: "reschedule", dueAt: q.date().toISOString() })}
+                      className="rounded-md border border-hairline px-2 py-1.5 text-xs text-ink transition hover:border-coral hover:text-coral"
+                    >
+                      {q.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <input
+                    type="datetime-local"
+                    value={customDue}
+                    onChange={(e) => setCustomDue(e.target.value)}
+                    className="min-w-0 flex-1 rounded-md border border-hairline bg-canvas px-2 py-1.5 text-xs text-ink outline-none focus:border-coral"
+                  />
+                  <button
+                    type="button"
+                    disabled={!customDue}
+                    onClick={() => apply({ action: "reschedule", dueAt: new Date(customDue).toISOString() })}
+                    className="rounded-md bg-coral px-2.5 py-1.5 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40"
+                  >
+                    Set
+                  </button>
+                </div>
+                <button type="button" onClick={() => apply({ action: "reschedule", dueAt: null })} className="text-left text-xs text-ink-soft transition hover:text-coral">
+                  Clear due date
+                </button>
+              </div>
+            )}
+            {menu === "move" && (
+              <div className="flex max-h-60 flex-col gap-0.5 overflow-y-auto">
+                <button type="button" onClick={() => apply({ action: "move", projectId: null })} className="rounded-md px-2 py-1.5 text-left text-xs text-ink-soft transition hover:bg-surface-card">
+                  No project
+                </button>
+                {projects.map((p) => (
+                  <button key={p.id} type="button" onClick={() => apply({ action: "move", projectId: p.id })} className="rounded-md px-2 py-1.5 text-left text-xs text-ink transition hover:bg-surface-card">
+                    {p.title}
+                  </button>
+                ))}
+              </div>
+            )}
+            {menu === "space" && (
+              <div className="flex gap-1.5">
+                <button type="button" onClick={() => apply({ action: "space", space: "professional" })} className="flex-1 rounded-md border border-hairline px-2 py-1.5 text-xs text-ink transition hover:border-coral hover:text-coral">Professional</button>
+                <button type="button" onClick={() => apply({ action: "space", space: "personal" })} className="flex-1 rounded-md border border-hairline px-2 py-1.5 text-xs text-ink transition hover:border-coral hover:text-coral">Personal</button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {(busy || error) && (
+          <p className={`w-full px-2 pt-1 text-[11px] ${error ? "text-coral" : "text-ink-soft"}`}>{busy ? "Applying…" : error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -237,6 +237,7 @@ export default function CalendarSyncPanel() {
                   sortedEvents.map((event) => (
                     <article
                       key={event.id}
+                      data-search-id={event.id}
                       className="rounded-xl border border-mist-200 bg-white px-3 py-3"
                     >
                       <h4 className="text-sm font-semibold text-ink-900">{event.title}</h4>
@@ -351,6 +352,7 @@ export default function CalendarSyncPanel() {
                   sortedEvents.map((event) => (
                     <article
                       key={event.id}
+                      data-search-id={event.id}
                       className="rounded-xl border border-mist-200 bg-white px-3 py-3"
                     >
                       <h4 className="text-sm font-semibold text-ink-900">{event.title}</h4>
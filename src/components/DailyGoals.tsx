@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { DEFAULT_GOALS, GOAL_META, MAX_TASKS_TARGET } from "@/lib/goals";
+import type { GoalStatus } from "@/lib/goals";
+import { GOAL_KINDS } from "@/lib/types";
+import type { DailyGoal, GoalKind } from "@/lib/types";
+
+// Streak pill in the Today header. Opens today's progress on each goal and the
+// goal settings.
+
+function FlameIcon() {
+  return (
+    <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+      <path d="M6 1.25c.4 1.6 2.75 2.9 2.75 5.5A2.75 2.75 0 0 1 3.25 6.75c0-1.05.5-1.8 1.1-2.4.1 1 .6 1.6 1.15 1.75C5.25 4.5 5.4 2.6 6 1.25Z" stroke="currentColor" strokeWidth="1.2" strokeLinejoin="round"/>
+    </svg>
+  );
+}
+
+export default function DailyGoals({ status, onSave }: {
+  status: GoalStatus | null;
+  onSave: (goals: DailyGoal[]) => Promise<string | null>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState<Set<GoalKind>>(new Set());
+  const [target, setTarget] = useState(5);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !status) return;
+    // Someone without goals starts from the suggested ones
+    setEnabled(new Set((status.goals.length > 0 ? status.goals : DEFAULT_GOALS).map((g) => g.kind)));
+    setTarget(status.goals.find((g) => g.kind === "tasks")?.target ?? 5);
+    setError(null);
+  }, [open, status]);
+
+  if (!status) return null;
+  const { streak } = status;
+
+  function toggle(kind: GoalKind) {
+    setEnabled((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  }
+
+  async function save() {
+    setSaving(true);
+    const goals = GOAL_KINDS.filter((kind) => enabled.has(kind)).map((kind) => ({ kind, target: kind === "tasks" ? target : 1 }));
+    const err = await onSave(goals);
+    setSaving(false);
+    if (err) setError(err);
+    else setOpen(false);
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        title={status.goals.length > 0 ? `Best streak: ${streak.best} days` : undefined}
+        className={`flex items-center gap-1.5 rounded-full border px-4 py-2 text-sm font-medium transition hover:border-coral hover:text-coral ${
+          streak.todayMet ? "border-coral/40 bg-coral/10 text-coral" : "border-hairline text-ink-muted"
+        }`}
+      >
+        <FlameIcon />
+        {status.goals.length === 0 ? "Set a daily goal" : `${streak.current}-day streak`}
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[10vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) setOpen(false); }}
+        >
+          <div className="animate-fade flex max-h-[80vh] w-full max-w-md flex-col overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center justify-between border-b border-hairline px-6 py-4 shrink-0">
+              <div>
+                <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">Daily goals</h2>
+                <p className="text-xs text-ink-soft">
+                  {status.goals.length === 0 ? "Pick what a good day looks like" : `Current streak ${streak.current} · best ${streak.best}`}
+                </p>
+              </div>
+              <button type="button" aria-label="Close" onClick={() => setOpen(false)} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+              {status.today.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Today</p>
+                  {status.today.map((goal) => (
+                    <div key={goal.kind} className="flex flex-col gap-1">
+                      <div className="flex items-baseline justify-between text-sm">
+                        <span className={goal.met ? "text-coral" : "text-ink"}>{GOAL_META[goal.kind].label(goal.target)}</span>
+                        <span className="text-xs text-ink-soft">{goal.total > 0 ? `${Math.min(goal.done, goal.total)} / ${goal.total}` : "Nothing planned"}</span>
+                      </div>
+                      <div className="h-1.5 overflow-hidden rounded-full bg-surface-card">
+                        <div className="h-full rounded-full bg-coral transition-all duration-500" style={{ width: `${goal.total > 0 ? Math.min(goal.done / goal.total, 1) * 100 : 0}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-col gap-2">
+                <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Goals</p>
+                {GOAL_KINDS.map((kind) => (
+                  <label key={kind} className="flex items-center gap-3 rounded-lg border border-hairline px-4 py-3 text-sm text-ink">
+                    <input type="checkbox" checked={enabled.has(kind)} onChange={() => toggle(kind)} className="accent-coral" />
+                    <span className="flex-1">{GOAL_META[kind].label(kind === "tasks" ? target : 1)}</span>
+                    {kind === "tasks" && (
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_TASKS_TARGET}
+                        value={target}
+                        onChange={(e) => setTarget(Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_TASKS_TARGET))}
+                        className="w-16 rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink outline-none focus:border-coral"
+                      />
+                    )}
+                  </label>
+                ))}
+                <p className="text-[11px] text-ink-soft">
+                  A day extends the streak when every goal is met. If today&apos;s aren&apos;t met by the evening, you&apos;ll get a nudge.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between border-t border-hairline px-6 py-4">
+              <span className="text-xs text-coral">{error}</span>
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setOpen(false)} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+                <button type="button" disabled={saving} onClick={save} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40">
+                  {saving ? "Saving…" : "Save goals"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
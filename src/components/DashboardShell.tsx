@@ -1,7 +1,8 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 
+import AnalyticsApp from "@/components/AnalyticsApp";
 import CalendarSyncPanel from "@/components/CalendarSyncPanel";
 import TodayApp from "@/components/TodayApp";
 import ProductivityLayer from "@/components/ProductivityLayer";
@@ -9,11 +10,19 @@ import ProfileDropdown from "@/components/ProfileDropdown";
 import LearnApp from "@/components/LearnApp";
 import ProjectsApp from "@/components/ProjectsApp";
 import PushSetup from "@/components/PushSetup";
+import SearchPanel, { OPEN_SEARCH_HIT_EVENT, revealSearchHit } from "@/components/SearchPanel";
+import type { SearchHitRef } from "@/components/SearchPanel";
 import SectionHelp from "@/components/SectionHelp";
 import SpaceLock from "@/components/SpaceLock";
 import TaskApp from "@/components/TaskApp";
+import TimesheetPanel from "@/components/TimesheetPanel";
+import TrashPanel from "@/components/TrashPanel";
+import UndoToast from "@/components/UndoToast";
 import VoiceButton from "@/components/VoiceButton";
+import WeeklyReviewPanel from "@/components/WeeklyReviewPanel";
 import { AccountProvider, useAccounts } from "@/context/AccountContext";
+import { FocusProvider } from "@/context/FocusContext";
+import { useDayReviewRequest } from "@/hooks/useDayReviewRequest";
 import { useNotificationScheduler } from "@/hooks/useNotificationScheduler";
 import { usePersonalSpace } from "@/hooks/usePersonalSpace";
 import { TYPE_META } from "@/lib/accounts";
@@ -22,13 +31,14 @@ import { createContext, useContext } from "react";
 export const PersonalSpaceContext = createContext<{ unlocked: boolean }>({ unlocked: false });
 export function usePersonalSpaceCtx() { return useContext(PersonalSpaceContext); }
 
-type ModuleKey = "today" | "reminders" | "tasks" | "projects" | "agents" | "ideas" | "learn" | "feedback" | "calendar";
+type ModuleKey = "today" | "reminders" | "tasks" | "projects" | "analytics" | "agents" | "ideas" | "learn" | "feedback" | "calendar";
 
 const MODULES: Array<{ key: ModuleKey; label: string; description: string; dividerAfter?: boolean }> = [
   { key: "today",     label: "Today",     description: "Your day at a glance"         },
   { key: "reminders", label: "Reminders", description: "Due queue and follow-ups"     },
   { key: "tasks",     label: "Tasks",     description: "Task capture and execution"   },
-  { key: "projects",  label: "Projects",  description: "Track work across milestones", dividerAfter: true },
+  { key: "projects",  label: "Projects",  description: "Track work across milestones" },
+  { key: "analytics", label: "Analytics", description: "Trends across your work",      dividerAfter: true },
   { key: "agents",    label: "Agents",    description: "Automated background workers", dividerAfter: true },
   { key: "ideas",     label: "Ideas",     description: "Inbox for notes and thoughts"  },
   { key: "learn",     label: "Learn",     description: "Articles to read later"         },
@@ -36,6 +46,10 @@ const MODULES: Array<{ key: ModuleKey; label: string; description: string; divid
   { key: "calendar",  label: "Calendar",  description: "Google Calendar sync"          },
 ];
 
+const SEARCH_MODULES: Record<SearchHitRef["type"], ModuleKey> = {
+  task: "tasks", idea: "ideas", article: "learn", learningPlan: "learn", feedback: "feedback", calendarEvent: "calendar",
+};
+
 function ComingSoon({ label, description }: { label: string; description: string }) {
   return (
     <section className="flex w-full flex-col items-center justify-center px-8 py-32 lg:px-10">
@@ -100,6 +114,20 @@ function Shell({ email, name }: { email?: string | null; name?: string | null })
     localStorage.setItem("suru-active-module", mod);
   }
 
+  function openSearchHit(hit: SearchHitRef) {
+    navigateTo(SEARCH_MODULES[hit.type]);
+    setTimeout(() => window.dispatchEvent(new CustomEvent<SearchHitRef>(OPEN_SEARCH_HIT_EVENT, { detail: hit })), 50);
+    if (hit.type !== "task") revealSearchHit(hit.id);
+  }
+
+  // Handed to Today as a prop, so it's picked up whenever Today mounts
+  const [reviewRequest, setReviewRequest] = useState<string | null>(null);
+  const clearReviewRequest = useCallback(() => setReviewRequest(null), []);
+  useDayReviewRequest((date) => {
+    navigateTo("today");
+    setReviewRequest(date);
+  });
+
   const activeMeta = useMemo(
     () => MODULES.find((m) => m.key === activeModule) ?? MODULES[0],
     [activeModule]
@@ -208,6 +236,10 @@ function Shell({ email, name }: { email?: string | null; name?: string | null })
             <SectionHelp sectionKey={activeModule} />
           </div>
           <div className="flex items-center gap-2">
+            <SearchPanel unlocked={unlocked} onOpen={openSearchHit} />
+            <TimesheetPanel unlocked={unlocked} />
+            <WeeklyReviewPanel unlocked={unlocked} />
+            <TrashPanel unlocked={unlocked} onRestored={() => setModuleRefreshKey((k) => k + 1)} />
             <SpaceLock unlocked={unlocked} supported={supported} onUnlock={unlock} onLock={lock} />
             <VoiceButton onCreated={(result) => {
               const typeToModule: Record<string, ModuleKey> = {
@@ -220,27 +252,32 @@ function Shell({ email, name }: { email?: string | null; name?: string | null })
           </div>
         </div>
 
-        {activeModule === "today"      ? <TodayApp     key={moduleRefreshKey} /> : null}
+        {activeModule === "today"      ? <TodayApp     key={moduleRefreshKey} reviewRequest={reviewRequest} onReviewRequestHandled={clearReviewRequest} /> : null}
         {activeModule === "reminders" ? <ProductivityLayer key={moduleRefreshKey} activeModule="reminders" visibleAccountIds={visibleIds} activeAccountId={activeAccountId} /> : null}
         {activeModule === "tasks"     ? <TaskApp      key={moduleRefreshKey} /> : null}
         {activeModule === "projects"  ? <ProjectsApp  key={moduleRefreshKey} /> : null}
+        {activeModule === "analytics" ? <AnalyticsApp key={moduleRefreshKey} /> : null}
         {activeModule === "agents"    ? <ComingSoon label="Agents" description="Automated background workers that run tasks on your behalf. Coming soon." /> : null}
         {activeModule === "ideas"     ? <ProductivityLayer key={moduleRefreshKey} activeModule="ideas" visibleAccountIds={visibleIds} activeAccountId={activeAccountId} /> : null}
         {activeModule === "learn"     ? <LearnApp     key={moduleRefreshKey} /> : null}
         {activeModule === "feedback"  ? <ProductivityLayer key={moduleRefreshKey} activeModule="feedback" visibleAccountIds={visibleIds} activeAccountId={activeAccountId} /> : null}
         {activeModule === "calendar"  ? <CalendarSyncPanel /> : null}
       </main>
+
+      <UndoToast />
     </div>
     </PersonalSpaceContext.Provider>
   );
 }
 
-// ── Export (wraps Shell in AccountProvider) ───────────────────────────────────
+// ── Export (wraps Shell in AccountProvider and FocusProvider) ─────────────────
 
 export default function DashboardShell({ email, name }: { email?: string | null; name?: string | null }) {
   return (
     <AccountProvider primaryEmail={email} primaryName={name}>
-      <Shell email={email} name={name} />
+      <FocusProvider>
+        <Shell email={email} name={name} />
+      </FocusProvider>
     </AccountProvider>
   );
 }
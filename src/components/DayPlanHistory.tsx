@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { PLAN_SECTION_LABEL, planTaskIds } from "@/lib/day-plan";
+import { PLAN_SECTIONS } from "@/lib/types";
+import type { DayPlan, PlanSection } from "@/lib/types";
+
+// Past Today plans, opened from the Today header. Done state is the task's
+// current one, so something finished a day late still shows as done.
+
+type PlannedTask = { id: string; title: string; completed: boolean };
+
+function formatDay(date: string) {
+  return new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" });
+}
+
+export default function DayPlanHistory({ today }: { today: string }) {
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<{ plans: DayPlan[]; tasks: PlannedTask[] } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    fetch("/api/day-plans")
+      .then((r) => r.json())
+      .then((data) => setHistory({ plans: data.plans ?? [], tasks: data.tasks ?? [] }));
+  }, [open]);
+
+  const taskById = new Map(history?.tasks.map((t) => [t.id, t]));
+  const past = history?.plans.filter((p) => p.date !== today && planTaskIds(p).length > 0) ?? [];
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="rounded-full border border-hairline px-4 py-2 text-sm font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+      >
+        History
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[10vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) setOpen(false); }}
+        >
+          <div className="animate-fade flex max-h-[80vh] w-full max-w-lg flex-col overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center justify-between border-b border-hairline px-6 py-4 shrink-0">
+              <div>
+                <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">Past plans</h2>
+                <p className="text-xs text-ink-soft">The last 30 days</p>
+              </div>
+              <button type="button" aria-label="Close" onClick={() => setOpen(false)} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+              {!history ? (
+                <p className="py-6 text-center text-sm text-ink-soft">Loading…</p>
+              ) : past.length === 0 ? (
+                <p className="py-6 text-center text-sm text-ink-soft">No past plans yet.</p>
+              ) : (
+                past.map((plan) => {
+                  const ids = planTaskIds(plan);
+                  const done = ids.filter((id) => taskById.get(id)?.completed).length;
+                  return (
+                    <div key={plan.date} className="flex flex-col gap-2">
+                      <div className="flex items-baseline justify-between">
+                        <p className="text-sm font-medium text-ink">{formatDay(plan.date)}</p>
+                        <span className="text-xs text-ink-soft">{done} of {ids.length} done</span>
+                      </div>
+                      {PLAN_SECTIONS.filter((section) => plan[section].length > 0).map((section) => (
+                        <div key={section} className="flex flex-col gap-1 pl-2">
+                          <p className="text-[10px] font-semibold uppercase tracking-[1.5px] text-ink-soft">{PLAN_SECTION_LABEL[section]}</p>
+                          {plan[section].map((id) => {
+                            const task = taskById.get(id);
+                            return (
+                              <p key={id} className={`flex items-center gap-2 text-xs ${task?.completed ? "text-ink-soft line-through" : "text-ink-muted"}`}>
+                                <span className={`h-2 w-2 shrink-0 rounded-full border ${task?.completed ? "border-coral bg-coral" : "border-hairline"}`} />
+                                {task?.title ?? <span className="italic text-ink-soft">Deleted task</span>}
+                              </p>
+                            );
+                          })}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
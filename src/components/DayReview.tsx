@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+
+import MarkdownEditor from "@/components/MarkdownEditor";
+import { PLAN_SECTION_LABEL, shiftDayKey } from "@/lib/day-plan";
+import { PLAN_SECTIONS } from "@/lib/types";
+import type { DayPlan, Task } from "@/lib/types";
+
+// End-of-day review: decide what happens to each unfinished item of a day's
+// plan and write a short reflection. Opened from the Today header, the
+// "yesterday" banner, or the evening push (see lib/plan-store).
+
+type ItemAction = "carry" | "reschedule" | "defer" | "drop";
+
+const ACTION_LABEL: Record<ItemAction, string> = {
+  carry: "Carry over",
+  reschedule: "Reschedule",
+  defer: "Defer",
+  drop: "Drop",
+};
+
+type Decision = { action: ItemAction; dueAt: string; deferTo: string };
+
+function formatDay(date: string) {
+  return new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" });
+}
+
+export default function DayReview({ plan, tasks, onReschedule, onSaved, onClose }: {
+  plan: DayPlan;
+  tasks: Task[];
+  onReschedule: (taskId: string, dueAt: string) => void;
+  // The reviewed plan and every plan items were moved into
+  onSaved: (plans: DayPlan[]) => void;
+  onClose: () => void;
+}) {
+  const nextDay = shiftDayKey(plan.date, 1);
+  const taskById = new Map(tasks.map((t) => [t.id, t]));
+  const unfinished = PLAN_SECTIONS.flatMap((section) => plan[section]
+    .map((id) => taskById.get(id))
+    .filter((t): t is Task => Boolean(t) && !t!.completed)
+    .map((task) => ({ task, section })));
+
+  const [decisions, setDecisions] = useState<Record<string, Decision>>(() => Object.fromEntries(unfinished.map(({ task }) => [
+    task.id,
+    { action: "carry", dueAt: `${nextDay}T09:00`, deferTo: shiftDayKey(plan.date, 2) },
+  ])));
+  const [reflection, setReflection] = useState(plan.reflection ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function decide(id: string, patch: Partial<Decision>) {
+    setDecisions((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    const moves: Array<{ taskId: string; to: string }> = [];
+    for (const { task } of unfinished) {
+      const decision = decisions[task.id];
+      if (decision.action === "carry") moves.push({ taskId: task.id, to: nextDay });
+      else if (decision.action === "defer") moves.push({ taskId: task.id, to: decision.deferTo });
+      else if (decision.action === "reschedule" && decision.dueAt) onReschedule(task.id, new Date(decision.dueAt).toISOString());
+    }
+    const res = await fetch(`/api/day-plans/${plan.date}/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reflection, moves }),
+    });
+    const data = await res.json();
+    setSaving(false);
+    if (!res.ok) {
+      setError(data.error ?? "Could not save the review");
+      return;
+    }
+    onSaved([data.plan, ...data.updated]);
+    onClose();
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[8vh]"
+      style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="animate-fade flex max-h-[85vh] w-full max-w-xl flex-col overflow-hidden rounded-xl border border-hairline bg-canvas">
+        <div className="flex items-center justify-between border-b border-hairline px-6 py-4 shrink-0">
+          <div>
+            <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">Wrap up the day</h2>
+            <p className="text-xs text-ink-soft">{formatDay(plan.date)}{plan.reviewedAt && " · reviewed"}</p>
+          </div>
+          <button type="button" aria-label="Close" onClick={onClose} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+          {unfinished.length === 0 ? (
+            <p className="rounded-lg border border-dashed border-hairline p-4 text-center text-sm text-ink-soft">Everything planned got done.</p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Unfinished</p>
+              {unfinished.map(({ task, section }) => {
+                const decision = decisions[task.id];
+                return (
+                  <div key={task.id} className="flex flex-col gap-2 rounded-lg border border-hairline px-4 py-3">
+                    <div className="flex items-baseline justify-between gap-3">
+                      <p className="min-w-0 truncate text-sm font-medium text-ink">{task.title}</p>
+                      <span className="shrink-0 text-[11px] text-ink-soft">{PLAN_SECTION_LABEL[section]}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {(Object.keys(ACTION_LABEL) as ItemAction[]).map((action) => (
+                        <button
+                          key={action}
+                          type="button"
+                          onClick={() => decide(task.id, { action })}
+                          className={`rounded-pill border px-2.5 py-1 text-[11px] font-medium transition ${
+                            decision.action === action ? "border-coral bg-coral/10 text-coral" : "border-hairline text-ink-muted hover:border-coral/40"
+                          }`}
+                        >
+                          {ACTION_LABEL[action]}
+                        </button>
+                      ))}
+                      {decision.action === "reschedule" && (
+                        <input
+                          type="datetime-local"
+                          value={decision.dueAt}
+                          onChange={(e) => decide(task.id, { dueAt: e.target.value })}
+                          className="rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink outline-none focus:border-coral"
+                        />
+                      )}
+                      {decision.action === "defer" && (
+                        <input
+                          type="date"
+                          min={nextDay}
+                          value={decision.deferTo}
+                          onChange={(e) => decide(task.id, { deferTo: e.target.value })}
+                          className="rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink outline-none focus:border-coral"
+                        />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-[11px] text-ink-soft">
+                Carry over puts it in tomorrow&apos;s plan; Defer puts it in the plan for the date you pick; Reschedule only changes the due date.
+              </p>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Reflection</p>
+            <MarkdownEditor value={reflection} onChange={setReflection} placeholder="What went well, what got in the way…" minHeight={110} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between border-t border-hairline px-6 py-4">
+          <span className="text-xs text-coral">{error}</span>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+            <button
+              type="button"
+              disabled={saving || unfinished.some(({ task }) => decisions[task.id].action === "defer" && decisions[task.id].deferTo < nextDay)}
+              onClick={save}
+              className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40"
+            >
+              {saving ? "Saving…" : "Finish review"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
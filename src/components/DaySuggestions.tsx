@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { PLAN_SECTION_LABEL } from "@/lib/day-plan";
+import { PLAN_SECTIONS } from "@/lib/types";
+import type { PlanSection, Task } from "@/lib/types";
+import type { DaySuggestion, DaySuggestions as Proposal } from "@/lib/day-suggest";
+
+// "Suggest my day" in the Today header: a proposed plan from
+// /api/day-plans/[date]/suggestions. Items can be accepted one at a time, a
+// section at a time, or all at once, and moved to another section first.
+
+export default function DaySuggestions({ date, tasks, onAccept }: {
+  date: string;
+  tasks: Task[];
+  onAccept: (items: Array<{ taskId: string; section: PlanSection }>) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [items, setItems] = useState<DaySuggestion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setProposal(null);
+    setError(null);
+    fetch(`/api/day-plans/${date}/suggestions`)
+      .then(async (r) => {
+        const data = await r.json();
+        if (!r.ok) throw new Error(data.error ?? "Could not build suggestions");
+        setProposal(data);
+        setItems(data.suggestions);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [open, date]);
+
+  const taskById = new Map(tasks.map((t) => [t.id, t]));
+  // Tasks that vanished since the proposal was built (deleted elsewhere) are skipped
+  const visible = items.filter((item) => taskById.has(item.taskId));
+
+  function accept(accepted: DaySuggestion[]) {
+    onAccept(accepted.map(({ taskId, section }) => ({ taskId, section })));
+    const ids = new Set(accepted.map((item) => item.taskId));
+    const rest = items.filter((item) => !ids.has(item.taskId));
+    setItems(rest);
+    if (rest.every((item) => !taskById.has(item.taskId))) setOpen(false);
+  }
+
+  function move(taskId: string, section: PlanSection) {
+    setItems((prev) => prev.map((item) => (item.taskId === taskId ? { ...item, section } : item)));
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="rounded-full border border-hairline px-4 py-2 text-sm font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+      >
+        Suggest my day
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[10vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) setOpen(false); }}
+        >
+          <div className="animate-fade flex max-h-[80vh] w-full max-w-lg flex-col overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center justify-between border-b border-hairline px-6 py-4 shrink-0">
+              <div>
+                <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">Suggested plan</h2>
+                <p className="text-xs text-ink-soft">{proposal?.note ?? "From overdue, due, pinned and in-progress work and your active projects"}</p>
+              </div>
+              <button type="button" aria-label="Close" onClick={() => setOpen(false)} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+              {error ? (
+                <p className="py-6 text-center text-sm text-coral">{error}</p>
+              ) : !proposal ? (
+                <p className="py-6 text-center text-sm text-ink-soft">Looking at your day…</p>
+              ) : visible.length === 0 ? (
+                <p className="py-6 text-center text-sm text-ink-soft">Nothing to suggest — your plan already covers what&apos;s urgent.</p>
+              ) : (
+                PLAN_SECTIONS.map((section) => {
+                  const rows = visible.filter((item) => item.section === section);
+                  if (rows.length === 0) return null;
+                  return (
+                    <div key={section} className="flex flex-col gap-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">{PLAN_SECTION_LABEL[section]}</p>
+                        <button type="button" onClick={() => accept(rows)} className="text-xs text-ink-soft transition hover:text-coral">Add all</button>
+                      </div>
+                      {rows.map((item) => (
+                        <div key={item.taskId} className="flex items-start gap-3 rounded-lg border border-hairline px-4 py-3">
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm font-medium text-ink">{taskById.get(item.taskId)!.title}</p>
+                            <p className="mt-0.5 text-[11px] text-ink-soft">{item.reasons.join(" · ")}</p>
+                          </div>
+                          <select
+                            value={item.section}
+                            onChange={(e) => move(item.taskId, e.target.value as PlanSection)}
+                            className="rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink-muted outline-none focus:border-coral"
+                          >
+                            {PLAN_SECTIONS.map((s) => <option key={s} value={s}>{PLAN_SECTION_LABEL[s]}</option>)}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => accept([item])}
+                            className="rounded-md border border-coral px-3 py-1 text-xs font-medium text-coral transition hover:bg-coral/5"
+                          >
+                            Add
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {visible.length > 0 && (
+              <div className="flex justify-end gap-2 border-t border-hairline px-6 py-4">
+                <button type="button" onClick={() => setOpen(false)} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Close</button>
+                <button type="button" onClick={() => accept(visible)} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active">Accept all</button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
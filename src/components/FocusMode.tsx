@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+
+import { formatCountdown } from "@/lib/focus";
+import type { FocusSettings, FocusState } from "@/lib/focus";
+import type { Task } from "@/lib/types";
+
+// Focus (Pomodoro) UI for the Today view: the setup modal that picks a task
+// from the day plan, and the bar that runs the session. Timer logic lives in
+// hooks/useFocusSession, run by context/FocusContext.
+
+const SETTING_FIELDS: Array<{ key: keyof FocusSettings; label: string; min: number; max: number }> = [
+  { key: "workMinutes",      label: "Work (min)",        min: 5, max: 120 },
+  { key: "breakMinutes",     label: "Break (min)",       min: 1, max: 60  },
+  { key: "longBreakMinutes", label: "Long break (min)",  min: 1, max: 90  },
+  { key: "longBreakEvery",   label: "Long break every",  min: 2, max: 12  },
+];
+
+export function FocusSetupModal({
+  tasks,
+  settings,
+  onStart,
+  onClose,
+}: {
+  // Open tasks from today's plan, in plan order
+  tasks: Task[];
+  settings: FocusSettings;
+  onStart: (taskId: string, settings: FocusSettings) => void;
+  onClose: () => void;
+}) {
+  const [taskId, setTaskId] = useState<string | null>(tasks[0]?.id ?? null);
+  const [draft, setDraft] = useState<FocusSettings>(settings);
+
+  function setField(key: keyof FocusSettings, value: string, min: number, max: number) {
+    const n = Math.round(Number(value));
+    if (!Number.isFinite(n)) return;
+    setDraft((prev) => ({ ...prev, [key]: Math.min(Math.max(n, min), max) }));
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center p-4"
+      style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="w-full max-w-md rounded-xl border border-hairline bg-canvas animate-fade flex flex-col max-h-[80vh]">
+        <div className="flex items-center justify-between border-b border-hairline px-6 py-4 shrink-0">
+          <div>
+            <h2 className="font-display text-lg font-normal text-ink">Focus session</h2>
+            <p className="text-xs text-ink-soft">Pick one task from today and work in intervals</p>
+          </div>
+          <button type="button" onClick={onClose} className="rounded-md p-1 text-ink-soft hover:text-ink">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3 flex flex-col gap-2">
+          {tasks.length === 0 ? (
+            <p className="py-6 text-center text-sm text-ink-soft">Plan a task for today first — focus sessions run against the day plan.</p>
+          ) : (
+            tasks.map((t) => (
+              <button
+                key={t.id}
+                type="button"
+                onClick={() => setTaskId(t.id)}
+                className={`w-full rounded-lg border px-4 py-3 text-left text-sm transition ${taskId === t.id ? "border-coral bg-coral/5 text-ink" : "border-hairline text-ink hover:border-coral/40"}`}
+              >
+                {t.title}
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 border-t border-hairline px-6 py-4 sm:grid-cols-4">
+          {SETTING_FIELDS.map((f) => (
+            <label key={f.key} className="flex flex-col gap-1 text-[11px] font-medium text-ink-muted">
+              {f.label}
+              <input
+                type="number"
+                min={f.min}
+                max={f.max}
+                value={draft[f.key]}
+                onChange={(e) => setField(f.key, e.target.value, f.min, f.max)}
+                className="rounded-md border border-hairline bg-canvas px-2 py-1.5 text-sm text-ink outline-none focus:border-coral"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-hairline px-6 py-4 shrink-0">
+          <button type="button" onClick={onClose} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted hover:border-coral hover:text-coral transition">Cancel</button>
+          <button
+            type="button"
+            disabled={!taskId}
+            onClick={() => { if (taskId) { onStart(taskId, draft); onClose(); } }}
+            className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Start focusing
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function FocusBar({
+  state,
+  taskTitle,
+  remainingMs,
+  onPause,
+  onResume,
+  onSkip,
+  onStop,
+}: {
+  state: FocusState;
+  taskTitle: string;
+  remainingMs: number;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}) {
+  const working = state.phase === "work";
+  const paused = state.endsAt === null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-6 rounded-xl px-6 py-4 animate-rise ${working ? "bg-surface-dark text-on-dark" : "bg-surface-cream text-ink"}`}>
+      <div className="min-w-0 flex-1">
+        <p className={`text-[10px] font-medium uppercase tracking-[1.5px] ${working ? "text-coral" : "text-ink-muted"}`}>
+          {working ? `Focus · round ${state.round}` : "Break"}{paused && " · paused"}
+        </p>
+        <p className="mt-1 truncate font-display text-lg font-normal">{working ? taskTitle : `Up next: ${taskTitle}`}</p>
+      </div>
+      <span className="font-display text-4xl font-normal tabular-nums tracking-[-1px]">{formatCountdown(remainingMs)}</span>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={paused ? onResume : onPause}
+          className="rounded-full bg-coral px-4 py-1.5 text-xs font-medium text-white transition hover:bg-coral-active"
+        >
+          {paused ? "Resume" : "Pause"}
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          className={`rounded-full border px-4 py-1.5 text-xs font-medium transition ${working ? "border-on-dark-soft/40 text-on-dark-soft hover:text-on-dark" : "border-hairline text-ink-muted hover:border-coral hover:text-coral"}`}
+        >
+          {working ? "Take break" : "Skip break"}
+        </button>
+        <button
+          type="button"
+          onClick={onStop}
+          className={`rounded-full px-3 py-1.5 text-xs font-medium transition ${working ? "text-on-dark-soft hover:text-on-dark" : "text-ink-soft hover:text-coral"}`}
+        >
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,8 +6,15 @@ import MarkdownEditor from "@/components/MarkdownEditor";
 import { SpacePicker } from "@/components/SpaceLock";
 import { usePersonalSpaceCtx } from "@/components/DashboardShell";
 import RenderedMarkdown from "@/components/RenderedMarkdown";
+import { OPEN_SEARCH_HIT_EVENT } from "@/components/SearchPanel";
+import type { SearchHitRef } from "@/components/SearchPanel";
 import LearningPlans from "@/components/LearningPlans";
 import CaptureSetup from "@/components/CaptureSetup";
+import TagPicker, { TagFilterBar } from "@/components/TagPicker";
+import { TagLabels } from "@/components/TaskLabels";
+import { useTags } from "@/hooks/useTags";
+import type { Tag } from "@/lib/types";
+import { restoreFromTrash, showUndoToast } from "@/lib/undo";
 
 type Article = {
   id: string;
@@ -21,14 +28,28 @@ type Article = {
   thumbnail: string;
   author: string;
   type: string;
+  tags?: Tag[];
   createdAt: string;
 };
 
+type ArticlePatch = Partial<Article> & { tagIds?: string[] };
+
 type Tab = "articles" | "plans";
 
 export default function LearnApp() {
   const [tab, setTab] = useState<Tab>("articles");
 
+  // Search hits for plans live on the other tab
+  useEffect(() => {
+    const handler = (e: Event) => {
+      const hit = (e as CustomEvent<SearchHitRef>).detail;
+      if (hit.type === "learningPlan") setTab("plans");
+      if (hit.type === "article") setTab("articles");
+    };
+    window.addEventListener(OPEN_SEARCH_HIT_EVENT, handler);
+    return () => window.removeEventListener(OPEN_SEARCH_HIT_EVENT, handler);
+  }, []);
+
   return (
     <section className="flex w-full flex-col gap-8 px-8 py-10 lg:px-10">
       {/* Header */}
@@ -71,28 +92,31 @@ function ArticlesTab() {
   const [title, setTitle] = useState("");
   const [notes, setNotes] = useState("");
   const [space, setSpace] = useState<"professional" | "personal">("professional");
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const { tags: allTags, createTag } = useTags();
 
   useEffect(() => {
-    fetch("/api/articles")
+    fetch(tagFilter ? `/api/articles?tag=${encodeURIComponent(tagFilter)}` : "/api/articles")
       .then((r) => (r.ok ? r.json() : []))
       .then((data) => setArticles(Array.isArray(data) ? data : []))
       .finally(() => setLoading(false));
-  }, []);
+  }, [tagFilter]);
 
   async function addArticle() {
     if (!url.trim()) return;
     const res = await fetch("/api/articles", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ url: url.trim(), title: title.trim(), notes: notes.trim(), space }),
+      body: JSON.stringify({ url: url.trim(), title: title.trim(), notes: notes.trim(), space, tagIds }),
     });
     if (!res.ok) return;
     const article: Article = await res.json();
     setArticles((prev) => [article, ...prev]);
-    setUrl(""); setTitle(""); setNotes(""); setSpace("professional"); setShowForm(false);
+    setUrl(""); setTitle(""); setNotes(""); setSpace("professional"); setTagIds([]); setShowForm(false);
   }
 
-  async function patchArticle(id: string, patch: Partial<Article>) {
+  async function patchArticle(id: string, patch: ArticlePatch) {
     const res = await fetch(`/api/articles/${id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
@@ -104,8 +128,15 @@ function ArticlesTab() {
   }
 
   async function remove(id: string) {
-    await fetch(`/api/articles/${id}`, { method: "DELETE" });
+    const res = await fetch(`/api/articles/${id}`, { method: "DELETE" });
+    if (!res.ok) return;
     setArticles((prev) => prev.filter((x) => x.id !== id));
+    showUndoToast("Article moved to trash", async () => {
+      const restored = await restoreFromTrash([{ type: "article", id }]);
+      if (!restored) return false;
+      setArticles((prev) => [...(restored.articles as Article[]), ...prev]);
+      return true;
+    });
   }
 
   const visible = articles.filter((a) => a.space !== "personal" || unlocked);
@@ -149,6 +180,10 @@ function ArticlesTab() {
             <label className="text-xs font-medium text-ink-muted">Why save it? (optional)</label>
             <MarkdownEditor value={notes} onChange={setNotes} placeholder="Notes — Markdown supported…" minHeight={80} />
           </div>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-xs font-medium text-ink-muted">Tags</label>
+            <TagPicker tags={allTags} value={tagIds} onChange={setTagIds} onCreate={createTag} />
+          </div>
           <div className="flex items-center justify-between border-t border-hairline pt-3">
             <SpacePicker value={space} onChange={setSpace} />
             <div className="flex gap-2">
@@ -159,22 +194,24 @@ function ArticlesTab() {
         </div>
       )}
 
+      <TagFilterBar tags={allTags} active={tagFilter} onChange={setTagFilter} />
+
       {visible.length === 0 ? (
         <div className="rounded-lg border border-dashed border-hairline p-10 text-center text-sm text-ink-soft">
-          Nothing saved yet. Paste a link above to start your reading list.
+          {tagFilter ? "No saved articles with this tag." : "Nothing saved yet. Paste a link above to start your reading list."}
         </div>
       ) : (
         <div className="flex flex-col gap-8">
           {unread.length > 0 && (
             <div className="flex flex-col gap-3">
               <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">To read</p>
-              {unread.map((a) => <ArticleCard key={a.id} article={a} onPatch={patchArticle} onRemove={remove} />)}
+              {unread.map((a) => <ArticleCard key={a.id} article={a} allTags={allTags} onCreateTag={createTag} onPatch={patchArticle} onRemove={remove} />)}
             </div>
           )}
           {read.length > 0 && (
             <div className="flex flex-col gap-3">
               <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Done</p>
-              {read.map((a) => <ArticleCard key={a.id} article={a} onPatch={patchArticle} onRemove={remove} />)}
+              {read.map((a) => <ArticleCard key={a.id} article={a} allTags={allTags} onCreateTag={createTag} onPatch={patchArticle} onRemove={remove} />)}
             </div>
           )}
         </div>
@@ -185,21 +222,26 @@ function ArticlesTab() {
 
 function ArticleCard({
   article,
+  allTags,
+  onCreateTag,
   onPatch,
   onRemove,
 }: {
   article: Article;
-  onPatch: (id: string, patch: Partial<Article>) => void;
+  allTags: Tag[];
+  onCreateTag: (name: string, color: string) => Promise<Tag | null>;
+  onPatch: (id: string, patch: ArticlePatch) => void;
   onRemove: (id: string) => void;
 }) {
   const [editing, setEditing] = useState(false);
   const [title, setTitle] = useState(article.title);
   const [url, setUrl] = useState(article.url);
   const [notes, setNotes] = useState(article.notes);
+  const [tagIds, setTagIds] = useState<string[]>(() => article.tags?.map((t) => t.id) ?? []);
 
   function save() {
     if (!url.trim()) return;
-    onPatch(article.id, { title: title.trim() || url.trim(), url: url.trim(), notes: notes.trim() });
+    onPatch(article.id, { title: title.trim() || url.trim(), url: url.trim(), notes: notes.trim(), tagIds });
     setEditing(false);
   }
 
@@ -218,6 +260,10 @@ function ArticleCard({
           <label className="text-xs font-medium text-ink-muted">Notes</label>
           <MarkdownEditor value={notes} onChange={setNotes} placeholder="Notes — Markdown supported…" minHeight={70} />
         </div>
+        <div className="flex flex-col gap-1.5">
+          <label className="text-xs font-medium text-ink-muted">Tags</label>
+          <TagPicker tags={allTags} value={tagIds} onChange={setTagIds} onCreate={onCreateTag} />
+        </div>
         <div className="flex justify-end gap-2 border-t border-hairline pt-3">
           <button type="button" onClick={() => setEditing(false)} className="rounded-md border border-hairline px-4 py-1.5 text-xs font-medium text-ink-muted hover:border-coral hover:text-coral">Cancel</button>
           <button type="button" onClick={save} className="rounded-md bg-coral px-4 py-1.5 text-xs font-medium text-white hover:bg-coral-active">Save</button>
@@ -227,7 +273,7 @@ function ArticleCard({
   }
 
   return (
-    <article className={`rounded-lg border bg-canvas p-4 transition ${article.read ? "border-hairline opacity-60" : "border-hairline hover:border-coral/40"}`}>
+    <article data-search-id={article.id} className={`rounded-lg border bg-canvas p-4 transition ${article.read ? "border-hairline opacity-60" : "border-hairline hover:border-coral/40"}`}>
       <div className="flex items-start gap-4">
         {/* Read toggle */}
         <button
@@ -256,6 +302,7 @@ function ArticleCard({
               <span className="rounded-pill bg-surface-card px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] text-ink-muted">{article.type}</span>
             )}
             {article.author && <span className="text-[11px] text-ink-soft">{article.author}</span>}
+            <TagLabels tags={article.tags} />
           </div>
 
           <a
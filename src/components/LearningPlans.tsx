@@ -6,6 +6,7 @@ import ChecklistPlanView from "@/components/ChecklistPlanView";
 import ChecklistPlanEditor from "@/components/ChecklistPlanEditor";
 import { AI_PM_PLAN } from "@/data/ai-pm-plan";
 import { planProgress, type ChecklistSection } from "@/lib/checklist-plan";
+import { restoreFromTrash, showUndoToast } from "@/lib/undo";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -116,9 +117,16 @@ export default function LearningPlans() {
   }
 
   async function deletePlan(planId: string) {
-    await fetch(`/api/learning-plans/${planId}`, { method: "DELETE" });
+    const res = await fetch(`/api/learning-plans/${planId}`, { method: "DELETE" });
+    if (!res.ok) return;
     setPlans((prev) => prev.filter((p) => p.id !== planId));
     setView({ kind: "list" });
+    showUndoToast("Learning plan moved to trash", async () => {
+      const restored = await restoreFromTrash([{ type: "learningPlan", id: planId }]);
+      if (!restored) return false;
+      setPlans((prev) => [...(restored.learningPlans as Plan[]).map(normalize), ...prev]);
+      return true;
+    });
   }
 
   async function createPhasePlan() {
@@ -294,7 +302,7 @@ export default function LearningPlans() {
               const { done, total } = planProgress(p.sections ?? []);
               const pct = total ? Math.round((done / total) * 100) : 0;
               return (
-                <button key={p.id} type="button" onClick={() => setView({ kind: "checklist-view", planId: p.id })}
+                <button key={p.id} data-search-id={p.id} type="button" onClick={() => setView({ kind: "checklist-view", planId: p.id })}
                   className="rounded-xl border border-hairline bg-canvas p-5 text-left transition hover:border-coral/40">
                   <div className="flex items-start justify-between gap-2">
                     <p className="font-display text-lg font-normal text-ink leading-snug">{p.title}</p>
@@ -325,7 +333,7 @@ export default function LearningPlans() {
               const done = weeks.filter((w) => w.done).length;
               const pct = weeks.length ? Math.round((done / weeks.length) * 100) : 0;
               return (
-                <button key={p.id} type="button" onClick={() => setView({ kind: "phase-view", planId: p.id })}
+                <button key={p.id} data-search-id={p.id} type="button" onClick={() => setView({ kind: "phase-view", planId: p.id })}
                   className="rounded-xl border border-hairline bg-canvas p-5 text-left transition hover:border-coral/40">
                   <p className="font-display text-lg font-normal text-ink leading-snug">{p.title}</p>
                   {p.subtitle && <p className="mt-1 text-xs text-ink-muted leading-relaxed line-clamp-2">{p.subtitle}</p>}
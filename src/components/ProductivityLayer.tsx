@@ -4,7 +4,13 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 
 import MarkdownEditor from "@/components/MarkdownEditor";
 import RenderedMarkdown from "@/components/RenderedMarkdown";
+import TagPicker, { TagFilterBar } from "@/components/TagPicker";
+import { TagLabels } from "@/components/TaskLabels";
+import { useTags } from "@/hooks/useTags";
+import { ACTIVITY_SOURCE_HEADER } from "@/lib/types";
+import type { Tag } from "@/lib/types";
 import { cancelNotifications, getReminderWindows, scheduleNotifications } from "@/lib/notifications";
+import { restoreFromTrash, showUndoToast } from "@/lib/undo";
 
 type FollowUpState = "open" | "later" | "snoozed" | "missed" | "done";
 type ReminderMeta  = { preDueSentAt?: number; lastEscalationAt?: number };
@@ -24,6 +30,7 @@ type FeedbackItem = {
   id: string;
   from: string;
   message: string;
+  tags?: Tag[];
 };
 
 type IdeaItem = {
@@ -31,9 +38,14 @@ type IdeaItem = {
   title: string;
   notes: string;
   sourceUrl: string | null;
+  tags?: Tag[];
   createdAt: string;
 };
 
+function hasTag(item: { tags?: Tag[] }, tagId: string | null) {
+  return !tagId || Boolean(item.tags?.some((t) => t.id === tagId));
+}
+
 type ProductivityModule = "reminders" | "feedback" | "ideas";
 
 function isTaskOverdue(dueAt: string | null, completed: boolean) {
@@ -55,6 +67,8 @@ export default function ProductivityLayer({
   const [feedback, setFeedback] = useState<FeedbackItem[]>([]);
   const [ideas, setIdeas]       = useState<IdeaItem[]>([]);
   const [loading, setLoading]   = useState(true);
+  const { tags: allTags, createTag } = useTags();
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
 
   // followup/reminderMeta are per-device (snooze state) — localStorage is fine here
   const [followups, setFollowups]         = useState<Record<string, FollowUpState>>({});
@@ -70,6 +84,7 @@ export default function ProductivityLayer({
   const [editingFeedbackId, setEditingFeedbackId]     = useState<string | null>(null);
   const [editingFeedbackFrom, setEditingFeedbackFrom] = useState("");
   const [editingFeedbackMsg, setEditingFeedbackMsg]   = useState("");
+  const [editingFeedbackTags, setEditingFeedbackTags] = useState<string[]>([]);
 
   // Idea form state
   const [ideaTitle, setIdeaTitle]               = useState("");
@@ -78,13 +93,15 @@ export default function ProductivityLayer({
   const [editingIdeaId, setEditingIdeaId]       = useState<string | null>(null);
   const [editingIdeaTitle, setEditingIdeaTitle] = useState("");
   const [editingIdeaNotes, setEditingIdeaNotes] = useState("");
+  const [editingIdeaTags, setEditingIdeaTags]   = useState<string[]>([]);
   const [openIdeaMenuId, setOpenIdeaMenuId]     = useState<string | null>(null);
 
   // ── Load ──────────────────────────────────────────────────────────────────
 
   useEffect(() => {
     Promise.all([
-      fetch("/api/tasks").then((r) => r.json()),
+      // Only open tasks feed the reminder queue
+      fetch("/api/tasks?status=open&sort=due").then((r) => r.json()),
       fetch("/api/feedback").then((r) => r.json()),
       fetch("/api/ideas").then((r) => r.json()),
     ]).then(([t, f, i]) => {
@@ -125,7 +142,7 @@ export default function ProductivityLayer({
 
     fetch("/api/ideas", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", [ACTIVITY_SOURCE_HEADER]: "capture" },
       body: JSON.stringify({ title, notes, sourceUrl }),
     })
       .then((r) => r.json())
@@ -273,6 +290,7 @@ export default function ProductivityLayer({
     setEditingFeedbackId(item.id);
     setEditingFeedbackFrom(item.from);
     setEditingFeedbackMsg(item.message);
+    setEditingFeedbackTags(item.tags?.map((t) => t.id) ?? []);
   }
 
   function cancelFeedbackEdit() {
@@ -285,7 +303,7 @@ export default function ProductivityLayer({
     const res = await fetch(`/api/feedback/${id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ from: editingFeedbackFrom.trim(), message: editingFeedbackMsg.trim() }),
+      body: JSON.stringify({ from: editingFeedbackFrom.trim(), message: editingFeedbackMsg.trim(), tagIds: editingFeedbackTags }),
     });
     const updated: FeedbackItem = await res.json();
     setFeedback((prev) => prev.map((f) => (f.id === id ? updated : f)));
@@ -293,9 +311,16 @@ export default function ProductivityLayer({
   }
 
   async function deleteFeedback(id: string) {
-    await fetch(`/api/feedback/${id}`, { method: "DELETE" });
+    const res = await fetch(`/api/feedback/${id}`, { method: "DELETE" });
+    if (!res.ok) return;
     setFeedback((prev) => prev.filter((f) => f.id !== id));
     if (editingFeedbackId === id) cancelFeedbackEdit();
+    showUndoToast("Feedback moved to trash", async () => {
+      const restored = await restoreFromTrash([{ type: "feedback", id }]);
+      if (!restored) return false;
+      setFeedback((prev) => [...(restored.feedback as FeedbackItem[]), ...prev]);
+      return true;
+    });
   }
 
   // ── Idea helpers ──────────────────────────────────────────────────────────
@@ -316,6 +341,7 @@ export default function ProductivityLayer({
     setEditingIdeaId(item.id);
     setEditingIdeaTitle(item.title);
     setEditingIdeaNotes(item.notes);
+    setEditingIdeaTags(item.tags?.map((t) => t.id) ?? []);
     setOpenIdeaMenuId(null);
   }
 
@@ -329,7 +355,7 @@ export default function ProductivityLayer({
     const res = await fetch(`/api/ideas/${id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ title: editingIdeaTitle.trim(), notes: editingIdeaNotes.trim() }),
+      body: JSON.stringify({ title: editingIdeaTitle.trim(), notes: editingIdeaNotes.trim(), tagIds: editingIdeaTags }),
     });
     const updated: IdeaItem = await res.json();
     setIdeas((prev) => prev.map((i) => (i.id === id ? updated : i)));
@@ -337,10 +363,17 @@ export default function ProductivityLayer({
   }
 
   async function deleteIdea(id: string) {
-    await fetch(`/api/ideas/${id}`, { method: "DELETE" });
+    const res = await fetch(`/api/ideas/${id}`, { method: "DELETE" });
+    if (!res.ok) return;
     setIdeas((prev) => prev.filter((i) => i.id !== id));
     setOpenIdeaMenuId((cur) => (cur === id ? null : cur));
     if (editingIdeaId === id) cancelIdeaEdit();
+    showUndoToast("Idea moved to trash", async () => {
+      const restored = await restoreFromTrash([{ type: "idea", id }]);
+      if (!restored) return false;
+      setIdeas((prev) => [...(restored.ideas as IdeaItem[]), ...prev]);
+      return true;
+    });
   }
 
   const actionQueue = useMemo(() => {
@@ -414,16 +447,20 @@ export default function ProductivityLayer({
             <p className="text-sm uppercase tracking-[0.3em] text-ink-300">Existing</p>
             <h4 className="mt-2 text-lg font-semibold text-ink-900">Captured feedback</h4>
           </div>
+          <div className="mt-3">
+            <TagFilterBar tags={allTags} active={tagFilter} onChange={setTagFilter} />
+          </div>
           <div className="mt-4 space-y-2">
             {feedback.length === 0 ? (
               <p className="text-sm text-ink-500">No feedback captured yet.</p>
             ) : (
-              feedback.map((item) => (
-                <article key={item.id} className="rounded-xl border border-mist-200 bg-mist-50 p-3">
+              feedback.filter((item) => hasTag(item, tagFilter)).map((item) => (
+                <article key={item.id} data-search-id={item.id} className="rounded-xl border border-mist-200 bg-mist-50 p-3">
                   {editingFeedbackId === item.id ? (
                     <div className="space-y-2">
                       <input value={editingFeedbackFrom} onChange={(e) => setEditingFeedbackFrom(e.target.value)} className="w-full rounded-xl border border-mist-200 bg-white px-3 py-2 text-sm outline-none focus:border-accent-500" />
                       <MarkdownEditor value={editingFeedbackMsg} onChange={setEditingFeedbackMsg} minHeight={140} />
+                      <TagPicker tags={allTags} value={editingFeedbackTags} onChange={setEditingFeedbackTags} onCreate={createTag} />
                       <div className="flex flex-wrap gap-2">
                         <button type="button" onClick={() => saveFeedbackEdit(item.id)} className="rounded-xl bg-accent-500 px-3 py-2 text-xs font-semibold text-white hover:bg-accent-600">Save</button>
                         <button type="button" onClick={cancelFeedbackEdit} className="rounded-xl border border-mist-200 px-3 py-2 text-xs font-semibold text-ink-500">Cancel</button>
@@ -436,6 +473,9 @@ export default function ProductivityLayer({
                         <div className="min-w-0 flex-1">
                           <p className="text-sm font-semibold text-ink-900">{item.from}</p>
                           <RenderedMarkdown source={item.message} className="markdown-rendered mt-1" />
+                          {item.tags && item.tags.length > 0 && (
+                            <div className="mt-2 flex flex-wrap gap-1"><TagLabels tags={item.tags} /></div>
+                          )}
                         </div>
                         <button type="button" onClick={() => startFeedbackEdit(item)} className="rounded-full border border-mist-200 px-3 py-1 text-xs font-semibold text-ink-500 hover:border-accent-500 hover:text-accent-500">Edit</button>
                       </div>
@@ -473,16 +513,20 @@ export default function ProductivityLayer({
             <p className="text-sm uppercase tracking-[0.3em] text-ink-300">Existing</p>
             <h4 className="mt-2 text-lg font-semibold text-ink-900">Captured ideas</h4>
           </div>
+          <div className="mt-3">
+            <TagFilterBar tags={allTags} active={tagFilter} onChange={setTagFilter} />
+          </div>
           <div className="mt-4 space-y-2">
             {ideas.length === 0 ? (
               <p className="text-sm text-ink-500">No ideas captured yet.</p>
             ) : (
-              ideas.map((item) => (
-                <article key={item.id} className="relative rounded-xl border border-mist-200 bg-mist-50 p-3">
+              ideas.filter((item) => hasTag(item, tagFilter)).map((item) => (
+                <article key={item.id} data-search-id={item.id} className="relative rounded-xl border border-mist-200 bg-mist-50 p-3">
                   {editingIdeaId === item.id ? (
                     <div className="space-y-2">
                       <input value={editingIdeaTitle} onChange={(e) => setEditingIdeaTitle(e.target.value)} className="w-full rounded-xl border border-mist-200 bg-white px-3 py-2 text-sm outline-none focus:border-accent-500" />
                       <MarkdownEditor value={editingIdeaNotes} onChange={setEditingIdeaNotes} minHeight={140} />
+                      <TagPicker tags={allTags} value={editingIdeaTags} onChange={setEditingIdeaTags} onCreate={createTag} />
                       <div className="flex flex-wrap gap-2">
                         <button type="button" onClick={() => saveIdeaEdit(item.id)} className="rounded-xl bg-accent-500 px-3 py-2 text-xs font-semibold text-white hover:bg-accent-600">Save</button>
                         <button type="button" onClick={cancelIdeaEdit} className="rounded-xl border border-mist-200 px-3 py-2 text-xs font-semibold text-ink-500">Cancel</button>
@@ -493,6 +537,9 @@ export default function ProductivityLayer({
                     <div className="pr-12">
                       <p className="text-sm font-semibold text-ink-900">{item.title}</p>
                       {item.notes && <RenderedMarkdown source={item.notes} className="markdown-rendered mt-1" />}
+                      {item.tags && item.tags.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1"><TagLabels tags={item.tags} /></div>
+                      )}
                       {item.sourceUrl && <a href={item.sourceUrl} target="_blank" rel="noreferrer" className="mt-2 inline-block text-xs text-accent-600 hover:underline">Source page</a>}
                       <p className="mt-1 text-xs text-ink-300">{new Date(item.createdAt).toLocaleString()}</p>
                       <div className="absolute right-3 top-3">
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+
+import { BlockedLabel, PriorityLabel, SubtaskRollupLabel, TagLabels } from "@/components/TaskLabels";
+import { BOARD_COLUMN_STATUSES, BOARD_STATUS_LABEL, MAX_BOARD_COLUMNS, boardColumns, columnForTask, columnPatch } from "@/lib/board";
+import { openBlockers } from "@/lib/dependencies";
+import { compareTaskOrder } from "@/lib/sort-key";
+import { subtaskRollup } from "@/lib/subtasks";
+import { buildId } from "@/lib/types";
+import type { BoardColumn, BoardColumnStatus, Project, Task } from "@/lib/types";
+
+// Kanban view of one project's tasks. Columns come from the project (see
+// lib/board); dragging a card into a column patches the task's column and its
+// completed / inProgress flags together.
+
+export type ColumnMove = ReturnType<typeof columnPatch>;
+
+function ColumnEditor({ columns, onSave, onClose }: { columns: BoardColumn[]; onSave: (columns: BoardColumn[] | null) => void; onClose: () => void }) {
+  const [draft, setDraft] = useState(columns);
+  const valid = draft.length > 0 && draft.every((c) => c.name.trim());
+
+  function update(id: string, patch: Partial<BoardColumn>) {
+    setDraft((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  }
+
+  function move(index: number, by: -1 | 1) {
+    setDraft((prev) => {
+      const next = [...prev];
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center p-4"
+      style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="animate-fade flex max-h-[80vh] w-full max-w-md flex-col rounded-xl border border-hairline bg-canvas">
+        <div className="border-b border-hairline px-6 py-4">
+          <h2 className="font-display text-lg font-normal text-ink">Board columns</h2>
+          <p className="text-xs text-ink-soft">A column&apos;s status is what a card becomes when dropped into it</p>
+        </div>
+        <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-2">
+          {draft.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <div className="flex flex-col">
+                <button type="button" aria-label="Move left" disabled={index === 0} onClick={() => move(index, -1)} className="px-1 text-[10px] leading-none text-ink-soft transition hover:text-coral disabled:opacity-30">▲</button>
+                <button type="button" aria-label="Move right" disabled={index === draft.length - 1} onClick={() => move(index, 1)} className="px-1 text-[10px] leading-none text-ink-soft transition hover:text-coral disabled:opacity-30">▼</button>
+              </div>
+              <input
+                value={column.name}
+                onChange={(e) => update(column.id, { name: e.target.value })}
+                className="min-w-0 flex-1 rounded-md border border-hairline bg-canvas px-3 py-1.5 text-sm text-ink outline-none transition focus:border-coral"
+              />
+              <select
+                value={column.status}
+                onChange={(e) => update(column.id, { status: e.target.value as BoardColumnStatus })}
+                className="rounded-md border border-hairline bg-canvas px-2 py-1.5 text-xs text-ink-muted outline-none focus:border-coral"
+              >
+                {BOARD_COLUMN_STATUSES.map((s) => <option key={s} value={s}>{BOARD_STATUS_LABEL[s]}</option>)}
+              </select>
+              <button
+                type="button"
+                aria-label="Remove column"
+                disabled={draft.length === 1}
+                onClick={() => setDraft((prev) => prev.filter((c) => c.id !== column.id))}
+                className="rounded-md p-1 text-ink-soft transition hover:text-coral disabled:opacity-30"
+              >
+                <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M2 2l8 8M10 2 2 10" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round"/></svg>
+              </button>
+            </div>
+          ))}
+          {draft.length < MAX_BOARD_COLUMNS && (
+            <button
+              type="button"
+              onClick={() => setDraft((prev) => [...prev, { id: buildId(), name: "", status: "in-progress" }])}
+              className="self-start text-xs text-ink-soft transition hover:text-coral"
+            >
+              + Add column
+            </button>
+          )}
+        </div>
+        <div className="flex items-center justify-between border-t border-hairline px-6 py-4">
+          <button type="button" onClick={() => { onSave(null); onClose(); }} className="text-xs text-ink-soft transition hover:text-coral">Reset to default</button>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+            <button
+              type="button"
+              disabled={!valid}
+              onClick={() => { onSave(draft.map((c) => ({ ...c, name: c.name.trim() }))); onClose(); }}
+              className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40"
+            >
+              Save columns
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ProjectBoard({
+  project,
+  tasks,
+  allTasks,
+  onMoveTask,
+  onUpdateColumns,
+}: {
+  project: Project;
+  tasks: Task[];
+  // Blockers can live in other projects
+  allTasks: Task[];
+  onMoveTask: (id: string, move: ColumnMove) => void;
+  // null goes back to the default columns
+  onUpdateColumns: (columns: BoardColumn[] | null) => void;
+}) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<string | null>(null);
+  const [editingColumns, setEditingColumns] = useState(false);
+
+  const columns = boardColumns(project);
+  const byColumn = new Map<string, Task[]>(columns.map((c) => [c.id, []]));
+  for (const task of [...tasks].sort(compareTaskOrder)) {
+    byColumn.get(columnForTask(task, columns).id)?.push(task);
+  }
+
+  function drop(column: BoardColumn) {
+    const task = tasks.find((t) => t.id === draggingId);
+    setDraggingId(null);
+    setOverColumn(null);
+    if (!task || columnForTask(task, columns).id === column.id) return;
+    onMoveTask(task.id, columnPatch(column));
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex justify-end">
+        <button type="button" onClick={() => setEditingColumns(true)} className="text-xs text-ink-soft transition hover:text-coral">
+          Edit columns
+        </button>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {columns.map((column) => {
+          const cards = byColumn.get(column.id) ?? [];
+          return (
+            <div
+              key={column.id}
+              onDragOver={(e) => { e.preventDefault(); setOverColumn(column.id); }}
+              onDragLeave={() => setOverColumn((id) => (id === column.id ? null : id))}
+              onDrop={(e) => { e.preventDefault(); drop(column); }}
+              className={`flex w-64 shrink-0 flex-col gap-2 rounded-xl border p-3 transition ${overColumn === column.id ? "border-coral bg-coral/5" : "border-hairline bg-surface-card"}`}
+            >
+              <div className="flex items-center justify-between px-1">
+                <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">{column.name}</p>
+                <span className="text-xs text-ink-soft">{cards.length}</span>
+              </div>
+              {cards.map((task) => {
+                const blockers = task.completed ? [] : openBlockers(task, allTasks);
+                const rollup = subtaskRollup(tasks, task.id);
+                return (
+                  <article
+                    key={task.id}
+                    draggable
+                    onDragStart={(e) => {
+                      // Firefox only starts a drag that carries data
+                      e.dataTransfer.setData("text/plain", task.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggingId(task.id);
+                    }}
+                    onDragEnd={() => { setDraggingId(null); setOverColumn(null); }}
+                    className={`cursor-grab rounded-lg border border-hairline bg-canvas p-3 transition active:cursor-grabbing ${draggingId === task.id ? "opacity-40" : ""}`}
+                  >
+                    <p className={`text-sm font-medium leading-snug text-ink ${task.completed ? "line-through text-ink-soft" : ""}`}>{task.title}</p>
+                    <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+                      {task.dueAt && (
+                        <span className="text-[11px] text-ink-soft">{new Date(task.dueAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}</span>
+                      )}
+                      {task.priority && !task.completed && <PriorityLabel priority={task.priority} />}
+                      {blockers.length > 0 && <BlockedLabel blockers={blockers.map((b) => b.title)} />}
+                      {rollup.total > 0 && <SubtaskRollupLabel done={rollup.done} total={rollup.total} />}
+                      <TagLabels tags={task.tags} />
+                    </div>
+                  </article>
+                );
+              })}
+              {cards.length === 0 && <p className="px-1 py-4 text-center text-xs text-ink-soft">Drop tasks here</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {editingColumns && (
+        <ColumnEditor
+          columns={columns}
+          onSave={onUpdateColumns}
+          onClose={() => setEditingColumns(false)}
+        />
+      )}
+    </div>
+  );
+}
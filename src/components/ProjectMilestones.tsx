@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+
+import { todayKey } from "@/lib/day-plan";
+import { MILESTONE_HEALTH_META, milestoneHealth, milestoneProgress } from "@/lib/milestones";
+import type { MilestoneFields } from "@/lib/milestones";
+import type { Milestone, Task } from "@/lib/types";
+
+// Milestones section of the project detail: each one's progress through its
+// tasks and whether it's overdue or at risk, plus the modal to edit them.
+
+function formatDueDate(key: string) {
+  return new Date(`${key}T12:00:00`).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+function MilestoneModal({ initial, tasks, onSave, onClose }: {
+  initial?: Milestone;
+  // The project's tasks
+  tasks: Task[];
+  onSave: (data: MilestoneFields) => Promise<string | null>;
+  onClose: () => void;
+}) {
+  const [title, setTitle]     = useState(initial?.title ?? "");
+  const [dueDate, setDueDate] = useState(initial?.dueDate ?? "");
+  const [taskIds, setTaskIds] = useState<string[]>(() => initial?.taskIds.filter((id) => tasks.some((t) => t.id === id)) ?? []);
+  const [saving, setSaving]   = useState(false);
+  const [error, setError]     = useState<string | null>(null);
+
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const available = tasks.filter((t) => !t.completed && !taskIds.includes(t.id));
+
+  function move(index: number, delta: number) {
+    setTaskIds((prev) => {
+      const next = [...prev];
+      const [id] = next.splice(index, 1);
+      next.splice(index + delta, 0, id);
+      return next;
+    });
+  }
+
+  async function submit() {
+    if (!title.trim() || !dueDate) return;
+    setSaving(true);
+    const err = await onSave({ title: title.trim(), dueDate, taskIds });
+    setSaving(false);
+    if (err) setError(err);
+    else onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4" style={{ backgroundColor: "rgba(20,20,19,0.55)" }} onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div className="w-full max-w-lg rounded-xl border border-hairline bg-white flex flex-col max-h-[90vh] animate-fade">
+        <div className="flex items-center justify-between border-b border-hairline px-6 py-4">
+          <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">{initial ? "Edit milestone" : "New milestone"}</h2>
+          <button type="button" onClick={onClose} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+          </button>
+        </div>
+        <form className="overflow-y-auto flex flex-col gap-4 px-6 py-5" onSubmit={(e) => { e.preventDefault(); submit(); }}>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-xs font-medium text-ink-muted">Milestone</label>
+            <input autoFocus value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Beta launch" className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition placeholder:text-ink-soft focus:border-coral" />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-xs font-medium text-ink-muted">Due date</label>
+            <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition focus:border-coral" />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-xs font-medium text-ink-muted">Tasks, in order</label>
+            {taskIds.length === 0 ? (
+              <p className="rounded-md border border-dashed border-hairline px-3 py-3 text-xs text-ink-soft">No tasks yet. Pick them from the list below.</p>
+            ) : (
+              <ol className="flex flex-col gap-1">
+                {taskIds.map((id, index) => (
+                  <li key={id} className="flex items-center gap-2 rounded-md border border-hairline bg-canvas px-3 py-2 text-sm">
+                    <span className="w-5 shrink-0 text-xs text-ink-soft">{index + 1}.</span>
+                    <span className={`min-w-0 flex-1 truncate ${byId.get(id)?.completed ? "line-through text-ink-soft" : "text-ink"}`}>{byId.get(id)?.title}</span>
+                    <button type="button" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up" className="rounded px-1 text-xs text-ink-soft transition hover:text-coral disabled:opacity-30">↑</button>
+                    <button type="button" disabled={index === taskIds.length - 1} onClick={() => move(index, 1)} aria-label="Move down" className="rounded px-1 text-xs text-ink-soft transition hover:text-coral disabled:opacity-30">↓</button>
+                    <button type="button" onClick={() => setTaskIds((prev) => prev.filter((x) => x !== id))} aria-label="Remove" className="rounded px-1 text-xs text-ink-soft transition hover:text-coral">×</button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {available.length > 0 && (
+              <div className="mt-1 flex max-h-40 flex-col overflow-y-auto rounded-md border border-hairline">
+                {available.map((t) => (
+                  <button key={t.id} type="button" onClick={() => setTaskIds((prev) => [...prev, t.id])} className="flex items-center gap-2 px-3 py-1.5 text-left text-xs text-ink-muted transition hover:bg-surface-card hover:text-ink">
+                    <span className="text-coral">+</span>
+                    <span className="truncate">{t.title}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center justify-between border-t border-hairline pt-4">
+            <span className="text-xs text-coral">{error}</span>
+            <div className="flex gap-2">
+              <button type="button" onClick={onClose} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+              <button type="submit" disabled={saving || !title.trim() || !dueDate} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40">
+                {initial ? "Save changes" : "Add milestone"}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default function ProjectMilestones({ milestones, tasks, onCreate, onUpdate, onDelete }: {
+  milestones: Milestone[];
+  tasks: Task[];
+  onCreate: (data: MilestoneFields) => Promise<string | null>;
+  onUpdate: (id: string, patch: MilestoneFields) => Promise<string | null>;
+  onDelete: (id: string) => void;
+}) {
+  const [editing, setEditing]       = useState<Milestone | "new" | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const today = todayKey();
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-medium uppercase tracking-[1.5px] text-ink-muted">Milestones</p>
+        <button type="button" onClick={() => setEditing("new")} className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">
+          Add milestone
+        </button>
+      </div>
+
+      {milestones.length === 0 ? (
+        <p className="text-xs text-ink-soft">No milestones yet. Group tasks under a date to track progress towards it.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {milestones.map((milestone) => {
+            const { done, total, percent } = milestoneProgress(milestone, tasks);
+            const { health, reasons } = milestoneHealth(milestone, tasks);
+            const meta = MILESTONE_HEALTH_META[health];
+            const expanded = expandedId === milestone.id;
+
+            return (
+              <article key={milestone.id} className={`rounded-lg border bg-canvas p-4 ${health === "overdue" ? "border-coral/30" : health === "at-risk" ? "border-amber-300/60" : "border-hairline"}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <button type="button" onClick={() => setExpandedId(expanded ? null : milestone.id)} className="min-w-0 flex-1 text-left">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium text-ink">{milestone.title}</p>
+                      <span className={`rounded-pill px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] ${meta.pill}`}>{meta.label}</span>
+                    </div>
+                    <p className="mt-1 text-xs text-ink-soft">
+                      {milestone.dueDate === today ? "Due today" : `Due ${formatDueDate(milestone.dueDate)}`}
+                      {reasons.length > 0 && ` · ${reasons.join(" · ")}`}
+                    </p>
+                  </button>
+                  <div className="flex shrink-0 items-center gap-1.5">
+                    <button type="button" onClick={() => setEditing(milestone)} className="rounded-md border border-hairline px-2.5 py-1 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Edit</button>
+                    <button type="button" onClick={() => onDelete(milestone.id)} className="rounded-md border border-transparent px-2.5 py-1 text-xs font-medium text-ink-soft transition hover:border-hairline hover:text-coral">Delete</button>
+                  </div>
+                </div>
+                <div className="mt-3 flex items-center gap-3">
+                  <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-surface-card">
+                    <div className={`h-full rounded-full transition-all duration-500 ${health === "at-risk" ? "bg-amber-500" : "bg-coral"}`} style={{ width: `${percent}%` }} />
+                  </div>
+                  <span className="w-24 shrink-0 text-right text-xs text-ink-soft">{total > 0 ? `${done} / ${total} · ${percent}%` : "No tasks"}</span>
+                </div>
+                {expanded && total > 0 && (
+                  <ol className="mt-3 flex flex-col gap-1 border-t border-hairline pt-3 animate-fade">
+                    {milestone.taskIds.flatMap((id) => byId.get(id) ?? []).map((task, index) => (
+                      <li key={task.id} className="flex items-center gap-2 text-xs">
+                        <span className="w-5 shrink-0 text-ink-soft">{index + 1}.</span>
+                        <span className={`h-2.5 w-2.5 shrink-0 rounded-full border ${task.completed ? "border-coral bg-coral" : "border-hairline"}`} />
+                        <span className={task.completed ? "line-through text-ink-soft" : "text-ink"}>{task.title}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </article>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && (
+        <MilestoneModal
+          initial={editing === "new" ? undefined : editing}
+          tasks={tasks}
+          onSave={(data) => (editing === "new" ? onCreate(data) : onUpdate(editing.id, data))}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+
+import MarkdownEditor from "@/components/MarkdownEditor";
+import RenderedMarkdown from "@/components/RenderedMarkdown";
+import { PROJECT_HEALTH_META } from "@/lib/project-health";
+import type { ProjectHealthSignal } from "@/lib/project-health";
+import type { ProjectHealthLevel, ProjectUpdate } from "@/lib/types";
+
+// Project health badge, the status report editor and the list of dated updates
+// shown in the project detail.
+
+function formatUpdateDate(key: string) {
+  return new Date(`${key}T12:00:00`).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+}
+
+export function HealthBadge({ level, signal }: { level: ProjectHealthLevel; signal?: ProjectHealthSignal }) {
+  const meta = PROJECT_HEALTH_META[level];
+  const title = signal && (signal.factors.length > 0 ? `${signal.score}/100: ${signal.factors.join(", ")}` : `${signal.score}/100`);
+  return (
+    <span title={title} className={`inline-flex items-center gap-1 rounded-pill px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] ${meta.pill}`}>
+      <span className="h-1.5 w-1.5 rounded-full bg-current" />
+      {meta.label}
+    </span>
+  );
+}
+
+// Edits a generated report before it's saved, or a saved update's text
+export function StatusReportModal({ heading, initialBody, onRegenerate, onSave, onClose }: {
+  heading: string;
+  initialBody: string;
+  // Only offered for a new report
+  onRegenerate?: () => string;
+  onSave: (body: string) => Promise<string | null>;
+  onClose: () => void;
+}) {
+  const [body, setBody]     = useState(initialBody);
+  const [saving, setSaving] = useState(false);
+  const [error, setError]   = useState<string | null>(null);
+
+  async function save() {
+    if (!body.trim()) return;
+    setSaving(true);
+    const err = await onSave(body);
+    setSaving(false);
+    if (err) setError(err);
+    else onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4" style={{ backgroundColor: "rgba(20,20,19,0.55)" }} onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div className="w-full max-w-2xl rounded-xl border border-hairline bg-white flex flex-col max-h-[90vh] animate-fade">
+        <div className="flex items-center justify-between border-b border-hairline px-6 py-4">
+          <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">{heading}</h2>
+          <button type="button" onClick={onClose} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+          </button>
+        </div>
+        <div className="overflow-y-auto px-6 py-5">
+          <MarkdownEditor value={body} onChange={setBody} placeholder="What happened on this project?" minHeight={320} />
+        </div>
+        <div className="flex items-center justify-between border-t border-hairline px-6 py-4">
+          <div className="flex items-center gap-3">
+            {onRegenerate && (
+              <button type="button" onClick={() => setBody(onRegenerate())} className="text-xs font-medium text-ink-muted transition hover:text-coral">
+                Regenerate
+              </button>
+            )}
+            <span className="text-xs text-coral">{error}</span>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+            <button type="button" disabled={saving || !body.trim()} onClick={save} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40">
+              {saving ? "Saving…" : "Save update"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ProjectUpdates({ updates, onEdit, onDelete }: {
+  updates: ProjectUpdate[];
+  onEdit: (update: ProjectUpdate) => void;
+  onDelete: (id: string) => void;
+}) {
+  // The latest update starts open until one is opened or closed by hand
+  const [openId, setOpenId] = useState<string | null | undefined>(undefined);
+  const expandedId = openId === undefined ? updates[0]?.id : openId;
+
+  if (updates.length === 0) {
+    return <p className="text-xs text-ink-soft">No status updates yet. Write one to share where the project stands.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {updates.map((update) => {
+        const expanded = expandedId === update.id;
+        return (
+          <article key={update.id} className="rounded-lg border border-hairline bg-canvas p-4">
+            <div className="flex items-center justify-between gap-4">
+              <button type="button" onClick={() => setOpenId(expanded ? null : update.id)} className="flex min-w-0 flex-1 items-center gap-3 text-left">
+                <span className="text-sm font-medium text-ink">{formatUpdateDate(update.date)}</span>
+                <HealthBadge level={update.health} />
+              </button>
+              <div className="flex shrink-0 items-center gap-1.5">
+                <button type="button" onClick={() => onEdit(update)} className="rounded-md border border-hairline px-2.5 py-1 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Edit</button>
+                <button type="button" onClick={() => onDelete(update.id)} className="rounded-md border border-transparent px-2.5 py-1 text-xs font-medium text-ink-soft transition hover:border-hairline hover:text-coral">Delete</button>
+              </div>
+            </div>
+            {expanded && (
+              <div className="mt-3 border-t border-hairline pt-3 animate-fade">
+                <RenderedMarkdown source={update.body} />
+              </div>
+            )}
+          </article>
+        );
+      })}
+    </div>
+  );
+}
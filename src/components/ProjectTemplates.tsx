@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+
+import { SpacePicker } from "@/components/SpaceLock";
+import { dayKey, todayKey } from "@/lib/day-plan";
+import { describeTemplateDue, templateDueAt } from "@/lib/project-templates";
+import type { Project, ProjectTemplate } from "@/lib/types";
+
+// Saving a project as a template, and starting a new project from one on a
+// chosen day.
+
+const PREVIEW_TASKS = 8;
+
+function Modal({ heading, onClose, children }: { heading: string; onClose: () => void; children: React.ReactNode }) {
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4" style={{ backgroundColor: "rgba(20,20,19,0.55)" }} onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div className="w-full max-w-lg rounded-xl border border-hairline bg-white flex flex-col max-h-[90vh] animate-fade">
+        <div className="flex items-center justify-between border-b border-hairline px-6 py-4">
+          <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">{heading}</h2>
+          <button type="button" onClick={onClose} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export function SaveTemplateModal({ project, onSave, onClose }: {
+  project: Project;
+  onSave: (name: string, startDate: string) => Promise<string | null>;
+  onClose: () => void;
+}) {
+  const [name, setName]           = useState(project.title);
+  // Offsets count from here; the day the project was created is the usual start
+  const [startDate, setStartDate] = useState(() => dayKey(new Date(project.createdAt)));
+  const [saving, setSaving]       = useState(false);
+  const [error, setError]         = useState<string | null>(null);
+
+  async function save() {
+    if (!name.trim() || !startDate) return;
+    setSaving(true);
+    const err = await onSave(name.trim(), startDate);
+    setSaving(false);
+    if (err) setError(err);
+    else onClose();
+  }
+
+  return (
+    <Modal heading="Save as template" onClose={onClose}>
+      <form className="overflow-y-auto flex flex-col gap-4 px-6 py-5" onSubmit={(e) => { e.preventDefault(); save(); }}>
+        <div className="flex flex-col gap-1.5">
+          <label className="text-xs font-medium text-ink-muted">Template name</label>
+          <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Client engagement" className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition placeholder:text-ink-soft focus:border-coral" />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <label className="text-xs font-medium text-ink-muted">Project start</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition focus:border-coral" />
+          <p className="text-[11px] text-ink-soft">Every task, checklist and note is saved. Due dates are kept as days from this start, at the same time of day.</p>
+        </div>
+        <div className="flex items-center justify-between border-t border-hairline pt-4">
+          <span className="text-xs text-coral">{error}</span>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+            <button type="submit" disabled={saving || !name.trim() || !startDate} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40">
+              {saving ? "Saving…" : "Save template"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export function NewFromTemplateModal({ templates, onCreate, onDelete, onClose }: {
+  templates: ProjectTemplate[];
+  onCreate: (templateId: string, data: { startDate: string; title: string; space: "professional" | "personal" }) => Promise<string | null>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [templateId, setTemplateId] = useState<string | null>(templates[0]?.id ?? null);
+  const [title, setTitle]           = useState(templates[0]?.title ?? "");
+  const [space, setSpace]           = useState<"professional" | "personal">(templates[0]?.space === "personal" ? "personal" : "professional");
+  const [startDate, setStartDate]   = useState(() => todayKey());
+  const [creating, setCreating]     = useState(false);
+  const [error, setError]           = useState<string | null>(null);
+
+  const template = templates.find((t) => t.id === templateId) ?? null;
+
+  function pick(next: ProjectTemplate) {
+    setTemplateId(next.id);
+    setTitle(next.title);
+    setSpace(next.space === "personal" ? "personal" : "professional");
+  }
+
+  async function create() {
+    if (!template || !title.trim() || !startDate) return;
+    setCreating(true);
+    const err = await onCreate(template.id, { startDate, title: title.trim(), space });
+    setCreating(false);
+    if (err) setError(err);
+    else onClose();
+  }
+
+  if (templates.length === 0) {
+    return (
+      <Modal heading="New from template" onClose={onClose}>
+        <p className="px-6 py-8 text-center text-sm text-ink-muted">No templates yet. Open a project and choose “Save as template” to make one.</p>
+      </Modal>
+    );
+  }
+
+  const dated = template?.tasks.filter((t) => t.dueOffsetDays !== null).length ?? 0;
+
+  return (
+    <Modal heading="New from template" onClose={onClose}>
+      <form className="overflow-y-auto flex flex-col gap-4 px-6 py-5" onSubmit={(e) => { e.preventDefault(); create(); }}>
+        <div className="flex flex-col gap-1.5">
+          <label className="text-xs font-medium text-ink-muted">Template</label>
+          <div className="flex flex-col gap-1">
+            {templates.map((t) => (
+              <div key={t.id} className={`group flex items-center gap-2 rounded-md border px-3 py-2 transition ${t.id === templateId ? "border-coral bg-coral/5" : "border-hairline bg-canvas hover:border-coral/50"}`}>
+                <button type="button" onClick={() => pick(t)} className="flex min-w-0 flex-1 items-center justify-between gap-3 text-left">
+                  <span className="truncate text-sm font-medium text-ink">{t.name}</span>
+                  <span className="shrink-0 text-[11px] text-ink-soft">{t.tasks.length} {t.tasks.length === 1 ? "task" : "tasks"}</span>
+                </button>
+                <button type="button" onClick={() => onDelete(t.id)} aria-label={`Delete ${t.name}`} className="hidden rounded p-0.5 text-ink-soft transition hover:text-coral group-hover:block">
+                  <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M1.5 3h9M4.5 3V1.5h3V3M5 5.5v4M7 5.5v4M2.5 3l.5 7.5h6L9.5 3" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round"/></svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="flex flex-col gap-1.5">
+            <label className="text-xs font-medium text-ink-muted">Project name</label>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition focus:border-coral" />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-xs font-medium text-ink-muted">Start date</label>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition focus:border-coral" />
+          </div>
+        </div>
+        {template && template.tasks.length > 0 && startDate && (
+          <div className="flex flex-col gap-1.5">
+            <p className="text-xs font-medium text-ink-muted">Schedule</p>
+            <ul className="flex flex-col divide-y divide-hairline rounded-md border border-hairline">
+              {template.tasks.slice(0, PREVIEW_TASKS).map((task, i) => {
+                const dueAt = templateDueAt(task, startDate);
+                return (
+                  <li key={i} className={`flex items-center justify-between gap-3 px-3 py-1.5 text-xs ${task.parentIndex !== null ? "pl-7" : ""}`}>
+                    <span className="truncate text-ink">{task.title}</span>
+                    <span title={describeTemplateDue(task)} className="shrink-0 text-ink-soft">
+                      {dueAt ? dueAt.toLocaleString(undefined, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }) : "No due date"}
+                    </span>
+                  </li>
+                );
+              })}
+              {template.tasks.length > PREVIEW_TASKS && <li className="px-3 py-1.5 text-xs text-ink-soft">and {template.tasks.length - PREVIEW_TASKS} more</li>}
+            </ul>
+            {dated > 0 && <p className="text-[11px] text-ink-soft">Dated tasks get reminders and a calendar event.</p>}
+          </div>
+        )}
+        <div className="flex items-center justify-between border-t border-hairline pt-4">
+          <div className="flex items-center gap-3">
+            <SpacePicker value={space} onChange={setSpace} />
+            <span className="text-xs text-coral">{error}</span>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+            <button type="submit" disabled={creating || !template || !title.trim() || !startDate} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40">
+              {creating ? "Creating…" : "Create project"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { PointerEvent } from "react";
+
+import { TIMELINE_ZOOMS, dayIndex, moveDueAt, shiftTimeline, timelineWindow } from "@/lib/timeline";
+import type { TimelineZoom } from "@/lib/timeline";
+import { addDays } from "@/lib/timesheet";
+import { STATUS_META } from "@/lib/types";
+import type { Project, Task } from "@/lib/types";
+
+// Timeline of dated tasks grouped by project. Bars sit on the day a task is
+// due; dragging one sideways moves the due date by whole days (and, through
+// the task route, its Google event).
+
+const GRID_LINE = "#e6dfd8"; // hairline
+
+type Drag = { taskId: string; startX: number; dayWidth: number; delta: number };
+
+function axisLabel(day: Date, zoom: TimelineZoom, index: number) {
+  if (zoom === "week") return day.toLocaleDateString(undefined, { weekday: "short", day: "numeric" });
+  if (zoom === "month") return String(day.getDate());
+  // Quarter: one label per week, on Mondays and the window's first day
+  return index === 0 || day.getDay() === 1 ? day.toLocaleDateString(undefined, { month: "short", day: "numeric" }) : "";
+}
+
+function windowTitle(start: Date, days: number, zoom: TimelineZoom) {
+  if (zoom === "month") return start.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+  const end = addDays(start, days - 1);
+  const format = (d: Date) => d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return `${format(start)} – ${format(end)}, ${end.getFullYear()}`;
+}
+
+export default function ProjectTimeline({ projects, tasks, onReschedule, onOpenProject }: {
+  projects: Project[];
+  tasks: Task[];
+  onReschedule: (id: string, dueAt: string) => void;
+  onOpenProject: (id: string) => void;
+}) {
+  const [zoom, setZoom]     = useState<TimelineZoom>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [drag, setDrag]     = useState<Drag | null>(null);
+
+  const { start, days } = useMemo(() => timelineWindow(zoom, anchor), [zoom, anchor]);
+  const dayList = useMemo(() => Array.from({ length: days }, (_, i) => addDays(start, i)), [start, days]);
+  const today = dayIndex(start, new Date());
+  const column = 100 / days;
+
+  const groups = useMemo(() => projects.map((project) => {
+    const own = tasks.filter((t) => t.projectId === project.id);
+    const dated = own
+      .filter((t) => t.dueAt)
+      .sort((a, b) => new Date(a.dueAt!).getTime() - new Date(b.dueAt!).getTime());
+    const visible = dated.filter((t) => {
+      const index = dayIndex(start, new Date(t.dueAt!));
+      return index >= 0 && index < days;
+    });
+    return { project, visible, outside: dated.length - visible.length, undated: own.length - dated.length };
+  }), [projects, tasks, start, days]);
+
+  function beginDrag(e: PointerEvent<HTMLDivElement>, task: Task) {
+    if (task.completed) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const track = e.currentTarget.parentElement as HTMLElement;
+    setDrag({ taskId: task.id, startX: e.clientX, dayWidth: track.clientWidth / days, delta: 0 });
+  }
+
+  function moveDrag(e: PointerEvent<HTMLDivElement>) {
+    if (!drag) return;
+    const delta = Math.round((e.clientX - drag.startX) / drag.dayWidth);
+    if (delta !== drag.delta) setDrag({ ...drag, delta });
+  }
+
+  function endDrag(task: Task) {
+    if (drag?.taskId === task.id && drag.delta !== 0 && task.dueAt) onReschedule(task.id, moveDueAt(task.dueAt, drag.delta));
+    setDrag(null);
+  }
+
+  const gridStyle = { backgroundImage: `linear-gradient(to right, ${GRID_LINE} 1px, transparent 1px)`, backgroundSize: `${column}% 100%` };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => setAnchor(shiftTimeline(zoom, anchor, -1))} aria-label="Previous" className="rounded-md border border-hairline px-2 py-1 text-xs text-ink-muted transition hover:border-coral hover:text-coral">←</button>
+          <button type="button" onClick={() => setAnchor(new Date())} className="rounded-md border border-hairline px-3 py-1 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Today</button>
+          <button type="button" onClick={() => setAnchor(shiftTimeline(zoom, anchor, 1))} aria-label="Next" className="rounded-md border border-hairline px-2 py-1 text-xs text-ink-muted transition hover:border-coral hover:text-coral">→</button>
+          <p className="ml-2 text-sm font-medium text-ink">{windowTitle(start, days, zoom)}</p>
+        </div>
+        <div className="flex rounded-md border border-hairline p-0.5">
+          {TIMELINE_ZOOMS.map((z) => (
+            <button
+              key={z}
+              type="button"
+              onClick={() => setZoom(z)}
+              className={`rounded px-2.5 py-1 text-xs font-medium capitalize transition ${zoom === z ? "bg-surface-card text-ink" : "text-ink-soft hover:text-ink"}`}
+            >
+              {z}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-hairline">
+        <div className="flex border-b border-hairline bg-surface-card/40">
+          <div className="w-56 shrink-0 px-4 py-2 text-[10px] font-medium uppercase tracking-[1px] text-ink-muted">Project</div>
+          <div className="relative flex flex-1">
+            {dayList.map((day, i) => (
+              <div
+                key={i}
+                className={`min-w-0 flex-1 overflow-visible whitespace-nowrap py-2 text-[10px] ${i === today ? "font-semibold text-coral" : "text-ink-soft"} ${zoom !== "quarter" && (day.getDay() === 0 || day.getDay() === 6) ? "bg-surface-card/60" : ""} ${zoom === "week" ? "text-center" : "pl-0.5"}`}
+              >
+                {axisLabel(day, zoom, i)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {groups.map(({ project, visible, outside, undated }) => (
+          <div key={project.id} className="border-b border-hairline last:border-b-0">
+            <div className="flex items-center bg-canvas">
+              <button type="button" onClick={() => onOpenProject(project.id)} className="flex w-56 shrink-0 items-center gap-2 px-4 py-2 text-left">
+                <span className="truncate text-sm font-medium text-ink transition hover:text-coral">{project.title}</span>
+                <span className={`shrink-0 rounded-pill px-1.5 py-0.5 text-[9px] font-medium uppercase tracking-[1px] ${STATUS_META[project.status].pill}`}>{STATUS_META[project.status].label}</span>
+              </button>
+              <p className="flex-1 px-2 text-[11px] text-ink-soft">
+                {[visible.length === 0 && "Nothing due in this range", outside > 0 && `${outside} due outside it`, undated > 0 && `${undated} undated`].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+            {visible.map((task) => {
+              const index = dayIndex(start, new Date(task.dueAt!));
+              const overdue = !task.completed && new Date(task.dueAt!).getTime() < Date.now();
+              const dragging = drag?.taskId === task.id;
+              return (
+                <div key={task.id} className="flex items-center">
+                  <div className={`w-56 shrink-0 truncate px-4 py-1.5 pl-8 text-xs ${task.completed ? "line-through text-ink-soft" : "text-ink-muted"}`}>{task.title}</div>
+                  <div className="relative h-8 flex-1" style={gridStyle}>
+                    {today >= 0 && today < days && <div className="absolute inset-y-0 w-px bg-coral/40" style={{ left: `${(today + 0.5) * column}%` }} />}
+                    <div
+                      title={`${task.title} · due ${new Date(task.dueAt!).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}`}
+                      onPointerDown={(e) => beginDrag(e, task)}
+                      onPointerMove={moveDrag}
+                      onPointerUp={() => endDrag(task)}
+                      onPointerCancel={() => setDrag(null)}
+                      className={`absolute top-1.5 h-5 min-w-[8px] select-none overflow-hidden whitespace-nowrap rounded-md px-1.5 text-[10px] leading-5 ${
+                        task.completed ? "bg-surface-card text-ink-soft" : overdue ? "bg-coral text-white" : task.inProgress ? "bg-amber-100 text-amber-700" : "bg-coral/15 text-coral-active"
+                      } ${task.completed ? "cursor-default" : dragging ? "cursor-grabbing shadow-md" : "cursor-grab"}`}
+                      style={{
+                        left: `${index * column}%`,
+                        width: `${column}%`,
+                        transform: drag && dragging ? `translateX(${drag.delta * drag.dayWidth}px)` : undefined,
+                      }}
+                    >
+                      {zoom === "week" && task.title}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+
+        {groups.length === 0 && <p className="px-4 py-10 text-center text-sm text-ink-soft">No projects yet.</p>}
+      </div>
+      <p className="text-[11px] text-ink-soft">Drag a bar to move its due date; the linked calendar event moves with it.</p>
+    </div>
+  );
+}
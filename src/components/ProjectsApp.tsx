@@ -1,15 +1,33 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 
+import ActivityTimeline from "@/components/ActivityTimeline";
+import BulkActionBar, { SelectCheckbox } from "@/components/BulkActionBar";
 import MarkdownEditor from "@/components/MarkdownEditor";
+import ProjectBoard from "@/components/ProjectBoard";
+import type { ColumnMove } from "@/components/ProjectBoard";
+import ProjectMilestones from "@/components/ProjectMilestones";
+import { HealthBadge, ProjectUpdates, StatusReportModal } from "@/components/ProjectStatus";
+import { NewFromTemplateModal, SaveTemplateModal } from "@/components/ProjectTemplates";
+import ProjectTimeline from "@/components/ProjectTimeline";
 import RenderedMarkdown from "@/components/RenderedMarkdown";
-import { InProgressLabel } from "@/components/TaskLabels";
+import { BlockedLabel, InProgressLabel, PriorityLabel, SubtaskRollupLabel, TagLabels } from "@/components/TaskLabels";
 import { SpacePicker } from "@/components/SpaceLock";
 import { usePersonalSpaceCtx } from "@/components/DashboardShell";
+import { useDragReorder } from "@/hooks/useDragReorder";
+import { useMilestones } from "@/hooks/useMilestones";
+import { useProjectTemplates } from "@/hooks/useProjectTemplates";
+import { useProjectUpdates } from "@/hooks/useProjectUpdates";
 import { useTasksAndProjects } from "@/hooks/useTasksAndProjects";
+import { isBlocked, openBlockers } from "@/lib/dependencies";
+import { buildStatusReport, projectHealth } from "@/lib/project-health";
+import type { ProjectHealthSignal } from "@/lib/project-health";
+import { compareTaskOrder } from "@/lib/sort-key";
+import { flattenTaskTree, subtaskRollup } from "@/lib/subtasks";
+import { formatDuration } from "@/lib/timesheet";
 import { STATUS_META } from "@/lib/types";
-import type { Project, ProjectStatus, Task } from "@/lib/types";
+import type { BulkTaskChange, Project, ProjectStatus, ProjectTemplate, ProjectUpdate, Task } from "@/lib/types";
 
 function formatDue(value: string | null) {
   if (!value) return null;
@@ -115,15 +133,20 @@ function AddTaskModal({ onSave, onClose }: { onSave: (title: string, notes: stri
 
 // ── Project card ───────────────────────────────────────────────────────────────
 
-function ProjectCard({ project, taskCount, onSelect, onDelete }: { project: Project; taskCount: number; onSelect: () => void; onDelete: () => void }) {
+function ProjectCard({ project, openCount, trackedMs, health, onSelect, onDelete }: { project: Project; openCount: number; trackedMs: number; health?: ProjectHealthSignal; onSelect: () => void; onDelete: () => void }) {
   const meta = STATUS_META[project.status];
   return (
     <button type="button" onClick={onSelect} className="group relative w-full rounded-xl border border-hairline bg-canvas p-5 text-left transition hover:border-coral/40 hover:shadow-sm animate-rise">
-      <span className={`inline-flex items-center rounded-pill px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] ${meta.pill}`}>{meta.label}</span>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className={`inline-flex items-center rounded-pill px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] ${meta.pill}`}>{meta.label}</span>
+        {health && project.status !== "completed" && <HealthBadge level={health.level} signal={health} />}
+      </div>
       <h3 className="mt-3 font-display text-lg font-normal tracking-[-0.2px] text-ink group-hover:text-coral transition">{project.title}</h3>
       {project.description && <p className="mt-1 text-sm text-ink-muted leading-relaxed line-clamp-2">{project.description}</p>}
       <div className="mt-4 flex items-center justify-between">
-        <span className="text-xs text-ink-soft">{taskCount} {taskCount === 1 ? "task" : "tasks"}</span>
+        <span className="text-xs text-ink-soft">
+          {openCount} open {openCount === 1 ? "task" : "tasks"}{trackedMs > 0 && ` · ${formatDuration(trackedMs)} tracked`}
+        </span>
         <span className="text-xs text-ink-soft">{new Date(project.createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}</span>
       </div>
       <button type="button" onClick={(e) => { e.stopPropagation(); onDelete(); }} className="absolute right-3 top-3 hidden rounded-md border border-transparent p-1 text-xs text-ink-soft transition hover:border-hairline hover:text-coral group-hover:flex">
@@ -135,17 +158,31 @@ function ProjectCard({ project, taskCount, onSelect, onDelete }: { project: Proj
 
 // ── Project list ───────────────────────────────────────────────────────────────
 
-function ProjectList({ projects, tasks, onSelect, onCreate, onDelete }: {
+function ProjectList({ projects, tasks, trackedByProject, templates, onSelect, onCreate, onCreateFromTemplate, onDeleteTemplate, onDelete, onReschedule }: {
   projects: Project[];
   tasks: Task[];
+  trackedByProject: Record<string, number>;
+  templates: ProjectTemplate[];
   onSelect: (id: string) => void;
   onCreate: (title: string, description: string, status: ProjectStatus, space?: "professional" | "personal") => void;
+  onCreateFromTemplate: (templateId: string, data: { startDate: string; title: string; space: "professional" | "personal" }) => Promise<string | null>;
+  onDeleteTemplate: (id: string) => void;
   onDelete: (id: string) => void;
+  onReschedule: (taskId: string, dueAt: string) => void;
 }) {
   const { unlocked } = usePersonalSpaceCtx();
   const [showModal, setShowModal] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [view, setView] = useState<"cards" | "timeline">("cards");
+  const [health, setHealth] = useState<Record<string, ProjectHealthSignal>>({});
   const visibleProjects = projects.filter((p) => p.space !== "personal" || unlocked);
 
+  useEffect(() => {
+    fetch("/api/projects/health")
+      .then((r) => (r.ok ? r.json() : {}))
+      .then(setHealth);
+  }, []);
+
   return (
     <section className="flex w-full flex-col gap-8 px-8 py-10 lg:px-10">
       <header className="flex flex-wrap items-end justify-between gap-4 border-b border-hairline pb-8">
@@ -154,10 +191,27 @@ function ProjectList({ projects, tasks, onSelect, onCreate, onDelete }: {
           <h1 className="mt-2 font-display text-4xl font-normal tracking-[-1px] text-ink md:text-5xl">Projects</h1>
           <p className="mt-3 max-w-xl text-sm text-ink-muted leading-relaxed">Organise related tasks into projects. Tasks added here also appear in your Tasks view.</p>
         </div>
-        <button type="button" onClick={() => setShowModal(true)} className="flex items-center gap-1.5 rounded-md bg-coral px-4 py-2 text-sm font-medium text-white transition hover:bg-coral-active">
-          <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M6 1v10M1 6h10" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
-          New project
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-md border border-hairline p-0.5">
+            {(["cards", "timeline"] as const).map((v) => (
+              <button
+                key={v}
+                type="button"
+                onClick={() => setView(v)}
+                className={`rounded px-2.5 py-1 text-xs font-medium capitalize transition ${view === v ? "bg-surface-card text-ink" : "text-ink-soft hover:text-ink"}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={() => setShowTemplates(true)} className="rounded-md border border-hairline px-4 py-2 text-sm font-medium text-ink-muted transition hover:border-coral hover:text-coral">
+            From template
+          </button>
+          <button type="button" onClick={() => setShowModal(true)} className="flex items-center gap-1.5 rounded-md bg-coral px-4 py-2 text-sm font-medium text-white transition hover:bg-coral-active">
+            <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M6 1v10M1 6h10" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+            New project
+          </button>
+        </div>
       </header>
 
       {visibleProjects.length === 0 ? (
@@ -168,42 +222,72 @@ function ProjectList({ projects, tasks, onSelect, onCreate, onDelete }: {
           <p className="text-sm text-ink-muted">No projects yet. Create one to get started.</p>
           <button type="button" onClick={() => setShowModal(true)} className="rounded-md bg-coral px-4 py-2 text-sm font-medium text-white transition hover:bg-coral-active">Create your first project</button>
         </div>
+      ) : view === "timeline" ? (
+        <ProjectTimeline projects={visibleProjects} tasks={tasks} onReschedule={onReschedule} onOpenProject={onSelect} />
       ) : (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
           {visibleProjects.map((p) => (
-            <ProjectCard key={p.id} project={p} taskCount={tasks.filter((t) => t.projectId === p.id).length} onSelect={() => onSelect(p.id)} onDelete={() => onDelete(p.id)} />
+            <ProjectCard key={p.id} project={p} openCount={tasks.filter((t) => t.projectId === p.id && !t.completed).length} trackedMs={trackedByProject[p.id] ?? 0} health={health[p.id]} onSelect={() => onSelect(p.id)} onDelete={() => onDelete(p.id)} />
           ))}
         </div>
       )}
 
       {showModal && <ProjectModal onSave={onCreate} onClose={() => setShowModal(false)} />}
+      {showTemplates && (
+        <NewFromTemplateModal templates={templates} onCreate={onCreateFromTemplate} onDelete={onDeleteTemplate} onClose={() => setShowTemplates(false)} />
+      )}
     </section>
   );
 }
 
 // ── Project detail ────────────────────────────────────────────────────────────
 
-function ProjectDetail({ project, tasks, onBack, onUpdateProject, onDeleteProject, onAddTask, onToggleComplete, onRemoveTask, onEditTask }: {
+function ProjectDetail({ project, tasks, allTasks, projects, trackedMs, historyError, onBack, onUpdateProject, onSaveTemplate, onDeleteProject, onAddTask, onToggleComplete, onRemoveTask, onEditTask, onMoveTask, onReorderTask, onBulkUpdate }: {
   project: Project;
   tasks: Task[];
+  // Blockers can live in other projects
+  allTasks: Task[];
+  // Move targets for the bulk action bar
+  projects: Project[];
+  trackedMs: number;
+  // Set when the project's completed tasks couldn't be loaded, so the count is short
+  historyError: string | null;
   onBack: () => void;
   onUpdateProject: (patch: Partial<Project>) => void;
+  onSaveTemplate: (name: string, startDate: string) => Promise<string | null>;
   onDeleteProject: () => void;
   onAddTask: (title: string, notes: string, dueAt: string | null) => void;
   onToggleComplete: (id: string) => void;
   onRemoveTask: (id: string) => void;
   onEditTask: (id: string, title: string, notes: string, dueAt: string | null) => void;
+  onMoveTask: (id: string, move: ColumnMove) => void;
+  onReorderTask: (id: string, afterId: string | null, beforeId: string | null) => void;
+  onBulkUpdate: (ids: string[], change: BulkTaskChange) => Promise<string | null>;
 }) {
   const [showAddTask, setShowAddTask]         = useState(false);
+  const [selecting, setSelecting]             = useState(false);
+  const [selectedIds, setSelectedIds]         = useState<string[]>([]);
   const [showEditProject, setShowEditProject] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
   const [editingId, setEditingId]             = useState<string | null>(null);
   const [editTitle, setEditTitle]             = useState("");
   const [editNotes, setEditNotes]             = useState("");
   const [editDueAt, setEditDueAt]             = useState("");
   const [expandedId, setExpandedId]           = useState<string | null>(null);
+  const [showActivity, setShowActivity]       = useState(false);
+  const [view, setView]                       = useState<"list" | "board">("list");
+  const { milestones, createMilestone, updateMilestone, deleteMilestone } = useMilestones(project.id);
+  const { updates, createUpdate, editUpdate, deleteUpdate } = useProjectUpdates(project.id);
+  const [report, setReport]                   = useState<{ update?: ProjectUpdate; body: string } | null>(null);
 
   const meta = STATUS_META[project.status];
   const done = tasks.filter((t) => t.completed).length;
+  const rows = useMemo(() => flattenTaskTree([...tasks].sort(compareTaskOrder)), [tasks]);
+  const drag = useDragReorder(rows.map(({ task }) => task), onReorderTask);
+
+  const healthTasks = useMemo(() => tasks.map((t) => ({ ...t, blocked: isBlocked(t, allTasks) })), [tasks, allTasks]);
+  const health = useMemo(() => projectHealth({ project, tasks: healthTasks, milestones }), [project, healthTasks, milestones]);
+  const generateReport = () => buildStatusReport({ project, tasks: healthTasks, milestones, health });
 
   function startEdit(t: Task) {
     setEditingId(t.id);
@@ -212,6 +296,15 @@ function ProjectDetail({ project, tasks, onBack, onUpdateProject, onDeleteProjec
     setEditDueAt(t.dueAt ? t.dueAt.slice(0, 16) : "");
   }
 
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  }
+
+  function exitSelecting() {
+    setSelecting(false);
+    setSelectedIds([]);
+  }
+
   function saveEdit() {
     if (!editingId || !editTitle.trim()) return;
     onEditTask(editingId, editTitle.trim(), editNotes.trim(), editDueAt ? new Date(editDueAt).toISOString() : null);
@@ -227,11 +320,16 @@ function ProjectDetail({ project, tasks, onBack, onUpdateProject, onDeleteProjec
         </button>
         <div className="flex flex-wrap items-start justify-between gap-4 border-b border-hairline pb-6">
           <div>
-            <span className={`inline-flex items-center rounded-pill px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] ${meta.pill}`}>{meta.label}</span>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className={`inline-flex items-center rounded-pill px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] ${meta.pill}`}>{meta.label}</span>
+              <HealthBadge level={health.level} signal={health} />
+            </div>
             <h1 className="mt-2 font-display text-3xl font-normal tracking-[-0.5px] text-ink md:text-4xl">{project.title}</h1>
             {project.description && <RenderedMarkdown source={project.description} className="markdown-rendered mt-2 max-w-xl text-sm text-ink-muted leading-relaxed" />}
           </div>
           <div className="flex items-center gap-2">
+            <button type="button" onClick={() => setReport({ body: generateReport() })} className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Status update</button>
+            <button type="button" onClick={() => setShowSaveTemplate(true)} className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Save as template</button>
             <button type="button" onClick={() => setShowEditProject(true)} className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Edit</button>
             <button type="button" onClick={onDeleteProject} className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-soft transition hover:border-hairline hover:text-coral">Delete</button>
           </div>
@@ -241,43 +339,100 @@ function ProjectDetail({ project, tasks, onBack, onUpdateProject, onDeleteProjec
       {tasks.length > 0 && (
         <div className="mb-6">
           <div className="flex items-center justify-between mb-1.5">
-            <p className="text-xs text-ink-muted">{done} / {tasks.length} tasks complete</p>
+            <p className="text-xs text-ink-muted">
+              {done} / {tasks.length} tasks complete{trackedMs > 0 && ` · ${formatDuration(trackedMs)} tracked`}
+            </p>
             <p className="text-xs font-medium text-ink-muted">{Math.round((done / tasks.length) * 100)}%</p>
           </div>
+          {historyError && <p className="mb-1.5 text-xs text-coral">{historyError}</p>}
           <div className="h-1.5 w-full rounded-full bg-surface-card overflow-hidden">
             <div className="h-full rounded-full bg-coral transition-all duration-500" style={{ width: `${(done / tasks.length) * 100}%` }} />
           </div>
         </div>
       )}
 
+      <ProjectMilestones
+        milestones={milestones}
+        tasks={tasks}
+        onCreate={createMilestone}
+        onUpdate={updateMilestone}
+        onDelete={deleteMilestone}
+      />
+
       <div className="flex items-center justify-between mb-4">
-        <p className="text-xs font-medium uppercase tracking-[1.5px] text-ink-muted">Tasks</p>
+        <div className="flex items-center gap-4">
+          <p className="text-xs font-medium uppercase tracking-[1.5px] text-ink-muted">Tasks</p>
+          <div className="flex rounded-md border border-hairline p-0.5">
+            {(["list", "board"] as const).map((v) => (
+              <button
+                key={v}
+                type="button"
+                onClick={() => { setView(v); exitSelecting(); }}
+                className={`rounded px-2.5 py-1 text-xs font-medium capitalize transition ${view === v ? "bg-surface-card text-ink" : "text-ink-soft hover:text-ink"}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+        {tasks.length > 0 && view === "list" && (
+          <button
+            type="button"
+            onClick={() => (selecting ? exitSelecting() : setSelecting(true))}
+            className={`rounded-md border px-3 py-1.5 text-xs font-medium transition ${selecting ? "border-coral text-coral" : "border-hairline text-ink-muted hover:border-coral hover:text-coral"}`}
+          >
+            {selecting ? "Cancel" : "Select"}
+          </button>
+        )}
         <button type="button" onClick={() => setShowAddTask(true)} className="flex items-center gap-1.5 rounded-md bg-coral px-3 py-1.5 text-xs font-medium text-white transition hover:bg-coral-active">
           <svg width="10" height="10" viewBox="0 0 10 10" fill="none"><path d="M5 1v8M1 5h8" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
           Add task
         </button>
+        </div>
       </div>
 
-      {tasks.length === 0 ? (
+      {view === "board" ? (
+        <ProjectBoard
+          project={project}
+          tasks={tasks}
+          allTasks={allTasks}
+          onMoveTask={onMoveTask}
+          onUpdateColumns={(boardColumns) => onUpdateProject({ boardColumns })}
+        />
+      ) : tasks.length === 0 ? (
         <div className="rounded-lg border border-dashed border-hairline p-10 text-center text-sm text-ink-soft">No tasks yet. Add one to get started.</div>
       ) : (
         <div className="flex flex-col gap-2">
-          {tasks.map((task, index) => {
+          {rows.map(({ task, depth }, index) => {
             const overdue   = isOverdue(task.dueAt) && !task.completed;
             const isEditing = editingId === task.id;
             const dueLabel  = formatDue(task.dueAt);
+            const rollup    = subtaskRollup(tasks, task.id);
+            const blockers  = task.completed ? [] : openBlockers(task, allTasks);
 
             return (
-              <article key={task.id} className={`rounded-lg border bg-canvas p-4 transition animate-rise ${overdue ? "border-coral/30" : "border-hairline"} ${task.completed ? "opacity-60" : ""}`} style={{ animationDelay: `${index * 30}ms` }}>
+              <article
+                key={task.id}
+                {...drag.rowProps(task, !selecting && !isEditing)}
+                className={`rounded-lg border bg-canvas p-4 transition animate-rise ${drag.overId === task.id ? "border-coral" : overdue ? "border-coral/30" : "border-hairline"} ${task.completed ? "opacity-60" : ""} ${drag.draggingId === task.id ? "opacity-40" : ""}`}
+                style={{ animationDelay: `${index * 30}ms`, marginLeft: depth * 24 }}
+              >
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex items-start gap-3 min-w-0">
-                    <button type="button" onClick={() => onToggleComplete(task.id)} className={`mt-0.5 h-4 w-4 shrink-0 rounded-full border transition ${task.completed ? "border-coral bg-coral" : "border-hairline bg-canvas hover:border-coral"}`} />
+                    {selecting
+                      ? <SelectCheckbox checked={selectedIds.includes(task.id)} onChange={() => toggleSelected(task.id)} />
+                      : <button type="button" onClick={() => onToggleComplete(task.id)} className={`mt-0.5 h-4 w-4 shrink-0 rounded-full border transition ${task.completed ? "border-coral bg-coral" : "border-hairline bg-canvas hover:border-coral"}`} />}
                     <div className="min-w-0">
                       <p className={`text-sm font-medium text-ink leading-snug ${task.completed ? "line-through text-ink-soft" : ""}`}>{task.title}</p>
                       <div className="mt-1 flex flex-wrap items-center gap-2">
                         {dueLabel && <span className="text-xs text-ink-soft">{dueLabel}</span>}
                         {overdue && <span className="rounded-pill bg-coral/10 px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] text-coral">Overdue</span>}
                         {task.inProgress && !task.completed && <InProgressLabel />}
+                        {task.priority && !task.completed && <PriorityLabel priority={task.priority} />}
+                        {blockers.length > 0 && <BlockedLabel blockers={blockers.map((b) => b.title)} />}
+                        {rollup.total > 0 && <SubtaskRollupLabel done={rollup.done} total={rollup.total} />}
+                        <TagLabels tags={task.tags} />
                       </div>
                       {task.notes && !isEditing && (
                         <button type="button" onClick={() => setExpandedId(expandedId === task.id ? null : task.id)} className="mt-1 text-xs text-ink-soft hover:text-ink transition">
@@ -315,6 +470,48 @@ function ProjectDetail({ project, tasks, onBack, onUpdateProject, onDeleteProjec
         </div>
       )}
 
+      <div className="mt-10 border-t border-hairline pt-6">
+        <p className="mb-3 text-xs font-medium uppercase tracking-[1.5px] text-ink-muted">Status updates</p>
+        <ProjectUpdates updates={updates} onEdit={(update) => setReport({ update, body: update.body })} onDelete={deleteUpdate} />
+      </div>
+
+      <div className="mt-10 border-t border-hairline pt-6">
+        <button
+          type="button"
+          onClick={() => setShowActivity((v) => !v)}
+          className="text-xs font-medium uppercase tracking-[1.5px] text-ink-muted transition hover:text-coral"
+        >
+          {showActivity ? "Hide activity" : "Show activity"}
+        </button>
+        {showActivity && (
+          <div className="mt-4 animate-fade">
+            {/* Serialized so typing in this view doesn't refetch, while any change to the project or its tasks does */}
+            <ActivityTimeline query={`projectId=${project.id}`} refreshKey={JSON.stringify([project, tasks])} projects={projects.concat(project)} showEntity />
+          </div>
+        )}
+      </div>
+
+      {selecting && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          totalCount={tasks.length}
+          projects={projects.filter((p) => p.id !== project.id)}
+          onApply={(change) => onBulkUpdate(selectedIds, change)}
+          onSelectAll={() => setSelectedIds(tasks.map((t) => t.id))}
+          onClear={() => setSelectedIds([])}
+          onDone={exitSelecting}
+        />
+      )}
+
+      {report && (
+        <StatusReportModal
+          heading={report.update ? "Edit status update" : "New status update"}
+          initialBody={report.body}
+          onRegenerate={report.update ? undefined : generateReport}
+          onSave={(body) => (report.update ? editUpdate(report.update.id, body) : createUpdate(body, health.level))}
+          onClose={() => setReport(null)}
+        />
+      )}
       {showAddTask && <AddTaskModal onSave={onAddTask} onClose={() => setShowAddTask(false)} />}
       {showEditProject && (
         <ProjectModal
@@ -323,6 +520,7 @@ function ProjectDetail({ project, tasks, onBack, onUpdateProject, onDeleteProjec
           onClose={() => setShowEditProject(false)}
         />
       )}
+      {showSaveTemplate && <SaveTemplateModal project={project} onSave={onSaveTemplate} onClose={() => setShowSaveTemplate(false)} />}
     </section>
   );
 }
@@ -330,8 +528,25 @@ function ProjectDetail({ project, tasks, onBack, onUpdateProject, onDeleteProjec
 // ── Root ──────────────────────────────────────────────────────────────────────
 
 export default function ProjectsApp() {
-  const { tasks, projects, loading, createTask, updateTask, deleteTask, createProject, updateProject, deleteProject } = useTasksAndProjects();
+  const { tasks, projects, loading, loadError, loadProjectTasks, createTask, updateTask, reorderTask, deleteTask, bulkUpdateTasks, createProject, createProjectFromTemplate, updateProject, deleteProject } = useTasksAndProjects();
+  const { templates, saveTemplate, deleteTemplate } = useProjectTemplates();
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const { unlocked } = usePersonalSpaceCtx();
+  const [trackedByProject, setTrackedByProject] = useState<Record<string, number>>({});
+
+  // Totals are refetched whenever a timer starts or stops
+  const runningKey = tasks.filter((t) => t.inProgress && !t.completed).map((t) => t.id).join();
+  useEffect(() => {
+    fetch("/api/time-entries/totals")
+      .then((r) => r.json())
+      .then((data: { projects?: Record<string, number> }) => setTrackedByProject(data.projects ?? {}));
+  }, [runningKey]);
+
+  useEffect(() => {
+    setHistoryError(null);
+    if (selectedId) loadProjectTasks(selectedId).then(setHistoryError);
+  }, [selectedId, loadProjectTasks]);
 
   if (loading) {
     return (
@@ -341,6 +556,14 @@ export default function ProjectsApp() {
     );
   }
 
+  if (loadError) {
+    return (
+      <section className="flex w-full flex-col gap-8 px-8 py-10 lg:px-10">
+        <div className="flex items-center justify-center py-20 text-sm text-coral">{loadError}</div>
+      </section>
+    );
+  }
+
   const selectedProject = projects.find((p) => p.id === selectedId) ?? null;
   const projectTasks    = tasks.filter((t) => t.projectId === selectedId);
 
@@ -349,13 +572,21 @@ export default function ProjectsApp() {
       <ProjectDetail
         project={selectedProject}
         tasks={projectTasks}
+        allTasks={tasks}
+        projects={projects.filter((p) => p.space !== "personal" || unlocked)}
+        trackedMs={trackedByProject[selectedProject.id] ?? 0}
+        historyError={historyError}
         onBack={() => setSelectedId(null)}
         onUpdateProject={(patch) => updateProject(selectedProject.id, patch)}
+        onSaveTemplate={(name, startDate) => saveTemplate(selectedProject.id, name, startDate)}
         onDeleteProject={() => { deleteProject(selectedProject.id); setSelectedId(null); }}
         onAddTask={(title, notes, dueAt) => createTask({ title, notes, dueAt, projectId: selectedProject.id })}
         onToggleComplete={(id) => { const t = tasks.find((x) => x.id === id); if (t) updateTask(id, { completed: !t.completed }); }}
         onRemoveTask={deleteTask}
-        onEditTask={(id, title, notes, dueAt) => updateTask(id, { title, notes, dueAt })}
+        onEditTask={(id, title, notes, dueAt) => updateTask(id, { title, notes, dueAt, ...(!dueAt && { recurrence: null }) })}
+        onMoveTask={(id, move) => updateTask(id, move)}
+        onReorderTask={reorderTask}
+        onBulkUpdate={bulkUpdateTasks}
       />
     );
   }
@@ -364,9 +595,19 @@ export default function ProjectsApp() {
     <ProjectList
       projects={projects}
       tasks={tasks}
+      trackedByProject={trackedByProject}
+      templates={templates}
       onSelect={setSelectedId}
       onCreate={(title, description, status, space) => createProject({ title, description, status, space })}
+      onCreateFromTemplate={async (templateId, data) => {
+        const result = await createProjectFromTemplate(templateId, data);
+        if ("error" in result) return result.error;
+        setSelectedId(result.project.id);
+        return null;
+      }}
+      onDeleteTemplate={deleteTemplate}
       onDelete={deleteProject}
+      onReschedule={(id, dueAt) => updateTask(id, { dueAt })}
     />
   );
 }
@@ -0,0 +1,97 @@
+"use client";
+
+import { useRef } from "react";
+
+import type { QuickAddResult, QuickAddTokenKind } from "@/lib/quick-add";
+import { PRIORITY_META } from "@/lib/types";
+import type { Project } from "@/lib/types";
+
+// Task title input that highlights the quick-add syntax as it's typed. The
+// input text itself is transparent; a mirror layer behind it renders the same
+// string with the recognised tokens wrapped in coloured spans.
+
+const TOKEN_STYLES: Record<QuickAddTokenKind, string> = {
+  date:     "bg-coral/10 text-coral",
+  time:     "bg-coral/10 text-coral",
+  project:  "bg-surface-cream text-ink",
+  priority: "bg-amber-100 text-amber-700",
+  space:    "bg-surface-card text-ink-muted",
+  tag:      "bg-surface-card text-coral",
+};
+
+export default function QuickAddInput({
+  value,
+  onChange,
+  parsed,
+  placeholder,
+  autoFocus,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  parsed: QuickAddResult;
+  placeholder?: string;
+  autoFocus?: boolean;
+}) {
+  const mirrorRef = useRef<HTMLDivElement>(null);
+
+  const segments: Array<{ text: string; kind?: QuickAddTokenKind }> = [];
+  let cursor = 0;
+  for (const token of parsed.tokens) {
+    if (token.start > cursor) segments.push({ text: value.slice(cursor, token.start) });
+    segments.push({ text: value.slice(token.start, token.end), kind: token.kind });
+    cursor = token.end;
+  }
+  if (cursor < value.length) segments.push({ text: value.slice(cursor) });
+
+  return (
+    <div className="relative rounded-md border border-hairline bg-canvas transition focus-within:border-coral">
+      <div
+        ref={mirrorRef}
+        aria-hidden
+        className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre px-3 py-2.5 text-sm text-ink"
+      >
+        {segments.map((segment, i) =>
+          segment.kind
+            ? <span key={i} className={`rounded-sm ${TOKEN_STYLES[segment.kind]}`}>{segment.text}</span>
+            : <span key={i}>{segment.text}</span>
+        )}
+      </div>
+      <input
+        autoFocus={autoFocus}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => { if (mirrorRef.current) mirrorRef.current.scrollLeft = e.currentTarget.scrollLeft; }}
+        placeholder={placeholder}
+        spellCheck={false}
+        className="relative w-full bg-transparent px-3 py-2.5 text-sm text-transparent caret-ink outline-none placeholder:text-ink-soft"
+      />
+    </div>
+  );
+}
+
+function formatPreviewDue(date: Date) {
+  return date.toLocaleString(undefined, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+/** Summary of what the quick-add syntax picked up, shown under the input. */
+export function QuickAddPreview({ parsed, projects }: { parsed: QuickAddResult; projects: Project[] }) {
+  const project = parsed.projectId ? projects.find((p) => p.id === parsed.projectId) : undefined;
+  const chips = [
+    parsed.dueAt && `Due ${formatPreviewDue(parsed.dueAt)}`,
+    project && `Project: ${project.title}`,
+    parsed.priority && `${PRIORITY_META[parsed.priority].label} priority`,
+    parsed.space && (parsed.space === "personal" ? "Personal" : "Professional"),
+    ...parsed.tags.map((tag) => `@${tag}`),
+  ].filter(Boolean) as string[];
+
+  if (chips.length === 0) {
+    return <p className="text-[11px] text-ink-soft">Try &ldquo;tomorrow 3pm #project !high @tag&rdquo;</p>;
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {chips.map((chip) => (
+        <span key={chip} className="rounded-pill bg-surface-card px-2 py-0.5 text-[11px] font-medium text-ink-muted">{chip}</span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+
+import { parseRRule, recurrencePresets } from "@/lib/recurrence";
+
+// Repeat selector used in task create/edit forms. Offers presets derived from
+// the due date, plus a raw RRULE field for anything the presets don't cover.
+
+export default function RecurrencePicker({
+  value,
+  onChange,
+  dueAt,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  dueAt: string;
+}) {
+  const due = dueAt ? new Date(dueAt) : null;
+  const presets = recurrencePresets(due && !Number.isNaN(due.getTime()) ? due : null);
+  const isPreset = value === "" || presets.some((p) => p.value === value);
+  const [custom, setCustom] = useState(!isPreset);
+  const invalid = value !== "" && !parseRRule(value);
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <select
+        value={custom ? "custom" : value}
+        onChange={(e) => {
+          if (e.target.value === "custom") {
+            setCustom(true);
+            return;
+          }
+          setCustom(false);
+          onChange(e.target.value);
+        }}
+        className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition focus:border-coral"
+      >
+        <option value="">Does not repeat</option>
+        {presets.map((p) => (
+          <option key={p.value} value={p.value}>{p.label}</option>
+        ))}
+        <option value="custom">Custom rule…</option>
+      </select>
+      {custom && (
+        <input
+          value={value}
+          onChange={(e) => onChange(e.target.value.toUpperCase())}
+          placeholder="FREQ=MONTHLY;BYDAY=1MO"
+          className={`rounded-md border bg-canvas px-3 py-2 font-mono text-xs text-ink outline-none transition focus:border-coral ${invalid ? "border-coral/60" : "border-hairline"}`}
+        />
+      )}
+      {value && !dueAt && <p className="text-[11px] text-coral">Repeating tasks need a due date.</p>}
+      {invalid && <p className="text-[11px] text-coral">Not a valid RRULE.</p>}
+    </div>
+  );
+}
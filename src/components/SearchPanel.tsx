@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import type { SearchGroup, SearchType } from "@/lib/search";
+
+// Global search opened from the dashboard header or with ⌘K / Ctrl+K. Hits are
+// grouped by type in the order the API ranks them; picking one hands it to
+// `onOpen`, which switches module and reveals the item.
+
+export type SearchHitRef = { type: SearchType; id: string };
+
+// Event fired once the target module is showing, for modules that open hits
+// themselves (e.g. the task drawer)
+export const OPEN_SEARCH_HIT_EVENT = "open-search-hit";
+
+/**
+ * Scrolls to the element tagged `data-search-id` and flashes it. Modules load
+ * their data after mounting, so keep looking for a few seconds.
+ */
+export function revealSearchHit(id: string) {
+  let attempts = 0;
+  const timer = window.setInterval(() => {
+    const el = document.querySelector<HTMLElement>(`[data-search-id="${CSS.escape(id)}"]`);
+    if (!el && ++attempts < 30) return;
+    window.clearInterval(timer);
+    if (!el) return;
+    el.scrollIntoView({ behavior: "smooth", block: "center" });
+    el.classList.add("ring-2", "ring-coral");
+    window.setTimeout(() => el.classList.remove("ring-2", "ring-coral"), 2000);
+  }, 100);
+}
+
+// ts_headline wraps matches in <mark>; render them without trusting the HTML
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.startsWith("<mark>")
+          ? <mark key={i} className="rounded-sm bg-coral/15 text-ink">{part.slice(6, -7)}</mark>
+          : <span key={i}>{part}</span>
+      )}
+    </>
+  );
+}
+
+export default function SearchPanel({ unlocked, onOpen }: { unlocked: boolean; onOpen: (hit: SearchHitRef) => void }) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const requestRef = useRef(0);
+
+  // ⌘K / Ctrl+K toggles the panel from anywhere
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((v) => !v);
+      }
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Debounced fetch; stale responses are dropped
+  useEffect(() => {
+    if (!open) return;
+    const q = query.trim();
+    if (!q) { setGroups([]); setError(null); return; }
+    const requestId = ++requestRef.current;
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}${unlocked ? "&personal=1" : ""}`);
+        const data = await res.json();
+        if (requestId !== requestRef.current) return;
+        if (!res.ok) throw new Error(data.error ?? "Search failed");
+        setGroups(data.groups ?? []);
+        setError(null);
+        setActiveIndex(0);
+      } catch (err) {
+        if (requestId === requestRef.current) setError(err instanceof Error ? err.message : "Search failed");
+      } finally {
+        if (requestId === requestRef.current) setLoading(false);
+      }
+    }, 200);
+    return () => window.clearTimeout(timer);
+  }, [query, open, unlocked]);
+
+  const flat = groups.flatMap((g) => g.results.map((hit) => ({ type: g.type, hit })));
+
+  function close() {
+    setOpen(false);
+    setQuery("");
+    setGroups([]);
+    setError(null);
+  }
+
+  function choose(index: number) {
+    const entry = flat[index];
+    if (!entry) return;
+    close();
+    onOpen({ type: entry.type, id: entry.hit.id });
+  }
+
+  let runningIndex = 0;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+      >
+        <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+          <circle cx="5.25" cy="5.25" r="4" stroke="currentColor" strokeWidth="1.3"/>
+          <path d="m8.25 8.25 2.75 2.75" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round"/>
+        </svg>
+        Search
+        <kbd className="hidden rounded border border-hairline px-1 text-[10px] text-ink-soft sm:inline">⌘K</kbd>
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[12vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) close(); }}
+        >
+          <div className="animate-fade w-full max-w-xl overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center gap-3 border-b border-hairline px-5 py-4">
+              <svg width="16" height="16" viewBox="0 0 12 12" fill="none" className="shrink-0 text-ink-soft">
+                <circle cx="5.25" cy="5.25" r="4" stroke="currentColor" strokeWidth="1.1"/>
+                <path d="m8.25 8.25 2.75 2.75" stroke="currentColor" strokeWidth="1.1" strokeLinecap="round"/>
+              </svg>
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") close();
+                  if (e.key === "ArrowDown") { e.preventDefault(); setActiveIndex((i) => Math.min(i + 1, flat.length - 1)); }
+                  if (e.key === "ArrowUp") { e.preventDefault(); setActiveIndex((i) => Math.max(i - 1, 0)); }
+                  if (e.key === "Enter") { e.preventDefault(); choose(activeIndex); }
+                }}
+                placeholder="Search tasks, ideas, articles, feedback, plans, events…"
+                className="flex-1 bg-transparent text-sm text-ink outline-none placeholder:text-ink-soft"
+              />
+              {loading && <span className="text-[11px] text-ink-soft">Searching…</span>}
+            </div>
+
+            <div className="max-h-[60vh] overflow-y-auto py-2">
+              {error && <p className="px-5 py-3 text-sm text-coral">{error}</p>}
+              {!error && query.trim() && !loading && groups.length === 0 && (
+                <p className="px-5 py-3 text-sm text-ink-soft">No matches for &ldquo;{query.trim()}&rdquo;.</p>
+              )}
+              {!query.trim() && (
+                <p className="px-5 py-3 text-sm text-ink-soft">
+                  Start typing to search everything{unlocked ? ", including your personal space" : ""}.
+                </p>
+              )}
+              {groups.map((group) => (
+                <div key={group.type} className="px-2 pb-2">
+                  <p className="px-3 pb-1 pt-2 text-[10px] font-semibold uppercase tracking-[1.5px] text-ink-muted">{group.label}</p>
+                  {group.results.map((hit) => {
+                    const index = runningIndex++;
+                    return (
+                      <button
+                        key={hit.id}
+                        type="button"
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={() => choose(index)}
+                        className={`flex w-full flex-col gap-0.5 rounded-lg px-3 py-2 text-left transition ${index === activeIndex ? "bg-surface-card" : ""}`}
+                      >
+                        <span className="flex items-center gap-2 text-sm font-medium text-ink">
+                          <span className="truncate">{hit.title || "Untitled"}</span>
+                          {hit.space === "personal" && (
+                            <span className="rounded-pill bg-surface-cream px-1.5 py-0.5 text-[9px] font-medium uppercase tracking-[1px] text-ink-muted">Personal</span>
+                          )}
+                        </span>
+                        <span className="line-clamp-2 text-xs text-ink-muted"><Snippet text={hit.snippet} /></span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
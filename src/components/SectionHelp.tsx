@@ -13,6 +13,7 @@ const HELP: Record<string, HelpEntry> = {
       "Plan your day into three buckets: Critical (the work that moves the day), Important, and Light lifts.",
       "Tap + on a section to add existing tasks or create new ones; the main New task button lets you pick a bucket.",
       "Click any card to open it, add a checklist, notes, or mark it in progress.",
+      "Set daily goals from the streak button; every day they're all met extends your streak.",
       "Curious about the method? Use “Why these sections?” next to the date.",
     ],
   },
@@ -30,6 +31,11 @@ const HELP: Record<string, HelpEntry> = {
       "Capture everything here — each task can hold markdown notes and a checklist.",
       "Use Start to mark a task in progress; click the title to open the detail drawer.",
       "Tasks with a due date sync to your Google Calendar automatically.",
+      "Set Repeat on a dated task to make it recurring — completing it rolls it to the next occurrence.",
+      "Add subtasks from the drawer, or convert a checklist into subtasks — parents show how many are done.",
+      "Use Blocked by in the drawer to record what a task is waiting on — you'll get a push once its blockers are done.",
+      "Tag tasks from the drawer or the create form, then click a tag above the list to filter by it.",
+      "Type details straight into the title: \"tomorrow 3pm #Launch !high @client ~personal\" sets the due date, project, priority, tags, and space.",
     ],
   },
   projects: {
@@ -37,9 +43,21 @@ const HELP: Record<string, HelpEntry> = {
     points: [
       "Group related tasks under a project and track them across milestones.",
       "Set a status (planning, active, on-hold, completed) to see where each project stands.",
+      "Milestones collect tasks under a due date, flag when they're overdue or at risk, and appear in Google Calendar as all-day events.",
+      "Each project gets a health signal from overdue, blocked and stalled work and slipping milestones; Status update drafts a weekly report to edit and save.",
+      "Switch to Timeline to see dated tasks by project week, month or quarter, and drag a bar to reschedule it.",
+      "Save a project as a template to reuse its tasks; From template creates a copy on a new start date, with due dates, reminders and calendar events.",
       "Project descriptions and task notes support markdown.",
     ],
   },
+  analytics: {
+    title: "Analytics",
+    points: [
+      "Trends from your tasks, Today plans and reading list over a date range.",
+      "Switch between per-day and per-week views, and narrow to one space.",
+      "On time compares completion with the due date; the plan hit rate counts planned items done by the end of their day.",
+    ],
+  },
   ideas: {
     title: "Ideas",
     points: [
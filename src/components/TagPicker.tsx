@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+
+import { TAG_COLORS } from "@/lib/types";
+import type { Tag } from "@/lib/types";
+
+// Tag selection for create/edit forms. Every tag is a toggle chip; "New tag"
+// opens an inline name + swatch row and selects the tag once it's created.
+
+export default function TagPicker({
+  tags,
+  value,
+  onChange,
+  onCreate,
+}: {
+  tags: Tag[];
+  value: string[];
+  onChange: (ids: string[]) => void;
+  onCreate?: (name: string, color: string) => Promise<Tag | null>;
+}) {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(TAG_COLORS[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggle(id: string) {
+    onChange(value.includes(id) ? value.filter((v) => v !== id) : [...value, id]);
+  }
+
+  async function create() {
+    if (!name.trim() || !onCreate) return;
+    const tag = await onCreate(name.trim(), color);
+    if (!tag) {
+      setError("A tag with that name already exists.");
+      return;
+    }
+    onChange([...value, tag.id]);
+    setName("");
+    setError(null);
+    setCreating(false);
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map((tag) => {
+          const selected = value.includes(tag.id);
+          return (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => toggle(tag.id)}
+              className="inline-flex items-center gap-1 rounded-pill border px-2.5 py-1 text-xs font-medium transition"
+              style={selected
+                ? { color: "#fff", borderColor: tag.color, backgroundColor: tag.color }
+                : { color: tag.color, borderColor: `${tag.color}4d` }}
+            >
+              {tag.name}
+            </button>
+          );
+        })}
+        {onCreate && !creating && (
+          <button
+            type="button"
+            onClick={() => setCreating(true)}
+            className="rounded-pill border border-dashed border-hairline px-2.5 py-1 text-xs font-medium text-ink-soft transition hover:border-coral hover:text-coral"
+          >
+            + New tag
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-hairline bg-surface-card px-3 py-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") { e.preventDefault(); create(); }
+              if (e.key === "Escape") { e.stopPropagation(); setCreating(false); }
+            }}
+            placeholder="Tag name"
+            className="min-w-0 flex-1 bg-transparent text-sm text-ink outline-none placeholder:text-ink-soft"
+          />
+          <div className="flex items-center gap-1">
+            {TAG_COLORS.map((swatch) => (
+              <button
+                key={swatch}
+                type="button"
+                onClick={() => setColor(swatch)}
+                className={`h-4 w-4 rounded-full transition ${color === swatch ? "ring-2 ring-offset-1 ring-ink-soft" : ""}`}
+                style={{ backgroundColor: swatch }}
+              />
+            ))}
+          </div>
+          <button type="button" onClick={create} className="rounded-md bg-coral px-3 py-1 text-xs font-medium text-white transition hover:bg-coral-active">Add</button>
+          <button type="button" onClick={() => { setCreating(false); setError(null); }} className="text-xs text-ink-soft transition hover:text-ink">Cancel</button>
+        </div>
+      )}
+      {error && <p className="text-[11px] text-coral">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Single-select filter row shown above lists; clicking the active tag clears
+ * it. Passing `onDelete` adds a hover × to remove a tag everywhere.
+ */
+export function TagFilterBar({
+  tags,
+  active,
+  onChange,
+  onDelete,
+}: {
+  tags: Tag[];
+  active: string | null;
+  onChange: (id: string | null) => void;
+  onDelete?: (id: string) => void;
+}) {
+  if (tags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="mr-1 text-xs font-medium uppercase tracking-[1.5px] text-ink-muted">Tags</span>
+      {tags.map((tag) => {
+        const selected = active === tag.id;
+        return (
+          <span key={tag.id} className="group relative inline-flex">
+            <button
+              type="button"
+              onClick={() => onChange(selected ? null : tag.id)}
+              className="inline-flex items-center gap-1 rounded-pill border px-2.5 py-1 text-xs font-medium transition"
+              style={selected
+                ? { color: "#fff", borderColor: tag.color, backgroundColor: tag.color }
+                : { color: tag.color, borderColor: `${tag.color}4d` }}
+            >
+              {tag.name}
+            </button>
+            {onDelete && (
+              <button
+                type="button"
+                title={`Delete "${tag.name}"`}
+                onClick={() => {
+                  if (!window.confirm(`Delete the "${tag.name}" tag? Items keep everything else.`)) return;
+                  if (selected) onChange(null);
+                  onDelete(tag.id);
+                }}
+                className="absolute -right-1.5 -top-1.5 hidden h-4 w-4 items-center justify-center rounded-full border border-hairline bg-canvas text-ink-soft transition hover:text-coral group-hover:flex"
+              >
+                <svg width="6" height="6" viewBox="0 0 6 6" fill="none"><path d="M1 1l4 4M5 1 1 5" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round"/></svg>
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
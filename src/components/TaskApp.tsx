@@ -2,17 +2,34 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 
+import BulkActionBar, { SelectCheckbox } from "@/components/BulkActionBar";
 import MarkdownEditor from "@/components/MarkdownEditor";
+import QuickAddInput, { QuickAddPreview } from "@/components/QuickAddInput";
+import { OPEN_SEARCH_HIT_EVENT } from "@/components/SearchPanel";
+import type { SearchHitRef } from "@/components/SearchPanel";
+import RecurrencePicker from "@/components/RecurrencePicker";
 import RenderedMarkdown from "@/components/RenderedMarkdown";
+import TagPicker, { TagFilterBar } from "@/components/TagPicker";
 import TaskDrawer from "@/components/TaskDrawer";
-import { InProgressLabel, ProjectLabel } from "@/components/TaskLabels";
+import TemplateLibrary, { TemplatePicker } from "@/components/TaskTemplates";
+import type { AppliedTemplate } from "@/components/TaskTemplates";
+import { BlockedLabel, InProgressLabel, PriorityLabel, ProjectLabel, RecurringLabel, SubtaskRollupLabel, TagLabels } from "@/components/TaskLabels";
 import { SpacePicker } from "@/components/SpaceLock";
 import { usePersonalSpaceCtx } from "@/components/DashboardShell";
+import { openBlockers } from "@/lib/dependencies";
 import { extractMarkdownUrls } from "@/lib/markdown";
 import { cancelNotifications, getReminderWindows, scheduleNotifications } from "@/lib/notifications";
+import { parseQuickAdd } from "@/lib/quick-add";
+import { compareTaskOrder } from "@/lib/sort-key";
+import { flattenTaskTree, subtaskRollup } from "@/lib/subtasks";
+import { templateFromTask } from "@/lib/templates";
+import { useDragReorder } from "@/hooks/useDragReorder";
 import { useTaskActions } from "@/hooks/useTaskActions";
+import { useTags } from "@/hooks/useTags";
+import { useTaskTemplates } from "@/hooks/useTaskTemplates";
 import { useTasksAndProjects } from "@/hooks/useTasksAndProjects";
-import type { Task } from "@/lib/types";
+import { TAG_COLORS } from "@/lib/types";
+import type { ChecklistItem, Task } from "@/lib/types";
 
 function clampPreview(text: string, limit = 140) {
   const cleaned = text.trim();
@@ -20,24 +37,50 @@ function clampPreview(text: string, limit = 140) {
   return `${cleaned.slice(0, limit)}…`;
 }
 
+// datetime-local inputs want local wall-clock time without a zone
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 export default function TaskApp() {
-  const { tasks, projects, loading, createTask, updateTask, deleteTask } = useTasksAndProjects();
+  const { tasks, projects, loading, loadError, hasMoreCompleted, loadingCompleted, loadMoreCompleted, createTask, updateTask, reorderTask, deleteTask, setBlockedBy, convertChecklist, bulkUpdateTasks, forgetTag } = useTasksAndProjects();
+  const { tags: allTags, createTag, deleteTag } = useTags();
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = useTaskTemplates();
   const { unlocked } = usePersonalSpaceCtx();
 
   const [title, setTitle] = useState("");
   const [notes, setNotes] = useState("");
   const [space, setSpace] = useState<"professional" | "personal">("professional");
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState("");
   const [editNotes, setEditNotes] = useState("");
   const [dueAt, setDueAt] = useState("");
   const [editDueAt, setEditDueAt] = useState("");
+  const [recurrence, setRecurrence] = useState("");
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  // Carried over from a template picked in the create modal
+  const [templateChecklist, setTemplateChecklist] = useState<ChecklistItem[]>([]);
+  const [templateProjectId, setTemplateProjectId] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editRecurrence, setEditRecurrence] = useState("");
+  const [editError, setEditError] = useState<string | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
   const [pendingPickTimeId, setPendingPickTimeId] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [drawerTaskId, setDrawerTaskId] = useState<string | null>(null);
+  const [pendingDrawerId, setPendingDrawerId] = useState<string | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
-  useTaskActions((taskId) => setPendingPickTimeId(taskId));
+  // Notification buttons; logged as push actions in the activity trail
+  useTaskActions({
+    onDone: (taskId) => updateTask(taskId, { completed: true, inProgress: false }, "push"),
+    onSnooze: (taskId) => updateTask(taskId, { dueAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() }, "push"),
+    onPickTime: (taskId) => setPendingPickTimeId(taskId),
+  });
 
   useEffect(() => {
     const handler = () => setShowCreateModal(true);
@@ -45,6 +88,22 @@ export default function TaskApp() {
     return () => window.removeEventListener("focus-new-task", handler);
   }, []);
 
+  // Search hits open in the drawer once the tasks have loaded
+  useEffect(() => {
+    const handler = (e: Event) => {
+      const hit = (e as CustomEvent<SearchHitRef>).detail;
+      if (hit.type === "task") setPendingDrawerId(hit.id);
+    };
+    window.addEventListener(OPEN_SEARCH_HIT_EVENT, handler);
+    return () => window.removeEventListener(OPEN_SEARCH_HIT_EVENT, handler);
+  }, []);
+
+  useEffect(() => {
+    if (loading || !pendingDrawerId) return;
+    setDrawerTaskId(pendingDrawerId);
+    setPendingDrawerId(null);
+  }, [loading, pendingDrawerId]);
+
   useEffect(() => {
     if (loading || !pendingPickTimeId) return;
     const task = tasks.find((t) => t.id === pendingPickTimeId);
@@ -57,26 +116,70 @@ export default function TaskApp() {
 
   const sortedTasks = useMemo(() => {
     const visible = tasks.filter((t) => t.space !== "personal" || unlocked);
-    return [...visible].sort((a, b) => {
-      if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
-      return b.createdAt - a.createdAt;
-    });
+    return [...visible].sort(compareTaskOrder);
   }, [tasks, unlocked]);
 
+  const taskTree = useMemo(() => {
+    const filtered = tagFilter ? sortedTasks.filter((t) => t.tags?.some((tag) => tag.id === tagFilter)) : sortedTasks;
+    return flattenTaskTree(filtered, collapsed);
+  }, [sortedTasks, collapsed, tagFilter]);
+
+  const drag = useDragReorder(taskTree.map(({ task }) => task), reorderTask);
+
   const completedCount = tasks.filter((t) => t.completed).length;
 
+  // Quick-add syntax in the title ("tomorrow 3pm #project !high @tag")
+  const quickAdd = useMemo(
+    () => parseQuickAdd(title, { projects: projects.filter((p) => p.space !== "personal" || unlocked) }),
+    [title, projects, unlocked],
+  );
+
   function closeCreateModal() {
     setShowCreateModal(false);
     setTitle("");
     setNotes("");
     setDueAt("");
+    setRecurrence("");
+    setTagIds([]);
     setSpace("professional");
+    setTemplateChecklist([]);
+    setTemplateProjectId(null);
+  }
+
+  function applyTemplate(fields: AppliedTemplate) {
+    setTitle(fields.title);
+    setNotes(fields.notes);
+    setDueAt(fields.dueAt ? toLocalInput(fields.dueAt) : "");
+    setTemplateChecklist(fields.checklist);
+    setTemplateProjectId(fields.projectId);
+  }
+
+  // Tags named with @ in the title are matched by name, or created if new
+  async function resolveQuickAddTags(names: string[]) {
+    const ids = [...tagIds];
+    for (const name of names) {
+      const existing = allTags.find((t) => t.name.toLowerCase() === name.toLowerCase());
+      const tag = existing ?? await createTag(name, TAG_COLORS[(allTags.length + ids.length) % TAG_COLORS.length]);
+      if (tag && !ids.includes(tag.id)) ids.push(tag.id);
+    }
+    return ids;
   }
 
   async function addTask() {
     if (!title.trim()) return;
-    const resolvedDueAt = dueAt ? new Date(dueAt).toISOString() : null;
-    const task = await createTask({ title: title.trim(), notes: notes.trim(), dueAt: resolvedDueAt, space });
+    // Fields set explicitly in the form win over what the title parser found
+    const resolvedDueAt = dueAt ? new Date(dueAt).toISOString() : quickAdd.dueAt?.toISOString() ?? null;
+    const task = await createTask({
+      title: quickAdd.title || title.trim(),
+      notes: notes.trim(),
+      dueAt: resolvedDueAt,
+      space: quickAdd.space ?? space,
+      recurrence: resolvedDueAt ? recurrence || null : null,
+      priority: quickAdd.priority,
+      ...((quickAdd.projectId ?? templateProjectId) && { projectId: quickAdd.projectId ?? templateProjectId }),
+      ...(templateChecklist.length > 0 && { checklist: templateChecklist }),
+      tagIds: await resolveQuickAddTags(quickAdd.tags),
+    });
     if (resolvedDueAt) {
       scheduleNotifications({ sourceId: task.id, sourceType: "task", title: task.title, dueAt: resolvedDueAt, reminderWindows: getReminderWindows() });
     }
@@ -88,6 +191,8 @@ export default function TaskApp() {
     setEditTitle(task.title);
     setEditNotes(task.notes);
     setEditDueAt(task.dueAt ? task.dueAt.slice(0, 16) : "");
+    setEditRecurrence(task.recurrence ?? "");
+    setEditError(null);
   }
 
   function cancelEdit() {
@@ -95,12 +200,15 @@ export default function TaskApp() {
     setEditTitle("");
     setEditNotes("");
     setEditDueAt("");
+    setEditRecurrence("");
+    setEditError(null);
   }
 
   async function saveEdit(id: string) {
     if (!editTitle.trim()) return;
     const resolvedDueAt = editDueAt ? new Date(editDueAt).toISOString() : null;
-    await updateTask(id, { title: editTitle.trim(), notes: editNotes.trim(), dueAt: resolvedDueAt });
+    const error = await updateTask(id, { title: editTitle.trim(), notes: editNotes.trim(), dueAt: resolvedDueAt, recurrence: resolvedDueAt ? editRecurrence || null : null });
+    if (error) { setEditError(error); return; }
     cancelNotifications(id).then(() => {
       if (resolvedDueAt) {
         scheduleNotifications({ sourceId: id, sourceType: "task", title: editTitle.trim(), dueAt: resolvedDueAt, reminderWindows: getReminderWindows() });
@@ -109,10 +217,28 @@ export default function TaskApp() {
     cancelEdit();
   }
 
+  async function addSubtask(parent: Task, subtaskTitle: string) {
+    await createTask({ title: subtaskTitle, notes: "", dueAt: null, parentId: parent.id });
+  }
+
+  async function removeTag(id: string) {
+    await deleteTag(id);
+    forgetTag(id);
+  }
+
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  }
+
+  function exitSelecting() {
+    setSelecting(false);
+    setSelectedIds([]);
+  }
+
+  // Pending reminders are dropped server-side and rebuilt if the task is restored
   async function removeTask(id: string) {
     await deleteTask(id);
     setExpanded((prev) => { const next = { ...prev }; delete next[id]; return next; });
-    cancelNotifications(id);
   }
 
   function formatDueLabel(value: string | null) {
@@ -137,18 +263,39 @@ export default function TaskApp() {
     );
   }
 
+  if (loadError) {
+    return (
+      <section className="flex w-full flex-col gap-8 px-8 py-10 lg:px-10">
+        <div className="flex items-center justify-center py-20 text-sm text-coral">{loadError}</div>
+      </section>
+    );
+  }
+
   const drawerTask = drawerTaskId ? tasks.find((t) => t.id === drawerTaskId) ?? null : null;
 
   return (
     <>
     {drawerTask && (
       <TaskDrawer
+        key={drawerTask.id}
         task={drawerTask}
         section="task"
         projectName={drawerTask.projectId ? projects.find((p) => p.id === drawerTask.projectId)?.title : undefined}
         onClose={() => setDrawerTaskId(null)}
         onUpdate={(patch) => updateTask(drawerTask.id, patch)}
         onDelete={() => { removeTask(drawerTask.id); setDrawerTaskId(null); }}
+        allTasks={sortedTasks}
+        onOpenTask={setDrawerTaskId}
+        onAddSubtask={(subtaskTitle) => addSubtask(drawerTask, subtaskTitle)}
+        onToggleSubtask={(id) => {
+          const sub = tasks.find((t) => t.id === id);
+          if (sub) updateTask(id, { completed: !sub.completed, inProgress: false });
+        }}
+        onConvertChecklist={() => convertChecklist(drawerTask.id)}
+        onSetBlockedBy={(ids) => setBlockedBy(drawerTask.id, ids)}
+        allTags={allTags}
+        onCreateTag={createTag}
+        onSaveAsTemplate={(name) => createTemplate(templateFromTask(drawerTask, name))}
       />
     )}
     {showCreateModal && (
@@ -167,15 +314,14 @@ export default function TaskApp() {
             </button>
           </div>
           <form className="flex flex-col gap-4 px-6 py-5" onSubmit={(e) => { e.preventDefault(); addTask(); }}>
+            <TemplatePicker templates={templates} onApply={applyTemplate} />
+            {templateChecklist.length > 0 && (
+              <p className="-mt-2 text-[11px] text-ink-soft">Adds {templateChecklist.length} checklist items from the template</p>
+            )}
             <div className="flex flex-col gap-1.5">
               <label className="text-xs font-medium text-ink-muted">Task title</label>
-              <input
-                autoFocus
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder="Draft outreach email"
-                className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition placeholder:text-ink-soft focus:border-coral"
-              />
+              <QuickAddInput autoFocus value={title} onChange={setTitle} parsed={quickAdd} placeholder="Draft outreach email tomorrow 10am #Launch" />
+              <QuickAddPreview parsed={quickAdd} projects={projects} />
             </div>
             <div className="flex flex-col gap-1.5">
               <label className="text-xs font-medium text-ink-muted">Notes (optional)</label>
@@ -190,6 +336,14 @@ export default function TaskApp() {
                 className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none transition focus:border-coral"
               />
             </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-xs font-medium text-ink-muted">Repeat</label>
+              <RecurrencePicker value={recurrence} onChange={setRecurrence} dueAt={dueAt} />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-xs font-medium text-ink-muted">Tags</label>
+              <TagPicker tags={allTags} value={tagIds} onChange={setTagIds} onCreate={createTag} />
+            </div>
             <div className="flex items-center justify-between border-t border-hairline pt-4">
               <SpacePicker value={space} onChange={setSpace} />
               <div className="flex gap-2">
@@ -217,6 +371,22 @@ export default function TaskApp() {
           <span className="rounded-pill border border-hairline bg-surface-card px-3 py-1.5 text-xs font-medium text-ink-muted">
             {completedCount} / {tasks.length} completed
           </span>
+          <TemplateLibrary
+            templates={templates}
+            projects={projects.filter((p) => p.space !== "personal" || unlocked)}
+            onCreate={createTemplate}
+            onUpdate={updateTemplate}
+            onDelete={deleteTemplate}
+          />
+          <button
+            type="button"
+            onClick={() => (selecting ? exitSelecting() : setSelecting(true))}
+            className={`rounded-md border px-4 py-2 text-sm font-medium transition ${
+              selecting ? "border-coral text-coral" : "border-hairline text-ink-muted hover:border-coral hover:text-coral"
+            }`}
+          >
+            {selecting ? "Cancel" : "Select"}
+          </button>
           <button
             type="button"
             onClick={() => setShowCreateModal(true)}
@@ -230,28 +400,52 @@ export default function TaskApp() {
         </div>
       </header>
 
+      <TagFilterBar tags={allTags} active={tagFilter} onChange={setTagFilter} onDelete={removeTag} />
+
       <div className="flex flex-col gap-3">
-        {sortedTasks.length === 0 ? (
+        {taskTree.length === 0 && tagFilter ? (
+          <div className="rounded-lg border border-dashed border-hairline p-10 text-center text-sm text-ink-soft">
+            No tasks with this tag.
+          </div>
+        ) : sortedTasks.length === 0 ? (
           <div className="rounded-lg border border-dashed border-hairline p-10 text-center text-sm text-ink-soft">
             No tasks yet. Add one to get started.
           </div>
         ) : (
-          sortedTasks.map((task, index) => {
+          taskTree.map(({ task, depth }, index) => {
                   const isOpen    = expanded[task.id];
                   const isEditing = editingId === task.id;
                   const preview   = clampPreview(task.notes);
                   const overdue   = isOverdue(task.dueAt);
+                  const rollup    = subtaskRollup(tasks, task.id);
+                  const blockers  = task.completed ? [] : openBlockers(task, tasks);
                   return (
                     <article
                       key={task.id}
+                      {...drag.rowProps(task, !selecting && !isEditing)}
                       className={`animate-rise rounded-lg border bg-canvas p-5 transition ${
-                        overdue ? "border-coral/30" : task.inProgress ? "border-amber-300/60 bg-amber-50/30" : "border-hairline"
-                      } ${task.completed ? "opacity-60" : ""}`}
-                      style={{ animationDelay: `${index * 40}ms` }}
+                        drag.overId === task.id ? "border-coral" : overdue ? "border-coral/30" : task.inProgress ? "border-amber-300/60 bg-amber-50/30" : "border-hairline"
+                      } ${task.completed ? "opacity-60" : ""} ${drag.draggingId === task.id ? "opacity-40" : ""}`}
+                      style={{ animationDelay: `${index * 40}ms`, marginLeft: depth * 24 }}
                     >
                       <div className="flex flex-wrap items-start justify-between gap-4">
                         <div className="flex items-start gap-3">
-                          {/* 3-state cycle button: todo → in-progress → done */}
+                          {rollup.total > 0 && (
+                            <button
+                              type="button"
+                              title={collapsed[task.id] ? "Show subtasks" : "Hide subtasks"}
+                              onClick={() => setCollapsed((prev) => ({ ...prev, [task.id]: !prev[task.id] }))}
+                              className="mt-0.5 -ml-1 shrink-0 text-ink-soft transition hover:text-ink"
+                            >
+                              <svg width="14" height="14" viewBox="0 0 14 14" fill="none" className={`transition ${collapsed[task.id] ? "-rotate-90" : ""}`}>
+                                <path d="M3.5 5.5L7 9l3.5-3.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                              </svg>
+                            </button>
+                          )}
+                          {selecting ? (
+                            <SelectCheckbox checked={selectedIds.includes(task.id)} onChange={() => toggleSelected(task.id)} />
+                          ) : (
+                          /* 3-state cycle button: todo → in-progress → done */
                           <button
                             type="button"
                             title={task.completed ? "Mark incomplete" : task.inProgress ? "Mark complete" : "Mark in progress"}
@@ -276,10 +470,11 @@ export default function TaskApp() {
                               <span className="h-1.5 w-1.5 rounded-full bg-white" />
                             )}
                           </button>
+                          )}
                           <div className="min-w-0">
                             <h3
                               className={`text-sm font-medium text-ink leading-snug cursor-pointer hover:text-coral transition ${task.completed ? "line-through text-ink-soft" : ""}`}
-                              onClick={() => setDrawerTaskId(task.id)}
+                              onClick={() => (selecting ? toggleSelected(task.id) : setDrawerTaskId(task.id))}
                             >
                               {task.title}
                             </h3>
@@ -292,10 +487,15 @@ export default function TaskApp() {
                                 <span className="rounded-pill bg-surface-card px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] text-ink-muted">Pinned</span>
                               )}
                               {task.inProgress && !task.completed && <InProgressLabel />}
+                              {task.priority && !task.completed && <PriorityLabel priority={task.priority} />}
+                              {blockers.length > 0 && <BlockedLabel blockers={blockers.map((b) => b.title)} />}
+                              {task.recurrence && <RecurringLabel rule={task.recurrence} />}
+                              {rollup.total > 0 && <SubtaskRollupLabel done={rollup.done} total={rollup.total} />}
                               {task.projectId && (() => {
                                 const proj = projects.find((p) => p.id === task.projectId);
                                 return proj ? <ProjectLabel title={proj.title} /> : null;
                               })()}
+                              <TagLabels tags={task.tags} />
                             </div>
                             {task.notes ? (
                               <p className="mt-1.5 text-xs text-ink-muted leading-relaxed">{preview}</p>
@@ -366,9 +566,14 @@ export default function TaskApp() {
                               <label className="text-xs font-medium uppercase tracking-[1px] text-ink-muted">Due date & time</label>
                               <input type="datetime-local" value={editDueAt} onChange={(e) => setEditDueAt(e.target.value)} className="rounded-md border border-hairline bg-canvas px-3 py-2 text-sm text-ink outline-none transition focus:border-coral" />
                             </div>
+                            <div className="flex flex-col gap-1.5">
+                              <label className="text-xs font-medium uppercase tracking-[1px] text-ink-muted">Repeat</label>
+                              <RecurrencePicker value={editRecurrence} onChange={setEditRecurrence} dueAt={editDueAt} />
+                            </div>
                             <div className="flex items-center gap-2">
                               <button type="button" onClick={() => saveEdit(task.id)} className="rounded-md bg-coral px-4 py-1.5 text-xs font-medium text-white transition hover:bg-coral-active">Save</button>
                               <button type="button" onClick={cancelEdit} className="rounded-md border border-hairline px-4 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+                              {editError && <span className="text-xs text-coral">{editError}</span>}
                             </div>
                           </div>
                         </div>
@@ -390,7 +595,30 @@ export default function TaskApp() {
                   );
                 })
         )}
+        {hasMoreCompleted && (
+          <button
+            type="button"
+            disabled={loadingCompleted}
+            onClick={async () => setPageError(await loadMoreCompleted())}
+            className="self-center rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral disabled:opacity-40"
+          >
+            {loadingCompleted ? "Loading…" : "Load older completed tasks"}
+          </button>
+        )}
+        {pageError && <p className="self-center text-xs text-coral">{pageError}</p>}
       </div>
+
+      {selecting && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          totalCount={taskTree.length}
+          projects={projects.filter((p) => p.space !== "personal" || unlocked)}
+          onApply={(change) => bulkUpdateTasks(selectedIds, change)}
+          onSelectAll={() => setSelectedIds(taskTree.map(({ task }) => task.id))}
+          onClear={() => setSelectedIds([])}
+          onDone={exitSelecting}
+        />
+      )}
     </section>
     </>
   );
@@ -1,10 +1,18 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import type { ChecklistItem, Task } from "@/lib/types";
+import { PRIORITY_META, PRIORITY_OPTIONS } from "@/lib/types";
+import type { ChecklistItem, Tag, Task, TaskPriority } from "@/lib/types";
+import ActivityTimeline from "@/components/ActivityTimeline";
 import MarkdownEditor from "@/components/MarkdownEditor";
+import RecurrencePicker from "@/components/RecurrencePicker";
 import RenderedMarkdown from "@/components/RenderedMarkdown";
-import { InProgressLabel, ProjectLabel } from "@/components/TaskLabels";
+import TagPicker from "@/components/TagPicker";
+import TimeEntries from "@/components/TimeEntries";
+import { BlockedLabel, InProgressLabel, ProjectLabel, SubtaskRollupLabel, TagLabels } from "@/components/TaskLabels";
+import { openBlockers } from "@/lib/dependencies";
+import { describeRRule } from "@/lib/recurrence";
+import { subtaskRollup } from "@/lib/subtasks";
 
 function buildId() {
   return typeof crypto !== "undefined" && "randomUUID" in crypto
@@ -46,21 +54,53 @@ export default function TaskDrawer({
   onDelete,
   onRemoveFromToday,
   projectName,
+  allTasks,
+  onOpenTask,
+  onAddSubtask,
+  onToggleSubtask,
+  onConvertChecklist,
+  onSetBlockedBy,
+  allTags,
+  onCreateTag,
+  onSaveAsTemplate,
 }: {
   task: Task;
   section?: DrawerSection;
   onClose: () => void;
-  onUpdate: (patch: Partial<Task> & { checklist?: ChecklistItem[] }) => void;
+  // May resolve to an error message when the server rejects the change
+  onUpdate: (patch: Partial<Task> & { checklist?: ChecklistItem[]; tagIds?: string[] }) => void | Promise<string | null>;
   onDelete: () => void;
   onRemoveFromToday?: () => void;
   projectName?: string;
+  // Subtask support — the section only renders when the full task list is passed
+  allTasks?: Task[];
+  onOpenTask?: (id: string) => void;
+  onAddSubtask?: (title: string) => void;
+  onToggleSubtask?: (id: string) => void;
+  onConvertChecklist?: () => void;
+  // Resolves to an error message when the server rejects the change
+  onSetBlockedBy?: (ids: string[]) => Promise<string | null>;
+  // Tag editing — the row only renders when the user's tags are passed
+  allTags?: Tag[];
+  onCreateTag?: (name: string, color: string) => Promise<Tag | null>;
+  // Resolves to an error message when the template can't be saved
+  onSaveAsTemplate?: (name: string) => Promise<string | null>;
 }) {
   const [editing, setEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(task.title);
   const [editNotes, setEditNotes] = useState(task.notes);
   const [editDueAt, setEditDueAt] = useState(task.dueAt ? task.dueAt.slice(0, 16) : "");
+  const [editRecurrence, setEditRecurrence] = useState(task.recurrence ?? "");
   const [checklist, setChecklist] = useState<ChecklistItem[]>(task.checklist ?? []);
   const [newItemText, setNewItemText] = useState("");
+  const [newSubtaskText, setNewSubtaskText] = useState("");
+  const [dependencyError, setDependencyError] = useState<string | null>(null);
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  const [tagIds, setTagIds] = useState<string[]>(() => task.tags?.map((t) => t.id) ?? []);
+  const [priority, setPriority] = useState<TaskPriority | null>(task.priority ?? null);
+  // null while the "save as template" form is closed
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [templateNotice, setTemplateNotice] = useState<string | null>(null);
   const newItemRef = useRef<HTMLInputElement>(null);
 
   // Close on Escape
@@ -70,10 +110,17 @@ export default function TaskDrawer({
     return () => window.removeEventListener("keydown", onKey);
   }, [onClose]);
 
+  // Resolves true when the change was saved
+  async function update(patch: Parameters<typeof onUpdate>[0]) {
+    const error = (await onUpdate(patch)) ?? null;
+    setUpdateError(error);
+    return !error;
+  }
+
   // Sync checklist to parent whenever it changes
   function saveChecklist(next: ChecklistItem[]) {
     setChecklist(next);
-    onUpdate({ checklist: next });
+    update({ checklist: next });
   }
 
   function toggleItem(id: string) {
@@ -93,16 +140,54 @@ export default function TaskDrawer({
     saveChecklist(checklist.filter((item) => item.id !== id));
   }
 
-  function saveEdit() {
-    onUpdate({
+  async function saveEdit() {
+    const saved = await update({
       title: editTitle.trim(),
       notes: editNotes.trim(),
       dueAt: editDueAt ? new Date(editDueAt).toISOString() : null,
+      recurrence: editDueAt ? editRecurrence || null : null,
     });
-    setEditing(false);
+    if (saved) setEditing(false);
+  }
+
+  function addSubtask() {
+    if (!newSubtaskText.trim() || !onAddSubtask) return;
+    onAddSubtask(newSubtaskText.trim());
+    setNewSubtaskText("");
   }
 
   const doneCount = checklist.filter((i) => i.done).length;
+  const parentTask = task.parentId ? allTasks?.find((t) => t.id === task.parentId) : undefined;
+  const subtasks = allTasks?.filter((t) => t.parentId === task.id) ?? [];
+  const rollup = allTasks ? subtaskRollup(allTasks, task.id) : { done: 0, total: 0 };
+
+  // Dependencies can change while the drawer is open, so read them from the live list
+  const blockedByIds = allTasks?.find((t) => t.id === task.id)?.blockedByIds ?? task.blockedByIds ?? [];
+  const blockers = allTasks?.filter((t) => blockedByIds.includes(t.id)) ?? [];
+  const stillBlocking = allTasks ? openBlockers({ ...task, blockedByIds }, allTasks) : [];
+  const blockerOptions = allTasks?.filter((t) => t.id !== task.id && !t.completed && !blockedByIds.includes(t.id)) ?? [];
+
+  async function savePriority(next: TaskPriority | null) {
+    setPriority(next);
+    if (!(await update({ priority: next }))) setPriority(task.priority ?? null);
+  }
+
+  async function saveTags(ids: string[]) {
+    setTagIds(ids);
+    if (!(await update({ tagIds: ids }))) setTagIds(task.tags?.map((t) => t.id) ?? []);
+  }
+
+  async function saveTemplate() {
+    if (!onSaveAsTemplate || !templateName?.trim()) return;
+    const error = await onSaveAsTemplate(templateName.trim());
+    setTemplateNotice(error ?? `Saved as “${templateName.trim()}”`);
+    if (!error) setTemplateName(null);
+  }
+
+  async function saveBlockedBy(ids: string[]) {
+    if (!onSetBlockedBy) return;
+    setDependencyError(await onSetBlockedBy(ids));
+  }
   const isOverdue = task.dueAt && new Date(task.dueAt).getTime() < Date.now() && !task.completed;
 
   return (
@@ -132,12 +217,25 @@ export default function TaskDrawer({
 
         {/* Scrollable body */}
         <div className="flex-1 overflow-y-auto px-6 py-5 flex flex-col gap-5">
+          {/* Parent breadcrumb */}
+          {parentTask && (
+            <button
+              type="button"
+              onClick={() => onOpenTask?.(parentTask.id)}
+              className="flex items-center gap-1.5 self-start text-xs text-ink-muted transition hover:text-coral"
+            >
+              <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M8 2L4 6l4 4" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/></svg>
+              Subtask of {parentTask.title}
+            </button>
+          )}
+
           {/* Title */}
           {/* Labels */}
-          {(task.inProgress && !task.completed) || projectName ? (
+          {(task.inProgress && !task.completed) || projectName || (!allTags && task.tags?.length) ? (
             <div className="flex flex-wrap gap-1.5">
               {task.inProgress && !task.completed && <InProgressLabel />}
               {projectName && <ProjectLabel title={projectName} />}
+              {!allTags && <TagLabels tags={task.tags} />}
             </div>
           ) : null}
 
@@ -154,10 +252,12 @@ export default function TaskDrawer({
             </h2>
           )}
 
+          {updateError && <p className="text-[11px] text-coral">{updateError}</p>}
+
           {/* Mark complete button */}
           <button
             type="button"
-            onClick={() => onUpdate({ completed: !task.completed })}
+            onClick={() => update({ completed: !task.completed })}
             className={`flex w-full items-center gap-3 rounded-xl border px-4 py-3.5 text-sm font-medium transition ${
               task.completed
                 ? "border-coral bg-coral/10 text-coral"
@@ -191,6 +291,57 @@ export default function TaskDrawer({
                 </span>
               )}
             </div>
+            {/* Repeat */}
+            {(editing || task.recurrence) && (
+              <div className="flex items-start gap-3 px-4 py-3">
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="mt-0.5 shrink-0 text-ink-soft">
+                  <path d="M13 6A5.5 5.5 0 0 0 2.8 4.4M3 10a5.5 5.5 0 0 0 10.2 1.6" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round"/>
+                  <path d="M2.4 1.8v3h3M13.6 14.2v-3h-3" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+                <span className="text-sm text-ink-soft w-20 shrink-0">Repeats</span>
+                {editing ? (
+                  <div className="flex-1">
+                    <RecurrencePicker value={editRecurrence} onChange={setEditRecurrence} dueAt={editDueAt} />
+                  </div>
+                ) : (
+                  <span className="text-sm font-medium text-ink">{describeRRule(task.recurrence ?? "")}</span>
+                )}
+              </div>
+            )}
+            {/* Priority */}
+            <div className="flex items-center gap-3 px-4 py-3">
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="shrink-0 text-ink-soft">
+                <path d="M3 14.5V2M3 2.5h9.5L10.5 6l2 3.5H3" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+              <span className="text-sm text-ink-soft w-20 shrink-0">Priority</span>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {PRIORITY_OPTIONS.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => savePriority(priority === option ? null : option)}
+                    className={`rounded-pill px-2.5 py-1 text-xs font-medium transition ${
+                      priority === option ? PRIORITY_META[option].pill : "text-ink-soft hover:text-ink"
+                    }`}
+                  >
+                    {PRIORITY_META[option].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {/* Tags */}
+            {allTags && (
+              <div className="flex items-start gap-3 px-4 py-3">
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="mt-0.5 shrink-0 text-ink-soft">
+                  <path d="M2 2.5v4.6a1 1 0 0 0 .3.7l6 6a1 1 0 0 0 1.4 0l4.6-4.6a1 1 0 0 0 0-1.4l-6-6a1 1 0 0 0-.7-.3H2.5a.5.5 0 0 0-.5.5Z" stroke="currentColor" strokeWidth="1.3"/>
+                  <circle cx="5" cy="5" r="1" fill="currentColor"/>
+                </svg>
+                <span className="text-sm text-ink-soft w-20 shrink-0">Tags</span>
+                <div className="flex-1">
+                  <TagPicker tags={allTags} value={tagIds} onChange={saveTags} onCreate={onCreateTag} />
+                </div>
+              </div>
+            )}
             {/* Created */}
             <div className="flex items-center gap-3 px-4 py-3">
               <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="shrink-0 text-ink-soft">
@@ -222,13 +373,129 @@ export default function TaskDrawer({
             )}
           </div>
 
+          {/* Blocked by */}
+          {allTasks && onSetBlockedBy && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Blocked by</p>
+                {!task.completed && stillBlocking.length > 0 && <BlockedLabel blockers={stillBlocking.map((t) => t.title)} />}
+              </div>
+
+              {blockers.length > 0 && (
+                <div className="flex flex-col gap-1">
+                  {blockers.map((blocker) => (
+                    <div key={blocker.id} className="group flex items-center gap-3 rounded-lg px-3 py-2 hover:bg-surface-card transition">
+                      <span className={`h-2 w-2 shrink-0 rounded-full ${blocker.completed ? "bg-coral" : "bg-ink-soft"}`} />
+                      <button
+                        type="button"
+                        onClick={() => onOpenTask?.(blocker.id)}
+                        className={`flex-1 text-left text-sm text-ink transition hover:text-coral ${blocker.completed ? "line-through text-ink-soft" : ""}`}
+                      >
+                        {blocker.title}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => saveBlockedBy(blockedByIds.filter((id) => id !== blocker.id))}
+                        className="opacity-0 group-hover:opacity-100 text-ink-soft hover:text-coral transition"
+                      >
+                        <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M2 2l8 8M10 2 2 10" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round"/></svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {blockerOptions.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => { if (e.target.value) saveBlockedBy([...blockedByIds, e.target.value]); }}
+                  className="rounded-lg border border-dashed border-hairline bg-canvas px-3 py-2 text-sm text-ink-soft outline-none transition focus:border-coral"
+                >
+                  <option value="">Add a task this depends on…</option>
+                  {blockerOptions.map((t) => (
+                    <option key={t.id} value={t.id}>{t.title}</option>
+                  ))}
+                </select>
+              )}
+              {dependencyError && <p className="text-[11px] text-coral">{dependencyError}</p>}
+            </div>
+          )}
+
+          {/* Subtasks */}
+          {allTasks && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Subtasks</p>
+                {rollup.total > 0 && <SubtaskRollupLabel done={rollup.done} total={rollup.total} />}
+              </div>
+
+              {subtasks.length > 0 && (
+                <div className="flex flex-col gap-1">
+                  {subtasks.map((sub) => {
+                    const nested = subtaskRollup(allTasks, sub.id);
+                    return (
+                      <div key={sub.id} className="flex items-center gap-3 rounded-lg px-3 py-2 hover:bg-surface-card transition">
+                        <button
+                          type="button"
+                          onClick={() => onToggleSubtask?.(sub.id)}
+                          className={`h-5 w-5 shrink-0 rounded-full border-2 transition flex items-center justify-center ${sub.completed ? "border-coral bg-coral" : "border-hairline hover:border-coral"}`}
+                        >
+                          {sub.completed && (
+                            <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+                              <path d="M1.5 5l3 3 4-4.5" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                            </svg>
+                          )}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onOpenTask?.(sub.id)}
+                          className={`flex-1 text-left text-sm text-ink transition hover:text-coral ${sub.completed ? "line-through text-ink-soft" : ""}`}
+                        >
+                          {sub.title}
+                        </button>
+                        {sub.dueAt && <span className="text-xs text-ink-soft">{formatDue(sub.dueAt)}</span>}
+                        {nested.total > 0 && <SubtaskRollupLabel done={nested.done} total={nested.total} />}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {onAddSubtask && (
+                <div className="flex items-center gap-2 rounded-lg border border-dashed border-hairline px-3 py-2 focus-within:border-coral transition">
+                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" className="text-ink-soft shrink-0">
+                    <path d="M7 1v12M1 7h12" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round"/>
+                  </svg>
+                  <input
+                    value={newSubtaskText}
+                    onChange={(e) => setNewSubtaskText(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); addSubtask(); } }}
+                    placeholder="Add subtask…"
+                    className="flex-1 bg-transparent text-sm text-ink outline-none placeholder:text-ink-soft"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Checklist */}
           <div className="flex flex-col gap-2">
             <div className="flex items-center justify-between">
               <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Checklist</p>
-              {checklist.length > 0 && (
-                <span className="text-xs text-ink-soft">{doneCount}/{checklist.length}</span>
-              )}
+              <div className="flex items-center gap-2">
+                {checklist.length > 0 && onConvertChecklist && (
+                  <button
+                    type="button"
+                    onClick={() => { onConvertChecklist(); setChecklist([]); }}
+                    className="text-xs text-ink-soft transition hover:text-coral"
+                  >
+                    Convert to subtasks
+                  </button>
+                )}
+                {checklist.length > 0 && (
+                  <span className="text-xs text-ink-soft">{doneCount}/{checklist.length}</span>
+                )}
+              </div>
             </div>
 
             {checklist.length > 0 && (
@@ -276,6 +543,45 @@ export default function TaskDrawer({
               />
             </div>
           </div>
+
+          {/* Save as template — title, notes, checklist, due offset and project */}
+          {onSaveAsTemplate && (templateName === null ? (
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => { setTemplateName(task.title); setTemplateNotice(null); }}
+                className="text-xs text-ink-soft transition hover:text-coral"
+              >
+                Save as template…
+              </button>
+              {templateNotice && <span className="text-xs text-ink-soft">{templateNotice}</span>}
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <input
+                  autoFocus
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); saveTemplate(); } }}
+                  placeholder="Template name"
+                  className="flex-1 rounded-md border border-hairline bg-canvas px-3 py-1.5 text-sm text-ink outline-none transition focus:border-coral"
+                />
+                <button type="button" onClick={saveTemplate} className="rounded-md bg-coral px-3 py-1.5 text-xs font-medium text-white transition hover:bg-coral-active">Save</button>
+                <button type="button" onClick={() => { setTemplateName(null); setTemplateNotice(null); }} className="text-xs text-ink-soft transition hover:text-ink">Cancel</button>
+              </div>
+              {templateNotice && <p className="text-xs text-coral">{templateNotice}</p>}
+            </div>
+          ))}
+
+          {/* Time tracking — starting and stopping the task runs the timer */}
+          <TimeEntries taskId={task.id} refreshKey={task} />
+
+          {/* Activity */}
+          <div className="flex flex-col gap-3">
+            <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Activity</p>
+            <ActivityTimeline query={`entityType=task&entityId=${task.id}`} refreshKey={task} />
+          </div>
         </div>
 
         {/* Footer actions */}
@@ -283,7 +589,7 @@ export default function TaskDrawer({
           <div className="flex items-center gap-2">
             <button
               type="button"
-              onClick={() => onUpdate({ pinned: !task.pinned })}
+              onClick={() => update({ pinned: !task.pinned })}
               className={`flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs font-medium transition ${task.pinned ? "border-coral text-coral bg-coral/5" : "border-hairline text-ink-muted hover:border-coral hover:text-coral"}`}
             >
               <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
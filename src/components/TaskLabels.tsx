@@ -1,5 +1,9 @@
 "use client";
 
+import { describeRRule } from "@/lib/recurrence";
+import { PRIORITY_META } from "@/lib/types";
+import type { Tag, TaskPriority } from "@/lib/types";
+
 // Shared label pills shown on task cards across Today, Tasks, and Projects views.
 
 export function InProgressLabel() {
@@ -22,3 +26,68 @@ export function ProjectLabel({ title }: { title: string }) {
     </span>
   );
 }
+
+export function PriorityLabel({ priority }: { priority: TaskPriority }) {
+  const meta = PRIORITY_META[priority];
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-pill px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] ${meta.pill}`}>
+      <svg width="8" height="8" viewBox="0 0 8 8" fill="none">
+        <path d="M1.5 7.5V1M1.5 1.2h4.8L5.2 3l1.1 1.8H1.5" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"/>
+      </svg>
+      {meta.label}
+    </span>
+  );
+}
+
+export function TagLabel({ tag }: { tag: Tag }) {
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-pill border px-2 py-0.5 text-[10px] font-medium"
+      style={{ color: tag.color, borderColor: `${tag.color}4d`, backgroundColor: `${tag.color}14` }}
+    >
+      <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+    </span>
+  );
+}
+
+export function TagLabels({ tags }: { tags?: Tag[] }) {
+  if (!tags || tags.length === 0) return null;
+  return <>{tags.map((tag) => <TagLabel key={tag.id} tag={tag} />)}</>;
+}
+
+export function SubtaskRollupLabel({ done, total }: { done: number; total: number }) {
+  const complete = done === total;
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-pill px-2 py-0.5 text-[10px] font-medium ${complete ? "bg-coral/10 text-coral" : "bg-surface-card text-ink-muted"}`}>
+      <svg width="8" height="8" viewBox="0 0 8 8" fill="none">
+        <path d="M1 1v3.5a1 1 0 0 0 1 1h5M5 4l2 1.5L5 7" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"/>
+      </svg>
+      {done}/{total} subtasks
+    </span>
+  );
+}
+
+export function RecurringLabel({ rule }: { rule: string }) {
+  return (
+    <span title={rule} className="inline-flex items-center gap-1 rounded-pill border border-hairline px-2 py-0.5 text-[10px] font-medium text-ink-muted">
+      <svg width="8" height="8" viewBox="0 0 8 8" fill="none">
+        <path d="M6.5 3A2.75 2.75 0 0 0 1.4 2.2M1.5 5a2.75 2.75 0 0 0 5.1.8" stroke="currentColor" strokeWidth="1" strokeLinecap="round"/>
+        <path d="M1.2 .9v1.5h1.5M6.8 7.1V5.6H5.3" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"/>
+      </svg>
+      {describeRRule(rule)}
+    </span>
+  );
+}
+
+export function BlockedLabel({ blockers }: { blockers: string[] }) {
+  return (
+    <span title={`Waiting on: ${blockers.join(", ")}`} className="inline-flex items-center gap-1 rounded-pill bg-surface-cream px-2 py-0.5 text-[10px] font-medium uppercase tracking-[1px] text-ink-muted">
+      <svg width="8" height="8" viewBox="0 0 8 8" fill="none">
+        <rect x="1" y="3.5" width="6" height="4" rx="1" stroke="currentColor" strokeWidth="1"/>
+        <path d="M2.5 3.5V2.5a1.5 1.5 0 0 1 3 0v1" stroke="currentColor" strokeWidth="1"/>
+      </svg>
+      Blocked
+    </span>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { defaultVariableValues, describeOffset, instantiateTemplate, templateVariables } from "@/lib/templates";
+import type { TemplateFields } from "@/lib/templates";
+import type { Project, TaskTemplate } from "@/lib/types";
+
+// Template library UI: the picker shown in the task create modals, and the
+// library modal (opened from the Tasks header) for editing templates. Saving a
+// task as a template happens in TaskDrawer.
+
+const inputClass = "rounded-md border border-hairline bg-canvas px-3 py-2 text-sm text-ink outline-none transition focus:border-coral";
+
+export type AppliedTemplate = ReturnType<typeof instantiateTemplate>;
+
+export function TemplatePicker({ templates, onApply }: { templates: TaskTemplate[]; onApply: (fields: AppliedTemplate) => void }) {
+  const [templateId, setTemplateId] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const template = templates.find((t) => t.id === templateId) ?? null;
+  const variables = useMemo(() => (template ? templateVariables(template) : []), [template]);
+
+  if (templates.length === 0) return null;
+
+  function pick(id: string) {
+    setTemplateId(id);
+    const next = templates.find((t) => t.id === id);
+    setValues(next ? defaultVariableValues(templateVariables(next)) : {});
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-dashed border-hairline px-3 py-3">
+      <select value={templateId} onChange={(e) => pick(e.target.value)} className={`${inputClass} py-1.5 text-xs`}>
+        <option value="">Start from a template…</option>
+        {templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+      </select>
+      {template && (
+        <>
+          {variables.map((name) => (
+            <label key={name} className="flex items-center gap-2 text-xs text-ink-muted">
+              <span className="w-20 shrink-0 font-mono">{name}</span>
+              <input
+                value={values[name] ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className={`${inputClass} flex-1 py-1 text-xs`}
+              />
+            </label>
+          ))}
+          <div className="flex items-center justify-between">
+            <span className="text-[11px] text-ink-soft">
+              {describeOffset(template.dueOffsetMinutes)}{template.checklist.length > 0 && ` · ${template.checklist.length} checklist items`}
+            </span>
+            <button
+              type="button"
+              onClick={() => { onApply(instantiateTemplate(template, values)); pick(""); }}
+              className="rounded-md border border-coral px-3 py-1 text-xs font-medium text-coral transition hover:bg-coral/5"
+            >
+              Use template
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ── Library ─────────────────────────────────────────────────────────────────
+
+const OFFSET_UNITS = [
+  { label: "minutes", minutes: 1 },
+  { label: "hours",   minutes: 60 },
+  { label: "days",    minutes: 24 * 60 },
+] as const;
+
+function splitOffset(minutes: number | null) {
+  if (minutes === null) return { amount: "", unit: 24 * 60 };
+  const unit = [...OFFSET_UNITS].reverse().find((u) => minutes % u.minutes === 0) ?? OFFSET_UNITS[0];
+  return { amount: String(minutes / unit.minutes), unit: unit.minutes as number };
+}
+
+const EMPTY: TemplateFields = { name: "", title: "", notes: "", checklist: [], dueOffsetMinutes: null, projectId: null };
+
+function TemplateForm({
+  initial,
+  projects,
+  onSave,
+  onCancel,
+}: {
+  initial: TemplateFields;
+  projects: Project[];
+  onSave: (data: TemplateFields) => Promise<string | null>;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [checklistText, setChecklistText] = useState(initial.checklist.join("\n"));
+  const [offset, setOffset] = useState(() => splitOffset(initial.dueOffsetMinutes));
+  const [error, setError] = useState<string | null>(null);
+
+  async function save() {
+    const amount = Number(offset.amount);
+    const dueOffsetMinutes = offset.amount.trim() && Number.isFinite(amount) && amount >= 0 ? Math.round(amount * offset.unit) : null;
+    const checklist = checklistText.split("\n").map((line) => line.trim()).filter(Boolean);
+    const { name, title, notes, projectId } = draft;
+    setError(await onSave({ name, title, notes, projectId, checklist, dueOffsetMinutes }));
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-hairline bg-surface-card p-4 animate-fade">
+      <input autoFocus value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Template name, e.g. Release checklist" className={inputClass} />
+      <input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder="Task title — {{client}} and {{date}} are filled in on use" className={inputClass} />
+      <textarea value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} placeholder="Notes (Markdown)" rows={3} className={inputClass} />
+      <textarea value={checklistText} onChange={(e) => setChecklistText(e.target.value)} placeholder="Checklist, one item per line" rows={4} className={inputClass} />
+      <div className="flex flex-wrap items-center gap-2 text-xs text-ink-muted">
+        <span>Due</span>
+        <input
+          type="number"
+          min={0}
+          value={offset.amount}
+          onChange={(e) => setOffset({ ...offset, amount: e.target.value })}
+          placeholder="–"
+          className={`${inputClass} w-20 py-1 text-xs`}
+        />
+        <select value={offset.unit} onChange={(e) => setOffset({ ...offset, unit: Number(e.target.value) })} className={`${inputClass} py-1 text-xs`}>
+          {OFFSET_UNITS.map((u) => <option key={u.label} value={u.minutes}>{u.label}</option>)}
+        </select>
+        <span>after it&apos;s created</span>
+      </div>
+      <select value={draft.projectId ?? ""} onChange={(e) => setDraft({ ...draft, projectId: e.target.value || null })} className={`${inputClass} text-xs`}>
+        <option value="">No project</option>
+        {projects.map((p) => <option key={p.id} value={p.id}>{p.title}</option>)}
+      </select>
+      {error && <p className="text-xs text-coral">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={save} className="rounded-md bg-coral px-3 py-1.5 text-xs font-medium text-white transition hover:bg-coral-active">Save</button>
+        <button type="button" onClick={onCancel} className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+export default function TemplateLibrary({
+  templates,
+  projects,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: {
+  templates: TaskTemplate[];
+  projects: Project[];
+  onCreate: (data: TemplateFields) => Promise<string | null>;
+  onUpdate: (id: string, data: TemplateFields) => Promise<string | null>;
+  onDelete: (id: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  // A template id, "new", or null when no form is open
+  const [editing, setEditing] = useState<string | null>(null);
+  const projectNames = new Map(projects.map((p) => [p.id, p.title]));
+
+  async function save(data: TemplateFields) {
+    const error = editing === "new" ? await onCreate(data) : await onUpdate(editing!, data);
+    if (!error) setEditing(null);
+    return error;
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="rounded-md border border-hairline px-4 py-2 text-sm font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+      >
+        Templates
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[10vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) { setOpen(false); setEditing(null); } }}
+        >
+          <div className="animate-fade flex max-h-[80vh] w-full max-w-lg flex-col overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center justify-between border-b border-hairline px-6 py-4 shrink-0">
+              <div>
+                <h2 className="font-display text-xl font-normal tracking-[-0.3px] text-ink">Task templates</h2>
+                <p className="text-xs text-ink-soft">Use them from the New task form, or save one from a task&apos;s drawer</p>
+              </div>
+              <button type="button" aria-label="Close" onClick={() => { setOpen(false); setEditing(null); }} className="rounded-md p-1 text-ink-soft transition hover:text-ink">
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-2">
+              {editing === "new" ? (
+                <TemplateForm initial={EMPTY} projects={projects} onSave={save} onCancel={() => setEditing(null)} />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setEditing("new")}
+                  className="rounded-lg border border-dashed border-hairline px-4 py-2.5 text-left text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+                >
+                  + New template
+                </button>
+              )}
+
+              {templates.length === 0 && editing !== "new" && (
+                <p className="py-6 text-center text-sm text-ink-soft">No templates yet.</p>
+              )}
+
+              {templates.map((t) => (editing === t.id ? (
+                <TemplateForm key={t.id} initial={t} projects={projects} onSave={save} onCancel={() => setEditing(null)} />
+              ) : (
+                <div key={t.id} className="group flex items-start gap-3 rounded-lg border border-hairline px-4 py-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-ink">{t.name}</p>
+                    <p className="truncate text-xs text-ink-muted">{t.title}</p>
+                    <p className="mt-1 text-[11px] text-ink-soft">
+                      {describeOffset(t.dueOffsetMinutes)}
+                      {t.checklist.length > 0 && ` · ${t.checklist.length} checklist items`}
+                      {t.projectId && projectNames.has(t.projectId) && ` · ${projectNames.get(t.projectId)}`}
+                    </p>
+                  </div>
+                  <button type="button" onClick={() => setEditing(t.id)} className="hidden text-xs text-ink-soft transition hover:text-coral group-hover:block">Edit</button>
+                  <button type="button" onClick={() => onDelete(t.id)} className="hidden text-xs text-ink-soft transition hover:text-coral group-hover:block">Delete</button>
+                </div>
+              )))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { entryDuration, formatDuration } from "@/lib/timesheet";
+import type { TimeEntry } from "@/lib/types";
+
+// Tracked time for one task: the running total, each entry with inline
+// editing, and a form for time worked away from the timer.
+
+// datetime-local inputs want local wall-clock time without a zone
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function entryLabel(entry: TimeEntry) {
+  const start = new Date(entry.startedAt);
+  const day = start.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+  return `${day} · ${time(start)} – ${entry.endedAt ? time(new Date(entry.endedAt)) : "now"}`;
+}
+
+const inputClass = "rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink outline-none transition focus:border-coral";
+
+export default function TimeEntries({ taskId, refreshKey }: { taskId: string; refreshKey?: unknown }) {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/time-entries?taskId=${taskId}`)
+      .then((r) => r.json())
+      .then((data: { entries?: TimeEntry[] }) => { if (!cancelled) setEntries(data.entries ?? []); });
+    return () => { cancelled = true; };
+  }, [taskId, refreshKey]);
+
+  const running = entries.some((e) => !e.endedAt);
+
+  // Keep the total ticking while a timer runs
+  useEffect(() => {
+    if (!running) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 30000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  function openForm(entry: TimeEntry | null) {
+    setError(null);
+    setEditingId(entry?.id ?? null);
+    setAdding(!entry);
+    setStart(entry ? toLocalInput(entry.startedAt) : "");
+    setEnd(entry?.endedAt ? toLocalInput(entry.endedAt) : "");
+  }
+
+  function closeForm() {
+    setEditingId(null);
+    setAdding(false);
+    setError(null);
+  }
+
+  async function save() {
+    const body = { startedAt: fromLocalInput(start), endedAt: fromLocalInput(end) };
+    const res = editingId
+      ? await fetch(`/api/time-entries/${editingId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          // Leaving the end empty keeps a running entry running
+          body: JSON.stringify(body.endedAt ? body : { startedAt: body.startedAt }),
+        })
+      : await fetch("/api/time-entries", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ taskId, ...body }),
+        });
+    const data = await res.json();
+    if (!res.ok) { setError(data.error ?? "Could not save the entry"); return; }
+    setEntries((prev) => (editingId ? prev.map((e) => (e.id === editingId ? data : e)) : [data, ...prev])
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt)));
+    closeForm();
+  }
+
+  async function remove(id: string) {
+    const res = await fetch(`/api/time-entries/${id}`, { method: "DELETE" });
+    if (res.ok) setEntries((prev) => prev.filter((e) => e.id !== id));
+  }
+
+  const total = entries.reduce((sum, e) => sum + entryDuration(e, now), 0);
+
+  const form = (
+    <div className="flex flex-col gap-2 rounded-lg border border-hairline bg-surface-card p-3 animate-fade">
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+        <span className="text-xs text-ink-soft">to</span>
+        <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClass} />
+      </div>
+      {error && <p className="text-xs text-coral">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={save} className="rounded-md bg-coral px-3 py-1 text-xs font-medium text-white transition hover:bg-coral-active">Save</button>
+        <button type="button" onClick={closeForm} className="rounded-md border border-hairline px-3 py-1 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Cancel</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Time</p>
+        <div className="flex items-center gap-3">
+          <span className={`text-xs ${running ? "text-coral" : "text-ink-soft"}`}>
+            {running && "● "}{formatDuration(total)} tracked
+          </span>
+          {!adding && (
+            <button type="button" onClick={() => openForm(null)} className="text-xs text-ink-soft transition hover:text-coral">
+              Add time
+            </button>
+          )}
+        </div>
+      </div>
+
+      {adding && form}
+
+      {entries.length > 0 && (
+        <div className="flex flex-col gap-1">
+          {entries.map((entry) => (editingId === entry.id ? <div key={entry.id}>{form}</div> : (
+            <div key={entry.id} className="group flex items-center gap-3 rounded-lg px-3 py-1.5 hover:bg-surface-card transition">
+              <span className="flex-1 text-xs text-ink-muted">{entryLabel(entry)}</span>
+              <span className="text-xs font-medium text-ink">{formatDuration(entryDuration(entry, now))}</span>
+              <button type="button" onClick={() => openForm(entry)} className="hidden text-xs text-ink-soft transition hover:text-coral group-hover:block">Edit</button>
+              <button type="button" onClick={() => remove(entry.id)} className="hidden text-xs text-ink-soft transition hover:text-coral group-hover:block">Delete</button>
+            </div>
+          )))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { addDays, buildTimesheet, formatDuration, startOfWeek, timesheetCsv } from "@/lib/timesheet";
+import type { TimesheetRow } from "@/lib/timesheet";
+import type { TimesheetEntry } from "@/lib/types";
+
+// Weekly timesheet opened from the dashboard header: tracked time per task
+// and day for one Monday–Sunday week, exportable as CSV.
+
+function weekLabel(weekStart: Date) {
+  const end = addDays(weekStart, 6);
+  const fmt = (d: Date) => d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return `${fmt(weekStart)} – ${fmt(end)}`;
+}
+
+function downloadCsv(rows: TimesheetRow[], weekStart: Date) {
+  const blob = new Blob([timesheetCsv(rows, weekStart)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `timesheet-${weekStart.toLocaleDateString("en-CA")}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function TimesheetPanel({ unlocked }: { unlocked: boolean }) {
+  const [open, setOpen] = useState(false);
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ from: weekStart.toISOString(), to: addDays(weekStart, 7).toISOString() });
+      if (unlocked) params.set("personal", "1");
+      const res = await fetch(`/api/time-entries?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Could not load the timesheet");
+      setRows(buildTimesheet(data.entries as TimesheetEntry[], weekStart));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the timesheet");
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart, unlocked]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const dayTotals = days.map((_, i) => rows.reduce((sum, r) => sum + r.days[i], 0));
+  const weekTotal = dayTotals.reduce((a, b) => a + b, 0);
+  const isCurrentWeek = weekStart.getTime() === startOfWeek(new Date()).getTime();
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+      >
+        <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+          <circle cx="6" cy="6" r="4.75" stroke="currentColor" strokeWidth="1.2"/>
+          <path d="M6 3.5V6l1.75 1.25" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+        Timesheet
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[12vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) setOpen(false); }}
+        >
+          <div className="animate-fade w-full max-w-4xl overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center justify-between border-b border-hairline px-5 py-4">
+              <div>
+                <h3 className="font-display text-xl font-normal text-ink">Timesheet</h3>
+                <div className="mt-1 flex items-center gap-2 text-xs text-ink-soft">
+                  <button type="button" aria-label="Previous week" onClick={() => setWeekStart((w) => addDays(w, -7))} className="rounded px-1 transition hover:text-coral">‹</button>
+                  <span className="min-w-[8rem] text-center">{weekLabel(weekStart)}</span>
+                  <button type="button" aria-label="Next week" onClick={() => setWeekStart((w) => addDays(w, 7))} className="rounded px-1 transition hover:text-coral">›</button>
+                  {!isCurrentWeek && (
+                    <button type="button" onClick={() => setWeekStart(startOfWeek(new Date()))} className="transition hover:text-coral">This week</button>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  disabled={rows.length === 0}
+                  onClick={() => downloadCsv(rows, weekStart)}
+                  className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral disabled:opacity-40"
+                >
+                  Export CSV
+                </button>
+                <button type="button" aria-label="Close" onClick={() => setOpen(false)} className="rounded-md p-1.5 text-ink-soft transition hover:text-ink">
+                  <svg width="12" height="12" viewBox="0 0 10 10" fill="none">
+                    <path d="M1.5 1.5l7 7M8.5 1.5l-7 7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            <div className="max-h-[60vh] overflow-auto">
+              {error && <p className="px-5 py-3 text-sm text-coral">{error}</p>}
+              {loading && rows.length === 0 && <p className="px-5 py-3 text-sm text-ink-soft">Loading…</p>}
+              {!loading && !error && rows.length === 0 && (
+                <p className="px-5 py-3 text-sm text-ink-soft">No time tracked this week. Start a task to run its timer.</p>
+              )}
+              {rows.length > 0 && (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-hairline text-ink-muted">
+                      <th className="px-5 py-2 text-left font-medium">Task</th>
+                      {days.map((d) => (
+                        <th key={d.getTime()} className="px-2 py-2 text-right font-medium">
+                          {d.toLocaleDateString(undefined, { weekday: "short" })} {d.getDate()}
+                        </th>
+                      ))}
+                      <th className="px-5 py-2 text-right font-medium">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.taskId} className="border-b border-hairline/60">
+                        <td className="max-w-[16rem] px-5 py-2">
+                          <p className="truncate font-medium text-ink">{row.title}</p>
+                          {row.project && <p className="truncate text-ink-soft">{row.project}</p>}
+                        </td>
+                        {row.days.map((ms, i) => (
+                          <td key={i} className={`px-2 py-2 text-right ${ms > 0 ? "text-ink" : "text-ink-soft/50"}`}>{ms > 0 ? formatDuration(ms) : "–"}</td>
+                        ))}
+                        <td className="px-5 py-2 text-right font-medium text-ink">{formatDuration(row.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="text-ink-muted">
+                      <td className="px-5 py-2 font-medium">Total</td>
+                      {dayTotals.map((ms, i) => (
+                        <td key={i} className="px-2 py-2 text-right">{ms > 0 ? formatDuration(ms) : "–"}</td>
+                      ))}
+                      <td className="px-5 py-2 text-right font-semibold text-ink">{formatDuration(weekTotal)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,52 +1,107 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { DragEvent } from "react";
+import { useDailyGoals } from "@/hooks/useDailyGoals";
+import { useDayPlan } from "@/hooks/useDayPlan";
+import { useTags } from "@/hooks/useTags";
+import { useTaskTemplates } from "@/hooks/useTaskTemplates";
 import { useTasksAndProjects } from "@/hooks/useTasksAndProjects";
+import DailyGoals from "@/components/DailyGoals";
+import DayPlanHistory from "@/components/DayPlanHistory";
+import DayReview from "@/components/DayReview";
+import DaySuggestions from "@/components/DaySuggestions";
+import FocusBar, { FocusSetupModal } from "@/components/FocusMode";
 import MarkdownEditor from "@/components/MarkdownEditor";
 import RenderedMarkdown from "@/components/RenderedMarkdown";
 import TaskDrawer, { type DrawerSection } from "@/components/TaskDrawer";
-import { InProgressLabel, ProjectLabel } from "@/components/TaskLabels";
+import { TemplatePicker } from "@/components/TaskTemplates";
+import type { AppliedTemplate } from "@/components/TaskTemplates";
+import { BlockedLabel, InProgressLabel, PriorityLabel, ProjectLabel, SubtaskRollupLabel, TagLabels } from "@/components/TaskLabels";
 import { PhilosophyInfoButton, PhilosophyAbout } from "@/components/ProductivityPhilosophy";
-import type { Project, Task } from "@/lib/types";
+import { useFocus } from "@/context/FocusContext";
+import { emptyPlan, planTaskIds, shiftDayKey } from "@/lib/day-plan";
+import { isBlocked, openBlockers } from "@/lib/dependencies";
+import { subtaskRollup } from "@/lib/subtasks";
+import { templateFromTask } from "@/lib/templates";
+import type { FocusSettings } from "@/lib/focus";
+import type { DayPlan, PlanSection, Project, Task, TaskTemplate } from "@/lib/types";
 
-// ── Types ─────────────────────────────────────────────────────────────────────
+// ── Sections ──────────────────────────────────────────────────────────────────
 
-type Section = "critical" | "important" | "light";
-
-type DayPlan = {
-  date: string; // "YYYY-MM-DD"
-  critical: string[];
-  important: string[];
-  light: string[];
-};
-
-const SECTION_META: Record<Section, { label: string; subtitle: string; color: string }> = {
+const SECTION_META: Record<PlanSection, { label: string; subtitle: string; color: string }> = {
   critical:  { label: "Critical",     subtitle: "The work that moves the day", color: "text-coral"      },
   important: { label: "Important",    subtitle: "Keep the momentum going",      color: "text-coral"      },
   light:     { label: "Light lifts",  subtitle: "Quick wins and follow-ups",    color: "text-ink-muted"  },
 };
 
-// ── localStorage helpers ───────────────────────────────────────────────────────
+// ── Drag and drop between sections ────────────────────────────────────────────
+
+// Moves a planned task onto another card (or to the end of a section when
+// targetId is null). Within a section, dragging down lands below the target.
+function movePlanned(plan: DayPlan, id: string, section: PlanSection, targetId: string | null): DayPlan {
+  const to = targetId ? plan[section].indexOf(targetId) : -1;
+  const next: DayPlan = {
+    ...plan,
+    critical:  plan.critical.filter((x) => x !== id),
+    important: plan.important.filter((x) => x !== id),
+    light:     plan.light.filter((x) => x !== id),
+  };
+  const list = [...next[section]];
+  list.splice(to === -1 ? list.length : to, 0, id);
+  return { ...next, [section]: list };
+}
 
-function todayKey() {
-  return new Date().toISOString().slice(0, 10); // "YYYY-MM-DD"
+type PlanDrag = {
+  draggingId: string | null;
+  overId: string | null;
+  setDraggingId: (id: string | null) => void;
+  setOverId: (id: string | null) => void;
+  drop: (section: PlanSection, targetId: string | null) => void;
+};
+
+function cardDragProps(drag: PlanDrag, section: PlanSection, taskId: string) {
+  return {
+    draggable: true,
+    onDragStart: (e: DragEvent) => {
+      // Firefox only starts a drag that carries data
+      e.dataTransfer.setData("text/plain", taskId);
+      e.dataTransfer.effectAllowed = "move";
+      drag.setDraggingId(taskId);
+    },
+    onDragEnd: () => { drag.setDraggingId(null); drag.setOverId(null); },
+    onDragOver: (e: DragEvent) => {
+      if (!drag.draggingId || drag.draggingId === taskId) return;
+      e.preventDefault();
+      e.stopPropagation();
+      drag.setOverId(taskId);
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      drag.drop(section, taskId);
+    },
+  };
 }
 
-function loadPlan(): DayPlan {
-  try {
-    const raw = localStorage.getItem("suru-today-plan");
-    if (!raw) return { date: todayKey(), critical: [], important: [], light: [] };
-    const parsed = JSON.parse(raw) as DayPlan;
-    // Reset if it's a new day
-    if (parsed.date !== todayKey()) return { date: todayKey(), critical: [], important: [], light: [] };
-    return parsed;
-  } catch {
-    return { date: todayKey(), critical: [], important: [], light: [] };
-  }
+// Dropping anywhere else in a section (its header, gaps, the empty state) appends
+function sectionDropProps(drag: PlanDrag, section: PlanSection) {
+  return {
+    onDragOver: (e: DragEvent) => {
+      if (!drag.draggingId) return;
+      e.preventDefault();
+      drag.setOverId(null);
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      drag.drop(section, null);
+    },
+  };
 }
 
-function savePlan(plan: DayPlan) {
-  localStorage.setItem("suru-today-plan", JSON.stringify(plan));
+function dragClass(drag: PlanDrag, taskId: string) {
+  if (drag.draggingId === taskId) return "opacity-40";
+  return drag.overId === taskId ? "ring-1 ring-coral" : "";
 }
 
 // ── Choice modal — pick existing or create new ────────────────────────────────
@@ -57,7 +112,7 @@ function ChoiceModal({
   onCreateNew,
   onClose,
 }: {
-  section: Section;
+  section: PlanSection;
   onPickExisting: () => void;
   onCreateNew: () => void;
   onClose: () => void;
@@ -122,25 +177,31 @@ function ChoiceModal({
 function PickExistingModal({
   section,
   availableTasks,
+  allTasks,
   onAdd,
   onClose,
 }: {
-  section: Section;
+  section: PlanSection;
   availableTasks: Task[];
+  allTasks: Task[];
   onAdd: (taskIds: string[]) => void;
   onClose: () => void;
 }) {
   const meta = SECTION_META[section];
   const [selected, setSelected] = useState<Set<string>>(new Set());
 
+  // Blocked tasks sink to the bottom — they can't be started today anyway
   const sorted = useMemo(() => [...availableTasks].sort((a, b) => {
+    const aBlocked = isBlocked(a, allTasks);
+    const bBlocked = isBlocked(b, allTasks);
+    if (aBlocked !== bBlocked) return aBlocked ? 1 : -1;
     const todayMs = new Date().setHours(0, 0, 0, 0);
     const tomorrowMs = todayMs + 86400000;
     const aScore = a.dueAt && new Date(a.dueAt).getTime() < tomorrowMs ? 0 : 1;
     const bScore = b.dueAt && new Date(b.dueAt).getTime() < tomorrowMs ? 0 : 1;
     if (aScore !== bScore) return aScore - bScore;
     return b.createdAt - a.createdAt;
-  }), [availableTasks]);
+  }), [availableTasks, allTasks]);
 
   function toggle(id: string) {
     setSelected((prev) => {
@@ -181,6 +242,7 @@ function PickExistingModal({
           ) : (
             sorted.map((t) => {
               const isSelected = selected.has(t.id);
+              const blockers   = openBlockers(t, allTasks);
               return (
                 <button
                   key={t.id}
@@ -203,6 +265,7 @@ function PickExistingModal({
                   <div className="min-w-0 flex-1">
                     <p className="text-sm font-medium text-ink">{t.title}</p>
                     <div className="mt-0.5 flex items-center gap-2">
+                      {blockers.length > 0 && <BlockedLabel blockers={blockers.map((b) => b.title)} />}
                       {t.dueAt && <span className="text-xs text-ink-soft">{new Date(t.dueAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}</span>}
                       {t.notes && <span className="text-xs text-ink-muted line-clamp-1 truncate max-w-[200px]">{t.notes}</span>}
                     </div>
@@ -242,18 +305,29 @@ function PickExistingModal({
 function CreateTaskModal({
   sectionLabel,
   showBucketPicker = false,
+  templates = [],
   onSave,
   onClose,
 }: {
   sectionLabel: string;
   // When true, shows a Critical/Important/Light selector and passes the choice to onSave.
   showBucketPicker?: boolean;
-  onSave: (title: string, notes: string, bucket?: Section) => void;
+  templates?: TaskTemplate[];
+  // template carries the due date, project and checklist of a picked template
+  onSave: (title: string, notes: string, bucket?: PlanSection, template?: AppliedTemplate) => void;
   onClose: () => void;
 }) {
   const [title, setTitle] = useState("");
   const [notes, setNotes] = useState("");
-  const [bucket, setBucket] = useState<Section>("critical");
+  const [bucket, setBucket] = useState<PlanSection>("critical");
+  const [applied, setApplied] = useState<AppliedTemplate | null>(null);
+
+  function applyTemplate(fields: AppliedTemplate) {
+    setTitle(fields.title);
+    setNotes(fields.notes);
+    setApplied(fields);
+  }
+
   return (
     <div
       className="fixed inset-0 z-[9999] flex items-center justify-center p-4"
@@ -272,7 +346,8 @@ function CreateTaskModal({
             <svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 3l10 10M13 3 3 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
           </button>
         </div>
-        <form className="flex flex-col gap-4 px-6 py-5" onSubmit={(e) => { e.preventDefault(); if (title.trim()) { onSave(title.trim(), notes.trim(), showBucketPicker ? bucket : undefined); onClose(); } }}>
+        <form className="flex flex-col gap-4 px-6 py-5" onSubmit={(e) => { e.preventDefault(); if (title.trim()) { onSave(title.trim(), notes.trim(), showBucketPicker ? bucket : undefined, applied ?? undefined); onClose(); } }}>
+          <TemplatePicker templates={templates} onApply={applyTemplate} />
           <input autoFocus value={title} onChange={(e) => setTitle(e.target.value)} placeholder="What needs to be done?" className="rounded-md border border-hairline bg-canvas px-3 py-2.5 text-sm text-ink outline-none focus:border-coral" />
           <MarkdownEditor value={notes} onChange={setNotes} placeholder="Notes (optional) — Markdown supported…" minHeight={90} />
 
@@ -309,12 +384,12 @@ function CreateTaskModal({
   );
 }
 
-// ── Section components ─────────────────────────────────────────────────────────
+// ── PlanSection components ─────────────────────────────────────────────────────────
 
-function CriticalSection({ tasks, projects, onToggle, onAddClick, onTaskClick }: { tasks: Task[]; projects: Project[]; onToggle: (id: string) => void; onAddClick: () => void; onTaskClick: (task: Task) => void }) {
+function CriticalSection({ tasks, allTasks, projects, drag, onToggle, onAddClick, onTaskClick }: { tasks: Task[]; allTasks: Task[]; projects: Project[]; drag: PlanDrag; onToggle: (id: string) => void; onAddClick: () => void; onTaskClick: (task: Task) => void }) {
   const done = tasks.filter((t) => t.completed).length;
   return (
-    <div className="flex flex-col gap-3">
+    <div className="flex flex-col gap-3" {...sectionDropProps(drag, "critical")}>
       <div className="flex items-center gap-2">
         <span className="h-2 w-2 rounded-full bg-coral" />
         <span className="font-display text-lg font-normal text-ink">Critical</span>
@@ -336,7 +411,8 @@ function CriticalSection({ tasks, projects, onToggle, onAddClick, onTaskClick }:
           {tasks.map((task) => (
             <div
               key={task.id}
-              className={`rounded-xl border p-5 transition cursor-pointer ${task.completed ? "border-hairline opacity-50" : "border-[#e8cfc4] bg-[#fdf6f3] hover:border-coral/50"}`}
+              {...cardDragProps(drag, "critical", task.id)}
+              className={`rounded-xl border p-5 transition cursor-pointer ${task.completed ? "border-hairline opacity-50" : "border-[#e8cfc4] bg-[#fdf6f3] hover:border-coral/50"} ${dragClass(drag, task.id)}`}
               onClick={() => onTaskClick(task)}
             >
               <div className="flex items-start gap-3">
@@ -347,7 +423,10 @@ function CriticalSection({ tasks, projects, onToggle, onAddClick, onTaskClick }:
                   {(!task.completed) && (
                     <div className="mt-2 flex flex-wrap gap-1.5">
                       {task.inProgress && <InProgressLabel />}
+                      {task.priority && !task.completed && <PriorityLabel priority={task.priority} />}
                       {task.projectId && (() => { const p = projects.find((x) => x.id === task.projectId); return p ? <ProjectLabel title={p.title} /> : null; })()}
+                      {(() => { const r = subtaskRollup(allTasks, task.id); return r.total > 0 ? <SubtaskRollupLabel done={r.done} total={r.total} /> : null; })()}
+                      <TagLabels tags={task.tags} />
                     </div>
                   )}
                 </div>
@@ -360,10 +439,10 @@ function CriticalSection({ tasks, projects, onToggle, onAddClick, onTaskClick }:
   );
 }
 
-function ImportantSection({ tasks, projects, onToggle, onAddClick, onTaskClick }: { tasks: Task[]; projects: Project[]; onToggle: (id: string) => void; onAddClick: () => void; onTaskClick: (task: Task) => void }) {
+function ImportantSection({ tasks, allTasks, projects, drag, onToggle, onAddClick, onTaskClick }: { tasks: Task[]; allTasks: Task[]; projects: Project[]; drag: PlanDrag; onToggle: (id: string) => void; onAddClick: () => void; onTaskClick: (task: Task) => void }) {
   const done = tasks.filter((t) => t.completed).length;
   return (
-    <div className="flex flex-col gap-3">
+    <div className="flex flex-col gap-3" {...sectionDropProps(drag, "important")}>
       <div className="flex items-center gap-2">
         <span className="h-2 w-2 rounded-full bg-coral" />
         <span className="text-xs font-semibold uppercase tracking-[1.5px] text-ink">Important</span>
@@ -383,7 +462,8 @@ function ImportantSection({ tasks, projects, onToggle, onAddClick, onTaskClick }
           {tasks.map((task) => (
             <div
               key={task.id}
-              className={`rounded-xl border bg-canvas p-4 transition cursor-pointer ${task.completed ? "opacity-50 border-hairline" : "border-hairline hover:border-coral/40"}`}
+              {...cardDragProps(drag, "important", task.id)}
+              className={`rounded-xl border bg-canvas p-4 transition cursor-pointer ${task.completed ? "opacity-50 border-hairline" : "border-hairline hover:border-coral/40"} ${dragClass(drag, task.id)}`}
               onClick={() => onTaskClick(task)}
             >
               <div className="flex items-start gap-2">
@@ -391,10 +471,13 @@ function ImportantSection({ tasks, projects, onToggle, onAddClick, onTaskClick }
                 <div>
                   <p className={`text-sm font-medium text-ink leading-snug ${task.completed ? "line-through text-ink-soft" : ""}`}>{task.title}</p>
                   {task.notes && <RenderedMarkdown source={task.notes} className="markdown-rendered mt-0.5 text-xs text-ink-soft line-clamp-1" />}
-                  {!task.completed && (task.inProgress || task.projectId) && (
+                  {!task.completed && (task.inProgress || task.projectId || task.tags?.length || allTasks.some((t) => t.parentId === task.id)) && (
                     <div className="mt-1.5 flex flex-wrap gap-1">
                       {task.inProgress && <InProgressLabel />}
+                      {task.priority && !task.completed && <PriorityLabel priority={task.priority} />}
                       {task.projectId && (() => { const p = projects.find((x) => x.id === task.projectId); return p ? <ProjectLabel title={p.title} /> : null; })()}
+                      {(() => { const r = subtaskRollup(allTasks, task.id); return r.total > 0 ? <SubtaskRollupLabel done={r.done} total={r.total} /> : null; })()}
+                      <TagLabels tags={task.tags} />
                     </div>
                   )}
                 </div>
@@ -407,10 +490,10 @@ function ImportantSection({ tasks, projects, onToggle, onAddClick, onTaskClick }
   );
 }
 
-function LightSection({ tasks, projects, onToggle, onAddClick, onTaskClick }: { tasks: Task[]; projects: Project[]; onToggle: (id: string) => void; onAddClick: () => void; onTaskClick: (task: Task) => void }) {
+function LightSection({ tasks, allTasks, projects, drag, onToggle, onAddClick, onTaskClick }: { tasks: Task[]; allTasks: Task[]; projects: Project[]; drag: PlanDrag; onToggle: (id: string) => void; onAddClick: () => void; onTaskClick: (task: Task) => void }) {
   const done = tasks.filter((t) => t.completed).length;
   return (
-    <div className="flex flex-col gap-3">
+    <div className="flex flex-col gap-3" {...sectionDropProps(drag, "light")}>
       <div className="flex items-center gap-2">
         <span className="h-2 w-2 rounded-full bg-ink-soft" />
         <span className="text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Light lifts</span>
@@ -430,17 +513,21 @@ function LightSection({ tasks, projects, onToggle, onAddClick, onTaskClick }: {
           {tasks.map((task) => (
             <div
               key={task.id}
-              className={`rounded-xl border bg-surface-card p-3 transition cursor-pointer ${task.completed ? "opacity-40 border-hairline" : "border-hairline hover:border-coral/40"}`}
+              {...cardDragProps(drag, "light", task.id)}
+              className={`rounded-xl border bg-surface-card p-3 transition cursor-pointer ${task.completed ? "opacity-40 border-hairline" : "border-hairline hover:border-coral/40"} ${dragClass(drag, task.id)}`}
               onClick={() => onTaskClick(task)}
             >
               <div className="flex items-start gap-2">
                 <button type="button" onClick={(e) => { e.stopPropagation(); onToggle(task.id); }} className={`mt-0.5 h-3.5 w-3.5 shrink-0 rounded-full border transition ${task.completed ? "border-coral bg-coral" : "border-hairline hover:border-coral"}`} />
                 <div>
                   <p className={`text-xs font-medium text-ink leading-snug ${task.completed ? "line-through text-ink-soft" : ""}`}>{task.title}</p>
-                  {!task.completed && (task.inProgress || task.projectId) && (
+                  {!task.completed && (task.inProgress || task.projectId || task.tags?.length || allTasks.some((t) => t.parentId === task.id)) && (
                     <div className="mt-1 flex flex-wrap gap-1">
                       {task.inProgress && <InProgressLabel />}
+                      {task.priority && !task.completed && <PriorityLabel priority={task.priority} />}
                       {task.projectId && (() => { const p = projects.find((x) => x.id === task.projectId); return p ? <ProjectLabel title={p.title} /> : null; })()}
+                      {(() => { const r = subtaskRollup(allTasks, task.id); return r.total > 0 ? <SubtaskRollupLabel done={r.done} total={r.total} /> : null; })()}
+                      <TagLabels tags={task.tags} />
                     </div>
                   )}
                 </div>
@@ -457,19 +544,32 @@ function LightSection({ tasks, projects, onToggle, onAddClick, onTaskClick }: {
 
 // Mode for the section "+" button flow
 type AddMode =
-  | { step: "choice";   section: Section }
-  | { step: "existing"; section: Section }
-  | { step: "create";   section: Section };
+  | { step: "choice";   section: PlanSection }
+  | { step: "existing"; section: PlanSection }
+  | { step: "create";   section: PlanSection };
+
+type TodayAppProps = {
+  // Plan date whose review was asked for from outside (the evening push)
+  reviewRequest?: string | null;
+  onReviewRequestHandled?: () => void;
+};
 
-export default function TodayApp() {
-  const { tasks, projects, loading, updateTask, deleteTask, createTask } = useTasksAndProjects();
-  const [plan, setPlan] = useState<DayPlan>(() => loadPlan());
+export default function TodayApp({ reviewRequest = null, onReviewRequestHandled }: TodayAppProps) {
+  const { tasks, projects, loading, loadError, updateTask, deleteTask, createTask, setBlockedBy, convertChecklist } = useTasksAndProjects();
+  const { tags: allTags, createTag } = useTags();
+  const { templates, createTemplate } = useTaskTemplates();
+  const { plan, setPlan, receivePlan, loading: planLoading, error: planError } = useDayPlan();
+  const { status: goals, saveGoals } = useDailyGoals(
+    `${tasks.filter((t) => t.completed).map((t) => t.id).join()}|${planTaskIds(plan).join()}`
+  );
+  const [review, setReview] = useState<DayPlan | null>(null);
+  const [yesterday, setYesterday] = useState<DayPlan | null>(null);
   const [addMode, setAddMode] = useState<AddMode | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false); // header "New task" button
   const [drawerTask, setDrawerTask] = useState<{ task: Task; section: DrawerSection } | null>(null);
-
-  // Persist plan whenever it changes
-  useEffect(() => { savePlan(plan); }, [plan]);
+  const [showFocusSetup, setShowFocusSetup] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
 
   const today = useMemo(() => new Date().toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" }), []);
 
@@ -484,35 +584,119 @@ export default function TodayApp() {
   const allDone    = [...criticalTasks, ...importantTasks, ...lightTasks].filter((t) => t.completed).length;
   const pct        = allPlanned > 0 ? Math.round((allDone / allPlanned) * 100) : 0;
 
+  const focus = useFocus();
+  const focusable = [...criticalTasks, ...importantTasks, ...lightTasks].filter((t) => !t.completed);
+
+  // Focusing on a task means working on it, so its time-tracking timer starts too
+  function startFocus(taskId: string, settings: FocusSettings) {
+    focus.setSettings(settings);
+    const task = taskMap[taskId];
+    focus.start(taskId, task?.title ?? "your task", settings);
+    if (task && !task.inProgress) updateTask(taskId, { inProgress: true });
+  }
+
   // Tasks available to add (not yet in any section)
   // All tasks not already in today's plan — no due-date filter
   const availableForSection = tasks.filter((t) => !plannedIds.has(t.id) && !t.completed);
 
-  function addToSection(section: Section, taskIds: string[]) {
+  function addToSection(section: PlanSection, taskIds: string[]) {
     setPlan((prev) => ({ ...prev, [section]: [...prev[section], ...taskIds] }));
   }
 
+  function acceptSuggestions(items: Array<{ taskId: string; section: PlanSection }>) {
+    setPlan((prev) => {
+      const planned = new Set(planTaskIds(prev));
+      const next = { ...prev };
+      for (const { taskId, section } of items) {
+        if (!planned.has(taskId)) next[section] = [...next[section], taskId];
+      }
+      return next;
+    });
+  }
+
+  // ── Day review ──────────────────────────────────────────────────────────────
+
+  const openReview = useCallback((date: string) => {
+    if (date === plan.date && !planLoading) {
+      setReview(plan);
+      return;
+    }
+    fetch(`/api/day-plans/${date}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((stored: DayPlan | null) => { if (stored) setReview(stored); });
+  }, [plan, planLoading]);
+
+  // Yesterday's plan, to offer its review if that was skipped
+  useEffect(() => {
+    if (planLoading) return;
+    fetch(`/api/day-plans/${shiftDayKey(plan.date, -1)}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((stored: DayPlan | null) => setYesterday(stored));
+  }, [plan.date, planLoading]);
+
+  useEffect(() => {
+    if (!reviewRequest) return;
+    openReview(reviewRequest);
+    onReviewRequestHandled?.();
+  }, [reviewRequest, openReview, onReviewRequestHandled]);
+
+  const yesterdayLeftovers = yesterday && !yesterday.reviewedAt
+    ? planTaskIds(yesterday).filter((id) => taskMap[id] && !taskMap[id].completed).length
+    : 0;
+
+  function reviewSaved(plans: DayPlan[]) {
+    for (const stored of plans) {
+      receivePlan(stored);
+      if (stored.date === yesterday?.date) setYesterday(stored);
+    }
+  }
+
+  // Subtasks opened from the drawer keep their Today bucket if they're planned
+  function sectionOf(id: string): DrawerSection {
+    if (plan.critical.includes(id)) return "critical";
+    if (plan.important.includes(id)) return "important";
+    if (plan.light.includes(id)) return "light";
+    return "task";
+  }
+
   function toggleTask(id: string) {
     const task = taskMap[id];
     if (!task) return;
     updateTask(id, { completed: !task.completed });
   }
 
-  async function handleCreateTask(title: string, notes: string, targetSection?: Section) {
+  async function handleCreateTask(title: string, notes: string, targetSection?: PlanSection, template?: AppliedTemplate) {
     const eod = new Date();
     eod.setHours(23, 59, 0, 0);
-    const task = await createTask({ title, notes, dueAt: eod.toISOString() });
+    const task = await createTask({
+      title,
+      notes,
+      // A template's own due offset wins over the end-of-day default
+      dueAt: template?.dueAt ?? eod.toISOString(),
+      ...(template?.projectId && { projectId: template.projectId }),
+      ...(template && template.checklist.length > 0 && { checklist: template.checklist }),
+    });
     const section = targetSection ?? (plan.critical.length === 0 ? "critical" : plan.important.length === 0 ? "important" : "light");
     setPlan((prev) => ({ ...prev, [section]: [...prev[section], task.id] }));
   }
 
+  const drag: PlanDrag = {
+    draggingId,
+    overId,
+    setDraggingId,
+    setOverId,
+    drop: (section, targetId) => {
+      if (draggingId && draggingId !== targetId) setPlan((prev) => movePlanned(prev, draggingId, section, targetId));
+      setDraggingId(null);
+      setOverId(null);
+    },
+  };
+
   function reset() {
-    const empty = { date: todayKey(), critical: [], important: [], light: [] };
-    setPlan(empty);
-    savePlan(empty);
+    setPlan((prev) => emptyPlan(prev.date));
   }
 
-  if (loading) {
+  if (loading || planLoading) {
     return (
       <section className="flex w-full flex-col px-8 py-10 lg:px-10">
         <div className="flex items-center justify-center py-20 text-sm text-ink-soft">Loading…</div>
@@ -520,6 +704,14 @@ export default function TodayApp() {
     );
   }
 
+  if (loadError || planError) {
+    return (
+      <section className="flex w-full flex-col px-8 py-10 lg:px-10">
+        <div className="flex items-center justify-center py-20 text-sm text-coral">{loadError ?? planError}</div>
+      </section>
+    );
+  }
+
   const isEmpty = allPlanned === 0;
 
   return (
@@ -527,13 +719,12 @@ export default function TodayApp() {
       {/* Task drawer */}
       {drawerTask && (
         <TaskDrawer
+          key={drawerTask.task.id}
           task={drawerTask.task}
           section={drawerTask.section}
           projectName={drawerTask.task.projectId ? projects.find((p) => p.id === drawerTask.task.projectId)?.title : undefined}
           onClose={() => setDrawerTask(null)}
-          onUpdate={(patch) => {
-            updateTask(drawerTask.task.id, patch);
-          }}
+          onUpdate={(patch) => updateTask(drawerTask.task.id, patch)}
           onDelete={() => {
             deleteTask(drawerTask.task.id);
             setPlan((prev) => ({
@@ -553,10 +744,19 @@ export default function TodayApp() {
             }));
             setDrawerTask(null);
           }}
+          allTasks={tasks}
+          onOpenTask={(id) => { if (taskMap[id]) setDrawerTask({ task: taskMap[id], section: sectionOf(id) }); }}
+          onAddSubtask={(title) => createTask({ title, notes: "", dueAt: null, parentId: drawerTask.task.id })}
+          onToggleSubtask={toggleTask}
+          onConvertChecklist={() => convertChecklist(drawerTask.task.id)}
+          onSetBlockedBy={(ids) => setBlockedBy(drawerTask.task.id, ids)}
+          allTags={allTags}
+          onCreateTag={createTag}
+          onSaveAsTemplate={(name) => createTemplate(templateFromTask(taskMap[drawerTask.task.id] ?? drawerTask.task, name))}
         />
       )}
 
-      {/* Section add flow */}
+      {/* PlanSection add flow */}
       {addMode?.step === "choice" && (
         <ChoiceModal
           section={addMode.section}
@@ -569,6 +769,7 @@ export default function TodayApp() {
         <PickExistingModal
           section={addMode.section}
           availableTasks={availableForSection}
+          allTasks={tasks}
           onAdd={(ids) => addToSection(addMode.section, ids)}
           onClose={() => setAddMode(null)}
         />
@@ -576,17 +777,38 @@ export default function TodayApp() {
       {addMode?.step === "create" && (
         <CreateTaskModal
           sectionLabel={SECTION_META[addMode.section].label}
-          onSave={(title, notes) => handleCreateTask(title, notes, addMode.section)}
+          templates={templates}
+          onSave={(title, notes, _bucket, template) => handleCreateTask(title, notes, addMode.section, template)}
           onClose={() => setAddMode(null)}
         />
       )}
 
+      {showFocusSetup && (
+        <FocusSetupModal
+          tasks={focusable}
+          settings={focus.settings}
+          onStart={startFocus}
+          onClose={() => setShowFocusSetup(false)}
+        />
+      )}
+
       {/* Header "New task" button — lets the user pick the bucket */}
+      {review && (
+        <DayReview
+          plan={review}
+          tasks={tasks}
+          onReschedule={(id, dueAt) => updateTask(id, { dueAt })}
+          onSaved={reviewSaved}
+          onClose={() => setReview(null)}
+        />
+      )}
+
       {showCreateModal && (
         <CreateTaskModal
           sectionLabel="today"
           showBucketPicker
-          onSave={(title, notes, bucket) => handleCreateTask(title, notes, bucket)}
+          templates={templates}
+          onSave={handleCreateTask}
           onClose={() => setShowCreateModal(false)}
         />
       )}
@@ -610,17 +832,74 @@ export default function TodayApp() {
                 </div>
               </>
             )}
+            {focus.todayMinutes > 0 && (
+              <span className="text-sm text-ink-soft">· {focus.todayMinutes} min focused</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <DaySuggestions date={plan.date} tasks={tasks} onAccept={acceptSuggestions} />
+            <DayPlanHistory today={plan.date} />
+            <DailyGoals status={goals} onSave={saveGoals} />
+            {allPlanned > 0 && (
+              <button
+                type="button"
+                onClick={() => openReview(plan.date)}
+                className="rounded-full border border-hairline px-4 py-2 text-sm font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+              >
+                Wrap up
+              </button>
+            )}
+            {!focus.state && (
+              <button
+                type="button"
+                onClick={() => setShowFocusSetup(true)}
+                className="flex items-center gap-1.5 rounded-full border border-hairline px-4 py-2 text-sm font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+              >
+                <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><circle cx="6" cy="6" r="4.75" stroke="currentColor" strokeWidth="1.3"/><circle cx="6" cy="6" r="1.5" fill="currentColor"/></svg>
+                Focus
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center gap-1.5 rounded-full bg-coral px-5 py-2 text-sm font-medium text-white transition hover:bg-coral-active"
+            >
+              <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M6 1v10M1 6h10" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+              New task
+            </button>
           </div>
-          <button
-            type="button"
-            onClick={() => setShowCreateModal(true)}
-            className="flex items-center gap-1.5 rounded-full bg-coral px-5 py-2 text-sm font-medium text-white transition hover:bg-coral-active"
-          >
-            <svg width="12" height="12" viewBox="0 0 12 12" fill="none"><path d="M6 1v10M1 6h10" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
-            New task
-          </button>
         </header>
 
+        {focus.state && (
+          <FocusBar
+            state={focus.state}
+            taskTitle={taskMap[focus.state.taskId]?.title ?? focus.state.taskTitle}
+            remainingMs={focus.remainingMs}
+            onPause={focus.pause}
+            onResume={focus.resume}
+            onSkip={focus.skip}
+            onStop={focus.stop}
+          />
+        )}
+
+        {yesterdayLeftovers > 0 && yesterday && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-hairline bg-surface-card px-5 py-3">
+            <p className="text-sm text-ink-muted">
+              {yesterdayLeftovers} {yesterdayLeftovers === 1 ? "item" : "items"} from yesterday&apos;s plan didn&apos;t get done.
+            </p>
+            <div className="flex items-center gap-3">
+              <button type="button" onClick={() => setYesterday(null)} className="text-xs text-ink-soft transition hover:text-ink">Dismiss</button>
+              <button
+                type="button"
+                onClick={() => setReview(yesterday)}
+                className="rounded-md border border-coral px-3 py-1 text-xs font-medium text-coral transition hover:bg-coral/5"
+              >
+                Review
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Empty state */}
         {isEmpty ? (
           <div className="flex flex-col items-center justify-center gap-6 py-24 text-center">
@@ -658,9 +937,9 @@ export default function TodayApp() {
           </div>
         ) : (
           <div className="flex flex-col gap-10">
-            <CriticalSection  tasks={criticalTasks}  projects={projects} onToggle={toggleTask} onAddClick={() => setAddMode({ step: "choice", section: "critical" })}  onTaskClick={(t) => setDrawerTask({ task: t, section: "critical" })}  />
-            <ImportantSection tasks={importantTasks} projects={projects} onToggle={toggleTask} onAddClick={() => setAddMode({ step: "choice", section: "important" })} onTaskClick={(t) => setDrawerTask({ task: t, section: "important" })} />
-            <LightSection     tasks={lightTasks}     projects={projects} onToggle={toggleTask} onAddClick={() => setAddMode({ step: "choice", section: "light" })}     onTaskClick={(t) => setDrawerTask({ task: t, section: "light" })}     />
+            <CriticalSection  tasks={criticalTasks}  allTasks={tasks} projects={projects} drag={drag} onToggle={toggleTask} onAddClick={() => setAddMode({ step: "choice", section: "critical" })}  onTaskClick={(t) => setDrawerTask({ task: t, section: "critical" })}  />
+            <ImportantSection tasks={importantTasks} allTasks={tasks} projects={projects} drag={drag} onToggle={toggleTask} onAddClick={() => setAddMode({ step: "choice", section: "important" })} onTaskClick={(t) => setDrawerTask({ task: t, section: "important" })} />
+            <LightSection     tasks={lightTasks}     allTasks={tasks} projects={projects} drag={drag} onToggle={toggleTask} onAddClick={() => setAddMode({ step: "choice", section: "light" })}     onTaskClick={(t) => setDrawerTask({ task: t, section: "light" })}     />
 
             <div className="border-t border-hairline pt-4">
               <button type="button" onClick={reset} className="rounded-full border border-hairline px-4 py-1.5 text-xs text-ink-soft transition hover:border-coral hover:text-coral">
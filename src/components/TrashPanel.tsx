@@ -0,0 +1,169 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { TRASH_RETENTION_DAYS } from "@/lib/types";
+import type { TrashItem, TrashRef, TrashType } from "@/lib/types";
+import { restoreFromTrash } from "@/lib/undo";
+
+// Trash view opened from the dashboard header. Lists everything deleted in the
+// last TRASH_RETENTION_DAYS days with restore and permanent purge; the cron
+// purges older items on its own.
+
+const TYPE_LABELS: Record<TrashType, string> = {
+  task: "Task",
+  project: "Project",
+  idea: "Idea",
+  article: "Article",
+  learningPlan: "Learning plan",
+  feedback: "Feedback",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function deletedLabel(deletedAt: string) {
+  const age = Date.now() - new Date(deletedAt).getTime();
+  const days = Math.floor(age / DAY_MS);
+  const left = Math.max(TRASH_RETENTION_DAYS - days, 0);
+  const when = days === 0 ? "today" : days === 1 ? "yesterday" : `${days} days ago`;
+  return `Deleted ${when} · gone in ${left} day${left === 1 ? "" : "s"}`;
+}
+
+export default function TrashPanel({ unlocked, onRestored }: { unlocked: boolean; onRestored: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/trash${unlocked ? "?personal=1" : ""}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Could not load the trash");
+      setItems(data.items ?? []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the trash");
+    } finally {
+      setLoading(false);
+    }
+  }, [unlocked]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  async function restore(item: TrashItem) {
+    setBusyId(item.id);
+    const restored = await restoreFromTrash([{ type: item.type, id: item.id }]);
+    setBusyId(null);
+    if (!restored) { setError("Could not restore that item"); return; }
+    setItems((prev) => prev.filter((x) => x.id !== item.id));
+    onRestored();
+  }
+
+  async function purge(refs: TrashRef[] | null) {
+    const count = refs ? refs.length : items.length;
+    if (!window.confirm(refs ? "Delete this item forever? This can't be undone." : `Permanently delete all ${count} items in the trash?`)) return;
+    setBusyId(refs ? refs[0].id : "all");
+    const res = await fetch("/api/trash/purge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(refs ? { items: refs } : {}),
+    });
+    setBusyId(null);
+    if (!res.ok) { setError("Could not delete permanently"); return; }
+    const purged = new Set(refs?.map((r) => r.id));
+    setItems((prev) => (refs ? prev.filter((x) => !purged.has(x.id)) : []));
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+      >
+        <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+          <path d="M1.5 3h9M4.5 3V1.75h3V3M2.75 3l.5 7.25h5.5l.5-7.25" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+        Trash
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[12vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) setOpen(false); }}
+        >
+          <div className="animate-fade w-full max-w-xl overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center justify-between border-b border-hairline px-5 py-4">
+              <div>
+                <h3 className="font-display text-xl font-normal text-ink">Trash</h3>
+                <p className="mt-0.5 text-xs text-ink-soft">Items are deleted for good after {TRASH_RETENTION_DAYS} days.</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {items.length > 0 && (
+                  <button
+                    type="button"
+                    disabled={busyId !== null}
+                    onClick={() => purge(null)}
+                    className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-coral transition hover:border-coral disabled:opacity-40"
+                  >
+                    Empty trash
+                  </button>
+                )}
+                <button type="button" aria-label="Close" onClick={() => setOpen(false)} className="rounded-md p-1.5 text-ink-soft transition hover:text-ink">
+                  <svg width="12" height="12" viewBox="0 0 10 10" fill="none">
+                    <path d="M1.5 1.5l7 7M8.5 1.5l-7 7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            <div className="max-h-[60vh] overflow-y-auto py-2">
+              {error && <p className="px-5 py-3 text-sm text-coral">{error}</p>}
+              {loading && items.length === 0 && <p className="px-5 py-3 text-sm text-ink-soft">Loading…</p>}
+              {!loading && !error && items.length === 0 && (
+                <p className="px-5 py-3 text-sm text-ink-soft">The trash is empty.</p>
+              )}
+              {items.map((item) => (
+                <div key={`${item.type}-${item.id}`} className="flex items-center gap-3 px-5 py-2.5">
+                  <div className="min-w-0 flex-1">
+                    <p className="flex items-center gap-2 text-sm font-medium text-ink">
+                      <span className="truncate">{item.title || "Untitled"}</span>
+                      {item.space === "personal" && (
+                        <span className="rounded-pill bg-surface-cream px-1.5 py-0.5 text-[9px] font-medium uppercase tracking-[1px] text-ink-muted">Personal</span>
+                      )}
+                    </p>
+                    <p className="mt-0.5 text-xs text-ink-soft">
+                      {TYPE_LABELS[item.type]} · {deletedLabel(item.deletedAt)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    disabled={busyId !== null}
+                    onClick={() => restore(item)}
+                    className="rounded-md border border-hairline px-2.5 py-1 text-xs font-medium text-ink transition hover:border-coral hover:text-coral disabled:opacity-40"
+                  >
+                    {busyId === item.id ? "…" : "Restore"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busyId !== null}
+                    onClick={() => purge([{ type: item.type, id: item.id }])}
+                    className="rounded-md px-2 py-1 text-xs text-ink-soft transition hover:text-coral disabled:opacity-40"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
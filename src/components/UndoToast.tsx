@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { UNDO_TOAST_EVENT } from "@/lib/undo";
+import type { UndoToastDetail } from "@/lib/undo";
+
+// Bottom-corner toast offering to undo the last move to the trash. Mounted
+// once in DashboardShell; see lib/undo for how modules trigger it.
+
+const TOAST_MS = 8000;
+
+export default function UndoToast() {
+  const [toast, setToast] = useState<UndoToastDetail | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const timerRef = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    function onToast(e: Event) {
+      const detail = (e as CustomEvent<UndoToastDetail>).detail;
+      window.clearTimeout(timerRef.current);
+      setToast(detail);
+      setBusy(false);
+      setFailed(false);
+      timerRef.current = window.setTimeout(() => setToast(null), TOAST_MS);
+    }
+    window.addEventListener(UNDO_TOAST_EVENT, onToast);
+    return () => {
+      window.removeEventListener(UNDO_TOAST_EVENT, onToast);
+      window.clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  async function undo() {
+    if (!toast) return;
+    window.clearTimeout(timerRef.current);
+    setBusy(true);
+    const ok = await toast.onUndo();
+    setBusy(false);
+    if (ok) {
+      setToast(null);
+    } else {
+      setFailed(true);
+      timerRef.current = window.setTimeout(() => setToast(null), TOAST_MS);
+    }
+  }
+
+  if (!toast) return null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[9998] pl-6">
+      <div className="animate-rise flex items-center gap-4 rounded-xl bg-surface-dark px-4 py-3 text-sm text-on-dark shadow-lg">
+        <span className="max-w-xs truncate">
+          {failed ? "Couldn't restore — find it in the trash" : toast.message}
+        </span>
+        {!failed && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={undo}
+            className="text-xs font-semibold uppercase tracking-[1px] text-coral transition hover:text-on-dark disabled:opacity-50"
+          >
+            {busy ? "Restoring…" : "Undo"}
+          </button>
+        )}
+        <button type="button" aria-label="Dismiss" onClick={() => setToast(null)} className="text-on-dark-soft transition hover:text-on-dark">
+          <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+            <path d="M1.5 1.5l7 7M8.5 1.5l-7 7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
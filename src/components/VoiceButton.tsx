@@ -2,6 +2,8 @@
 
 import { useCallback, useRef, useState } from "react";
 
+import { getReminderWindows } from "@/lib/notifications";
+
 type State = "idle" | "listening" | "processing" | "done" | "error";
 
 type Result = {
@@ -27,7 +29,7 @@ export default function VoiceButton({ onCreated }: { onCreated?: (result: Result
       const res = await fetch("/api/voice", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text }),
+        body: JSON.stringify({ text, tzOffset: new Date().getTimezoneOffset(), reminderWindows: getReminderWindows() }),
       });
       // eslint-disable-next-line
       let data: Result & { ok: boolean; error?: string };
@@ -0,0 +1,410 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+
+import MarkdownEditor from "@/components/MarkdownEditor";
+import RenderedMarkdown from "@/components/RenderedMarkdown";
+import { FEEDBACK_TRIAGE, WEEKLY_REVIEW_STEP_META, agendaStats, summarizeReview } from "@/lib/weekly-review";
+import type { WeeklyReviewAgenda } from "@/lib/weekly-review";
+import { WEEKLY_REVIEW_STEPS } from "@/lib/types";
+import type { WeeklyReview, WeeklyReviewStats } from "@/lib/types";
+
+// Weekly review wizard opened from the dashboard header. Each step lists what
+// needs a decision; actions go straight to the usual endpoints, and the counts
+// are saved with the review at the end. "Past reviews" shows earlier ones.
+
+type StatKey = keyof WeeklyReviewStats;
+
+async function send(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    ...(body !== undefined && { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? "Something went wrong");
+  return data;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+function tomorrowMorning() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return date.toISOString();
+}
+
+function ReviewRow({ title, detail, children }: { title: ReactNode; detail?: ReactNode; children?: ReactNode }) {
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-hairline px-4 py-3">
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-ink">{title}</p>
+        {detail && <p className="mt-0.5 line-clamp-2 text-[11px] text-ink-soft">{detail}</p>}
+      </div>
+      {children && <div className="flex shrink-0 flex-wrap justify-end gap-1.5">{children}</div>}
+    </div>
+  );
+}
+
+function ActionButton({ label, primary, disabled, onClick }: { label: string; primary?: boolean; disabled?: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      onClick={onClick}
+      className={`rounded-md border px-2.5 py-1 text-[11px] font-medium transition disabled:opacity-40 ${
+        primary ? "border-coral text-coral hover:bg-coral/5" : "border-hairline text-ink-muted hover:border-coral hover:text-coral"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function EmptyStep({ children }: { children: ReactNode }) {
+  return <p className="rounded-lg border border-dashed border-hairline p-4 text-center text-sm text-ink-soft">{children}</p>;
+}
+
+export default function WeeklyReviewPanel({ unlocked }: { unlocked: boolean }) {
+  const [open, setOpen] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [agenda, setAgenda] = useState<WeeklyReviewAgenda | null>(null);
+  const [history, setHistory] = useState<WeeklyReview[] | null>(null);
+  const [step, setStep] = useState(0);
+  const [stats, setStats] = useState<WeeklyReviewStats | null>(null);
+  // Item ids ("<step>:<id>") already dealt with in this review
+  const [handled, setHandled] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [added, setAdded] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setAgenda(null);
+    setStep(0);
+    setHandled(new Set());
+    setDrafts({});
+    setAdded({});
+    setNotes("");
+    setSaved(false);
+    setError(null);
+    send(`/api/weekly-reviews/agenda${unlocked ? "?personal=1" : ""}`, "GET")
+      .then((data: WeeklyReviewAgenda) => {
+        setAgenda(data);
+        setStats(agendaStats(data));
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [open, unlocked]);
+
+  useEffect(() => {
+    if (!open || !showHistory) return;
+    send("/api/weekly-reviews", "GET").then((data) => setHistory(data.reviews));
+  }, [open, showHistory]);
+
+  async function act(key: string, work: () => Promise<unknown>, counts: StatKey[] = []) {
+    setBusy(key);
+    setError(null);
+    try {
+      await work();
+      setHandled((prev) => new Set(prev).add(key));
+      setStats((prev) => prev && counts.reduce((next, stat) => ({ ...next, [stat]: next[stat] + 1 }), prev));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function keep(key: string) {
+    setHandled((prev) => new Set(prev).add(key));
+  }
+
+  async function finish() {
+    setSaving(true);
+    setError(null);
+    try {
+      await send("/api/weekly-reviews", "POST", { stats, notes });
+      setSaved(true);
+      setHistory(null);
+      setShowHistory(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the review");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const current = WEEKLY_REVIEW_STEPS[step];
+  const onSummary = step === WEEKLY_REVIEW_STEPS.length;
+  const pending = <T extends { id: string }>(items: T[]) => items.filter((item) => !handled.has(`${current}:${item.id}`));
+
+  function renderStep(agenda: WeeklyReviewAgenda) {
+    switch (current) {
+      case "ideas": {
+        const ideas = pending(agenda.ideas);
+        if (ideas.length === 0) return <EmptyStep>Inbox zero — no new ideas to process.</EmptyStep>;
+        return ideas.map((idea) => {
+          const key = `ideas:${idea.id}`;
+          return (
+            <ReviewRow key={idea.id} title={idea.title} detail={idea.notes || `Captured ${formatDate(idea.createdAt)}`}>
+              <ActionButton primary label="Make task" disabled={busy === key} onClick={() => act(key, async () => {
+                await send("/api/tasks", "POST", { title: idea.title, notes: idea.notes, dueAt: null, space: idea.space });
+                await send(`/api/ideas/${idea.id}`, "DELETE");
+              }, ["ideasToTasks"])} />
+              <ActionButton label="Keep" onClick={() => keep(key)} />
+              <ActionButton label="Delete" disabled={busy === key} onClick={() => act(key, () => send(`/api/ideas/${idea.id}`, "DELETE"), ["ideasDeleted"])} />
+            </ReviewRow>
+          );
+        });
+      }
+
+      case "feedback": {
+        const items = pending(agenda.feedback);
+        if (items.length === 0) return <EmptyStep>No new feedback to triage.</EmptyStep>;
+        return items.map((item) => {
+          const key = `feedback:${item.id}`;
+          return (
+            <ReviewRow key={item.id} title={item.from} detail={item.message}>
+              <ActionButton primary label="Follow up" disabled={busy === key} onClick={() => act(key, async () => {
+                await send("/api/tasks", "POST", { title: `Follow up with ${item.from}`, notes: item.message, dueAt: item.dueAt });
+                await send(`/api/feedback/${item.id}`, "PATCH", { status: FEEDBACK_TRIAGE.task });
+              }, ["feedbackToTasks"])} />
+              <ActionButton label="Keep" disabled={busy === key} onClick={() => act(key, () => send(`/api/feedback/${item.id}`, "PATCH", { status: FEEDBACK_TRIAGE.keep }))} />
+              <ActionButton label="Dismiss" disabled={busy === key} onClick={() => act(key, () => send(`/api/feedback/${item.id}`, "PATCH", { status: FEEDBACK_TRIAGE.dismiss }), ["feedbackDismissed"])} />
+            </ReviewRow>
+          );
+        });
+      }
+
+      case "projects": {
+        if (agenda.projects.length === 0) return <EmptyStep>No active projects.</EmptyStep>;
+        return agenda.projects.map((project) => {
+          const key = `projects:${project.id}`;
+          const next = project.nextAction?.title ?? added[project.id];
+          if (next) return <ReviewRow key={project.id} title={project.title} detail={`Next: ${next}`} />;
+          const draft = drafts[project.id] ?? "";
+          const addNext = () => act(key, async () => {
+            await send("/api/tasks", "POST", { title: draft.trim(), notes: "", dueAt: null, projectId: project.id, space: project.space });
+            setAdded((prev) => ({ ...prev, [project.id]: draft.trim() }));
+          }, ["nextActionsAdded"]);
+          return (
+            <ReviewRow key={project.id} title={project.title} detail={<span className="text-coral">No next action</span>}>
+              <input
+                value={draft}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [project.id]: e.target.value }))}
+                onKeyDown={(e) => { if (e.key === "Enter" && draft.trim()) addNext(); }}
+                placeholder="Next action…"
+                className="w-40 rounded-md border border-hairline bg-canvas px-2 py-1 text-xs text-ink outline-none focus:border-coral"
+              />
+              <ActionButton primary label="Add" disabled={!draft.trim() || busy === key} onClick={addNext} />
+            </ReviewRow>
+          );
+        });
+      }
+
+      case "overdue": {
+        const tasks = pending(agenda.overdue);
+        if (tasks.length === 0) return <EmptyStep>Nothing overdue.</EmptyStep>;
+        return tasks.map((task) => {
+          const key = `overdue:${task.id}`;
+          const patch = (body: object, counts: StatKey[]) => act(key, () => send(`/api/tasks/${task.id}`, "PATCH", body), counts);
+          return (
+            <ReviewRow key={task.id} title={task.title} detail={`Was due ${formatDate(task.dueAt)}`}>
+              <ActionButton primary label="Done" disabled={busy === key} onClick={() => patch({ completed: true }, ["overdueCompleted"])} />
+              <ActionButton label="Tomorrow" disabled={busy === key} onClick={() => patch({ dueAt: tomorrowMorning() }, ["overdueRescheduled"])} />
+              <ActionButton label="Next week" disabled={busy === key} onClick={() => patch({ dueAt: new Date(`${agenda.nextWeekStart}T09:00`).toISOString() }, ["overdueRescheduled"])} />
+              <ActionButton label="No date" disabled={busy === key} onClick={() => patch({ dueAt: null }, ["overdueRescheduled"])} />
+            </ReviewRow>
+          );
+        });
+      }
+
+      case "articles": {
+        const articles = pending(agenda.articles);
+        if (articles.length === 0) return <EmptyStep>The reading list is clear.</EmptyStep>;
+        return articles.map((article) => {
+          const key = `articles:${article.id}`;
+          return (
+            <ReviewRow
+              key={article.id}
+              title={<a href={article.url} target="_blank" rel="noreferrer" className="transition hover:text-coral">{article.title}</a>}
+              detail={[article.source, `saved ${formatDate(article.createdAt)}`].filter(Boolean).join(" · ")}
+            >
+              <ActionButton primary label="Read" disabled={busy === key} onClick={() => act(key, () => send(`/api/articles/${article.id}`, "PATCH", { read: true }), ["articlesRead"])} />
+              <ActionButton label="Keep" onClick={() => keep(key)} />
+              <ActionButton label="Remove" disabled={busy === key} onClick={() => act(key, () => send(`/api/articles/${article.id}`, "DELETE"), ["articlesRemoved"])} />
+            </ReviewRow>
+          );
+        });
+      }
+
+      case "calendar": {
+        if (agenda.events.length === 0) return <EmptyStep>Nothing on the calendar next week.</EmptyStep>;
+        const days = new Map<string, WeeklyReviewAgenda["events"]>();
+        for (const event of agenda.events) {
+          const day = formatDate(event.startAt);
+          days.set(day, [...(days.get(day) ?? []), event]);
+        }
+        return [...days].map(([day, events]) => (
+          <div key={day} className="flex flex-col gap-1">
+            <p className="text-[10px] font-semibold uppercase tracking-[1.5px] text-ink-soft">{day}</p>
+            {events.map((event) => (
+              <p key={event.id} className="flex gap-3 text-xs text-ink-muted">
+                <span className="w-28 shrink-0 text-ink-soft">{formatTime(event.startAt)} – {formatTime(event.endAt)}</span>
+                <span className="min-w-0 truncate">{event.title}{event.location && <span className="text-ink-soft"> · {event.location}</span>}</span>
+              </p>
+            ))}
+          </div>
+        ));
+      }
+    }
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => { setShowHistory(false); setOpen(true); }}
+        className="flex items-center gap-2 rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+      >
+        <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+          <path d="M2 6.25 4.5 8.75 10 3.25" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+        Weekly review
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-[9999] flex items-start justify-center p-4 pt-[8vh]"
+          style={{ backgroundColor: "rgba(20,20,19,0.45)" }}
+          onMouseDown={(e) => { if (e.target === e.currentTarget) setOpen(false); }}
+        >
+          <div className="animate-fade flex max-h-[85vh] w-full max-w-2xl flex-col overflow-hidden rounded-xl border border-hairline bg-canvas">
+            <div className="flex items-center justify-between border-b border-hairline px-6 py-4 shrink-0">
+              <div>
+                <h3 className="font-display text-xl font-normal text-ink">{showHistory ? "Past reviews" : "Weekly review"}</h3>
+                <p className="text-xs text-ink-soft">
+                  {showHistory
+                    ? "Newest first"
+                    : agenda?.lastReviewedAt ? `Last review ${formatDate(agenda.lastReviewedAt)}` : "Your first review"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowHistory((v) => !v)}
+                  className="rounded-md border border-hairline px-3 py-1.5 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral"
+                >
+                  {showHistory ? "Back to review" : "Past reviews"}
+                </button>
+                <button type="button" aria-label="Close" onClick={() => setOpen(false)} className="rounded-md p-1.5 text-ink-soft transition hover:text-ink">
+                  <svg width="12" height="12" viewBox="0 0 10 10" fill="none">
+                    <path d="M1.5 1.5l7 7M8.5 1.5l-7 7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            {showHistory ? (
+              <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+                {!history ? (
+                  <p className="py-6 text-center text-sm text-ink-soft">Loading…</p>
+                ) : history.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-ink-soft">No reviews finished yet.</p>
+                ) : (
+                  history.map((review) => {
+                    const summary = summarizeReview(review.stats);
+                    return (
+                      <div key={review.id} className="flex flex-col gap-1.5">
+                        <div className="flex items-baseline justify-between">
+                          <p className="text-sm font-medium text-ink">Week of {formatDate(`${review.weekStart}T12:00:00`)}</p>
+                          <span className="text-xs text-ink-soft">done {formatDate(review.completedAt)}</span>
+                        </div>
+                        {WEEKLY_REVIEW_STEPS.map((s) => (
+                          <p key={s} className="flex gap-3 pl-2 text-xs text-ink-muted">
+                            <span className="w-24 shrink-0 text-ink-soft">{WEEKLY_REVIEW_STEP_META[s].label}</span>
+                            {summary[s]}
+                          </p>
+                        ))}
+                        {review.notes && <RenderedMarkdown source={review.notes} className="markdown-rendered mt-1 pl-2 text-xs text-ink-muted" />}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-1 border-b border-hairline px-6 py-3 shrink-0 overflow-x-auto">
+                  {[...WEEKLY_REVIEW_STEPS.map((s) => WEEKLY_REVIEW_STEP_META[s].label), "Wrap up"].map((label, i) => (
+                    <button
+                      key={label}
+                      type="button"
+                      disabled={!agenda}
+                      onClick={() => setStep(i)}
+                      className={`whitespace-nowrap rounded-pill px-2.5 py-1 text-[11px] font-medium transition ${
+                        i === step ? "bg-coral/10 text-coral" : i < step ? "text-ink-muted hover:text-coral" : "text-ink-soft hover:text-coral"
+                      }`}
+                    >
+                      {i + 1}. {label}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-2">
+                  {!agenda || !stats ? (
+                    <p className="py-6 text-center text-sm text-ink-soft">{error ?? "Gathering your week…"}</p>
+                  ) : onSummary ? (
+                    <>
+                      {WEEKLY_REVIEW_STEPS.map((s) => (
+                        <p key={s} className="flex gap-3 text-xs text-ink-muted">
+                          <span className="w-24 shrink-0 text-ink-soft">{WEEKLY_REVIEW_STEP_META[s].label}</span>
+                          {summarizeReview(stats)[s]}
+                        </p>
+                      ))}
+                      <p className="mt-3 text-xs font-semibold uppercase tracking-[1.5px] text-ink-muted">Notes</p>
+                      <MarkdownEditor value={notes} onChange={setNotes} placeholder="Anything on your mind for the week ahead…" minHeight={110} />
+                    </>
+                  ) : (
+                    <>
+                      <p className="mb-1 text-xs text-ink-soft">{WEEKLY_REVIEW_STEP_META[current].prompt}</p>
+                      {renderStep(agenda)}
+                    </>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between border-t border-hairline px-6 py-4">
+                  <span className="text-xs text-coral">{agenda && error}</span>
+                  <div className="flex gap-2">
+                    {step > 0 && (
+                      <button type="button" onClick={() => setStep((s) => s - 1)} className="rounded-md border border-hairline px-4 py-2 text-xs font-medium text-ink-muted transition hover:border-coral hover:text-coral">Back</button>
+                    )}
+                    {onSummary ? (
+                      <button type="button" disabled={saving || saved} onClick={finish} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40">
+                        {saved ? "Saved" : saving ? "Saving…" : "Finish review"}
+                      </button>
+                    ) : (
+                      <button type="button" disabled={!agenda} onClick={() => setStep((s) => s + 1)} className="rounded-md bg-coral px-4 py-2 text-xs font-medium text-white transition hover:bg-coral-active disabled:opacity-40">
+                        Next
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
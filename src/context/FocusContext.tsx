@@ -0,0 +1,22 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { useFocusSession } from "@/hooks/useFocusSession";
+
+// The focus timer lives above the module switch in DashboardShell: Today mounts
+// and unmounts as modules change, the running session must not.
+
+type FocusContextValue = ReturnType<typeof useFocusSession>;
+
+const FocusContext = createContext<FocusContextValue | null>(null);
+
+export function useFocus() {
+  const ctx = useContext(FocusContext);
+  if (!ctx) throw new Error("useFocus must be used inside FocusProvider");
+  return ctx;
+}
+
+export function FocusProvider({ children }: { children: React.ReactNode }) {
+  const focus = useFocusSession();
+  return <FocusContext.Provider value={focus}>{children}</FocusContext.Provider>;
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { GoalStatus } from "@/lib/goals";
+import type { DailyGoal } from "@/lib/types";
+
+// Goals, today's progress and the streak from /api/goals. Progress lives on
+// the server (it needs completion times), so the caller passes a key that
+// changes whenever completions or the plan do, and the status is fetched again.
+export function useDailyGoals(refreshKey: string) {
+  const [status, setStatus] = useState<GoalStatus | null>(null);
+
+  useEffect(() => {
+    fetch("/api/goals")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: GoalStatus | null) => { if (data) setStatus(data); });
+  }, [refreshKey]);
+
+  // Resolves to the server's error message on failure
+  const saveGoals = useCallback(async (goals: DailyGoal[]): Promise<string | null> => {
+    const res = await fetch("/api/goals", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ goals }),
+    });
+    const data = await res.json();
+    if (!res.ok) return data.error ?? "Could not save the goals";
+    setStatus(data);
+    return null;
+  }, []);
+
+  return { status, saveGoals };
+}
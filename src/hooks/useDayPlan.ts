@@ -0,0 +1,78 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SetStateAction } from "react";
+import { browserTimeZone, emptyPlan, planTaskIds, todayKey } from "@/lib/day-plan";
+import type { DayPlan } from "@/lib/types";
+
+// Plans used to live only in this browser
+const LEGACY_PLAN_KEY = "suru-today-plan";
+
+function takeLegacyPlan(date: string): DayPlan | null {
+  try {
+    const raw = localStorage.getItem(LEGACY_PLAN_KEY);
+    localStorage.removeItem(LEGACY_PLAN_KEY);
+    const parsed = raw ? (JSON.parse(raw) as DayPlan) : null;
+    return parsed?.date === date ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function savePlan(plan: DayPlan) {
+  const { date, critical, important, light } = plan;
+  return fetch(`/api/day-plans/${date}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ critical, important, light }),
+  });
+}
+
+// Today's plan from the server. setPlan works like a state setter; every
+// change is saved in the background, one request at a time so they land in order.
+// When the load fails, error is set and nothing is saved, so the empty
+// placeholder plan never overwrites the stored one.
+export function useDayPlan() {
+  const [plan, setPlanState] = useState<DayPlan>(() => emptyPlan(todayKey()));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const dirty = useRef(false);
+  const loaded = useRef(false);
+  const saving = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    fetch(`/api/day-plans/today?tz=${encodeURIComponent(browserTimeZone())}`)
+      .then(async (r) => {
+        const data = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(data.error ?? "Could not load today's plan");
+        return data as DayPlan;
+      })
+      .then((stored) => {
+        const legacy = planTaskIds(stored).length === 0 ? takeLegacyPlan(stored.date) : null;
+        loaded.current = true;
+        dirty.current = legacy !== null;
+        setPlanState(legacy ?? stored);
+      })
+      // A network failure rejects with the browser's own message
+      .catch((err: Error) => setError(err instanceof TypeError ? "Could not load today's plan" : err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!dirty.current || !loaded.current) return;
+    dirty.current = false;
+    saving.current = saving.current.then(() => savePlan(plan)).catch(() => undefined);
+  }, [plan]);
+
+  const setPlan = useCallback((update: SetStateAction<DayPlan>) => {
+    dirty.current = true;
+    setPlanState(update);
+  }, []);
+
+  // A copy of a plan saved elsewhere (e.g. by the day review); ignored unless it is the open day
+  const receivePlan = useCallback((stored: DayPlan) => {
+    setPlanState((prev) => (prev.date === stored.date ? stored : prev));
+  }, []);
+
+  return { plan, setPlan, receivePlan, loading, error };
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+type SWOpenMessage = { type: "NOTIFICATION_OPEN"; url: string };
+
+function reviewDate(url: string) {
+  return new URL(url, window.location.origin).searchParams.get("review");
+}
+
+/**
+ * Opens the end-of-day review when its push notification is tapped. Same two
+ * paths as useTaskActions: a `?review=YYYY-MM-DD` URL when the app was closed,
+ * or a postMessage from the service worker when it was already open.
+ */
+export function useDayReviewRequest(onReview: (date: string) => void) {
+  const onReviewRef = useRef(onReview);
+  useEffect(() => { onReviewRef.current = onReview; }, [onReview]);
+
+  useEffect(() => {
+    const date = reviewDate(window.location.href);
+    if (date) {
+      onReviewRef.current(date);
+      const clean = new URL(window.location.href);
+      clean.searchParams.delete("review");
+      window.history.replaceState({}, "", clean.toString());
+    }
+
+    function handleMessage(event: MessageEvent) {
+      const data = event.data as SWOpenMessage | undefined;
+      if (!data || data.type !== "NOTIFICATION_OPEN") return;
+      const requested = reviewDate(data.url);
+      if (requested) onReviewRef.current(requested);
+    }
+
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, []);
+}
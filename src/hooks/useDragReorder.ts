@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import type { DragEvent } from "react";
+import { reorderNeighbours } from "@/lib/sort-key";
+import type { Task } from "@/lib/types";
+
+// Drag-and-drop reordering for a rendered task list. `list` is the tasks in
+// the order shown; a drop on another row works out the new neighbours and
+// hands them to `onReorder` (useTasksAndProjects().reorderTask).
+export function useDragReorder(list: Task[], onReorder: (id: string, afterId: string | null, beforeId: string | null) => void) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  function end() {
+    setDraggingId(null);
+    setOverId(null);
+  }
+
+  // Spread onto a row; pass enabled=false while the row is being edited
+  function rowProps(task: Task, enabled = true) {
+    if (!enabled) return {};
+    return {
+      draggable: true,
+      onDragStart: (e: DragEvent) => {
+        // Firefox only starts a drag that carries data
+        e.dataTransfer.setData("text/plain", task.id);
+        e.dataTransfer.effectAllowed = "move";
+        setDraggingId(task.id);
+      },
+      onDragOver: (e: DragEvent) => {
+        if (!draggingId || !reorderNeighbours(list, draggingId, task.id)) return;
+        e.preventDefault();
+        setOverId(task.id);
+      },
+      onDragLeave: () => setOverId((id) => (id === task.id ? null : id)),
+      onDrop: (e: DragEvent) => {
+        e.preventDefault();
+        const move = draggingId ? reorderNeighbours(list, draggingId, task.id) : null;
+        if (move) onReorder(draggingId!, move.afterId, move.beforeId);
+        end();
+      },
+      onDragEnd: end,
+    };
+  }
+
+  return { draggingId, overId, rowProps };
+}
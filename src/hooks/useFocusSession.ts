@@ -0,0 +1,171 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { loadFocusSettings, loadFocusState, notifyFocus, saveFocusSettings, saveFocusState } from "@/lib/focus";
+import type { FocusSettings, FocusState } from "@/lib/focus";
+
+const MINUTE = 60000;
+
+// A break that ended this long ago had nobody watching it; the next work
+// interval waits for the user instead of starting on its own
+const AUTO_START_GRACE_MS = MINUTE;
+
+function startOfToday() {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+async function logSession(state: FocusState, endedAt: number, completed: boolean) {
+  const focusedMs = state.focusedMs + (state.resumedAt ? endedAt - state.resumedAt : 0);
+  const minutes = Math.round(focusedMs / MINUTE);
+  if (minutes < 1) return 0;
+  const res = await fetch("/api/focus-sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      taskId: state.taskId,
+      startedAt: new Date(state.workStartedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      minutes,
+      completed,
+    }),
+  });
+  return res.ok ? minutes : 0;
+}
+
+function workState(taskId: string, taskTitle: string, round: number, at: number, settings: FocusSettings, running: boolean): FocusState {
+  const workMs = settings.workMinutes * MINUTE;
+  return {
+    taskId,
+    taskTitle,
+    phase: "work",
+    round,
+    endsAt: running ? at + workMs : null,
+    remainingMs: workMs,
+    workStartedAt: at,
+    focusedMs: 0,
+    resumedAt: running ? at : null,
+  };
+}
+
+/**
+ * Pomodoro timer for the Today view. Work and break intervals alternate on
+ * their own; each work interval is logged against its task when it ends (or
+ * is cut short) and announced through the service worker so the notice shows
+ * while the tab is in the background. Runs in FocusProvider, above the module
+ * switch, so phases keep changing on time while another module is open; the
+ * state also survives reloads.
+ */
+export function useFocusSession() {
+  const [settings, setSettingsState] = useState<FocusSettings>(() => loadFocusSettings());
+  const [state, setState] = useState<FocusState | null>(() => loadFocusState());
+  const [now, setNow] = useState(() => Date.now());
+  const [todayMinutes, setTodayMinutes] = useState(0);
+
+  useEffect(() => { saveFocusState(state); }, [state]);
+
+  const refreshToday = useCallback(() => {
+    const from = startOfToday();
+    const to = new Date(from);
+    to.setDate(to.getDate() + 1);
+    fetch(`/api/focus-sessions?from=${from.toISOString()}&to=${to.toISOString()}`)
+      .then((r) => r.json())
+      .then((data: { sessions?: Array<{ minutes: number }> }) => {
+        setTodayMinutes((data.sessions ?? []).reduce((sum, s) => sum + s.minutes, 0));
+      });
+  }, []);
+
+  useEffect(() => { refreshToday(); }, [refreshToday]);
+
+  // A second-by-second tick for the countdown, plus one timeout at the phase
+  // end: background tabs throttle the interval but not a single timeout
+  const endsAt = state?.endsAt ?? null;
+  useEffect(() => {
+    if (!endsAt) return;
+    const tick = window.setInterval(() => setNow(Date.now()), 1000);
+    const end = window.setTimeout(() => setNow(Date.now()), Math.max(endsAt - Date.now(), 0));
+    return () => {
+      window.clearInterval(tick);
+      window.clearTimeout(end);
+    };
+  }, [endsAt]);
+
+  // Phase transitions
+  useEffect(() => {
+    if (!state?.endsAt || now < state.endsAt) return;
+    const endedAt = state.endsAt;
+    const title = state.taskTitle;
+
+    if (state.phase === "work") {
+      const long = state.round % settings.longBreakEvery === 0;
+      const breakMs = (long ? settings.longBreakMinutes : settings.breakMinutes) * MINUTE;
+      setState({ ...state, phase: "break", endsAt: endedAt + breakMs, remainingMs: breakMs, focusedMs: 0, resumedAt: null });
+      logSession(state, endedAt, true).then((minutes) => setTodayMinutes((m) => m + minutes));
+      notifyFocus(long ? "Time for a long break" : "Time for a break", `${settings.workMinutes} minutes on “${title}” done.`);
+      return;
+    }
+
+    const autoStart = now - endedAt < AUTO_START_GRACE_MS;
+    setState(workState(state.taskId, state.taskTitle, state.round + 1, autoStart ? endedAt : now, settings, autoStart));
+    notifyFocus("Break's over", autoStart ? `Back to “${title}”.` : `Ready when you are: “${title}”.`);
+  }, [now, state, settings]);
+
+  const setSettings = useCallback((next: FocusSettings) => {
+    setSettingsState(next);
+    saveFocusSettings(next);
+  }, []);
+
+  // Takes the settings directly when they were changed in the same click
+  const start = useCallback((taskId: string, taskTitle: string, using: FocusSettings = settings) => {
+    // Asked here because the browser only prompts from a user gesture
+    if (typeof Notification !== "undefined" && Notification.permission === "default") Notification.requestPermission();
+    const at = Date.now();
+    setNow(at);
+    setState(workState(taskId, taskTitle, 1, at, using, true));
+  }, [settings]);
+
+  const pause = useCallback(() => {
+    if (!state?.endsAt) return;
+    const at = Date.now();
+    setState({
+      ...state,
+      endsAt: null,
+      remainingMs: state.endsAt - at,
+      focusedMs: state.phase === "work" && state.resumedAt ? state.focusedMs + at - state.resumedAt : state.focusedMs,
+      resumedAt: null,
+    });
+  }, [state]);
+
+  const resume = useCallback(() => {
+    if (!state || state.endsAt) return;
+    const at = Date.now();
+    setNow(at);
+    setState({ ...state, endsAt: at + state.remainingMs, resumedAt: state.phase === "work" ? at : null });
+  }, [state]);
+
+  // Ends the current interval early; a cut-short work interval is still logged
+  const skip = useCallback(() => {
+    if (!state) return;
+    const at = Date.now();
+    if (state.phase === "work") {
+      logSession(state, at, false).then((minutes) => setTodayMinutes((m) => m + minutes));
+      const breakMs = settings.breakMinutes * MINUTE;
+      setState({ ...state, phase: "break", endsAt: at + breakMs, remainingMs: breakMs, focusedMs: 0, resumedAt: null });
+    } else {
+      setState(workState(state.taskId, state.taskTitle, state.round + 1, at, settings, true));
+    }
+    setNow(at);
+  }, [state, settings]);
+
+  const stop = useCallback(() => {
+    if (state?.phase === "work") {
+      logSession(state, Date.now(), false).then((minutes) => setTodayMinutes((m) => m + minutes));
+    }
+    setState(null);
+  }, [state]);
+
+  const remainingMs = state ? (state.endsAt ? state.endsAt - now : state.remainingMs) : 0;
+
+  return { state, settings, setSettings, remainingMs, todayMinutes, start, pause, resume, skip, stop };
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { MilestoneFields } from "@/lib/milestones";
+import type { Milestone } from "@/lib/types";
+
+function toMilestone({ id, projectId, title, dueDate, taskIds, calendarEventId }: Milestone): Milestone {
+  return { id, projectId, title, dueDate, taskIds, calendarEventId };
+}
+
+const byDueDate = (list: Milestone[]) => list.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+export function useMilestones(projectId: string) {
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/milestones?projectId=${encodeURIComponent(projectId)}`)
+      .then((r) => r.json())
+      .then((list) => setMilestones(Array.isArray(list) ? list.map(toMilestone) : []));
+  }, [projectId]);
+
+  // Both resolve to the server's error message on failure
+  const createMilestone = useCallback(async (data: MilestoneFields): Promise<string | null> => {
+    const res = await fetch("/api/milestones", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...data, projectId }),
+    });
+    const m = await res.json();
+    if (!res.ok) return m.error ?? "Could not save the milestone";
+    setMilestones((prev) => byDueDate([...prev, toMilestone(m)]));
+    return null;
+  }, [projectId]);
+
+  const updateMilestone = useCallback(async (id: string, patch: Partial<MilestoneFields>): Promise<string | null> => {
+    const res = await fetch(`/api/milestones/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    const m = await res.json();
+    if (!res.ok) return m.error ?? "Could not save the milestone";
+    setMilestones((prev) => byDueDate(prev.map((x) => (x.id === id ? toMilestone(m) : x))));
+    return null;
+  }, []);
+
+  const deleteMilestone = useCallback(async (id: string) => {
+    const res = await fetch(`/api/milestones/${id}`, { method: "DELETE" });
+    if (res.ok) setMilestones((prev) => prev.filter((x) => x.id !== id));
+  }, []);
+
+  return { milestones, createMilestone, updateMilestone, deleteMilestone };
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { browserTimeZone } from "@/lib/day-plan";
+import type { ProjectTemplate } from "@/lib/types";
+
+const sortByName = (list: ProjectTemplate[]) => list.sort((a, b) => a.name.localeCompare(b.name));
+
+export function useProjectTemplates() {
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+
+  useEffect(() => {
+    fetch("/api/project-templates")
+      .then((r) => r.json())
+      .then((t) => setTemplates(Array.isArray(t) ? t : []));
+  }, []);
+
+  // Resolves to the server's error message on failure (e.g. a taken name)
+  const saveTemplate = useCallback(async (projectId: string, name: string, startDate: string): Promise<string | null> => {
+    const res = await fetch("/api/project-templates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ projectId, name, startDate, timeZone: browserTimeZone() }),
+    });
+    const t = await res.json();
+    if (!res.ok) return t.error ?? "Could not save the template";
+    setTemplates((prev) => sortByName([...prev, t]));
+    return null;
+  }, []);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    const res = await fetch(`/api/project-templates/${id}`, { method: "DELETE" });
+    if (res.ok) setTemplates((prev) => prev.filter((x) => x.id !== id));
+  }, []);
+
+  return { templates, saveTemplate, deleteTemplate };
+}
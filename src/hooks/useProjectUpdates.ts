@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ProjectHealthLevel, ProjectUpdate } from "@/lib/types";
+
+// Status updates on one project, newest first
+export function useProjectUpdates(projectId: string) {
+  const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/project-updates?projectId=${encodeURIComponent(projectId)}`)
+      .then((r) => r.json())
+      .then((list) => setUpdates(Array.isArray(list) ? list : []));
+  }, [projectId]);
+
+  // Both resolve to the server's error message on failure
+  const createUpdate = useCallback(async (body: string, health: ProjectHealthLevel): Promise<string | null> => {
+    const res = await fetch("/api/project-updates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ projectId, body, health }),
+    });
+    const u = await res.json();
+    if (!res.ok) return u.error ?? "Could not save the update";
+    setUpdates((prev) => [u, ...prev]);
+    return null;
+  }, [projectId]);
+
+  const editUpdate = useCallback(async (id: string, body: string): Promise<string | null> => {
+    const res = await fetch(`/api/project-updates/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body }),
+    });
+    const u = await res.json();
+    if (!res.ok) return u.error ?? "Could not save the update";
+    setUpdates((prev) => prev.map((x) => (x.id === id ? u : x)));
+    return null;
+  }, []);
+
+  const deleteUpdate = useCallback(async (id: string) => {
+    const res = await fetch(`/api/project-updates/${id}`, { method: "DELETE" });
+    if (res.ok) setUpdates((prev) => prev.filter((x) => x.id !== id));
+  }, []);
+
+  return { updates, createUpdate, editUpdate, deleteUpdate };
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Tag } from "@/lib/types";
+
+export function useTags() {
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    fetch("/api/tags")
+      .then((r) => r.json())
+      .then((t) => setTags(Array.isArray(t) ? t.map(({ id, name, color }: Tag) => ({ id, name, color })) : []));
+  }, []);
+
+  // Returns null when the name is taken or invalid
+  const createTag = useCallback(async (name: string, color: string) => {
+    const res = await fetch("/api/tags", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, color }),
+    });
+    if (!res.ok) return null;
+    const { id }: Tag = await res.json();
+    const tag = { id, name, color };
+    setTags((prev) => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+    return tag;
+  }, []);
+
+  const deleteTag = useCallback(async (id: string) => {
+    await fetch(`/api/tags/${id}`, { method: "DELETE" });
+    setTags((prev) => prev.filter((x) => x.id !== id));
+  }, []);
+
+  return { tags, createTag, deleteTag };
+}
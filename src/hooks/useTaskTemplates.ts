@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { TemplateFields } from "@/lib/templates";
+import type { TaskTemplate } from "@/lib/types";
+
+type DbTemplate = Omit<TaskTemplate, "checklist"> & { checklist: unknown };
+
+function toTemplate({ id, name, title, notes, checklist, dueOffsetMinutes, projectId }: DbTemplate): TaskTemplate {
+  return {
+    id,
+    name,
+    title,
+    notes,
+    checklist: Array.isArray(checklist) ? checklist.filter((item): item is string => typeof item === "string") : [],
+    dueOffsetMinutes,
+    projectId,
+  };
+}
+
+export function useTaskTemplates() {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+
+  useEffect(() => {
+    fetch("/api/task-templates")
+      .then((r) => r.json())
+      .then((t) => setTemplates(Array.isArray(t) ? t.map(toTemplate) : []));
+  }, []);
+
+  const sortByName = (list: TaskTemplate[]) => list.sort((a, b) => a.name.localeCompare(b.name));
+
+  // Both resolve to the server's error message on failure (e.g. a taken name)
+  const createTemplate = useCallback(async (data: TemplateFields): Promise<string | null> => {
+    const res = await fetch("/api/task-templates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    const t = await res.json();
+    if (!res.ok) return t.error ?? "Could not save the template";
+    setTemplates((prev) => sortByName([...prev, toTemplate(t)]));
+    return null;
+  }, []);
+
+  const updateTemplate = useCallback(async (id: string, patch: Partial<TemplateFields>): Promise<string | null> => {
+    const res = await fetch(`/api/task-templates/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    const t = await res.json();
+    if (!res.ok) return t.error ?? "Could not save the template";
+    setTemplates((prev) => sortByName(prev.map((x) => (x.id === id ? toTemplate(t) : x))));
+    return null;
+  }, []);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    const res = await fetch(`/api/task-templates/${id}`, { method: "DELETE" });
+    if (res.ok) setTemplates((prev) => prev.filter((x) => x.id !== id));
+  }, []);
+
+  return { templates, createTemplate, updateTemplate, deleteTemplate };
+}
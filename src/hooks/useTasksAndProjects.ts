@@ -1,7 +1,13 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
-import type { Project, ProjectStatus, Task } from "@/lib/types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { browserTimeZone } from "@/lib/day-plan";
+import { cancelNotifications, getReminderWindows, scheduleNotifications } from "@/lib/notifications";
+import { keyBetween } from "@/lib/sort-key";
+import { descendantIds } from "@/lib/subtasks";
+import { ACTIVITY_SOURCE_HEADER } from "@/lib/types";
+import type { ActivitySource, BoardColumn, BulkTaskChange, ChecklistItem, Project, ProjectStatus, Task, TaskPriority } from "@/lib/types";
+import { restoreFromTrash, showUndoToast } from "@/lib/undo";
 
 type DbTask = {
   id: string;
@@ -13,8 +19,17 @@ type DbTask = {
   dueAt: string | null;
   createdAt: string;
   projectId: string | null;
+  parentId?: string | null;
+  blockedByIds?: string[];
+  tags?: Array<{ id: string; name: string; color: string }>;
   checklist?: Array<{ id: string; text: string; done: boolean }> | null;
+  recurrence?: string | null;
+  priority?: TaskPriority | null;
   space?: string;
+  boardColumn?: string | null;
+  sortKey?: string;
+  completedAt?: string | null;
+  _rolledForward?: boolean;
 };
 
 type DbProject = {
@@ -24,13 +39,15 @@ type DbProject = {
   status: string;
   createdAt: string;
   space?: string;
+  boardColumns?: BoardColumn[] | null;
 };
 
-function toTask(t: DbTask): Task {
+function toTask({ _rolledForward, ...t }: DbTask): Task {
   return {
     ...t,
     createdAt: new Date(t.createdAt).getTime(),
     dueAt: t.dueAt ?? null,
+    blockedByIds: t.blockedByIds ?? [],
   };
 }
 
@@ -42,25 +59,113 @@ function toProject(p: DbProject): Project {
   };
 }
 
+type TaskPage = { items: DbTask[]; nextCursor: string | null };
+
+// Open tasks load in full; completed ones come in pages, most recently
+// finished first, so years of history don't hold up the first render
+const PAGE_LIMIT = 200;
+const COMPLETED_PAGE = 50;
+
+// Throws with the server's error message, so a failed page is never read as
+// an empty one
+async function fetchTaskPage(query: string, cursor: string | null = null): Promise<TaskPage> {
+  const params = new URLSearchParams(query);
+  if (cursor) params.set("cursor", cursor);
+  const res = await fetch(`/api/tasks?${params}`);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? "Could not load tasks");
+  return data;
+}
+
+function loadErrorMessage(err: unknown) {
+  // fetch itself rejects with a TypeError when the network is down
+  return err instanceof Error && !(err instanceof TypeError) ? err.message : "Could not load tasks";
+}
+
+async function fetchAllTasks(query: string) {
+  const all: DbTask[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: TaskPage = await fetchTaskPage(`${query}&limit=${PAGE_LIMIT}`, cursor);
+    all.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return all;
+}
+
+// Pages can overlap with tasks completed (or loaded per project) since
+function mergeTasks(prev: Task[], incoming: DbTask[]) {
+  const known = new Set(prev.map((t) => t.id));
+  return [...prev, ...incoming.filter((t) => !known.has(t.id)).map(toTask)];
+}
+
 export function useTasksAndProjects() {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
+  // Set when the first load fails; the lists are empty then, not just short
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [completedCursor, setCompletedCursor] = useState<string | null>(null);
+  const [loadingCompleted, setLoadingCompleted] = useState(false);
+  const loadedProjects = useRef(new Set<string>());
 
   useEffect(() => {
     Promise.all([
-      fetch("/api/tasks").then((r) => r.json()),
-      fetch("/api/projects").then((r) => r.json()),
-    ]).then(([t, p]) => {
-      setTasks(Array.isArray(t) ? t.map(toTask) : []);
-      setProjects(Array.isArray(p) ? p.map(toProject) : []);
-      setLoading(false);
-    });
+      fetchAllTasks("status=open"),
+      fetchTaskPage(`status=done&sort=updated&limit=${COMPLETED_PAGE}`),
+      fetch("/api/projects").then(async (r) => {
+        const data = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(data.error ?? "Could not load projects");
+        return data;
+      }),
+    ])
+      .then(([open, done, p]) => {
+        setTasks([...open, ...done.items].map(toTask));
+        setCompletedCursor(done.nextCursor);
+        setProjects(Array.isArray(p) ? p.map(toProject) : []);
+      })
+      .catch((err) => setLoadError(loadErrorMessage(err)))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // ── Incremental loading ────────────────────────────────────────────────────
+
+  // Resolves to an error message when the page fails; the cursor stays put
+  // so the next call retries it
+  const loadMoreCompleted = useCallback(async (): Promise<string | null> => {
+    if (!completedCursor || loadingCompleted) return null;
+    setLoadingCompleted(true);
+    try {
+      const page = await fetchTaskPage(`status=done&sort=updated&limit=${COMPLETED_PAGE}`, completedCursor);
+      setTasks((prev) => mergeTasks(prev, page.items));
+      setCompletedCursor(page.nextCursor);
+      return null;
+    } catch (err) {
+      return loadErrorMessage(err);
+    } finally {
+      setLoadingCompleted(false);
+    }
+  }, [completedCursor, loadingCompleted]);
+
+  // A project's view needs all of its tasks for the progress count, not just
+  // the completed ones paged in so far. Resolves to an error message when that
+  // fails, and the next call tries again.
+  const loadProjectTasks = useCallback(async (projectId: string): Promise<string | null> => {
+    if (loadedProjects.current.has(projectId)) return null;
+    loadedProjects.current.add(projectId);
+    try {
+      const done = await fetchAllTasks(`status=done&project=${encodeURIComponent(projectId)}`);
+      setTasks((prev) => mergeTasks(prev, done));
+      return null;
+    } catch (err) {
+      loadedProjects.current.delete(projectId);
+      return loadErrorMessage(err);
+    }
   }, []);
 
   // ── Tasks ──────────────────────────────────────────────────────────────────
 
-  const createTask = useCallback(async (data: { title: string; notes: string; dueAt: string | null; projectId?: string | null; space?: string }) => {
+  const createTask = useCallback(async (data: { title: string; notes: string; dueAt: string | null; projectId?: string | null; space?: string; recurrence?: string | null; priority?: TaskPriority | null; parentId?: string | null; tagIds?: string[]; checklist?: ChecklistItem[] }) => {
     const res = await fetch("/api/tasks", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -71,19 +176,129 @@ export function useTasksAndProjects() {
     return toTask(t);
   }, []);
 
-  const updateTask = useCallback(async (id: string, patch: Partial<Pick<Task, "title" | "notes" | "completed" | "inProgress" | "pinned" | "dueAt" | "projectId">>) => {
+  // Resolves to the server's error message when the change is rejected (an
+  // invalid repeat rule, a cycle, an unknown tag); the task is left as it was
+  const updateTask = useCallback(async (id: string, patch: Partial<Pick<Task, "title" | "notes" | "completed" | "inProgress" | "pinned" | "dueAt" | "projectId" | "recurrence" | "priority" | "parentId" | "boardColumn">> & { tagIds?: string[] }, source?: ActivitySource): Promise<string | null> => {
     const res = await fetch(`/api/tasks/${id}`, {
       method: "PATCH",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...(source && { [ACTIVITY_SOURCE_HEADER]: source }) },
       body: JSON.stringify(patch),
     });
-    const t: DbTask = await res.json();
+    const t = await res.json();
+    if (!res.ok) return t.error ?? "Could not update the task";
+    setTasks((prev) => prev.map((x) => (x.id === id ? toTask(t) : x)));
+    // A completed occurrence of a repeating task comes back due at the next one
+    if (t._rolledForward && t.dueAt) {
+      const dueAt = t.dueAt;
+      cancelNotifications(id).then(() => {
+        scheduleNotifications({ sourceId: id, sourceType: "task", title: t.title, dueAt, reminderWindows: getReminderWindows() });
+      });
+    }
+    return null;
+  }, []);
+
+  // Moves a task between two others in the manual order (null at either end).
+  // The list updates straight away; resolves to the server's error message if
+  // the move is rejected, with the old position restored.
+  const reorderTask = useCallback(async (id: string, afterId: string | null, beforeId: string | null): Promise<string | null> => {
+    let previous: string | undefined;
+    setTasks((prev) => {
+      const keyOf = (taskId: string | null) => (taskId ? prev.find((x) => x.id === taskId)?.sortKey || null : null);
+      const after = keyOf(afterId);
+      const before = keyOf(beforeId);
+      if (after !== null && before !== null && after >= before) return prev;
+      const sortKey = keyBetween(after, before);
+      return prev.map((x) => {
+        if (x.id !== id) return x;
+        previous = x.sortKey;
+        return { ...x, sortKey };
+      });
+    });
+
+    const res = await fetch(`/api/tasks/${id}/reorder`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ afterId, beforeId }),
+    });
+    const t = await res.json();
+    if (!res.ok) {
+      if (previous !== undefined) setTasks((prev) => prev.map((x) => (x.id === id ? { ...x, sortKey: previous } : x)));
+      return t.error ?? "Could not move the task";
+    }
     setTasks((prev) => prev.map((x) => (x.id === id ? toTask(t) : x)));
+    return null;
+  }, []);
+
+  // Returns the server's error message when the change is rejected (e.g. a cycle)
+  const setBlockedBy = useCallback(async (id: string, blockedByIds: string[]): Promise<string | null> => {
+    const res = await fetch(`/api/tasks/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ blockedByIds }),
+    });
+    const t = await res.json();
+    if (!res.ok) return t.error ?? "Could not update dependencies";
+    setTasks((prev) => prev.map((x) => (x.id === id ? toTask(t) : x)));
+    return null;
+  }, []);
+
+  // Puts trashed tasks (and the subtasks trashed with them) back into the list
+  const restoreTasks = useCallback(async (ids: string[]) => {
+    const restored = await restoreFromTrash(ids.map((id) => ({ type: "task" as const, id })));
+    if (!restored) return false;
+    const back = (restored.tasks as DbTask[]).map(toTask);
+    const backIds = new Set(back.map((t) => t.id));
+    setTasks((prev) => [...back, ...prev.filter((x) => !backIds.has(x.id))]);
+    return true;
   }, []);
 
   const deleteTask = useCallback(async (id: string) => {
-    await fetch(`/api/tasks/${id}`, { method: "DELETE" });
-    setTasks((prev) => prev.filter((x) => x.id !== id));
+    const res = await fetch(`/api/tasks/${id}`, { method: "DELETE" });
+    if (!res.ok) return;
+    // Subtasks go to the trash with their parent on the server
+    setTasks((prev) => {
+      const removed = new Set([id, ...descendantIds(prev, id)]);
+      return prev.filter((x) => !removed.has(x.id));
+    });
+    const { trashedIds }: { trashedIds: string[] } = await res.json();
+    const subtasks = trashedIds.length - 1;
+    showUndoToast(
+      subtasks > 0 ? `Task and ${subtasks} subtask${subtasks === 1 ? "" : "s"} moved to trash` : "Task moved to trash",
+      () => restoreTasks([id]),
+    );
+  }, [restoreTasks]);
+
+  const convertChecklist = useCallback(async (id: string) => {
+    const res = await fetch(`/api/tasks/${id}/convert-checklist`, { method: "POST" });
+    if (!res.ok) return;
+    const { task, subtasks }: { task: DbTask; subtasks: DbTask[] } = await res.json();
+    setTasks((prev) => [...prev.map((x) => (x.id === id ? toTask(task) : x)), ...subtasks.map(toTask)]);
+  }, []);
+
+  // One request for many tasks; resolves to the server's error message on failure.
+  // Reminders for new due dates are rebuilt server-side with the local windows.
+  const bulkUpdateTasks = useCallback(async (ids: string[], change: BulkTaskChange): Promise<string | null> => {
+    const res = await fetch("/api/tasks/bulk", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids, ...change, reminderWindows: getReminderWindows() }),
+    });
+    const data = await res.json();
+    if (!res.ok) return data.error ?? "Bulk update failed";
+    if (data.deletedIds) {
+      const removed = new Set<string>(data.deletedIds);
+      setTasks((prev) => prev.filter((x) => !removed.has(x.id)));
+      showUndoToast(`${ids.length} task${ids.length === 1 ? "" : "s"} moved to trash`, () => restoreTasks(ids));
+    } else {
+      const updated = new Map((data.tasks as DbTask[]).map((t) => [t.id, toTask(t)]));
+      setTasks((prev) => prev.map((x) => updated.get(x.id) ?? x));
+    }
+    return null;
+  }, [restoreTasks]);
+
+  // Deleting a tag unlinks it server-side; mirror that in the loaded tasks
+  const forgetTag = useCallback((tagId: string) => {
+    setTasks((prev) => prev.map((t) => (t.tags?.some((tag) => tag.id === tagId) ? { ...t, tags: t.tags.filter((tag) => tag.id !== tagId) } : t)));
   }, []);
 
   // ── Projects ───────────────────────────────────────────────────────────────
@@ -99,7 +314,23 @@ export function useTasksAndProjects() {
     return toProject(p);
   }, []);
 
-  const updateProject = useCallback(async (id: string, patch: Partial<Pick<Project, "title" | "description" | "status">>) => {
+  // Resolves to the server's error message on failure. Reminders for the new
+  // tasks are built server-side with the local windows.
+  const createProjectFromTemplate = useCallback(async (templateId: string, data: { startDate: string; title: string; space?: string }): Promise<{ error: string } | { project: Project }> => {
+    const res = await fetch(`/api/project-templates/${templateId}/apply`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...data, timeZone: browserTimeZone(), reminderWindows: getReminderWindows() }),
+    });
+    const body = await res.json();
+    if (!res.ok) return { error: (body.error as string | undefined) ?? "Could not create the project" };
+    const project = toProject(body.project as DbProject);
+    setProjects((prev) => [project, ...prev]);
+    setTasks((prev) => [...(body.tasks as DbTask[]).map(toTask), ...prev]);
+    return { project };
+  }, []);
+
+  const updateProject = useCallback(async (id: string, patch: Partial<Pick<Project, "title" | "description" | "status" | "boardColumns">>) => {
     const res = await fetch(`/api/projects/${id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
@@ -109,20 +340,49 @@ export function useTasksAndProjects() {
     setProjects((prev) => prev.map((x) => (x.id === id ? toProject(p) : x)));
   }, []);
 
+  // Its tasks stay linked on the server while the project is in the trash but
+  // aren't listed, so they leave the list with it and come back on undo
   const deleteProject = useCallback(async (id: string) => {
-    await fetch(`/api/projects/${id}`, { method: "DELETE" });
+    const res = await fetch(`/api/projects/${id}`, { method: "DELETE" });
+    if (!res.ok) return;
+    let hidden: Task[] = [];
     setProjects((prev) => prev.filter((x) => x.id !== id));
-    setTasks((prev) => prev.map((t) => (t.projectId === id ? { ...t, projectId: null } : t)));
+    setTasks((prev) => {
+      hidden = prev.filter((t) => t.projectId === id);
+      return prev.filter((t) => t.projectId !== id);
+    });
+    showUndoToast("Project moved to trash", async () => {
+      const restored = await restoreFromTrash([{ type: "project", id }]);
+      if (!restored) return false;
+      const back = (restored.projects as DbProject[]).map(toProject);
+      setProjects((prev) => [...back, ...prev.filter((x) => x.id !== id)]);
+      setTasks((prev) => {
+        const known = new Set(prev.map((t) => t.id));
+        return [...prev, ...hidden.filter((t) => !known.has(t.id))];
+      });
+      return true;
+    });
   }, []);
 
   return {
     tasks,
     projects,
     loading,
+    loadError,
+    hasMoreCompleted: completedCursor !== null,
+    loadingCompleted,
+    loadMoreCompleted,
+    loadProjectTasks,
     createTask,
     updateTask,
+    reorderTask,
     deleteTask,
+    setBlockedBy,
+    convertChecklist,
+    bulkUpdateTasks,
+    forgetTag,
     createProject,
+    createProjectFromTemplate,
     updateProject,
     deleteProject,
   };
@@ -0,0 +1,94 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ACTIVITY_SOURCE_HEADER } from "@/lib/types";
+import type { ActivityAction, ActivityChanges, ActivityEntityType, ActivitySource } from "@/lib/types";
+
+// Server helpers for the activity trail. Routes snapshot an entity before and
+// after a write, diff the tracked fields and record one row per change.
+// Recording is best-effort: a failed insert is logged and never fails the
+// write it describes.
+
+export const TASK_FIELDS = [
+  "title", "notes", "completed", "inProgress", "pinned", "dueAt", "projectId", "parentId",
+  "checklist", "recurrence", "priority", "space", "blockedByIds", "tagIds", "boardColumn",
+] as const;
+export const PROJECT_FIELDS = ["title", "description", "status", "space", "boardColumns"] as const;
+export const IDEA_FIELDS = ["title", "notes", "sourceUrl", "space", "tagIds"] as const;
+export const FEEDBACK_FIELDS = ["from", "message", "status", "dueAt", "tagIds"] as const;
+
+// Sources a browser request may claim for itself; "voice" is only ever set by
+// the voice route
+const CLIENT_SOURCES: ActivitySource[] = ["web", "push", "capture"];
+
+export function activitySource(req: Request): ActivitySource {
+  const value = req.headers.get(ACTIVITY_SOURCE_HEADER) as ActivitySource | null;
+  return value && CLIENT_SOURCES.includes(value) ? value : "web";
+}
+
+/** Feedback has no title of its own; lists and the timeline show this instead. */
+export function feedbackTitle(item: { from: string; message: string }) {
+  return `${item.from}: ${item.message.length > 80 ? `${item.message.slice(0, 80)}…` : item.message}`;
+}
+
+type Row = Record<string, unknown> & {
+  tags?: Array<{ id: string }>;
+  blockedBy?: Array<{ blockerId: string }>;
+  blockedByIds?: string[];
+};
+
+/**
+ * Flattens relations into sorted id lists so they diff like plain fields.
+ * Relations that weren't loaded are left out and therefore never diffed.
+ */
+export function activitySnapshot(row: Row): Record<string, unknown> {
+  const { tags, blockedBy, ...rest } = row;
+  return {
+    ...rest,
+    ...(tags && { tagIds: tags.map((t) => t.id).sort() }),
+    ...(blockedBy && { blockedByIds: blockedBy.map((d) => d.blockerId).sort() }),
+    ...(row.blockedByIds && { blockedByIds: [...row.blockedByIds].sort() }),
+  };
+}
+
+function normalize(value: unknown) {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+/** Field-level diff of two snapshots; null when no tracked field changed. */
+export function diffFields(before: Record<string, unknown>, after: Record<string, unknown>, fields: readonly string[]): ActivityChanges | null {
+  const changes: ActivityChanges = {};
+  for (const field of fields) {
+    if (!(field in before) || !(field in after)) continue;
+    const from = normalize(before[field]);
+    const to = normalize(after[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[field] = { from, to };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+export type ActivityInput = {
+  userId: string;
+  entityType: ActivityEntityType;
+  entityId: string;
+  projectId?: string | null;
+  action: ActivityAction;
+  source: ActivitySource;
+  title: string;
+  changes?: ActivityChanges | null;
+};
+
+export async function recordActivity(entries: ActivityInput | ActivityInput[]) {
+  const rows = Array.isArray(entries) ? entries : [entries];
+  if (rows.length === 0) return;
+  try {
+    await prisma.activity.createMany({
+      data: rows.map((entry) => ({
+        ...entry,
+        projectId: entry.projectId ?? null,
+        changes: entry.changes ? (entry.changes as Prisma.InputJsonValue) : Prisma.JsonNull,
+      })),
+    });
+  } catch (err) {
+    console.error("[activity] Failed to record activity:", err instanceof Error ? err.message : err);
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { buildAnalytics } from "@/lib/analytics";
+import type { AnalyticsCompletion, AnalyticsTask } from "@/lib/analytics";
+
+const at = (iso: string) => new Date(iso);
+
+function analytics(tasks: AnalyticsTask[], completions: AnalyticsCompletion[]) {
+  return buildAnalytics({
+    from: "2026-10-01",
+    to: "2026-10-05",
+    timeZone: "UTC",
+    now: at("2026-10-05T18:00:00Z"),
+    tasks,
+    completions,
+    entries: [],
+    plans: [],
+    articles: [],
+    projects: [],
+  });
+}
+
+const repeating = (dueAt: string): AnalyticsTask => ({
+  id: "t1", projectId: null, dueAt: at(dueAt), completed: false, deletedAt: null, createdAt: at("2026-09-20T09:00:00Z"),
+});
+
+describe("buildAnalytics", () => {
+  it("keeps a rolled-forward task overdue once its next occurrence passes", () => {
+    // Due 2 Oct, done early on 1 Oct, rolled on to 3 Oct and left open
+    const result = analytics([repeating("2026-10-03T09:00:00Z")], [
+      { taskId: "t1", dueAt: at("2026-10-02T09:00:00Z"), completedAt: at("2026-10-01T12:00:00Z") },
+    ]);
+    expect(result.days.map((d) => d.overdue)).toEqual([0, 0, 1, 1, 1]);
+    expect(result.totals).toMatchObject({ completed: 1, onTime: 1, late: 0 });
+  });
+
+  it("judges a late occurrence against its own due date", () => {
+    // Due 2 Oct, done on 4 Oct, rolled on to 9 Oct
+    const result = analytics([repeating("2026-10-09T09:00:00Z")], [
+      { taskId: "t1", dueAt: at("2026-10-02T09:00:00Z"), completedAt: at("2026-10-04T12:00:00Z") },
+    ]);
+    expect(result.totals).toMatchObject({ completed: 1, onTime: 0, late: 1 });
+    expect(result.days.map((d) => d.overdue)).toEqual([0, 1, 1, 0, 0]);
+  });
+
+  it("counts every completed occurrence of a repeating task", () => {
+    const result = analytics([repeating("2026-10-06T09:00:00Z")], [
+      { taskId: "t1", dueAt: at("2026-10-03T09:00:00Z"), completedAt: at("2026-10-03T08:00:00Z") },
+      { taskId: "t1", dueAt: at("2026-10-04T09:00:00Z"), completedAt: at("2026-10-04T08:00:00Z") },
+      { taskId: "t1", dueAt: at("2026-10-05T09:00:00Z"), completedAt: at("2026-10-05T08:00:00Z") },
+    ]);
+    expect(result.days.map((d) => d.completed)).toEqual([0, 0, 1, 1, 1]);
+    expect(result.totals.onTime).toBe(3);
+  });
+});
@@ -0,0 +1,225 @@
+import { completionHistories, doneOn } from "@/lib/completions";
+import { dayKey, shiftDayKey } from "@/lib/day-plan";
+import type { DayPlan, PlanSection } from "@/lib/types";
+import { weekStartKey } from "@/lib/weekly-review";
+
+// Trends for the Analytics module. The server loads the rows for a date range
+// (GET /api/analytics) and buildAnalytics turns them into one series per day in
+// the user's timezone plus a few totals; the client rolls days up into weeks.
+
+export const MAX_ANALYTICS_DAYS = 366;
+export const DEFAULT_ANALYTICS_DAYS = 30;
+
+export type AnalyticsTask = {
+  id: string;
+  projectId: string | null;
+  dueAt: Date | null;
+  completed: boolean;
+  deletedAt: Date | null;
+  createdAt: Date;
+};
+
+// One completed occurrence; a repeating task has one per occurrence done
+export type AnalyticsCompletion = { taskId: string; dueAt: Date | null; completedAt: Date };
+
+export type AnalyticsEntry = { taskId: string; startedAt: Date; endedAt: Date | null };
+export type AnalyticsArticle = { createdAt: Date; readAt: Date | null };
+export type AnalyticsPlan = Pick<DayPlan, "date" | PlanSection>;
+
+export type AnalyticsDay = {
+  date: string;
+  created: number;
+  completed: number;
+  // Open tasks past due at the end of the day (or now, for today)
+  overdue: number;
+  planned: number;
+  planDone: number;
+  saved: number;
+  read: number;
+};
+
+export type ProjectThroughput = { id: string | null; title: string; created: number; completed: number };
+
+export type Analytics = {
+  from: string;
+  to: string;
+  days: AnalyticsDay[];
+  totals: {
+    created: number;
+    completed: number;
+    onTime: number;
+    late: number;
+    // Completed tasks that had no due date, so are neither
+    undated: number;
+    planned: number;
+    planDone: number;
+    saved: number;
+    read: number;
+  };
+  // Tracked time on the tasks completed in the range
+  inProgress: { tasks: number; totalMinutes: number; medianMinutes: number };
+  projects: ProjectThroughput[];
+};
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function buildAnalytics({ from, to, timeZone, now, tasks, completions, entries, plans, articles, projects }: {
+  from: string;
+  to: string;
+  timeZone: string | null;
+  now: Date;
+  // Everything that could count in the range: created or completed in it, or
+  // still open with a due date before its end
+  tasks: AnalyticsTask[];
+  // Completions in the range, plus later ones of occurrences due before its end
+  completions: AnalyticsCompletion[];
+  entries: AnalyticsEntry[];
+  plans: AnalyticsPlan[];
+  articles: AnalyticsArticle[];
+  projects: Array<{ id: string; title: string }>;
+}): Analytics {
+  const key = (at: Date) => dayKey(at, timeZone);
+  const today = key(now);
+  const inRange = (day: string) => day >= from && day <= to;
+
+  const days: AnalyticsDay[] = [];
+  for (let date = from; date <= to; date = shiftDayKey(date, 1)) {
+    days.push({ date, created: 0, completed: 0, overdue: 0, planned: 0, planDone: 0, saved: 0, read: 0 });
+  }
+  const byDate = new Map(days.map((d) => [d.date, d]));
+
+  const totals = { created: 0, completed: 0, onTime: 0, late: 0, undated: 0, planned: 0, planDone: 0, saved: 0, read: 0 };
+  const projectTitle = new Map(projects.map((p) => [p.id, p.title]));
+  const throughput = new Map<string | null, ProjectThroughput>();
+  const throughputOf = (id: string | null) => {
+    if (!throughput.has(id)) throughput.set(id, { id, title: id ? projectTitle.get(id) ?? "Deleted project" : "No project", created: 0, completed: 0 });
+    return throughput.get(id)!;
+  };
+  const completedIds = new Set<string>();
+  const taskById = new Map(tasks.map((t) => [t.id, t]));
+
+  // Each occurrence is overdue from its due date until it was completed; the
+  // current one of an open task until now
+  const overdueSpans: Array<{ task: AnalyticsTask; dueAt: Date; doneDay: string | null }> = [];
+
+  for (const completion of completions) {
+    const task = taskById.get(completion.taskId);
+    if (!task) continue;
+    const completed = key(completion.completedAt);
+    if (completion.dueAt) overdueSpans.push({ task, dueAt: completion.dueAt, doneDay: completed });
+    if (!inRange(completed)) continue;
+
+    byDate.get(completed)!.completed++;
+    totals.completed++;
+    throughputOf(task.projectId).completed++;
+    completedIds.add(task.id);
+    if (!completion.dueAt) totals.undated++;
+    else if (completion.completedAt <= completion.dueAt) totals.onTime++;
+    else totals.late++;
+  }
+
+  for (const task of tasks) {
+    const created = key(task.createdAt);
+    if (inRange(created)) {
+      byDate.get(created)!.created++;
+      totals.created++;
+      throughputOf(task.projectId).created++;
+    }
+    if (!task.completed && task.dueAt) overdueSpans.push({ task, dueAt: task.dueAt, doneDay: null });
+  }
+
+  for (const { task, dueAt, doneDay } of overdueSpans) {
+    const created = key(task.createdAt);
+    const deleted = task.deletedAt && key(task.deletedAt);
+    const due = key(dueAt);
+    for (const day of days) {
+      if (day.date < created || day.date > today) continue;
+      if (doneDay && doneDay <= day.date) continue;
+      if (deleted && deleted <= day.date) continue;
+      if (day.date === today ? dueAt < now : due <= day.date) day.overdue++;
+    }
+  }
+
+  const loaded = new Set(tasks.map((t) => t.id));
+  const histories = completionHistories(completions, new Set(tasks.filter((t) => t.completed).map((t) => t.id)), timeZone);
+  for (const plan of plans) {
+    const day = byDate.get(plan.date);
+    if (!day) continue;
+    // Only tasks loaded for the range (so within the chosen space) count
+    const ids = [...plan.critical, ...plan.important, ...plan.light].filter((id) => loaded.has(id));
+    day.planned += ids.length;
+    day.planDone += ids.filter((id) => doneOn(histories.get(id), plan.date)).length;
+  }
+
+  for (const article of articles) {
+    const saved = key(article.createdAt);
+    const read = article.readAt && key(article.readAt);
+    if (inRange(saved)) byDate.get(saved)!.saved++;
+    if (read && inRange(read)) byDate.get(read)!.read++;
+  }
+
+  for (const day of days) {
+    totals.planned += day.planned;
+    totals.planDone += day.planDone;
+    totals.saved += day.saved;
+    totals.read += day.read;
+  }
+
+  const tracked = new Map<string, number>();
+  for (const entry of entries) {
+    if (!completedIds.has(entry.taskId)) continue;
+    const end = entry.endedAt ?? now;
+    const minutes = Math.max(end.getTime() - entry.startedAt.getTime(), 0) / 60000;
+    tracked.set(entry.taskId, (tracked.get(entry.taskId) ?? 0) + minutes);
+  }
+  const minutes = [...tracked.values()].filter((m) => m > 0);
+
+  return {
+    from,
+    to,
+    days,
+    totals,
+    inProgress: {
+      tasks: minutes.length,
+      totalMinutes: Math.round(minutes.reduce((sum, m) => sum + m, 0)),
+      medianMinutes: Math.round(median(minutes)),
+    },
+    projects: [...throughput.values()]
+      .filter((p) => p.completed > 0 || p.created > 0)
+      .sort((a, b) => b.completed - a.completed || b.created - a.created),
+  };
+}
+
+/**
+ * The daily series summed per Monday-to-Sunday week (keyed by its Monday).
+ * The overdue backlog is a level, not a flow, so a week shows its last day's.
+ */
+export function weeklySeries(days: AnalyticsDay[]): AnalyticsDay[] {
+  const weeks = new Map<string, AnalyticsDay>();
+  for (const day of days) {
+    const week = weekStartKey(day.date);
+    const sum = weeks.get(week);
+    if (!sum) {
+      weeks.set(week, { ...day, date: week });
+      continue;
+    }
+    sum.created += day.created;
+    sum.completed += day.completed;
+    sum.overdue = day.overdue;
+    sum.planned += day.planned;
+    sum.planDone += day.planDone;
+    sum.saved += day.saved;
+    sum.read += day.read;
+  }
+  return [...weeks.values()];
+}
+
+/** Whole percent, or null when there is nothing to divide by. */
+export function rate(part: number, whole: number) {
+  return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
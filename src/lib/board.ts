@@ -0,0 +1,70 @@
+import type { BoardColumn, BoardColumnStatus, Project, Task } from "@/lib/types";
+
+// Kanban columns for a project board. Each column maps to one of the task
+// states the rest of the app understands (open / in progress / done), so
+// dropping a card into a column sets completed and inProgress to match and the
+// list views, reminders and calendar sync keep working off those flags.
+
+export const BOARD_COLUMN_STATUSES: BoardColumnStatus[] = ["open", "in-progress", "done"];
+
+export const BOARD_STATUS_LABEL: Record<BoardColumnStatus, string> = {
+  open: "Open",
+  "in-progress": "In progress",
+  done: "Done",
+};
+
+export const MAX_BOARD_COLUMNS = 12;
+
+// Used until the user edits the columns; fixed ids so cards dropped into them
+// stay put once the columns are saved
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = [
+  { id: "backlog", name: "Backlog", status: "open" },
+  { id: "doing",   name: "Doing",   status: "in-progress" },
+  { id: "review",  name: "Review",  status: "in-progress" },
+  { id: "done",    name: "Done",    status: "done" },
+];
+
+export function boardColumns(project: Pick<Project, "boardColumns">): BoardColumn[] {
+  return project.boardColumns?.length ? project.boardColumns : DEFAULT_BOARD_COLUMNS;
+}
+
+export function taskBoardStatus(task: Pick<Task, "completed" | "inProgress">): BoardColumnStatus {
+  if (task.completed) return "done";
+  return task.inProgress ? "in-progress" : "open";
+}
+
+/**
+ * The column a card sits in: its stored column while that still agrees with
+ * the task's state (it may have been completed from a list view since), else
+ * the first column for that state.
+ */
+export function columnForTask(task: Pick<Task, "completed" | "inProgress" | "boardColumn">, columns: BoardColumn[]) {
+  const status = taskBoardStatus(task);
+  const stored = columns.find((c) => c.id === task.boardColumn);
+  if (stored && stored.status === status) return stored;
+  return columns.find((c) => c.status === status) ?? columns[0];
+}
+
+/** The task patch for dropping a card into the column. */
+export function columnPatch(column: BoardColumn) {
+  return {
+    boardColumn: column.id,
+    completed: column.status === "done",
+    inProgress: column.status === "in-progress",
+  };
+}
+
+/** Validates a `boardColumns` body field; null when it's malformed. */
+export function parseBoardColumns(value: unknown): BoardColumn[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_BOARD_COLUMNS) return null;
+  const columns: BoardColumn[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") return null;
+    const { id, name, status } = item as Record<string, unknown>;
+    if (typeof id !== "string" || !id || typeof name !== "string" || !name.trim()) return null;
+    if (!BOARD_COLUMN_STATUSES.includes(status as BoardColumnStatus)) return null;
+    if (columns.some((c) => c.id === id)) return null;
+    columns.push({ id, name: name.trim(), status: status as BoardColumnStatus });
+  }
+  return columns;
+}
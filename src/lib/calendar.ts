@@ -1,3 +1,5 @@
+import { isTimeZone, localDateTime } from "@/lib/day-plan";
+import { userTimeZone } from "@/lib/plan-store";
 import { prisma } from "@/lib/prisma";
 
 type GoogleEventDateTime = {
@@ -176,6 +178,31 @@ function buildDescription(opts: {
   return lines.join("\n");
 }
 
+// Timed events are written as wall-clock times in the user's zone. Google needs
+// a zone on recurring events, and anchoring the series there keeps it on the
+// same local hour across DST changes, as lib/recurrence does for the task.
+// Until the browser has reported a zone they fall back to UTC. All-day events
+// take bare dates, read from the UTC day of startAt and endAt.
+function eventTiming(input: TaskCalendarInput, timeZone: string | null) {
+  if (input.allDay) {
+    return {
+      start: { date: input.startAt.toISOString().slice(0, 10) },
+      end:   { date: input.endAt.toISOString().slice(0, 10) },
+    };
+  }
+  if (isTimeZone(timeZone)) {
+    return {
+      start: { dateTime: localDateTime(input.startAt, timeZone), timeZone },
+      end:   { dateTime: localDateTime(input.endAt, timeZone), timeZone },
+    };
+  }
+  const utc = input.recurrence ? { timeZone: "UTC" } : {};
+  return {
+    start: { dateTime: input.startAt.toISOString(), ...utc },
+    end:   { dateTime: input.endAt.toISOString(), ...utc },
+  };
+}
+
 export type TaskCalendarInput = {
   title: string;
   startAt: Date;
@@ -185,21 +212,68 @@ export type TaskCalendarInput = {
   checklist?: Array<{ text: string; done: boolean }> | null;
   completed?: boolean;
   inProgress?: boolean;
+  // RRULE body (no "RRULE:" prefix) — makes the Google event a series
+  recurrence?: string | null;
+  // endAt is then the exclusive day after the last one (milestones)
+  allDay?: boolean;
   // Legacy fields used by the CalendarEvent (meetings) route
   participants?: string[];
   location?: string | null;
   meetLink?: string | null;
 };
 
+function createEventPayload(input: TaskCalendarInput, timeZone: string | null) {
+  const completed  = input.completed  ?? false;
+  const inProgress = input.inProgress ?? false;
+  const overdue    = !completed && (input.allDay ? input.endAt : input.startAt).getTime() < Date.now();
+
+  return {
+    summary: input.title,
+    ...eventTiming(input, timeZone),
+    ...(input.recurrence && { recurrence: [`RRULE:${input.recurrence}`] }),
+    colorId: taskColorId({ inProgress, completed, overdue }),
+    description: buildDescription({
+      notes: input.meetLink ? `${input.notes ?? ""}\nMeet link: ${input.meetLink}`.trim() : input.notes,
+      projectName: input.projectName,
+      checklist: input.checklist,
+      completed,
+      inProgress,
+    }),
+    ...(input.participants?.length && {
+      attendees: input.participants.filter(Boolean).map((email) => ({ email: email.trim() })),
+    }),
+    ...(input.location && { location: input.location }),
+  };
+}
+
+function updateEventPayload(input: TaskCalendarInput, timeZone: string | null) {
+  const completed  = input.completed  ?? false;
+  const inProgress = input.inProgress ?? false;
+  const overdue    = !completed && (input.allDay ? input.endAt : input.startAt).getTime() < Date.now();
+
+  return {
+    summary: input.title,
+    ...eventTiming(input, timeZone),
+    ...(input.recurrence !== undefined && {
+      recurrence: input.recurrence ? [`RRULE:${input.recurrence}`] : [],
+    }),
+    colorId: taskColorId({ inProgress, completed, overdue }),
+    description: buildDescription({
+      notes: input.notes,
+      projectName: input.projectName,
+      checklist: input.checklist,
+      completed,
+      inProgress,
+    }),
+  };
+}
+
 export async function createGoogleCalendarEvent(
   userId: string,
   input: TaskCalendarInput
 ) {
   const accessToken = await getGoogleAccessTokenForUser(userId);
-
-  const completed  = input.completed  ?? false;
-  const inProgress = input.inProgress ?? false;
-  const overdue    = !completed && input.startAt.getTime() < Date.now();
+  const timeZone = await userTimeZone(userId);
 
   const response = await fetch(
     "https://www.googleapis.com/calendar/v3/calendars/primary/events",
@@ -209,23 +283,7 @@ export async function createGoogleCalendarEvent(
         Authorization: `Bearer ${accessToken}`,
         "Content-Type": "application/json"
       },
-      body: JSON.stringify({
-        summary: input.title,
-        start: { dateTime: input.startAt.toISOString() },
-        end:   { dateTime: input.endAt.toISOString() },
-        colorId: taskColorId({ inProgress, completed, overdue }),
-        description: buildDescription({
-          notes: input.meetLink ? `${input.notes ?? ""}\nMeet link: ${input.meetLink}`.trim() : input.notes,
-          projectName: input.projectName,
-          checklist: input.checklist,
-          completed,
-          inProgress,
-        }),
-        ...(input.participants?.length && {
-          attendees: input.participants.filter(Boolean).map((email) => ({ email: email.trim() })),
-        }),
-        ...(input.location && { location: input.location }),
-      })
+      body: JSON.stringify(createEventPayload(input, timeZone))
     }
   );
 
@@ -247,10 +305,7 @@ export async function updateGoogleCalendarEvent(
   input: TaskCalendarInput
 ) {
   const accessToken = await getGoogleAccessTokenForUser(userId);
-
-  const completed  = input.completed  ?? false;
-  const inProgress = input.inProgress ?? false;
-  const overdue    = !completed && input.startAt.getTime() < Date.now();
+  const timeZone = await userTimeZone(userId);
 
   const response = await fetch(
     `https://www.googleapis.com/calendar/v3/calendars/primary/events/${eventId}`,
@@ -260,19 +315,7 @@ export async function updateGoogleCalendarEvent(
         Authorization: `Bearer ${accessToken}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        summary: input.title,
-        start: { dateTime: input.startAt.toISOString() },
-        end:   { dateTime: input.endAt.toISOString() },
-        colorId: taskColorId({ inProgress, completed, overdue }),
-        description: buildDescription({
-          notes: input.notes,
-          projectName: input.projectName,
-          checklist: input.checklist,
-          completed,
-          inProgress,
-        }),
-      }),
+      body: JSON.stringify(updateEventPayload(input, timeZone)),
     }
   );
 
@@ -300,6 +343,97 @@ export async function deleteGoogleCalendarEvent(userId: string, eventId: string)
   }
 }
 
+// ── Batch requests ──────────────────────────────────────────────────────────
+// Google's batch endpoint takes up to 50 calls per multipart request, so bulk
+// task edits cost one round trip per 50 events instead of one each.
+
+const BATCH_URL = "https://www.googleapis.com/batch/calendar/v3";
+const BATCH_LIMIT = 50;
+
+export type CalendarBatchOp =
+  | { kind: "create"; input: TaskCalendarInput }
+  | { kind: "update"; eventId: string; input: TaskCalendarInput }
+  | { kind: "delete"; eventId: string };
+
+// externalId is set for successful creates
+export type CalendarBatchResult = { ok: boolean; externalId?: string; error?: string };
+
+function batchPart(op: CalendarBatchOp, index: number, timeZone: string | null) {
+  const base = "/calendar/v3/calendars/primary/events";
+  const request = op.kind === "create"
+    ? { line: `POST ${base}`, body: createEventPayload(op.input, timeZone) }
+    : op.kind === "update"
+      ? { line: `PATCH ${base}/${encodeURIComponent(op.eventId)}`, body: updateEventPayload(op.input, timeZone) }
+      : { line: `DELETE ${base}/${encodeURIComponent(op.eventId)}`, body: null };
+
+  return [
+    "Content-Type: application/http",
+    `Content-ID: <item-${index}>`,
+    "",
+    request.line,
+    ...(request.body ? ["Content-Type: application/json", "", JSON.stringify(request.body)] : [""]),
+  ].join("\r\n");
+}
+
+function parseBatchResponse(text: string, boundary: string, ops: CalendarBatchOp[], offset: number) {
+  const results: CalendarBatchResult[] = ops.map(() => ({ ok: false, error: "Missing from batch response" }));
+
+  for (const part of text.split(`--${boundary}`)) {
+    const id = /Content-ID:\s*<response-item-(\d+)>/i.exec(part);
+    const status = /HTTP\/1\.1 (\d{3})/.exec(part);
+    if (!id || !status) continue;
+
+    const index = Number(id[1]) - offset;
+    const op = ops[index];
+    if (!op) continue;
+
+    const code = Number(status[1]);
+    const json = part.slice(part.indexOf("{"), part.lastIndexOf("}") + 1);
+    // 404/410 on delete means the event is already gone
+    const ok = (code >= 200 && code < 300) || (op.kind === "delete" && (code === 404 || code === 410));
+    let externalId: string | undefined;
+    if (ok && op.kind === "create" && json) {
+      try { externalId = (JSON.parse(json) as GoogleEvent).id; } catch { /* leave unset */ }
+    }
+    results[index] = ok ? { ok, externalId } : { ok, error: `HTTP ${code}${json ? `: ${json}` : ""}` };
+  }
+
+  return results;
+}
+
+export async function batchGoogleCalendarEvents(userId: string, ops: CalendarBatchOp[]): Promise<CalendarBatchResult[]> {
+  if (ops.length === 0) return [];
+  const accessToken = await getGoogleAccessTokenForUser(userId);
+  const timeZone = await userTimeZone(userId);
+
+  const results: CalendarBatchResult[] = [];
+  for (let offset = 0; offset < ops.length; offset += BATCH_LIMIT) {
+    const chunk = ops.slice(offset, offset + BATCH_LIMIT);
+    const boundary = `batch_suru_${Date.now()}_${offset}`;
+    const body = chunk.map((op, i) => `--${boundary}\r\n${batchPart(op, offset + i, timeZone)}`).join("\r\n") + `\r\n--${boundary}--`;
+
+    const response = await fetch(BATCH_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": `multipart/mixed; boundary=${boundary}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      results.push(...chunk.map(() => ({ ok: false, error: `Batch request failed: ${details}` })));
+      continue;
+    }
+
+    const responseBoundary = /boundary=([^;]+)/.exec(response.headers.get("Content-Type") ?? "")?.[1] ?? boundary;
+    results.push(...parseBatchResponse(await response.text(), responseBoundary, chunk, offset));
+  }
+
+  return results;
+}
+
 export async function syncGoogleEventsToLocal(userId: string) {
   const googleEvents = await listGoogleCalendarEvents(userId);
 
@@ -0,0 +1,33 @@
+import { dayKey } from "@/lib/day-plan";
+
+// Reading the completion log (TaskCompletion rows). A repeating task is
+// completed once per occurrence and stays open, so "is it done?" depends on
+// the day being asked about.
+
+export type CompletionRow = { taskId: string; completedAt: Date };
+
+export type TaskHistory = {
+  // Days it was completed on, in the user's timezone
+  days: Set<string>;
+  // Day of its last completion when it's closed now; null while it's open
+  closedOn: string | null;
+};
+
+/** Histories by task id; `closedIds` are the tasks that are completed now. */
+export function completionHistories(rows: CompletionRow[], closedIds: Set<string>, timeZone: string | null) {
+  const histories = new Map<string, TaskHistory>();
+  for (const row of rows) {
+    const day = dayKey(row.completedAt, timeZone);
+    const history = histories.get(row.taskId) ?? { days: new Set<string>(), closedOn: null };
+    history.days.add(day);
+    if (closedIds.has(row.taskId) && (history.closedOn ?? "") < day) history.closedOn = day;
+    histories.set(row.taskId, history);
+  }
+  return histories;
+}
+
+/** Done on `day`: completed that day, or closed for good on or before it. */
+export function doneOn(history: TaskHistory | undefined, day: string) {
+  if (!history) return false;
+  return history.days.has(day) || (history.closedOn !== null && history.closedOn <= day);
+}
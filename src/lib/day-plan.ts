@@ -0,0 +1,143 @@
+import { PLAN_SECTIONS } from "@/lib/types";
+import type { DayPlan, PlanSection } from "@/lib/types";
+
+// Dates for the Today plan. A plan belongs to a calendar day in the user's own
+// timezone, so "today" is worked out there rather than from the UTC date.
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const MAX_PLAN_TASKS = 100;
+
+export const PLAN_SECTION_LABEL: Record<PlanSection, string> = { critical: "Critical", important: "Important", light: "Light lifts" };
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** "YYYY-MM-DD" for the moment in the zone (the runtime's own when unset or unknown). */
+export function dayKey(at: Date, timeZone?: string | null) {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    ...(isTimeZone(timeZone) && { timeZone }),
+  }).format(at);
+}
+
+/** The hour (0–23) on the wall clock in the zone. */
+export function localHour(at: Date, timeZone?: string | null) {
+  const hour = new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", ...(isTimeZone(timeZone) && { timeZone }) }).format(at);
+  return Number(hour);
+}
+
+export type WallClock = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+/** The date and time on the wall clock in the zone (the runtime's own when unset or unknown). */
+export function wallClock(at: Date, timeZone?: string | null): WallClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+    ...(isTimeZone(timeZone) && { timeZone }),
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day"), hour: part("hour"), minute: part("minute"), second: part("second") };
+}
+
+// How far the zone's wall clock is ahead of UTC at that moment
+function zoneOffset(at: Date, timeZone?: string | null) {
+  const c = wallClock(at, timeZone);
+  return Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second) - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/** The moment the zone's wall clock reads `clock`. */
+export function fromWallClock(clock: WallClock, timeZone?: string | null) {
+  const wall = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  // A second pass picks up an offset change between the guess and the answer
+  const guess = wall - zoneOffset(new Date(wall), timeZone);
+  return new Date(wall - zoneOffset(new Date(guess), timeZone));
+}
+
+/** The moment a day key and "HH:MM" wall-clock time fall on in the zone. */
+export function zonedTime(key: string, time: string, timeZone?: string | null) {
+  const [year, month, day] = key.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return fromWallClock({ year, month, day, hour, minute, second: 0 }, timeZone);
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** "HH:MM" on the wall clock in the zone. */
+export function localTime(at: Date, timeZone?: string | null) {
+  const { hour, minute } = wallClock(at, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+/** "YYYY-MM-DDTHH:MM:SS" on the wall clock in the zone, with no offset. */
+export function localDateTime(at: Date, timeZone?: string | null) {
+  const c = wallClock(at, timeZone);
+  return `${c.year}-${pad(c.month)}-${pad(c.day)}T${pad(c.hour)}:${pad(c.minute)}:${pad(c.second)}`;
+}
+
+export function todayKey(timeZone?: string | null) {
+  return dayKey(new Date(), timeZone);
+}
+
+export function browserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isDayKey(value: unknown): value is string {
+  if (typeof value !== "string" || !DAY_KEY.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/** The day key `days` after (or before, when negative) the given one. */
+export function shiftDayKey(key: string, days: number) {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function emptyPlan(date: string): DayPlan {
+  return { date, critical: [], important: [], light: [] };
+}
+
+export function planTaskIds(plan: Pick<DayPlan, PlanSection>) {
+  return PLAN_SECTIONS.flatMap((section) => plan[section]);
+}
+
+export function sectionOfTask(plan: Pick<DayPlan, PlanSection>, id: string): PlanSection | null {
+  return PLAN_SECTIONS.find((section) => plan[section].includes(id)) ?? null;
+}
+
+/**
+ * Validates the sections of a PUT body. Sections left out are returned as
+ * undefined; a task id listed twice keeps only its first place.
+ */
+export function parsePlanSections(body: Record<string, unknown>): { data: Partial<Record<PlanSection, string[]>> } | { error: string } {
+  const data: Partial<Record<PlanSection, string[]>> = {};
+  const seen = new Set<string>();
+  for (const section of PLAN_SECTIONS) {
+    const value = body[section];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some((id) => typeof id !== "string" || !id)) {
+      return { error: `${section} must be a list of task ids` };
+    }
+    data[section] = (value as string[]).filter((id) => !seen.has(id) && seen.add(id));
+  }
+  if (seen.size > MAX_PLAN_TASKS) return { error: `A day plan holds at most ${MAX_PLAN_TASKS} tasks` };
+  return { data };
+}
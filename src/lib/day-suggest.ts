@@ -0,0 +1,153 @@
+import { dayKey, planTaskIds } from "@/lib/day-plan";
+import { isBlocked } from "@/lib/dependencies";
+import type { DayPlan, PlanSection } from "@/lib/types";
+
+// "Suggest my day": scores the open tasks that aren't planned yet and fills
+// the Today sections, leaving less room when the calendar is already busy.
+// Every suggestion carries the reasons it was picked.
+
+export type SuggestTask = {
+  id: string;
+  title: string;
+  completed: boolean;
+  inProgress: boolean;
+  pinned: boolean;
+  dueAt: Date | null;
+  priority: string | null;
+  projectId: string | null;
+  parentId: string | null;
+  sortKey: string;
+  createdAt: Date;
+  blockedByIds: string[];
+};
+
+export type SuggestEvent = { startAt: Date; endAt: Date };
+
+export type DaySuggestion = { taskId: string; section: PlanSection; reasons: string[] };
+
+export type DaySuggestions = {
+  date: string;
+  meetingMinutes: number;
+  note: string | null;
+  suggestions: DaySuggestion[];
+};
+
+const WORKDAY_MINUTES = 8 * 60;
+
+// A task needs at least this score to lead the day
+const CRITICAL_SCORE = 40;
+
+function capacity(freeMinutes: number): Record<PlanSection, number> {
+  if (freeMinutes >= 6 * 60) return { critical: 3, important: 4, light: 5 };
+  if (freeMinutes >= 4 * 60) return { critical: 2, important: 3, light: 4 };
+  if (freeMinutes >= 2 * 60) return { critical: 1, important: 2, light: 3 };
+  return { critical: 1, important: 1, light: 2 };
+}
+
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function formatHours(minutes: number) {
+  const hours = minutes / 60;
+  return Number.isInteger(hours) ? `${hours} h` : `${hours.toFixed(1)} h`;
+}
+
+/** Meeting time on the day; all-day and multi-day events don't count as load. */
+export function meetingMinutes(events: SuggestEvent[], date: string, timeZone: string | null) {
+  return events
+    .filter((e) => dayKey(e.startAt, timeZone) === date)
+    .map((e) => (e.endAt.getTime() - e.startAt.getTime()) / 60000)
+    .filter((minutes) => minutes > 0 && minutes < 24 * 60)
+    .reduce((sum, minutes) => sum + minutes, 0);
+}
+
+export function suggestDayPlan({ tasks, activeProjects, events, plan, timeZone }: {
+  tasks: SuggestTask[];
+  activeProjects: Array<{ id: string; title: string }>;
+  events: SuggestEvent[];
+  plan: DayPlan;
+  timeZone: string | null;
+}): DaySuggestions {
+  const date = plan.date;
+  const planned = new Set(planTaskIds(plan));
+  const open = tasks.filter((t) => !t.completed);
+
+  // The first open task (in manual order) of each active project is its next action
+  const nextInProject = new Map<string, string>();
+  for (const project of activeProjects) {
+    const next = open
+      .filter((t) => t.projectId === project.id && !isBlocked(t, open))
+      .sort((a, b) => (a.sortKey < b.sortKey ? -1 : a.sortKey > b.sortKey ? 1 : b.createdAt.getTime() - a.createdAt.getTime()))[0];
+    if (next) nextInProject.set(next.id, project.title);
+  }
+
+  const scored = open
+    .filter((t) => !planned.has(t.id) && !isBlocked(t, open))
+    .map((task) => {
+      const reasons: string[] = [];
+      let score = 0;
+      if (task.dueAt) {
+        const due = dayKey(task.dueAt, timeZone);
+        const late = daysBetween(due, date);
+        if (late > 0) {
+          reasons.push(`Overdue by ${late} day${late === 1 ? "" : "s"}`);
+          score += 50 + Math.min(late, 10);
+        } else if (late === 0) {
+          reasons.push("Due today");
+          score += 40;
+        } else if (late === -1) {
+          reasons.push("Due tomorrow");
+          score += 10;
+        }
+      }
+      if (task.inProgress) {
+        reasons.push("Already in progress");
+        score += 25;
+      }
+      if (task.pinned) {
+        reasons.push("Pinned");
+        score += 20;
+      }
+      if (task.priority === "high") {
+        reasons.push("High priority");
+        score += 15;
+      } else if (task.priority === "medium") {
+        score += 5;
+      }
+      const project = nextInProject.get(task.id);
+      if (project) {
+        reasons.push(`Next up in ${project}`);
+        score += 10;
+      }
+      return { task, reasons, score };
+    })
+    .filter((s) => s.reasons.length > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const minutes = meetingMinutes(events, date, timeZone);
+  const slots = capacity(Math.max(0, WORKDAY_MINUTES - minutes));
+  const room = {
+    critical: Math.max(0, slots.critical - plan.critical.length),
+    important: Math.max(0, slots.important - plan.important.length),
+    light: Math.max(0, slots.light - plan.light.length),
+  };
+
+  const suggestions: DaySuggestion[] = [];
+  for (const { task, reasons, score } of scored) {
+    // Low-stakes items (no deadline pressure, low priority) make good light lifts
+    const section: PlanSection | undefined =
+      score >= CRITICAL_SCORE && room.critical > 0 ? "critical"
+      : task.priority !== "low" && room.important > 0 ? "important"
+      : room.light > 0 ? "light"
+      : undefined;
+    if (!section) continue;
+    room[section]--;
+    suggestions.push({ taskId: task.id, section, reasons });
+  }
+
+  const note = minutes >= 60
+    ? `${formatHours(minutes)} of meetings today${minutes >= 4 * 60 ? " — suggesting a lighter plan" : ""}`
+    : null;
+  return { date, meetingMinutes: minutes, note, suggestions };
+}
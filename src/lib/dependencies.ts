@@ -0,0 +1,25 @@
+// "Blocked by" links between tasks. The API flattens the TaskDependency rows
+// into a blockedByIds array on each task; a task is blocked while any of those
+// blockers is still open.
+
+type DependencyTask = { id: string; completed: boolean; blockedByIds?: string[] };
+
+/**
+ * Prisma include that loads the blocker ids needed by `withBlockedByIds`.
+ * Blockers sitting in the trash no longer hold anything up.
+ */
+export const BLOCKED_BY_INCLUDE = { blockedBy: { where: { blocker: { deletedAt: null } }, select: { blockerId: true } } } as const;
+
+export function withBlockedByIds<T extends { blockedBy: Array<{ blockerId: string }> }>({ blockedBy, ...task }: T) {
+  return { ...task, blockedByIds: blockedBy.map((d) => d.blockerId) };
+}
+
+export function openBlockers<T extends DependencyTask>(task: T, tasks: T[]): T[] {
+  const ids = new Set(task.blockedByIds ?? []);
+  if (ids.size === 0) return [];
+  return tasks.filter((t) => ids.has(t.id) && !t.completed);
+}
+
+export function isBlocked<T extends DependencyTask>(task: T, tasks: T[]): boolean {
+  return !task.completed && openBlockers(task, tasks).length > 0;
+}
@@ -0,0 +1,82 @@
+// Client helpers for focus (Pomodoro) sessions in the Today view: interval
+// settings, the persisted timer state and the phase-change notifications.
+
+export type FocusSettings = {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  // A long break replaces every Nth short one
+  longBreakEvery: number;
+};
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = { workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, longBreakEvery: 4 };
+
+export type FocusPhase = "work" | "break";
+
+// Everything needed to pick the timer back up after a reload or after leaving
+// the Today view. endsAt is null while paused; remainingMs is then authoritative.
+export type FocusState = {
+  taskId: string;
+  // Kept with the state so phase notices name the task from any module
+  taskTitle: string;
+  phase: FocusPhase;
+  round: number;
+  endsAt: number | null;
+  remainingMs: number;
+  // Start of the current work interval and the focused time banked before any pause
+  workStartedAt: number;
+  focusedMs: number;
+  resumedAt: number | null;
+};
+
+const SETTINGS_KEY = "suru-focus-settings-v1";
+const STATE_KEY = "suru-focus-state-v1";
+
+export function loadFocusSettings(): FocusSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_FOCUS_SETTINGS, ...(JSON.parse(raw) as Partial<FocusSettings>) } : DEFAULT_FOCUS_SETTINGS;
+  } catch {
+    return DEFAULT_FOCUS_SETTINGS;
+  }
+}
+
+export function saveFocusSettings(settings: FocusSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadFocusState(): FocusState | null {
+  try {
+    const raw = localStorage.getItem(STATE_KEY);
+    if (!raw) return null;
+    // Sessions saved before the title was kept still need one for their notices
+    const state = JSON.parse(raw) as Partial<FocusState>;
+    return { ...state, taskTitle: state.taskTitle ?? "your task" } as FocusState;
+  } catch {
+    return null;
+  }
+}
+
+export function saveFocusState(state: FocusState | null) {
+  if (state) localStorage.setItem(STATE_KEY, JSON.stringify(state));
+  else localStorage.removeItem(STATE_KEY);
+}
+
+// Shown through the service worker so it appears while the tab is in the
+// background; one tag so a new phase replaces the previous notice.
+export async function notifyFocus(title: string, body: string) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  const options = { body, tag: "suru-focus", renotify: true, icon: "/icon-192.png", data: { url: "/" } };
+  try {
+    const reg = "serviceWorker" in navigator ? await navigator.serviceWorker.ready : null;
+    if (reg) await reg.showNotification(title, options as NotificationOptions);
+    else new Notification(title, options as NotificationOptions);
+  } catch {
+    try { new Notification(title, options as NotificationOptions); } catch { /* ignore */ }
+  }
+}
+
+export function formatCountdown(ms: number) {
+  const total = Math.max(Math.ceil(ms / 1000), 0);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,97 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { completionHistories } from "@/lib/completions";
+import { dayKey, localHour, todayKey } from "@/lib/day-plan";
+import { GOAL_META, computeStreak, goalProgress, parseGoals, streakDates } from "@/lib/goals";
+import type { GoalDay, GoalStatus } from "@/lib/goals";
+
+// Server side of daily goals: streaks from stored plans and the completion log,
+// and the evening nudge.
+
+// Covers every zone's offset from UTC when picking completions by local day
+const ZONE_SLACK_MS = 14 * 60 * 60 * 1000;
+
+export async function goalStatus(userId: string): Promise<GoalStatus> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { dailyGoals: true, timeZone: true } });
+  const goals = parseGoals(user?.dailyGoals) ?? [];
+  const timeZone = user?.timeZone ?? null;
+  const dates = streakDates(todayKey(timeZone));
+
+  const plans = await prisma.dayPlan.findMany({
+    where: { userId, date: { gte: dates[0] } },
+    select: { date: true, critical: true, important: true, light: true },
+  });
+  // One row per completion, so every occurrence of a repeating task counts
+  const completions = await prisma.taskCompletion.findMany({
+    where: {
+      userId,
+      OR: [
+        { completedAt: { gte: new Date(new Date(`${dates[0]}T00:00:00Z`).getTime() - ZONE_SLACK_MS) } },
+        { taskId: { in: plans.flatMap((p) => [...p.critical, ...p.important, ...p.light]) } },
+      ],
+    },
+    select: { taskId: true, completedAt: true, task: { select: { completed: true } } },
+  });
+
+  const closedIds = new Set(completions.filter((c) => c.task.completed).map((c) => c.taskId));
+  const histories = completionHistories(completions, closedIds, timeZone);
+  const counts = new Map<string, number>();
+  for (const { completedAt } of completions) {
+    const day = dayKey(completedAt, timeZone);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+  const planByDate = new Map(plans.map((p) => [p.date, p]));
+  const days: GoalDay[] = dates.map((date) => ({ date, plan: planByDate.get(date) ?? null, completedCount: counts.get(date) ?? 0 }));
+
+  return {
+    goals,
+    today: goals.map((goal) => goalProgress(goal, days[days.length - 1], histories)),
+    streak: computeStreak(goals, days, histories),
+  };
+}
+
+// ── Evening nudge ───────────────────────────────────────────────────────────
+
+// Later than the day review (see lib/plan-store), so the two don't arrive
+// together. Like it, this relies on the cron running hourly (vercel.json).
+export const GOAL_NUDGE_HOUR = 20;
+
+export const GOAL_NUDGE_SOURCE = "goal-nudge";
+
+/**
+ * Queues one push per user whose daily goals aren't met yet once it's evening
+ * where they are. Called from /api/push/cron on every hourly run, so the nudge
+ * goes out within the hour after GOAL_NUDGE_HOUR; sourceId is the day.
+ */
+export async function queueGoalNudges(now: Date) {
+  const users = await prisma.user.findMany({
+    where: { dailyGoals: { not: Prisma.DbNull }, timeZone: { not: null }, pushSubscriptions: { some: {} } },
+    select: { id: true, timeZone: true },
+  });
+
+  let queued = 0;
+  for (const user of users) {
+    if (localHour(now, user.timeZone) < GOAL_NUDGE_HOUR) continue;
+    const today = todayKey(user.timeZone);
+    const existing = await prisma.scheduledNotification.findFirst({ where: { userId: user.id, sourceType: GOAL_NUDGE_SOURCE, sourceId: today } });
+    if (existing) continue;
+
+    const status = await goalStatus(user.id);
+    const open = status.today.filter((g) => !g.met);
+    if (status.goals.length === 0 || open.length === 0) continue;
+
+    const left = open.map((g) => `${GOAL_META[g.kind].label(g.target)} (${g.done}/${g.total})`).join(", ");
+    await prisma.scheduledNotification.create({
+      data: {
+        userId: user.id,
+        sourceId: today,
+        sourceType: GOAL_NUDGE_SOURCE,
+        title: status.streak.current > 0 ? `Keep your ${status.streak.current}-day streak going` : "Today's goal isn't met yet",
+        body: `Still to do: ${left}.`,
+        scheduledAt: now,
+      },
+    });
+    queued++;
+  }
+  return queued;
+}
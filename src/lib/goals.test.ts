@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { completionHistories } from "@/lib/completions";
+import { computeStreak } from "@/lib/goals";
+import type { GoalDay } from "@/lib/goals";
+
+const dates = ["2026-10-12", "2026-10-13", "2026-10-14"];
+
+// A daily repeating task, completed each morning and rolled on to the next day
+const completions = dates.map((date) => ({ taskId: "daily", completedAt: new Date(`${date}T08:00:00Z`) }));
+const histories = completionHistories(completions, new Set(), "UTC");
+
+const plan = { critical: ["daily"], important: [], light: [] };
+
+describe("computeStreak", () => {
+  it("counts every day a repeating task was completed", () => {
+    const days: GoalDay[] = dates.map((date) => ({ date, plan, completedCount: 1 }));
+    expect(computeStreak([{ kind: "critical", target: 1 }], days, histories)).toEqual({ current: 3, best: 3, todayMet: true });
+  });
+
+  it("breaks on a day the repeating task was skipped", () => {
+    const skipped = completionHistories(completions.filter((_, i) => i !== 1), new Set(), "UTC");
+    const days: GoalDay[] = dates.map((date) => ({ date, plan, completedCount: 1 }));
+    expect(computeStreak([{ kind: "critical", target: 1 }], days, skipped)).toEqual({ current: 1, best: 1, todayMet: true });
+  });
+
+  it("treats a closed task as done from its completion day on", () => {
+    const closed = completionHistories([completions[0]], new Set(["daily"]), "UTC");
+    const days: GoalDay[] = dates.map((date) => ({ date, plan, completedCount: 0 }));
+    expect(computeStreak([{ kind: "critical", target: 1 }], days, closed)).toEqual({ current: 3, best: 3, todayMet: true });
+  });
+});
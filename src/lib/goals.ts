@@ -0,0 +1,87 @@
+import { shiftDayKey } from "@/lib/day-plan";
+import { doneOn } from "@/lib/completions";
+import type { TaskHistory } from "@/lib/completions";
+import { GOAL_KINDS } from "@/lib/types";
+import type { DailyGoal, DayPlan, GoalKind, PlanSection } from "@/lib/types";
+
+// Daily goals and streaks. A day counts towards the streak when every goal was
+// met by its end; days are calendar days in the user's timezone. Goals are
+// checked against the current settings, so changing them rewrites history.
+
+export const MAX_TASKS_TARGET = 50;
+
+// How far back streaks are counted
+export const STREAK_WINDOW_DAYS = 365;
+
+export const GOAL_META: Record<GoalKind, { label: (target: number) => string }> = {
+  critical: { label: () => "Finish all Critical items" },
+  plan:     { label: () => "Finish the whole Today plan" },
+  tasks:    { label: (target) => `Complete ${target} task${target === 1 ? "" : "s"}` },
+};
+
+export const DEFAULT_GOALS: DailyGoal[] = [{ kind: "critical", target: 1 }];
+
+/** Validates stored or submitted goals: one per kind, targets within bounds. Null when invalid. */
+export function parseGoals(value: unknown): DailyGoal[] | null {
+  if (!Array.isArray(value)) return null;
+  const goals: DailyGoal[] = [];
+  for (const item of value as Array<{ kind?: unknown; target?: unknown }>) {
+    if (!GOAL_KINDS.includes(item?.kind as GoalKind) || goals.some((g) => g.kind === item.kind)) return null;
+    const target = item.kind === "tasks" ? item.target : 1;
+    if (typeof target !== "number" || !Number.isInteger(target) || target < 1 || target > MAX_TASKS_TARGET) return null;
+    goals.push({ kind: item.kind as GoalKind, target });
+  }
+  return goals;
+}
+
+// One day as the goals see it: its Today plan, if any, and how many tasks were
+// completed on it. Plan goals also need each task's completion history, since a
+// repeating task is completed again on every occurrence.
+export type GoalDay = {
+  date: string;
+  plan: Pick<DayPlan, PlanSection> | null;
+  completedCount: number;
+};
+
+export type GoalProgress = DailyGoal & { done: number; total: number; met: boolean };
+
+export function goalProgress(goal: DailyGoal, day: GoalDay, histories: Map<string, TaskHistory>): GoalProgress {
+  if (goal.kind === "tasks") {
+    return { ...goal, done: day.completedCount, total: goal.target, met: day.completedCount >= goal.target };
+  }
+  const ids = day.plan ? (goal.kind === "critical" ? day.plan.critical : [...day.plan.critical, ...day.plan.important, ...day.plan.light]) : [];
+  const done = ids.filter((id) => doneOn(histories.get(id), day.date)).length;
+  // An empty plan doesn't meet a plan goal
+  return { ...goal, done, total: ids.length, met: ids.length > 0 && done === ids.length };
+}
+
+export type Streak = { current: number; best: number; todayMet: boolean };
+
+export type GoalStatus = { goals: DailyGoal[]; today: GoalProgress[]; streak: Streak };
+
+/**
+ * Days must run oldest to newest and end today. The current streak counts back
+ * from today when today's goals are already met, otherwise from yesterday,
+ * since today isn't over yet.
+ */
+export function computeStreak(goals: DailyGoal[], days: GoalDay[], histories: Map<string, TaskHistory>): Streak {
+  if (goals.length === 0 || days.length === 0) return { current: 0, best: 0, todayMet: false };
+  const met = days.map((day) => goals.every((goal) => goalProgress(goal, day, histories).met));
+
+  let best = 0;
+  let run = 0;
+  for (const ok of met) {
+    run = ok ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+
+  const todayMet = met[met.length - 1];
+  let current = 0;
+  for (let i = met.length - (todayMet ? 1 : 2); i >= 0 && met[i]; i--) current++;
+  return { current, best, todayMet };
+}
+
+/** Day keys from `days - 1` days before `today` up to it, oldest first. */
+export function streakDates(today: string, days = STREAK_WINDOW_DAYS) {
+  return Array.from({ length: days }, (_, i) => shiftDayKey(today, i - days + 1));
+}
@@ -0,0 +1,200 @@
+import type { Prisma } from "@prisma/client";
+import { tagWhere } from "@/lib/tags";
+
+// Query-string filters, sorting and cursor pagination shared by the list
+// endpoints (tasks, ideas, articles, feedback).
+//
+//   status=open|done|in-progress   tasks; articles take open|done (unread/read),
+//                                  feedback takes its own status values
+//   dueFrom=ISO&dueTo=ISO          due date range (tasks, feedback)
+//   overdue=1                      past due (tasks: and not completed, so
+//                                  not with status=done)
+//   project=<id>|none              tasks in a project, or in none
+//   space=personal|professional    tasks, ideas, articles
+//   pinned=1|0                     tasks
+//   q=text                         case-insensitive substring match
+//   tag=<id>                       see lib/tags
+//   sort=<key>                     per-endpoint, first key is the default
+//   limit=N&cursor=<id>            one page; the response becomes
+//                                  { items, nextCursor } instead of an array
+
+export const PAGE_LIMIT_MAX = 200;
+
+export class ListQueryError extends Error {}
+
+type Insensitive = { contains: string; mode: "insensitive" };
+
+function dateParam(params: URLSearchParams, name: string): Date | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) throw new ListQueryError(`Invalid ${name}`);
+  return date;
+}
+
+function flagParam(params: URLSearchParams, name: string): boolean | undefined {
+  const raw = params.get(name);
+  if (raw === null) return undefined;
+  if (raw === "1" || raw === "true") return true;
+  if (raw === "0" || raw === "false") return false;
+  throw new ListQueryError(`Invalid ${name}`);
+}
+
+function textParam(params: URLSearchParams): Insensitive | undefined {
+  const q = params.get("q")?.trim();
+  return q ? { contains: q, mode: "insensitive" } : undefined;
+}
+
+function spaceParam(params: URLSearchParams) {
+  const space = params.get("space");
+  if (space === null) return {};
+  if (space !== "personal" && space !== "professional") throw new ListQueryError("Invalid space");
+  return { space };
+}
+
+function dueRange(params: URLSearchParams): Prisma.DateTimeNullableFilter | undefined {
+  const from = dateParam(params, "dueFrom");
+  const to = dateParam(params, "dueTo");
+  const overdue = flagParam(params, "overdue");
+  if (!from && !to && !overdue) return undefined;
+  const now = new Date();
+  return {
+    ...(from && { gte: from }),
+    // Overdue narrows an explicit upper bound rather than replacing it
+    ...((to || overdue) && { lt: overdue && (!to || to > now) ? now : to }),
+  };
+}
+
+function sortKey<K extends string>(params: URLSearchParams, keys: readonly K[]): K {
+  const sort = params.get("sort");
+  if (sort === null) return keys[0];
+  if (!keys.includes(sort as K)) throw new ListQueryError(`sort must be one of ${keys.join(", ")}`);
+  return sort as K;
+}
+
+// ── Pagination ──────────────────────────────────────────────────────────────
+
+export type PageArgs = { take: number; skip?: number; cursor?: { id: string } };
+
+/** Prisma args for `?limit&cursor`, or null when the whole list was asked for. */
+export function pageArgs(params: URLSearchParams): PageArgs | null {
+  const raw = params.get("limit");
+  if (raw === null) return null;
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1) throw new ListQueryError("Invalid limit");
+  const cursor = params.get("cursor");
+  // One extra row tells whether another page follows
+  return { take: Math.min(limit, PAGE_LIMIT_MAX) + 1, ...(cursor && { cursor: { id: cursor }, skip: 1 }) };
+}
+
+export function toPage<T extends { id: string }>(rows: T[], page: PageArgs) {
+  const more = rows.length === page.take;
+  const items = more ? rows.slice(0, -1) : rows;
+  return { items, nextCursor: more ? items[items.length - 1].id : null };
+}
+
+// ── Per-model filters ───────────────────────────────────────────────────────
+// Every ordering ends on id so a cursor lands on the same spot between pages.
+
+// "manual" is the drag-and-drop order from lib/sort-key
+const TASK_SORTS = ["manual", "created", "due", "updated"] as const;
+
+export function taskListQuery(params: URLSearchParams) {
+  const where: Prisma.TaskWhereInput = { ...tagWhere(params), ...spaceParam(params) };
+
+  const status = params.get("status");
+  if (status === "open") where.completed = false;
+  else if (status === "done") where.completed = true;
+  else if (status === "in-progress") {
+    where.completed = false;
+    where.inProgress = true;
+  }
+  else if (status !== null) throw new ListQueryError("status must be open, done or in-progress");
+
+  const due = dueRange(params);
+  if (due) where.dueAt = due;
+  if (flagParam(params, "overdue")) {
+    // Completed tasks are never overdue, so the two can't both hold
+    if (status === "done") throw new ListQueryError("overdue can't be combined with status=done");
+    where.completed = false;
+  }
+
+  const project = params.get("project");
+  if (project) where.projectId = project === "none" ? null : project;
+
+  const pinned = flagParam(params, "pinned");
+  if (pinned !== undefined) where.pinned = pinned;
+
+  const text = textParam(params);
+  if (text) where.OR = [{ title: text }, { notes: text }];
+
+  const orderBy: Prisma.TaskOrderByWithRelationInput[] = {
+    manual: [{ pinned: "desc" as const }, { sortKey: "asc" as const }, { createdAt: "desc" as const }],
+    created: [{ pinned: "desc" as const }, { createdAt: "desc" as const }],
+    due: [{ dueAt: { sort: "asc" as const, nulls: "last" as const } }, { createdAt: "desc" as const }],
+    updated: [{ updatedAt: "desc" as const }],
+  }[sortKey(params, TASK_SORTS)];
+
+  return { where, orderBy: [...orderBy, { id: "desc" as const }] };
+}
+
+const IDEA_SORTS = ["created", "updated"] as const;
+
+export function ideaListQuery(params: URLSearchParams) {
+  const where: Prisma.IdeaWhereInput = { ...tagWhere(params), ...spaceParam(params) };
+  const text = textParam(params);
+  if (text) where.OR = [{ title: text }, { notes: text }];
+
+  const orderBy: Prisma.IdeaOrderByWithRelationInput[] = {
+    created: [{ createdAt: "desc" as const }],
+    updated: [{ updatedAt: "desc" as const }],
+  }[sortKey(params, IDEA_SORTS)];
+
+  return { where, orderBy: [...orderBy, { id: "desc" as const }] };
+}
+
+const ARTICLE_SORTS = ["unread", "created", "updated"] as const;
+
+export function articleListQuery(params: URLSearchParams) {
+  const where: Prisma.ArticleWhereInput = { ...tagWhere(params), ...spaceParam(params) };
+
+  const status = params.get("status");
+  if (status === "open") where.read = false;
+  else if (status === "done") where.read = true;
+  else if (status !== null) throw new ListQueryError("status must be open or done");
+
+  const text = textParam(params);
+  if (text) where.OR = [{ title: text }, { notes: text }, { author: text }, { source: text }];
+
+  const orderBy: Prisma.ArticleOrderByWithRelationInput[] = {
+    unread: [{ read: "asc" as const }, { createdAt: "desc" as const }],
+    created: [{ createdAt: "desc" as const }],
+    updated: [{ updatedAt: "desc" as const }],
+  }[sortKey(params, ARTICLE_SORTS)];
+
+  return { where, orderBy: [...orderBy, { id: "desc" as const }] };
+}
+
+const FEEDBACK_SORTS = ["received", "due", "updated"] as const;
+
+export function feedbackListQuery(params: URLSearchParams) {
+  const where: Prisma.FeedbackItemWhereInput = { ...tagWhere(params) };
+
+  // Free-form on the model, so any value filters
+  const status = params.get("status");
+  if (status) where.status = status;
+
+  const due = dueRange(params);
+  if (due) where.dueAt = due;
+
+  const text = textParam(params);
+  if (text) where.OR = [{ from: text }, { message: text }];
+
+  const orderBy: Prisma.FeedbackItemOrderByWithRelationInput[] = {
+    received: [{ receivedAt: "desc" as const }],
+    due: [{ dueAt: { sort: "asc" as const, nulls: "last" as const } }, { receivedAt: "desc" as const }],
+    updated: [{ updatedAt: "desc" as const }],
+  }[sortKey(params, FEEDBACK_SORTS)];
+
+  return { where, orderBy: [...orderBy, { id: "desc" as const }] };
+}
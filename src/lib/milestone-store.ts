@@ -0,0 +1,75 @@
+import { createGoogleCalendarEvent, deleteGoogleCalendarEvent, updateGoogleCalendarEvent } from "@/lib/calendar";
+import { milestoneEventSpan, milestoneProgress } from "@/lib/milestones";
+import { prisma } from "@/lib/prisma";
+
+// Server side of milestones: their all-day Google events. The event lists the
+// milestone's tasks with their state, so it is refreshed whenever one of them
+// is completed or reopened as well as when the milestone itself changes.
+
+type SyncableMilestone = {
+  id: string;
+  userId: string;
+  title: string;
+  dueDate: string;
+  taskIds: string[];
+  calendarEventId: string | null;
+  project: { title: string };
+};
+
+/** Creates or updates the milestone's event and stores a new event id. Throws when Google fails. */
+export async function syncMilestoneEvent(milestone: SyncableMilestone) {
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: milestone.taskIds }, deletedAt: null },
+    select: { id: true, title: true, completed: true },
+  });
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const { done, total, percent } = milestoneProgress(milestone, tasks);
+
+  const input = {
+    title:       `Milestone: ${milestone.title}`,
+    ...milestoneEventSpan(milestone.dueDate),
+    allDay:      true,
+    notes:       total > 0 ? `${percent}% complete (${done} of ${total} tasks)` : "No tasks yet",
+    projectName: milestone.project.title,
+    checklist:   milestone.taskIds.flatMap((id) => byId.get(id) ?? []).map((t) => ({ text: t.title, done: t.completed })),
+    completed:   total > 0 && done === total,
+  };
+
+  if (milestone.calendarEventId) {
+    await updateGoogleCalendarEvent(milestone.userId, milestone.calendarEventId, input);
+    return;
+  }
+  const { externalId } = await createGoogleCalendarEvent(milestone.userId, input);
+  if (externalId) await prisma.milestone.update({ where: { id: milestone.id }, data: { calendarEventId: externalId } });
+}
+
+/**
+ * Best effort: refreshes the events of every milestone that includes one of the
+ * tasks. Milestones of a trashed project have no event until it's restored.
+ */
+export async function refreshMilestoneEvents(userId: string, taskIds: string[]) {
+  if (taskIds.length === 0) return;
+  const milestones = await prisma.milestone.findMany({
+    where: { userId, taskIds: { hasSome: taskIds }, project: { deletedAt: null } },
+    include: { project: { select: { title: true } } },
+  });
+  for (const milestone of milestones) {
+    try {
+      await syncMilestoneEvent(milestone);
+    } catch (err) {
+      console.error(`[milestones] Calendar sync failed for milestone ${milestone.id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
+
+/** Best effort: removes the events of the given milestones (before they're deleted). */
+export async function deleteMilestoneEvents(userId: string, milestones: Array<{ id: string; calendarEventId: string | null }>) {
+  for (const milestone of milestones) {
+    if (!milestone.calendarEventId) continue;
+    try {
+      await deleteGoogleCalendarEvent(userId, milestone.calendarEventId);
+    } catch (err) {
+      console.error(`[milestones] Calendar delete failed for milestone ${milestone.id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { dayKey, isDayKey, shiftDayKey } from "@/lib/day-plan";
+import type { Milestone, Task } from "@/lib/types";
+
+// Project milestones: a due date and an ordered set of the project's tasks.
+// Progress and health are always worked out from the tasks, never stored.
+
+export const MAX_MILESTONE_TASKS = 100;
+
+// How close the due date has to be before a milestone under half done is at risk
+export const AT_RISK_DAYS = 7;
+
+export type MilestoneFields = Pick<Milestone, "title" | "dueDate" | "taskIds">;
+
+export type MilestoneHealth = "done" | "overdue" | "at-risk" | "on-track";
+
+export const MILESTONE_HEALTH_META: Record<MilestoneHealth, { label: string; pill: string }> = {
+  done:       { label: "Done",     pill: "bg-surface-soft text-ink-soft" },
+  overdue:    { label: "Overdue",  pill: "bg-coral/10 text-coral" },
+  "at-risk":  { label: "At risk",  pill: "bg-amber-100 text-amber-700" },
+  "on-track": { label: "On track", pill: "bg-surface-card text-ink-muted" },
+};
+
+// Client tasks carry dueAt as a string, rows on the server as a Date
+type MilestoneTask = Pick<Task, "id" | "completed"> & { dueAt: string | Date | null };
+
+// Tasks that are gone (trashed, or deleted since) drop out of the count
+function milestoneTasks<T extends { id: string }>(milestone: Pick<Milestone, "taskIds">, tasks: T[]) {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  return milestone.taskIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+export function milestoneProgress(milestone: Pick<Milestone, "taskIds">, tasks: Array<Pick<Task, "id" | "completed">>) {
+  const own = milestoneTasks(milestone, tasks);
+  const done = own.filter((t) => t.completed).length;
+  return { done, total: own.length, percent: own.length > 0 ? Math.round((done / own.length) * 100) : 0 };
+}
+
+function daysUntil(from: string, to: string) {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86_400_000);
+}
+
+/**
+ * Done once every task is; overdue when the due date has passed without that.
+ * Otherwise at risk, with the reasons, when an open task is overdue or due
+ * after the milestone, or the date is close and less than half is done.
+ */
+export function milestoneHealth(
+  milestone: Pick<Milestone, "dueDate" | "taskIds">,
+  tasks: MilestoneTask[],
+  now = new Date(),
+  timeZone?: string | null
+): { health: MilestoneHealth; reasons: string[] } {
+  const { done, total, percent } = milestoneProgress(milestone, tasks);
+  if (total > 0 && done === total) return { health: "done", reasons: [] };
+
+  const today = dayKey(now, timeZone);
+  const left = daysUntil(today, milestone.dueDate);
+  if (left < 0) return { health: "overdue", reasons: [`${-left} day${left === -1 ? "" : "s"} past due at ${percent}%`] };
+
+  const open = milestoneTasks(milestone, tasks).filter((t) => !t.completed && t.dueAt);
+  const overdue = open.filter((t) => new Date(t.dueAt!) < now).length;
+  const late = open.filter((t) => dayKey(new Date(t.dueAt!), timeZone) > milestone.dueDate).length;
+
+  const reasons: string[] = [];
+  if (overdue > 0) reasons.push(`${overdue} overdue task${overdue === 1 ? "" : "s"}`);
+  if (late > 0) reasons.push(`${late} task${late === 1 ? "" : "s"} due after the milestone`);
+  if (total > 0 && left <= AT_RISK_DAYS && percent < 50) reasons.push(`Due in ${left} day${left === 1 ? "" : "s"} at ${percent}%`);
+  return { health: reasons.length > 0 ? "at-risk" : "on-track", reasons };
+}
+
+/** The all-day span Google expects: the due date and the (exclusive) day after. */
+export function milestoneEventSpan(dueDate: string) {
+  return { startAt: new Date(`${dueDate}T00:00:00Z`), endAt: new Date(`${shiftDayKey(dueDate, 1)}T00:00:00Z`) };
+}
+
+/**
+ * Validates a milestone body for POST (every field) or PATCH (only the fields
+ * present). A task listed twice keeps its first place; whether the tasks
+ * belong to the project is left to the route.
+ */
+export function parseMilestoneInput(body: Record<string, unknown>, partial: boolean): { data: Partial<MilestoneFields> } | { error: string } {
+  const data: Partial<MilestoneFields> = {};
+  const has = (key: string) => body[key] !== undefined || !partial;
+
+  if (has("title")) {
+    const title = typeof body.title === "string" ? body.title.trim() : "";
+    if (!title) return { error: "Title is required" };
+    data.title = title;
+  }
+  if (has("dueDate")) {
+    if (!isDayKey(body.dueDate)) return { error: "dueDate must be a YYYY-MM-DD date" };
+    data.dueDate = body.dueDate;
+  }
+  if (body.taskIds !== undefined) {
+    const ids = body.taskIds;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string" || !id)) return { error: "taskIds must be a list of task ids" };
+    const seen = new Set<string>();
+    data.taskIds = (ids as string[]).filter((id) => !seen.has(id) && seen.add(id));
+    if (data.taskIds.length > MAX_MILESTONE_TASKS) return { error: `A milestone holds at most ${MAX_MILESTONE_TASKS} tasks` };
+  } else if (!partial) {
+    data.taskIds = [];
+  }
+  return { data };
+}
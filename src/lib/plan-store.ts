@@ -0,0 +1,112 @@
+import { prisma } from "@/lib/prisma";
+import { dayKey, emptyPlan, isDayKey, isTimeZone, localHour, planTaskIds, shiftDayKey, todayKey } from "@/lib/day-plan";
+import { PLAN_SECTIONS } from "@/lib/types";
+import type { DayPlan, PlanSection } from "@/lib/types";
+
+// Server helpers for stored day plans (see lib/day-plan for the date rules).
+
+export const DAY_PLAN_SELECT = { date: true, critical: true, important: true, light: true, reflection: true, reviewedAt: true } as const;
+
+export async function userTimeZone(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { timeZone: true } });
+  return user?.timeZone ?? null;
+}
+
+// The browser reports its zone whenever it asks for today's plan; server jobs
+// (reminders, the evening review) rely on the last one seen
+export async function rememberTimeZone(userId: string, timeZone: unknown) {
+  if (!isTimeZone(timeZone)) return userTimeZone(userId);
+  await prisma.user.updateMany({ where: { id: userId, NOT: { timeZone } }, data: { timeZone } });
+  return timeZone;
+}
+
+export async function userToday(userId: string) {
+  return todayKey(await userTimeZone(userId));
+}
+
+/**
+ * A day-plan route's date segment: "YYYY-MM-DD", or "today" in the zone the
+ * browser sent (saved on the user) or else the last one seen. Null when invalid.
+ */
+export async function resolvePlanDate(userId: string, param: string, tz: string | null) {
+  if (param !== "today") return isDayKey(param) ? param : null;
+  return todayKey(tz ? await rememberTimeZone(userId, tz) : await userTimeZone(userId));
+}
+
+type StoredPlan = Omit<DayPlan, "reviewedAt"> & { reviewedAt: Date | null };
+
+export function toDayPlan(plan: StoredPlan): DayPlan {
+  return { ...plan, reviewedAt: plan.reviewedAt?.toISOString() ?? null };
+}
+
+/** The stored plan for the day, or an empty one when nothing was planned. */
+export async function findDayPlan(userId: string, date: string): Promise<DayPlan> {
+  const plan = await prisma.dayPlan.findUnique({ where: { userId_date: { userId, date } }, select: DAY_PLAN_SELECT });
+  return plan ? toDayPlan(plan) : emptyPlan(date);
+}
+
+/**
+ * Adds tasks to the end of a day's section, creating the plan if needed.
+ * Tasks already planned anywhere that day are left where they are.
+ */
+export async function appendToPlan(userId: string, date: string, additions: Array<{ taskId: string; section: PlanSection }>) {
+  const current = await findDayPlan(userId, date);
+  const planned = new Set(planTaskIds(current));
+  const sections = Object.fromEntries(PLAN_SECTIONS.map((section) => [
+    section,
+    [...current[section], ...additions.filter((a) => a.section === section && !planned.has(a.taskId)).map((a) => a.taskId)],
+  ]));
+  const plan = await prisma.dayPlan.upsert({
+    where: { userId_date: { userId, date } },
+    create: { userId, date, ...sections },
+    update: sections,
+    select: DAY_PLAN_SELECT,
+  });
+  return toDayPlan(plan);
+}
+
+// ── End-of-day review reminders ─────────────────────────────────────────────
+
+// Local hour from which the review push goes out. The cron runs hourly
+// (vercel.json), so it goes out within the hour after this wherever the user is.
+export const DAY_REVIEW_HOUR = 18;
+
+export const DAY_REVIEW_SOURCE = "day-review";
+
+/**
+ * Queues one "wrap up your day" push per plan that still has open items once
+ * it's evening where the user is. Called from /api/push/cron; the
+ * notification's sourceId is the plan date, which the click opens.
+ */
+export async function queueDayReviews(now: Date) {
+  const utcToday = dayKey(now, "UTC");
+  const plans = await prisma.dayPlan.findMany({
+    // Every timezone's "today" is within a day of UTC's
+    where: { reviewedAt: null, date: { gte: shiftDayKey(utcToday, -1), lte: shiftDayKey(utcToday, 1) }, user: { timeZone: { not: null } } },
+    select: { userId: true, date: true, critical: true, important: true, light: true, user: { select: { timeZone: true } } },
+  });
+
+  let queued = 0;
+  for (const plan of plans) {
+    const timeZone = plan.user.timeZone;
+    if (plan.date !== todayKey(timeZone) || localHour(now, timeZone) < DAY_REVIEW_HOUR) continue;
+
+    const open = await prisma.task.count({ where: { id: { in: planTaskIds(plan) }, completed: false, deletedAt: null } });
+    if (open === 0) continue;
+    const existing = await prisma.scheduledNotification.findFirst({ where: { userId: plan.userId, sourceType: DAY_REVIEW_SOURCE, sourceId: plan.date } });
+    if (existing) continue;
+
+    await prisma.scheduledNotification.create({
+      data: {
+        userId: plan.userId,
+        sourceId: plan.date,
+        sourceType: DAY_REVIEW_SOURCE,
+        title: "Time to wrap up the day",
+        body: `${open} planned item${open === 1 ? " is" : "s are"} still open — carry them over or let them go.`,
+        scheduledAt: now,
+      },
+    });
+    queued++;
+  }
+  return queued;
+}
@@ -0,0 +1,179 @@
+import { dayKey } from "@/lib/day-plan";
+import { milestoneHealth, milestoneProgress } from "@/lib/milestones";
+import type { Milestone, Project, ProjectHealthLevel } from "@/lib/types";
+import { weekStartKey } from "@/lib/weekly-review";
+
+// Project health and the status report built from it. Both run on the client
+// for the open project and on the server for the health of every project
+// (GET /api/projects/health), so tasks come in either shape.
+
+const DAY_MS = 86_400_000;
+
+// Points off a score of 100 per problem, and the most each kind can cost
+const PENALTY = {
+  overdue:   { each: 10, max: 40 },
+  blocked:   { each: 5,  max: 20 },
+  milestone: { overdue: 20, atRisk: 10, max: 40 },
+  // Days with open work but no completion
+  idle:      { slowDays: 7, slow: 10, stalledDays: 14, stalled: 25 },
+};
+
+export const PROJECT_HEALTH_META: Record<ProjectHealthLevel, { label: string; pill: string }> = {
+  "on-track":        { label: "On track",        pill: "bg-surface-card text-ink-muted" },
+  "needs-attention": { label: "Needs attention", pill: "bg-amber-100 text-amber-700" },
+  "off-track":       { label: "Off track",       pill: "bg-coral/10 text-coral" },
+};
+
+export function isHealthLevel(value: unknown): value is ProjectHealthLevel {
+  return typeof value === "string" && value in PROJECT_HEALTH_META;
+}
+
+export type HealthTask = {
+  id: string;
+  title: string;
+  completed: boolean;
+  inProgress?: boolean;
+  dueAt: string | Date | null;
+  completedAt?: string | Date | null;
+  // Waiting on an open task (worked out by the caller, blockers can be in any project)
+  blocked: boolean;
+};
+
+export type HealthMilestone = Pick<Milestone, "title" | "dueDate" | "taskIds">;
+
+export type ProjectHealthSignal = { level: ProjectHealthLevel; score: number; factors: string[] };
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+function lastCompletion(tasks: HealthTask[]) {
+  return tasks.reduce((latest, t) => (t.completedAt ? Math.max(latest, new Date(t.completedAt).getTime()) : latest), 0);
+}
+
+/**
+ * Scores a project from 100 down: overdue and blocked tasks, overdue or at-risk
+ * milestones, and a long stretch with open work but nothing completed (counted
+ * from the project's creation when nothing ever was). `lastCompletedAt` covers
+ * completions of tasks the caller didn't pass in.
+ */
+export function projectHealth({ project, tasks, milestones, now = new Date(), timeZone }: {
+  project: { createdAt: number | Date; lastCompletedAt?: Date | null };
+  tasks: HealthTask[];
+  milestones: HealthMilestone[];
+  now?: Date;
+  timeZone?: string | null;
+}): ProjectHealthSignal {
+  const open = tasks.filter((t) => !t.completed);
+  const factors: string[] = [];
+  let score = 100;
+
+  const overdue = open.filter((t) => t.dueAt && new Date(t.dueAt) < now).length;
+  if (overdue > 0) {
+    score -= Math.min(overdue * PENALTY.overdue.each, PENALTY.overdue.max);
+    factors.push(plural(overdue, "overdue task"));
+  }
+
+  const blocked = open.filter((t) => t.blocked).length;
+  if (blocked > 0) {
+    score -= Math.min(blocked * PENALTY.blocked.each, PENALTY.blocked.max);
+    factors.push(plural(blocked, "blocked task"));
+  }
+
+  let slippage = 0;
+  for (const milestone of milestones) {
+    const { health } = milestoneHealth(milestone, tasks, now, timeZone);
+    if (health === "overdue") {
+      slippage += PENALTY.milestone.overdue;
+      factors.push(`Milestone “${milestone.title}” is overdue`);
+    } else if (health === "at-risk") {
+      slippage += PENALTY.milestone.atRisk;
+      factors.push(`Milestone “${milestone.title}” is at risk`);
+    }
+  }
+  score -= Math.min(slippage, PENALTY.milestone.max);
+
+  if (open.length > 0) {
+    const since = Math.max(lastCompletion(tasks), project.lastCompletedAt?.getTime() ?? 0, new Date(project.createdAt).getTime());
+    const idle = Math.floor((now.getTime() - since) / DAY_MS);
+    if (idle >= PENALTY.idle.slowDays) {
+      score -= idle >= PENALTY.idle.stalledDays ? PENALTY.idle.stalled : PENALTY.idle.slow;
+      factors.push(`Nothing completed in ${idle} days`);
+    }
+  }
+
+  score = Math.max(score, 0);
+  return { level: score >= 80 ? "on-track" : score >= 50 ? "needs-attention" : "off-track", score, factors };
+}
+
+function dueLabel(dueAt: string | Date) {
+  return new Date(dueAt).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+// Undated tasks sort last
+function dueTime(task: HealthTask) {
+  return task.dueAt ? new Date(task.dueAt).getTime() : Infinity;
+}
+
+function bulletList(items: string[], empty: string) {
+  return items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : `_${empty}_`;
+}
+
+/**
+ * A Markdown status update: done since Monday, in progress, risks and what's
+ * next. A starting point to edit before it's saved on the project.
+ */
+export function buildStatusReport({ project, tasks, milestones, health, now = new Date() }: {
+  project: Pick<Project, "title">;
+  tasks: HealthTask[];
+  milestones: HealthMilestone[];
+  health: ProjectHealthSignal;
+  now?: Date;
+}) {
+  const today = dayKey(now);
+  const weekStart = weekStartKey(today);
+  const open = tasks.filter((t) => !t.completed);
+
+  const done = tasks
+    .filter((t) => t.completed && t.completedAt && dayKey(new Date(t.completedAt)) >= weekStart)
+    .map((t) => t.title);
+  const inProgress = open.filter((t) => t.inProgress).map((t) => (t.blocked ? `${t.title} (blocked)` : t.title));
+
+  const risks = [
+    ...open.filter((t) => t.dueAt && new Date(t.dueAt) < now).map((t) => `Overdue: ${t.title} (due ${dueLabel(t.dueAt!)})`),
+    ...open.filter((t) => t.blocked).map((t) => `Blocked: ${t.title}`),
+    ...milestones.flatMap((m) => {
+      const { health: state, reasons } = milestoneHealth(m, tasks, now);
+      if (state !== "overdue" && state !== "at-risk") return [];
+      return [`Milestone ${m.title} (${state === "overdue" ? "overdue" : "at risk"}): ${reasons.join(", ")}`];
+    }),
+  ];
+
+  const nextUp = open
+    .filter((t) => !t.inProgress && !t.blocked && !(t.dueAt && new Date(t.dueAt) < now))
+    .sort((a, b) => (dueTime(a) - dueTime(b)) || 0)
+    .slice(0, 5)
+    .map((t) => (t.dueAt ? `${t.title} (due ${dueLabel(t.dueAt)})` : t.title));
+  const upcoming = [...milestones].sort((a, b) => a.dueDate.localeCompare(b.dueDate)).find((m) => m.dueDate >= today && milestoneHealth(m, tasks, now).health !== "done");
+  if (upcoming) {
+    const { percent } = milestoneProgress(upcoming, tasks);
+    nextUp.push(`Milestone ${upcoming.title} on ${dueLabel(`${upcoming.dueDate}T12:00:00`)} (${percent}% done)`);
+  }
+
+  return [
+    `# ${project.title}: status update`,
+    "",
+    `**${now.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" })}** · ${PROJECT_HEALTH_META[health.level].label} (${health.score}/100)`,
+    "",
+    "## Done this week",
+    bulletList(done, "Nothing completed yet this week"),
+    "",
+    "## In progress",
+    bulletList(inProgress, "Nothing in progress"),
+    "",
+    "## Risks",
+    bulletList(risks, "No known risks"),
+    "",
+    "## Next up",
+    bulletList(nextUp, "Nothing scheduled"),
+    "",
+  ].join("\n");
+}
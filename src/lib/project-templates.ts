@@ -0,0 +1,101 @@
+import { dayKey, isDayKey, localTime, shiftDayKey, zonedTime } from "@/lib/day-plan";
+import { buildId, isTaskPriority } from "@/lib/types";
+import type { ChecklistItem, ProjectTemplateTask } from "@/lib/types";
+
+// Project templates: a project's tasks with each due date kept as a day offset
+// from a chosen start day plus a local time, so the same skeleton lands on the
+// right days (and the same hour, whatever the DST) when it's used again.
+
+export const MAX_TEMPLATE_TASKS = 200;
+
+const DAY_MS = 86_400_000;
+
+export type TemplateSourceTask = {
+  id: string;
+  parentId: string | null;
+  title: string;
+  notes: string;
+  checklist: unknown;
+  priority: string | null;
+  dueAt: Date | null;
+};
+
+function daysFrom(fromKey: string, toKey: string) {
+  return Math.round((Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * The template version of a project's tasks, given in list order. Parents come
+ * before their subtasks so each subtask can point back at an earlier entry;
+ * due dates become offsets from `startKey` in the user's zone.
+ */
+export function templateTasksFromProject(tasks: TemplateSourceTask[], startKey: string, timeZone?: string | null): ProjectTemplateTask[] {
+  const ids = new Set(tasks.map((t) => t.id));
+  const ordered: TemplateSourceTask[] = [];
+  const visit = (parentId: string | null) => {
+    for (const task of tasks) {
+      const parent = task.parentId && ids.has(task.parentId) ? task.parentId : null;
+      if (parent !== parentId) continue;
+      ordered.push(task);
+      visit(task.id);
+    }
+  };
+  visit(null);
+
+  const index = new Map(ordered.map((t, i) => [t.id, i]));
+  return ordered.map((task) => {
+    const checklist = Array.isArray(task.checklist) ? (task.checklist as Array<{ text?: string }>) : [];
+    return {
+      title: task.title,
+      notes: task.notes,
+      checklist: checklist.map((item) => item.text?.trim() ?? "").filter(Boolean),
+      priority: isTaskPriority(task.priority) ? task.priority : null,
+      dueOffsetDays: task.dueAt ? daysFrom(startKey, dayKey(task.dueAt, timeZone)) : null,
+      dueTime: task.dueAt ? localTime(task.dueAt, timeZone) : null,
+      parentIndex: task.parentId ? index.get(task.parentId) ?? null : null,
+    };
+  });
+}
+
+/** The concrete due date of a template task for a project starting on `startKey`. */
+export function templateDueAt(task: ProjectTemplateTask, startKey: string, timeZone?: string | null) {
+  if (task.dueOffsetDays === null) return null;
+  return zonedTime(shiftDayKey(startKey, task.dueOffsetDays), task.dueTime ?? "09:00", timeZone);
+}
+
+/** Fresh checklist items (new ids, nothing done) for a task made from the template. */
+export function templateChecklist(task: ProjectTemplateTask): ChecklistItem[] {
+  return task.checklist.map((text) => ({ id: buildId(), text, done: false }));
+}
+
+export function describeTemplateDue(task: ProjectTemplateTask) {
+  if (task.dueOffsetDays === null) return "No due date";
+  const days = Math.abs(task.dueOffsetDays);
+  const day = task.dueOffsetDays === 0 ? "Start day" : `${days} day${days === 1 ? "" : "s"} ${task.dueOffsetDays > 0 ? "after start" : "before start"}`;
+  return task.dueTime ? `${day}, ${task.dueTime}` : day;
+}
+
+/** Validates POST /api/project-templates: `{ name, projectId, startDate }`. */
+export function parseSaveTemplateInput(body: Record<string, unknown>): { data: { name: string; projectId: string; startDate: string } } | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) return { error: "Name is required" };
+  if (typeof body.projectId !== "string" || !body.projectId) return { error: "Project is required" };
+  if (!isDayKey(body.startDate)) return { error: "Start date must be YYYY-MM-DD" };
+  return { data: { name, projectId: body.projectId, startDate: body.startDate } };
+}
+
+/** Validates POST /api/project-templates/[id]/apply: `{ startDate, title?, space? }`. */
+export function parseApplyTemplateInput(body: Record<string, unknown>): { data: { startDate: string; title: string | null; space: string | null } } | { error: string } {
+  if (!isDayKey(body.startDate)) return { error: "Start date must be YYYY-MM-DD" };
+  if (body.title !== undefined && typeof body.title !== "string") return { error: "Invalid title" };
+  if (body.space !== undefined && body.space !== "personal" && body.space !== "professional") {
+    return { error: "Space must be personal or professional" };
+  }
+  return {
+    data: {
+      startDate: body.startDate,
+      title: (body.title as string | undefined)?.trim() || null,
+      space: (body.space as string | undefined) ?? null,
+    },
+  };
+}
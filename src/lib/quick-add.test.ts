@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseQuickAdd } from "@/lib/quick-add";
+
+// Wednesday 14 Oct 2026, 10:00 on a UTC wall clock
+const now = new Date("2026-10-14T10:00:00Z");
+const parse = (input: string) => parseQuickAdd(input, { now, timezoneOffset: 0 });
+
+describe("parseQuickAdd", () => {
+  it("leaves short weekday names in the title without a lead-in", () => {
+    for (const input of ["Fix the sat solver", "Put on sun cream", "Plan wed reception"]) {
+      const parsed = parse(input);
+      expect(parsed.title).toBe(input);
+      expect(parsed.dueAt).toBeNull();
+    }
+  });
+
+  it("leaves a May date in the title without a lead-in", () => {
+    const parsed = parse("Lunch with May 5 people");
+    expect(parsed.title).toBe("Lunch with May 5 people");
+    expect(parsed.dueAt).toBeNull();
+  });
+
+  it("reads short weekday names after a lead-in", () => {
+    expect(parse("Call the plumber on sat").dueAt?.toISOString()).toBe("2026-10-17T09:00:00.000Z");
+    expect(parse("Send invoice by fri 3pm").dueAt?.toISOString()).toBe("2026-10-16T15:00:00.000Z");
+    expect(parse("Book flights next mon")).toMatchObject({ title: "Book flights" });
+    expect(parse("Book flights next mon").dueAt?.toISOString()).toBe("2026-10-19T09:00:00.000Z");
+  });
+
+  it("reads May after a lead-in", () => {
+    const parsed = parse("Renew passport due may 5");
+    expect(parsed.title).toBe("Renew passport");
+    expect(parsed.dueAt?.toISOString()).toBe("2027-05-05T09:00:00.000Z");
+  });
+
+  it("still reads full weekday names and other months on their own", () => {
+    expect(parse("Review deck friday").dueAt?.toISOString()).toBe("2026-10-16T09:00:00.000Z");
+    expect(parse("Pay rent oct 20")).toMatchObject({ title: "Pay rent" });
+  });
+});
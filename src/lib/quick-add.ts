@@ -0,0 +1,453 @@
+// Offline natural-language parsing for quick-add task titles.
+//
+//   "Send deck to Priya tomorrow 3pm #Website redesign !high @client"
+//
+// Recognised syntax:
+//   dates     today, tonight, tomorrow, next week, friday / next friday,
+//             in 3 days, in 2 hours, oct 20, 20th october, 2026-10-20;
+//             "sat" and "may 5" only as "on sat", "next sat", "by may 5"…
+//   times     3pm, 3:30 pm, 15:00, at 9, noon, midnight, tomorrow morning
+//   project   #name or "project name" — fuzzy-matched against the user's
+//             projects and allowed to span several words
+//   priority  !high !medium !low (also !1 !2 !3), "high priority"
+//   space     ~personal ~work
+//   tags      @name
+//
+// Every recognised span comes back as a token so the input can highlight it;
+// whatever is left over becomes the title. Date maths runs on the user's wall
+// clock, so the server can pass the browser's timezone offset.
+
+import type { TaskPriority } from "@/lib/types";
+
+export type QuickAddTokenKind = "date" | "time" | "project" | "priority" | "space" | "tag";
+
+export type QuickAddToken = { kind: QuickAddTokenKind; start: number; end: number; text: string };
+
+export type QuickAddResult = {
+  title: string;
+  dueAt: Date | null;
+  projectId: string | null;
+  priority: TaskPriority | null;
+  space: "personal" | "professional" | null;
+  tags: string[];
+  tokens: QuickAddToken[];
+};
+
+export type QuickAddOptions = {
+  projects?: Array<{ id: string; title: string }>;
+  now?: Date;
+  // Minutes behind UTC, as returned by Date#getTimezoneOffset
+  timezoneOffset?: number;
+};
+
+type Word = { text: string; lower: string; start: number; end: number };
+
+type State = {
+  day: Date | null;
+  time: { hours: number; minutes: number } | null;
+  defaultTime: { hours: number; minutes: number } | null;
+  exact: Date | null;
+  projectId: string | null;
+  priority: TaskPriority | null;
+  space: "personal" | "professional" | null;
+  tags: string[];
+};
+
+type Match = { length: number; kind: QuickAddTokenKind; apply: (state: State) => void };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0, mon: 1, monday: 1, tue: 2, tues: 2, tuesday: 2, wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, fri: 5, friday: 5, sat: 6, saturday: 6,
+};
+
+// Short weekday names and "may" are ordinary words too ("the sat solver", "with
+// May 5 people"), so they only count as dates after one of these
+const DATE_LEAD_INS = new Set(["on", "by", "due"]);
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3, may: 4,
+  jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7, sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const PARTS_OF_DAY: Record<string, { hours: number; minutes: number }> = {
+  morning: { hours: 9, minutes: 0 },
+  afternoon: { hours: 14, minutes: 0 },
+  evening: { hours: 18, minutes: 0 },
+  night: { hours: 20, minutes: 0 },
+};
+
+const PRIORITY_MARKERS: Record<string, TaskPriority> = {
+  "!high": "high", "!h": "high", "!1": "high", "!!!": "high",
+  "!medium": "medium", "!med": "medium", "!m": "medium", "!2": "medium", "!!": "medium",
+  "!low": "low", "!l": "low", "!3": "low",
+};
+
+const SPACE_MARKERS: Record<string, "personal" | "professional"> = {
+  "~personal": "personal", "~home": "personal",
+  "~professional": "professional", "~pro": "professional", "~work": "professional",
+};
+
+// Words that may introduce a date, time or project and are swallowed with it
+const LEAD_INS: Record<string, QuickAddTokenKind[]> = {
+  on: ["date"], by: ["date", "time"], due: ["date", "time"], at: ["time"], for: ["date", "project"], in: ["project"],
+};
+
+const MARKER = /^[#!@~]/;
+const DEFAULT_TIME = { hours: 9, minutes: 0 };
+
+// ── Fuzzy matching ────────────────────────────────────────────────────────────
+
+function normalize(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function bigrams(value: string) {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2));
+  return grams;
+}
+
+/** 0–1 similarity: Dice coefficient on bigrams, boosted for prefixes ("#web" → "Website"). */
+export function fuzzyScore(query: string, target: string): number {
+  const q = normalize(query);
+  const t = normalize(target);
+  if (!q || !t) return 0;
+  if (q === t) return 1;
+
+  let dice = 0;
+  const qGrams = bigrams(q);
+  const tGrams = bigrams(t);
+  if (qGrams.length > 0 && tGrams.length > 0) {
+    const pool = [...tGrams];
+    let shared = 0;
+    for (const gram of qGrams) {
+      const idx = pool.indexOf(gram);
+      if (idx >= 0) { shared++; pool.splice(idx, 1); }
+    }
+    dice = (2 * shared) / (qGrams.length + tGrams.length);
+  }
+
+  const prefix = q.length >= 3 && t.startsWith(q) ? 0.7 + 0.3 * (q.length / t.length) : 0;
+  return Math.max(dice, prefix);
+}
+
+// ── Date helpers (wall clock, stored in UTC fields) ───────────────────────────
+
+function startOfDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function parseTime(hoursText: string, minutesText: string | undefined, meridiem: string | undefined) {
+  let hours = Number(hoursText);
+  const minutes = minutesText ? Number(minutesText) : 0;
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === "pm" && hours !== 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+  return { hours, minutes };
+}
+
+function ordinalDay(value: string) {
+  const m = /^(\d{1,2})(st|nd|rd|th)?$/.exec(value);
+  if (!m) return null;
+  const day = Number(m[1]);
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+// ── Matchers ──────────────────────────────────────────────────────────────────
+
+function isAbbreviatedWeekday(word: string) {
+  return WEEKDAYS[word] !== undefined && !word.endsWith("day");
+}
+
+// What may follow a short weekday name when it's a date: nothing, a marker, a
+// part of the day or a time ("on sat", "on sat morning", "by wed 3pm")
+function endsDatePhrase(word: Word | undefined) {
+  if (!word) return true;
+  return MARKER.test(word.text) || PARTS_OF_DAY[word.lower] !== undefined || /^(\d|at$|noon$|midday$|midnight$)/.test(word.lower);
+}
+
+function matchDate(words: Word[], i: number, today: Date, leadIn: string | null): Match | null {
+  const w = words[i].lower;
+  const next = words[i + 1]?.lower;
+
+  const withPartOfDay = (length: number, day: Date): Match => {
+    const part = words[i + length] ? PARTS_OF_DAY[words[i + length].lower] : undefined;
+    return {
+      length: part ? length + 1 : length,
+      kind: "date",
+      apply: (s) => { s.day = day; if (part) s.defaultTime = part; },
+    };
+  };
+
+  if (w === "today") return withPartOfDay(1, today);
+  if (w === "tonight") return { length: 1, kind: "date", apply: (s) => { s.day = today; s.defaultTime = PARTS_OF_DAY.night; } };
+  if (w === "tomorrow" || w === "tmrw" || w === "tmr") return withPartOfDay(1, addDays(today, 1));
+
+  if (w === "next" && next === "week") {
+    const daysToMonday = ((8 - today.getUTCDay()) % 7) || 7;
+    return { length: 2, kind: "date", apply: (s) => { s.day = addDays(today, daysToMonday); } };
+  }
+
+  // "friday", "this friday", "next friday" — always the next one after today
+  const weekdayAt = (j: number) => (words[j] ? WEEKDAYS[words[j].lower] : undefined);
+  const hasQualifier = (w === "next" || w === "this") && weekdayAt(i + 1) !== undefined;
+  const weekday = hasQualifier ? weekdayAt(i + 1) : weekdayAt(i);
+  const bareAbbreviation = !hasQualifier && isAbbreviatedWeekday(w)
+    && !(leadIn && DATE_LEAD_INS.has(leadIn) && endsDatePhrase(words[i + 1]));
+  if (weekday !== undefined && !bareAbbreviation) {
+    const ahead = ((weekday - today.getUTCDay() + 7) % 7) || 7;
+    return withPartOfDay(hasQualifier ? 2 : 1, addDays(today, ahead));
+  }
+
+  // "in 3 days", "in a week"
+  if (w === "in" && next) {
+    const amount = /^\d+$/.test(next) ? Number(next) : NUMBER_WORDS[next];
+    const unit = words[i + 2]?.lower;
+    if (amount && unit) {
+      if (/^days?$/.test(unit)) return { length: 3, kind: "date", apply: (s) => { s.day = addDays(today, amount); } };
+      if (/^weeks?$/.test(unit)) return { length: 3, kind: "date", apply: (s) => { s.day = addDays(today, amount * 7); } };
+    }
+  }
+
+  // 2026-10-20
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(w);
+  if (iso) {
+    const day = new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3]));
+    if (!Number.isNaN(day.getTime())) return { length: 1, kind: "date", apply: (s) => { s.day = day; } };
+  }
+
+  // "oct 20", "october 20th 2027", "20 oct", "20th of october"
+  let month: number | undefined;
+  let dayOfMonth: number | null = null;
+  let length = 0;
+  const datedMay = leadIn !== null && DATE_LEAD_INS.has(leadIn);
+  if (MONTHS[w] !== undefined && next && ordinalDay(next) && (w !== "may" || datedMay)) {
+    month = MONTHS[w]; dayOfMonth = ordinalDay(next); length = 2;
+  } else if (ordinalDay(w) && next) {
+    const hasOf = next === "of" && words[i + 2] && MONTHS[words[i + 2].lower] !== undefined;
+    const monthWord = hasOf ? words[i + 2].lower : next;
+    if (MONTHS[monthWord] !== undefined && (monthWord !== "may" || datedMay)) {
+      month = MONTHS[monthWord]; dayOfMonth = ordinalDay(w); length = hasOf ? 3 : 2;
+    }
+  }
+  if (month !== undefined && dayOfMonth) {
+    const yearWord = words[i + length]?.lower;
+    const explicitYear = yearWord && /^\d{4}$/.test(yearWord) ? Number(yearWord) : null;
+    let day = new Date(Date.UTC(explicitYear ?? today.getUTCFullYear(), month, dayOfMonth));
+    if (!explicitYear && day < today) day = new Date(Date.UTC(today.getUTCFullYear() + 1, month, dayOfMonth));
+    return { length: explicitYear ? length + 1 : length, kind: "date", apply: (s) => { s.day = day; } };
+  }
+
+  return null;
+}
+
+function matchTime(words: Word[], i: number, now: Date, leadIn: string | null): Match | null {
+  const w = words[i].lower;
+  const next = words[i + 1]?.lower;
+
+  if (w === "noon" || w === "midday") return { length: 1, kind: "time", apply: (s) => { s.time = { hours: 12, minutes: 0 }; } };
+  if (w === "midnight") return { length: 1, kind: "time", apply: (s) => { s.time = { hours: 23, minutes: 59 }; } };
+
+  if (w === "this" && next && PARTS_OF_DAY[next]) {
+    return { length: 2, kind: "time", apply: (s) => { s.time = PARTS_OF_DAY[next]; } };
+  }
+
+  // "in 2 hours", "in 30 min"
+  if (w === "in" && next) {
+    const amount = /^\d+$/.test(next) ? Number(next) : NUMBER_WORDS[next];
+    const unit = words[i + 2]?.lower;
+    if (amount && unit) {
+      const minutes = /^(hours?|hrs?|h)$/.test(unit) ? amount * 60 : /^(minutes?|mins?|m)$/.test(unit) ? amount : 0;
+      if (minutes) return { length: 3, kind: "time", apply: (s) => { s.exact = new Date(now.getTime() + minutes * 60_000); } };
+    }
+  }
+
+  // "3pm", "3:30pm"
+  let m = /^(\d{1,2})(?::(\d{2}))?(am|pm)$/.exec(w);
+  if (m) {
+    const time = parseTime(m[1], m[2], m[3]);
+    if (time) return { length: 1, kind: "time", apply: (s) => { s.time = time; } };
+  }
+
+  // "3 pm", "3:30 pm"
+  m = /^(\d{1,2})(?::(\d{2}))?$/.exec(w);
+  if (m && (next === "am" || next === "pm")) {
+    const time = parseTime(m[1], m[2], next);
+    if (time) return { length: 2, kind: "time", apply: (s) => { s.time = time; } };
+  }
+
+  // "15:00"
+  m = /^(\d{1,2}):(\d{2})$/.exec(w);
+  if (m) {
+    const time = parseTime(m[1], m[2], undefined);
+    if (time) return { length: 1, kind: "time", apply: (s) => { s.time = time; } };
+  }
+
+  // "at 3" — a bare hour only counts after "at"; small numbers read as afternoon
+  m = /^(\d{1,2})$/.exec(w);
+  if (m && leadIn === "at") {
+    const hours = Number(m[1]);
+    if (hours >= 1 && hours <= 23) {
+      const time = { hours: hours <= 7 ? hours + 12 : hours, minutes: 0 };
+      return { length: 1, kind: "time", apply: (s) => { s.time = time; } };
+    }
+  }
+
+  return null;
+}
+
+function matchProject(words: Word[], i: number, projects: Array<{ id: string; title: string }>): Match | null {
+  if (projects.length === 0) return null;
+  const w = words[i];
+
+  // "#name …" or spoken "project name …"
+  let offset: number;
+  let firstWord: string;
+  if (w.text.startsWith("#") && w.text.length > 1) {
+    offset = 0;
+    firstWord = w.text.slice(1);
+  } else if (w.lower === "project" && words[i + 1] && !MARKER.test(words[i + 1].text)) {
+    offset = 1;
+    firstWord = words[i + 1].text;
+  } else {
+    return null;
+  }
+
+  let best: { score: number; length: number; projectId: string } | null = null;
+  const phrase = [firstWord];
+  for (let k = 1; k <= 4; k++) {
+    if (k > 1) {
+      const extra = words[i + offset + k - 1];
+      if (!extra || MARKER.test(extra.text)) break;
+      phrase.push(extra.text);
+    }
+    for (const project of projects) {
+      const score = fuzzyScore(phrase.join(" "), project.title);
+      if (score >= 0.6 && (!best || score > best.score)) best = { score, length: offset + k, projectId: project.id };
+    }
+  }
+
+  if (!best) return null;
+  const projectId = best.projectId;
+  return { length: best.length, kind: "project", apply: (s) => { s.projectId = projectId; } };
+}
+
+function matchMarker(words: Word[], i: number): Match | null {
+  const w = words[i].lower;
+  const next = words[i + 1]?.lower;
+
+  if (PRIORITY_MARKERS[w]) {
+    const priority = PRIORITY_MARKERS[w];
+    return { length: 1, kind: "priority", apply: (s) => { s.priority = priority; } };
+  }
+  // "high priority", "priority low"
+  const spoken = (level: string | undefined) => (level === "high" || level === "medium" || level === "low" ? level : null);
+  if (next === "priority" && spoken(w)) {
+    const priority = spoken(w)!;
+    return { length: 2, kind: "priority", apply: (s) => { s.priority = priority; } };
+  }
+  if (w === "priority" && spoken(next)) {
+    const priority = spoken(next)!;
+    return { length: 2, kind: "priority", apply: (s) => { s.priority = priority; } };
+  }
+
+  if (SPACE_MARKERS[w]) {
+    const space = SPACE_MARKERS[w];
+    return { length: 1, kind: "space", apply: (s) => { s.space = space; } };
+  }
+
+  if (w.startsWith("@") && w.length > 1) {
+    const tag = words[i].text.slice(1);
+    return { length: 1, kind: "tag", apply: (s) => { if (!s.tags.includes(tag)) s.tags.push(tag); } };
+  }
+
+  return null;
+}
+
+// ── Parser ────────────────────────────────────────────────────────────────────
+
+export function parseQuickAdd(input: string, options: QuickAddOptions = {}): QuickAddResult {
+  const realNow = options.now ?? new Date();
+  const offset = options.timezoneOffset ?? realNow.getTimezoneOffset();
+  const now = new Date(realNow.getTime() - offset * 60_000);
+  const today = startOfDay(now);
+  const projects = options.projects ?? [];
+
+  const words: Word[] = [];
+  for (const m of input.matchAll(/\S+/g)) {
+    const text = m[0].replace(/[.,;]+$/, "");
+    if (!text) continue;
+    words.push({ text, lower: text.toLowerCase(), start: m.index!, end: m.index! + text.length });
+  }
+
+  const matchAt = (i: number, leadIn: string | null) =>
+    matchMarker(words, i) ?? matchProject(words, i, projects) ?? matchDate(words, i, today, leadIn) ?? matchTime(words, i, now, leadIn);
+
+  const state: State = { day: null, time: null, defaultTime: null, exact: null, projectId: null, priority: null, space: null, tags: [] };
+  const tokens: QuickAddToken[] = [];
+  const titleWords: Word[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    let match = matchAt(i, null);
+    let start = i;
+
+    // Swallow a lead-in like "on", "at" or "for" together with what it introduces
+    const leadKinds = LEAD_INS[words[i].lower];
+    if (!match && leadKinds && words[i + 1]) {
+      const inner = matchAt(i + 1, words[i].lower);
+      if (inner && leadKinds.includes(inner.kind)) {
+        match = { ...inner, length: inner.length + 1 };
+        start = i;
+      }
+    }
+
+    if (!match) {
+      titleWords.push(words[i]);
+      i++;
+      continue;
+    }
+
+    match.apply(state);
+    const last = words[start + match.length - 1];
+    tokens.push({ kind: match.kind, start: words[start].start, end: last.end, text: input.slice(words[start].start, last.end) });
+    i = start + match.length;
+  }
+
+  let dueAt: Date | null = null;
+  if (state.exact) {
+    dueAt = state.exact;
+  } else if (state.day || state.time) {
+    const day = state.day ?? today;
+    const time = state.time ?? state.defaultTime ?? DEFAULT_TIME;
+    dueAt = new Date(day.getTime() + (time.hours * 60 + time.minutes) * 60_000);
+    // A bare time that has already passed today means tomorrow
+    if (!state.day && dueAt <= now) dueAt = addDays(dueAt, 1);
+  }
+
+  return {
+    title: titleWords.map((w) => w.text).join(" "),
+    dueAt: dueAt ? new Date(dueAt.getTime() + offset * 60_000) : null,
+    projectId: state.projectId,
+    priority: state.priority,
+    space: state.space,
+    tags: state.tags,
+    tokens,
+  };
+}
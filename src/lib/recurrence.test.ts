@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { advanceRecurrence, nextOccurrence, parseRRule, recurrencePresets } from "@/lib/recurrence";
+
+const WEEKDAYS = parseRRule("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR")!;
+
+describe("parseRRule", () => {
+  it("rejects parts the evaluator doesn't implement", () => {
+    for (const rule of [
+      "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+      "FREQ=DAILY;BYHOUR=9,17",
+      "FREQ=YEARLY;BYYEARDAY=100",
+      "FREQ=WEEKLY;BYDAY=MO;WKST=SU",
+      "FREQ=DAILY;COUNT=3;COUNT=5",
+    ]) {
+      expect(parseRRule(rule)).toBeNull();
+    }
+  });
+
+  it("accepts the default week start", () => {
+    expect(parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;WKST=MO")).toMatchObject({ freq: "WEEKLY", interval: 2 });
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("picks weekdays on the user's own calendar", () => {
+    // Friday 9am in Sydney is still Thursday in UTC
+    const friday = new Date("2026-10-15T22:00:00Z");
+    // The next weekday in Sydney is Monday 9am, not Saturday
+    expect(nextOccurrence(WEEKDAYS, friday, "Australia/Sydney")?.toISOString()).toBe("2026-10-18T22:00:00.000Z");
+  });
+
+  it("keeps the local hour across a DST change", () => {
+    const daily = parseRRule("FREQ=DAILY")!;
+    // 9am New York on the Saturday before clocks go back
+    const saturday = new Date("2026-10-31T13:00:00Z");
+    const sunday = nextOccurrence(daily, saturday, "America/New_York")!;
+    expect(sunday.toISOString()).toBe("2026-11-01T14:00:00.000Z");
+  });
+
+  it("matches BYMONTHDAY on the local date", () => {
+    const monthly = parseRRule("FREQ=MONTHLY;BYMONTHDAY=1")!;
+    // 1 Nov 8am in Tokyo is 31 Oct in UTC
+    const next = nextOccurrence(monthly, new Date("2026-10-31T23:00:00Z"), "Asia/Tokyo");
+    expect(next?.toISOString()).toBe("2026-11-30T23:00:00.000Z");
+  });
+});
+
+describe("advanceRecurrence", () => {
+  it("counts down COUNT and ends on the last occurrence", () => {
+    const start = new Date("2026-10-19T09:00:00Z");
+    expect(advanceRecurrence("FREQ=DAILY;COUNT=2", start, "UTC")).toEqual({ dueAt: new Date("2026-10-20T09:00:00Z"), recurrence: "FREQ=DAILY;COUNT=1" });
+    expect(advanceRecurrence("FREQ=DAILY;COUNT=1", start, "UTC")).toBeNull();
+  });
+});
+
+describe("recurrencePresets", () => {
+  it("names the local weekday and date", () => {
+    // Monday 1 Dec, 8am in Sydney (Sunday 30 Nov in UTC)
+    const presets = recurrencePresets(new Date("2025-11-30T21:00:00Z"), "Australia/Sydney");
+    expect(presets.map((p) => p.label)).toContain("Every week on Monday");
+    expect(presets.map((p) => p.value)).toContain("FREQ=MONTHLY;BYMONTHDAY=1");
+  });
+});
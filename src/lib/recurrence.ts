@@ -0,0 +1,263 @@
+import { fromWallClock, wallClock } from "@/lib/day-plan";
+
+// RFC 5545 recurrence rules for repeating tasks.
+//
+// Tasks store the RRULE body (e.g. "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR") without
+// the "RRULE:" prefix. The task's current dueAt acts as DTSTART, so completing
+// an occurrence rolls dueAt forward and decrements COUNT — the rule stays valid
+// relative to the new start, which is also what the linked Google event uses.
+//
+// Occurrences are evaluated on the wall clock of the user's timezone, the same
+// zone the Google series is anchored in, so "every weekday at 9" stays on
+// weekdays at 9 through DST changes.
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+type Weekday = (typeof WEEKDAYS)[number];
+
+const WEEKDAY_LABEL: Record<Weekday, string> = {
+  SU: "Sunday", MO: "Monday", TU: "Tuesday", WE: "Wednesday", TH: "Thursday", FR: "Friday", SA: "Saturday",
+};
+
+const ORDINAL_LABEL: Record<string, string> = {
+  "1": "first", "2": "second", "3": "third", "4": "fourth", "5": "fifth", "-1": "last",
+};
+
+export type RRule = {
+  freq: Frequency;
+  interval: number;
+  byDay: Array<{ day: Weekday; nth: number | null }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  count: number | null;
+  until: Date | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop searching after ~10 years of candidate days
+const MAX_SEARCH_DAYS = 3660;
+
+// Parts the evaluator below implements. Anything else (BYSETPOS, BYHOUR,
+// BYYEARDAY, …) would change which dates occur, so a rule using it is rejected
+// rather than silently read as a different rule.
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "COUNT", "UNTIL", "WKST"]);
+
+function parseUntil(value: string): Date | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!m) return null;
+  const [, y, mo, d, h = "23", mi = "59", s = "59"] = m;
+  return new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+}
+
+export function parseRRule(input: string): RRule | null {
+  const body = input.trim().replace(/^RRULE:/i, "");
+  if (!body) return null;
+
+  const parts: Record<string, string> = {};
+  for (const pair of body.split(";")) {
+    const [key, value] = pair.split("=");
+    if (!key || !value) return null;
+    const name = key.trim().toUpperCase();
+    if (!SUPPORTED_PARTS.has(name) || name in parts) return null;
+    parts[name] = value.trim().toUpperCase();
+  }
+
+  // Weeks always start on Monday here (see weekIndex)
+  if (parts.WKST && parts.WKST !== "MO") return null;
+
+  const freq = parts.FREQ as Frequency | undefined;
+  if (!freq || !["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const byDay: RRule["byDay"] = [];
+  if (parts.BYDAY) {
+    for (const token of parts.BYDAY.split(",")) {
+      const m = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token);
+      if (!m) return null;
+      byDay.push({ day: m[2] as Weekday, nth: m[1] ? Number(m[1]) : null });
+    }
+  }
+
+  const byMonthDay = parts.BYMONTHDAY ? parts.BYMONTHDAY.split(",").map(Number) : [];
+  if (byMonthDay.some((d) => !Number.isInteger(d) || d === 0 || d < -31 || d > 31)) return null;
+
+  const byMonth = parts.BYMONTH ? parts.BYMONTH.split(",").map(Number) : [];
+  if (byMonth.some((m) => !Number.isInteger(m) || m < 1 || m > 12)) return null;
+
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) return null;
+
+  const until = parts.UNTIL ? parseUntil(parts.UNTIL) : null;
+  if (parts.UNTIL && !until) return null;
+
+  return { freq, interval, byDay, byMonthDay, byMonth, count, until };
+}
+
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ""}${d.day}`).join(",")}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  return parts.join(";");
+}
+
+// The zone's wall-clock reading held in a UTC Date, so the matching below can
+// use getUTC* and step whole days with no DST change in between
+function toLocal(at: Date, timeZone?: string | null) {
+  const c = wallClock(at, timeZone);
+  return new Date(Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second, at.getUTCMilliseconds()));
+}
+
+function fromLocal(local: Date, timeZone?: string | null) {
+  const at = fromWallClock({
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+    second: local.getUTCSeconds(),
+  }, timeZone);
+  return new Date(at.getTime() + local.getUTCMilliseconds());
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Monday-based week index, matching the RFC 5545 default WKST=MO
+function weekIndex(date: Date) {
+  const dayNumber = Math.floor(date.getTime() / DAY_MS);
+  // 1970-01-01 was a Thursday; shift so weeks start on Monday
+  return Math.floor((dayNumber + 3) / 7);
+}
+
+function matchesMonthDay(rule: RRule, date: Date, start: Date) {
+  const day = date.getUTCDate();
+  const lastDay = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay.some((d) => (d > 0 ? d === day : lastDay + d + 1 === day));
+  }
+
+  if (rule.byDay.length > 0) {
+    const weekday = WEEKDAYS[date.getUTCDay()];
+    return rule.byDay.some(({ day: wd, nth }) => {
+      if (wd !== weekday) return false;
+      if (nth === null) return true;
+      if (nth > 0) return Math.ceil(day / 7) === nth;
+      return Math.ceil((lastDay - day + 1) / 7) === -nth;
+    });
+  }
+
+  return day === start.getUTCDate();
+}
+
+function matches(rule: RRule, date: Date, start: Date) {
+  switch (rule.freq) {
+    case "DAILY": {
+      const days = Math.round((date.getTime() - start.getTime()) / DAY_MS);
+      if (days % rule.interval !== 0) return false;
+      if (rule.byDay.length > 0 && !rule.byDay.some((d) => d.day === WEEKDAYS[date.getUTCDay()])) return false;
+      return true;
+    }
+    case "WEEKLY": {
+      if ((weekIndex(date) - weekIndex(start)) % rule.interval !== 0) return false;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.day) : [WEEKDAYS[start.getUTCDay()]];
+      return weekdays.includes(WEEKDAYS[date.getUTCDay()]);
+    }
+    case "MONTHLY": {
+      const months = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+      if (months % rule.interval !== 0) return false;
+      return matchesMonthDay(rule, date, start);
+    }
+    case "YEARLY": {
+      const years = date.getUTCFullYear() - start.getUTCFullYear();
+      if (years % rule.interval !== 0) return false;
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [start.getUTCMonth() + 1];
+      if (!months.includes(date.getUTCMonth() + 1)) return false;
+      return matchesMonthDay(rule, date, start);
+    }
+  }
+}
+
+/**
+ * Returns the first occurrence strictly after `start`, treating `start` as
+ * DTSTART, at the same wall-clock time in the zone (the runtime's own when
+ * unset). Null when the series has ended (COUNT exhausted or past UNTIL).
+ */
+export function nextOccurrence(rule: RRule, start: Date, timeZone?: string | null): Date | null {
+  if (rule.count !== null && rule.count <= 1) return null;
+
+  const local = toLocal(start, timeZone);
+  for (let i = 1; i <= MAX_SEARCH_DAYS; i++) {
+    const candidate = new Date(local.getTime() + i * DAY_MS);
+    if (!matches(rule, candidate, local)) continue;
+    const at = fromLocal(candidate, timeZone);
+    return rule.until && at > rule.until ? null : at;
+  }
+  return null;
+}
+
+/**
+ * Advances a task's series past the occurrence due at `dueAt`. Returns the
+ * next due date and the rule to store with it (COUNT decremented), or null
+ * when the completed occurrence was the last one.
+ */
+export function advanceRecurrence(recurrence: string, dueAt: Date, timeZone?: string | null): { dueAt: Date; recurrence: string } | null {
+  const rule = parseRRule(recurrence);
+  if (!rule) return null;
+  const next = nextOccurrence(rule, dueAt, timeZone);
+  if (!next) return null;
+  return {
+    dueAt: next,
+    recurrence: formatRRule({ ...rule, count: rule.count !== null ? rule.count - 1 : null }),
+  };
+}
+
+export function describeRRule(recurrence: string): string {
+  const rule = parseRRule(recurrence);
+  if (!rule) return "Custom repeat";
+
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[rule.freq];
+  let label = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  const weekdaySet = rule.byDay.filter((d) => d.nth === null).map((d) => d.day).sort().join(",");
+  if (rule.freq === "WEEKLY" && rule.interval === 1 && weekdaySet === "FR,MO,TH,TU,WE") {
+    label = "Every weekday";
+  } else if (rule.byDay.length > 0) {
+    const days = rule.byDay.map(({ day, nth }) =>
+      nth === null ? WEEKDAY_LABEL[day] : `the ${ORDINAL_LABEL[String(nth)] ?? `#${nth}`} ${WEEKDAY_LABEL[day]}`
+    );
+    label += ` on ${days.join(", ")}`;
+  } else if (rule.byMonthDay.length > 0) {
+    label += ` on day ${rule.byMonthDay.join(", ")}`;
+  }
+
+  if (rule.count !== null) label += `, ${rule.count} left`;
+  if (rule.until) label += `, until ${rule.until.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`;
+  return label;
+}
+
+/** Quick presets offered in the repeat picker, from the due date's local day. */
+export function recurrencePresets(dueAt: Date | null, timeZone?: string | null): Array<{ label: string; value: string }> {
+  const anchor = toLocal(dueAt ?? new Date(), timeZone);
+  const weekday = WEEKDAYS[anchor.getUTCDay()];
+  const nth = Math.ceil(anchor.getUTCDate() / 7);
+  const ordinal = nth > 4 ? -1 : nth;
+
+  return [
+    { label: "Every day",                                              value: "FREQ=DAILY" },
+    { label: "Every weekday",                                          value: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+    { label: `Every week on ${WEEKDAY_LABEL[weekday]}`,                value: `FREQ=WEEKLY;BYDAY=${weekday}` },
+    { label: `Every month on day ${anchor.getUTCDate()}`,              value: `FREQ=MONTHLY;BYMONTHDAY=${anchor.getUTCDate()}` },
+    { label: `Every month on the ${ORDINAL_LABEL[String(ordinal)]} ${WEEKDAY_LABEL[weekday]}`, value: `FREQ=MONTHLY;BYDAY=${ordinal}${weekday}` },
+    { label: "Every year",                                             value: "FREQ=YEARLY" },
+  ];
+}
@@ -0,0 +1,50 @@
+// ScheduledNotification rows for an item with a due date: one per reminder
+// window that's still in the future, plus one at the due time itself.
+
+export function buildReminderRows(opts: {
+  userId: string;
+  sourceId: string;
+  sourceType: string;
+  title: string;
+  dueAt: Date;
+  reminderWindows: number[];
+  now?: Date;
+}) {
+  const { userId, sourceId, sourceType, title, dueAt, reminderWindows } = opts;
+  const now = opts.now ?? new Date();
+  const rows = [];
+
+  for (const windowMinutes of reminderWindows) {
+    const scheduledAt = new Date(dueAt.getTime() - windowMinutes * 60_000);
+    if (scheduledAt <= now) continue;
+
+    const minutesLabel =
+      windowMinutes < 60
+        ? `${windowMinutes} minutes`
+        : windowMinutes < 1440
+        ? `${windowMinutes / 60} hour${windowMinutes / 60 === 1 ? "" : "s"}`
+        : `${windowMinutes / 1440} day`;
+
+    rows.push({
+      userId,
+      sourceId,
+      sourceType,
+      title: `Upcoming: ${title}`,
+      body: `Due in ${minutesLabel}`,
+      scheduledAt
+    });
+  }
+
+  if (dueAt > now) {
+    rows.push({
+      userId,
+      sourceId,
+      sourceType,
+      title: `Due now: ${title}`,
+      body: "This task is due.",
+      scheduledAt: dueAt
+    });
+  }
+
+  return rows;
+}
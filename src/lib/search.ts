@@ -0,0 +1,148 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Full-text search over every module. Each source pairs a table with the
+// tsvector expression its GIN index was built on (see the search_indexes
+// migration) — the expressions must stay byte-for-byte identical for Postgres
+// to use the index.
+
+export type SearchType = "task" | "idea" | "article" | "feedback" | "learningPlan" | "calendarEvent";
+
+export type SearchHit = {
+  id: string;
+  title: string;
+  snippet: string;
+  rank: number;
+  space: string | null;
+};
+
+export type SearchGroup = {
+  type: SearchType;
+  label: string;
+  results: SearchHit[];
+};
+
+type SearchSource = {
+  type: SearchType;
+  label: string;
+  table: string;
+  title: string;
+  document: string;
+  // Plain text that ts_headline picks the snippet from
+  headline: string;
+  spaced: boolean;
+  // Has a deletedAt column; trashed rows never show up in results
+  trashable: boolean;
+};
+
+const JSON_TEXT = (column: string) => `regexp_replace("${column}"::text, '"\\w+":|[{}\\[\\]",]', ' ', 'g')`;
+
+export const SEARCH_SOURCES: SearchSource[] = [
+  {
+    type: "task",
+    label: "Tasks",
+    table: "Task",
+    title: `"title"`,
+    document: `to_tsvector('english', "title" || ' ' || "notes")`,
+    headline: `"title" || ' ' || "notes"`,
+    spaced: true,
+    trashable: true,
+  },
+  {
+    type: "idea",
+    label: "Ideas",
+    table: "Idea",
+    title: `"title"`,
+    document: `to_tsvector('english', "title" || ' ' || "notes")`,
+    headline: `"title" || ' ' || "notes"`,
+    spaced: true,
+    trashable: true,
+  },
+  {
+    type: "article",
+    label: "Articles",
+    table: "Article",
+    title: `"title"`,
+    document: `to_tsvector('english', "title" || ' ' || "notes" || ' ' || "author" || ' ' || "source")`,
+    headline: `"title" || ' ' || "notes" || ' ' || "author" || ' ' || "source"`,
+    spaced: true,
+    trashable: true,
+  },
+  {
+    type: "feedback",
+    label: "Feedback",
+    table: "FeedbackItem",
+    title: `"from"`,
+    document: `to_tsvector('english', "message")`,
+    headline: `"message"`,
+    spaced: false,
+    trashable: true,
+  },
+  {
+    type: "learningPlan",
+    label: "Learning plans",
+    table: "LearningPlan",
+    title: `"title"`,
+    document: `(to_tsvector('english', "title" || ' ' || "subtitle") || jsonb_to_tsvector('english', "phases", '["string"]') || jsonb_to_tsvector('english', "sections", '["string"]'))`,
+    headline: `"title" || ' ' || "subtitle" || ' ' || ${JSON_TEXT("phases")} || ' ' || ${JSON_TEXT("sections")}`,
+    spaced: true,
+    trashable: true,
+  },
+  {
+    type: "calendarEvent",
+    label: "Calendar",
+    table: "CalendarEvent",
+    title: `"title"`,
+    document: `to_tsvector('english', "title")`,
+    headline: `"title"`,
+    spaced: false,
+    trashable: false,
+  },
+];
+
+/**
+ * Turns free text into a prefix-matching tsquery ("road map" → "road:* & map:*")
+ * so results show up while the user is still typing. Returns null when nothing
+ * searchable is left.
+ */
+export function toPrefixQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (terms.length === 0) return null;
+  return terms.slice(0, 8).map((term) => `${term}:*`).join(" & ");
+}
+
+/**
+ * Spaced sources honour the personal-space lock; unspaced ones (feedback,
+ * calendar) count as professional.
+ */
+export async function searchSource(
+  source: SearchSource,
+  options: { userId: string; query: string; includePersonal: boolean; space: "personal" | "professional" | null; limit: number },
+): Promise<SearchHit[]> {
+  const { userId, query, includePersonal, space, limit } = options;
+  if (!source.spaced && space === "personal") return [];
+  if (space === "personal" && !includePersonal) return [];
+
+  const spaceFilter = !source.spaced
+    ? Prisma.empty
+    : space
+      ? Prisma.sql`AND "space" = ${space}`
+      : includePersonal ? Prisma.empty : Prisma.sql`AND "space" <> 'personal'`;
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; title: string; snippet: string; rank: number; space: string | null }>>(Prisma.sql`
+    SELECT "id",
+           ${Prisma.raw(source.title)} AS "title",
+           ts_headline('english', ${Prisma.raw(source.headline)}, q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=1') AS "snippet",
+           ts_rank(${Prisma.raw(source.document)}, q) AS "rank",
+           ${source.spaced ? Prisma.raw(`"space"`) : Prisma.sql`NULL`} AS "space"
+    FROM ${Prisma.raw(`"${source.table}"`)}, to_tsquery('english', ${query}) q
+    WHERE "userId" = ${userId}
+      AND ${Prisma.raw(source.document)} @@ q
+      ${spaceFilter}
+      ${source.trashable ? Prisma.sql`AND "deletedAt" IS NULL` : Prisma.empty}
+    ORDER BY "rank" DESC
+    LIMIT ${limit}
+  `);
+
+  return rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+}
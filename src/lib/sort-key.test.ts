@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { keyBetween, keysBefore } from "@/lib/sort-key";
+
+// Keys as the server hands them out: each new task goes above the current top
+function prepend(times: number, top: string | null = null) {
+  const keys: string[] = [];
+  for (let i = 0; i < times; i++) {
+    top = keysBefore(top, 1)[0];
+    keys.push(top);
+  }
+  return keys;
+}
+
+describe("keysBefore", () => {
+  it("keeps keys short when thousands are added at the top", () => {
+    const keys = prepend(20_000);
+    expect(Math.max(...keys.map((k) => k.length))).toBeLessThanOrEqual(4);
+    // Each one sorts before the one before it
+    for (let i = 1; i < keys.length; i++) expect(keys[i] < keys[i - 1]).toBe(true);
+  });
+
+  it("returns ascending keys below the given one", () => {
+    const keys = keysBefore("l0000", 500);
+    expect(keys).toHaveLength(500);
+    expect([...keys].sort()).toEqual(keys);
+    expect(keys[keys.length - 1] < "l0000").toBe(true);
+  });
+});
+
+describe("keyBetween", () => {
+  it("fits a key between neighbours, including across integer parts", () => {
+    const pairs: Array<[string | null, string | null]> = [
+      [null, null], ["i0", null], [null, "i0"], ["i0", "i1"], ["hz", "i0"], ["i0", "i0i"], ["gzz", "h0"], ["iz", "j00"],
+    ];
+    for (const [a, b] of pairs) {
+      const key = keyBetween(a, b);
+      if (a !== null) expect(key > a).toBe(true);
+      if (b !== null) expect(key < b).toBe(true);
+    }
+  });
+
+  it("keeps splitting the same gap", () => {
+    let low = "i0";
+    const high = "i1";
+    for (let i = 0; i < 200; i++) {
+      const key = keyBetween(low, high);
+      expect(key > low && key < high).toBe(true);
+      low = key;
+    }
+  });
+
+  it("rejects keys out of order", () => {
+    expect(() => keyBetween("i1", "i0")).toThrow();
+  });
+});
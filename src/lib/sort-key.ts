@@ -0,0 +1,140 @@
+// Fractional sort keys for manually ordered tasks. A key is an integer part
+// followed by an optional base-36 fraction, so there is always room for a key
+// between two others and moving a task only rewrites that one row. New tasks
+// go above the top key by stepping the integer down, which keeps keys short
+// however many are added there. Lowercase digits and letters only, so Postgres
+// orders the column the same way JavaScript does.
+
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+// The integer part's first character says how many digits follow: "i" to "z"
+// mean 1 to 18, and "h" down to "0" mean 1 to 18 again for the values below
+// those (more digits, lower value), so keys order by their first character
+// before their digits.
+const ZERO = "i0";
+const SMALLEST = "0" + "0".repeat(18);
+
+function integerLength(head: string) {
+  const index = DIGITS.indexOf(head);
+  if (index < 0) throw new Error(`Invalid sort key head: "${head}"`);
+  return 1 + (index >= 18 ? index - 17 : 18 - index);
+}
+
+function integerPart(key: string) {
+  const length = integerLength(key[0]);
+  if (length > key.length) throw new Error(`Invalid sort key: "${key}"`);
+  return key.slice(0, length);
+}
+
+// The next integer up, or null past the largest
+function increment(integer: string): string | null {
+  const digits = integer.slice(1).split("");
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]);
+    if (d < DIGITS.length - 1) {
+      digits[i] = DIGITS[d + 1];
+      return integer[0] + digits.join("");
+    }
+    digits[i] = "0";
+  }
+  if (integer[0] === "z") return null;
+  const head = DIGITS[DIGITS.indexOf(integer[0]) + 1];
+  return head + "0".repeat(integerLength(head) - 1);
+}
+
+// The next integer down, or null below the smallest
+function decrement(integer: string): string | null {
+  const digits = integer.slice(1).split("");
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]);
+    if (d > 0) {
+      digits[i] = DIGITS[d - 1];
+      return integer[0] + digits.join("");
+    }
+    digits[i] = "z";
+  }
+  if (integer[0] === "0") return null;
+  const head = DIGITS[DIGITS.indexOf(integer[0]) - 1];
+  return head + "z".repeat(integerLength(head) - 1);
+}
+
+// Halfway between two fractions (b null meaning 1). Neither ends in "0", and
+// neither does the result, so it never collides with a shorter key.
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+  const low = a ? DIGITS.indexOf(a[0]) : 0;
+  const high = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (high - low > 1) return DIGITS[Math.round((low + high) / 2)];
+  // Adjacent digits: b's first digit alone is still above a, else go a level deeper
+  if (b !== null && b.length > 1) return b[0];
+  return DIGITS[low] + midpoint(a.slice(1), null);
+}
+
+/** A key that sorts after `a` and before `b`; null leaves that end open. */
+export function keyBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) throw new Error(`Sort keys out of order: "${a}" >= "${b}"`);
+  if (a === null) {
+    if (b === null) return ZERO;
+    const ib = integerPart(b);
+    if (ib === SMALLEST) return ib + midpoint("", b.slice(ib.length));
+    // A key with a fraction sits above its bare integer
+    if (ib < b) return ib;
+    return decrement(ib)!;
+  }
+  const ia = integerPart(a);
+  if (b === null) return increment(ia) ?? ia + midpoint(a.slice(ia.length), null);
+  const ib = integerPart(b);
+  if (ia === ib) return ia + midpoint(a.slice(ia.length), b.slice(ib.length));
+  const next = increment(ia)!;
+  return next < b ? next : ia + midpoint(a.slice(ia.length), null);
+}
+
+/** `count` ascending keys, all before `b`. */
+export function keysBefore(b: string | null, count: number): string[] {
+  const keys: string[] = [];
+  let next = b;
+  for (let i = 0; i < count; i++) {
+    next = keyBetween(null, next);
+    keys.unshift(next);
+  }
+  return keys;
+}
+
+type OrderedTask = { pinned: boolean; sortKey?: string; createdAt: number };
+
+/** Pinned first, then manual order; tasks without a key fall back to newest first. */
+export function compareTaskOrder(a: OrderedTask, b: OrderedTask) {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  const ka = a.sortKey ?? "";
+  const kb = b.sortKey ?? "";
+  if (ka !== kb) return ka < kb ? -1 : 1;
+  return b.createdAt - a.createdAt;
+}
+
+/**
+ * Where a dragged task lands when dropped on another in the same list:
+ * the ids of its new neighbours, for POST /api/tasks/[id]/reorder. Dragging
+ * down puts it below the target, dragging up puts it above. Null when the drop
+ * is a no-op or crosses a boundary manual order doesn't cover (another parent,
+ * or in or out of the pinned group).
+ */
+export function reorderNeighbours<T extends { id: string; parentId?: string | null; pinned: boolean }>(
+  list: T[],
+  draggedId: string,
+  targetId: string,
+): { afterId: string | null; beforeId: string | null } | null {
+  const dragged = list.find((t) => t.id === draggedId);
+  const target = list.find((t) => t.id === targetId);
+  if (!dragged || !target || dragged === target) return null;
+  if ((dragged.parentId ?? null) !== (target.parentId ?? null) || dragged.pinned !== target.pinned) return null;
+
+  const siblings = list.filter((t) => (t.parentId ?? null) === (dragged.parentId ?? null) && t.pinned === dragged.pinned);
+  const to = siblings.indexOf(target);
+  const rest = siblings.filter((t) => t !== dragged);
+  rest.splice(to, 0, dragged);
+  return { afterId: rest[to - 1]?.id ?? null, beforeId: rest[to + 1]?.id ?? null };
+}
@@ -0,0 +1,59 @@
+// Helpers for parent/child task trees. Tasks arrive from the API as a flat
+// list with parentId; these build the hierarchy on demand.
+
+type TreeTask = { id: string; parentId?: string | null; completed: boolean };
+
+export function childrenByParent<T extends TreeTask>(tasks: T[]): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const task of tasks) {
+    if (!task.parentId) continue;
+    const siblings = map.get(task.parentId) ?? [];
+    siblings.push(task);
+    map.set(task.parentId, siblings);
+  }
+  return map;
+}
+
+export function descendantIds<T extends TreeTask>(tasks: T[], id: string): string[] {
+  const children = childrenByParent(tasks);
+  const result: string[] = [];
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const child of children.get(current) ?? []) {
+      if (result.includes(child.id)) continue;
+      result.push(child.id);
+      queue.push(child.id);
+    }
+  }
+  return result;
+}
+
+/** Completion counts across every descendant of a task, not just direct children. */
+export function subtaskRollup<T extends TreeTask>(tasks: T[], id: string): { done: number; total: number } {
+  const ids = new Set(descendantIds(tasks, id));
+  const subtasks = tasks.filter((t) => ids.has(t.id));
+  return { done: subtasks.filter((t) => t.completed).length, total: subtasks.length };
+}
+
+/**
+ * Flattens a task list into depth-first tree order, keeping the incoming
+ * sibling order. Tasks whose parent isn't in the list are treated as roots,
+ * so filtered views (a single project, a space) still show orphaned children.
+ */
+export function flattenTaskTree<T extends TreeTask>(tasks: T[], collapsed: Record<string, boolean> = {}): Array<{ task: T; depth: number }> {
+  const present = new Set(tasks.map((t) => t.id));
+  const children = childrenByParent(tasks);
+  const result: Array<{ task: T; depth: number }> = [];
+
+  function visit(task: T, depth: number) {
+    result.push({ task, depth });
+    if (collapsed[task.id]) return;
+    for (const child of children.get(task.id) ?? []) visit(child, depth + 1);
+  }
+
+  for (const task of tasks) {
+    if (!task.parentId || !present.has(task.parentId)) visit(task, 0);
+  }
+  return result;
+}
@@ -0,0 +1,33 @@
+import { prisma } from "@/lib/prisma";
+
+// Server helpers for the shared tag table. Tasks, ideas, articles and feedback
+// all link to Tag through implicit many-to-many relations, so the same
+// include/filter/validation works for each of their routes.
+
+export const TAG_INCLUDE = {
+  tags: { select: { id: true, name: true, color: true }, orderBy: { name: "asc" } },
+} as const;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function isTagColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+/** `?tag=<id>` on a list endpoint narrows it to items carrying that tag. */
+export function tagWhere(searchParams: URLSearchParams) {
+  const tag = searchParams.get("tag");
+  return tag ? { tags: { some: { id: tag } } } : {};
+}
+
+/**
+ * Validates a `tagIds` body field. Returns the de-duplicated ids, or null when
+ * the value is malformed or references a tag the user doesn't own.
+ */
+export async function resolveTagIds(userId: string, value: unknown): Promise<string[] | null> {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) return null;
+  const ids = [...new Set(value as string[])];
+  if (ids.length === 0) return ids;
+  const owned = await prisma.tag.count({ where: { id: { in: ids }, userId } });
+  return owned === ids.length ? ids : null;
+}
@@ -0,0 +1,176 @@
+import { batchGoogleCalendarEvents, createGoogleCalendarEvent } from "@/lib/calendar";
+import type { CalendarBatchOp } from "@/lib/calendar";
+import { prisma } from "@/lib/prisma";
+
+// Server-side side effects shared by the task routes and everything else that
+// creates or changes tasks (voice, templates, the trash).
+
+// Queues an immediate push for every open task whose last open blocker was
+// just completed. Delivered by /api/push/cron like any other reminder. Pass
+// `notified` when completing several blockers at once so a task that waited on
+// more than one of them is only announced once.
+export async function notifyUnblocked(userId: string, blocker: { id: string; title: string }, notified?: Set<string>) {
+  const dependents = await prisma.task.findMany({
+    where: { userId, completed: false, deletedAt: null, blockedBy: { some: { blockerId: blocker.id } } },
+    include: { blockedBy: { include: { blocker: { select: { completed: true, deletedAt: true } } } } },
+  });
+  const unblocked = dependents.filter((t) => t.blockedBy.every((d) => d.blocker.completed || d.blocker.deletedAt) && !notified?.has(t.id));
+  if (unblocked.length === 0) return;
+  unblocked.forEach((t) => notified?.add(t.id));
+
+  console.log(`[tasks] Task ${blocker.id} unblocked ${unblocked.length} task(s)`);
+  await prisma.scheduledNotification.createMany({
+    data: unblocked.map((t) => ({
+      userId,
+      sourceId: t.id,
+      sourceType: "task",
+      title: `Unblocked: ${t.title}`,
+      body: `"${blocker.title}" is done — this task is ready to start.`,
+      scheduledAt: new Date(),
+    })),
+  });
+}
+
+/** Ids of every subtask below the given tasks, at any depth (roots excluded). */
+export async function collectDescendants(taskIds: string[]) {
+  const ids: string[] = [];
+  let frontier = taskIds;
+  while (frontier.length > 0) {
+    const children = await prisma.task.findMany({ where: { parentId: { in: frontier } }, select: { id: true } });
+    frontier = children.map((c) => c.id).filter((childId) => !ids.includes(childId) && !taskIds.includes(childId));
+    ids.push(...frontier);
+  }
+  return ids;
+}
+
+type SyncableTask = {
+  id: string;
+  title: string;
+  notes: string;
+  dueAt: Date | null;
+  completed: boolean;
+  inProgress: boolean;
+  checklist: unknown;
+  recurrence: string | null;
+  calendarEventId: string | null;
+  project: { title: string } | null;
+};
+
+/**
+ * Brings the Google events of many tasks in line with their saved state using
+ * batched calendar requests: dated tasks get their event created or updated,
+ * undated ones lose it. Stores the resulting event ids and reports how many
+ * calls failed. Throws only when Google isn't reachable at all.
+ */
+export async function syncTaskEvents(userId: string, tasks: SyncableTask[]) {
+  const ops: Array<{ taskId: string; op: CalendarBatchOp }> = [];
+  for (const task of tasks) {
+    if (!task.dueAt) {
+      if (task.calendarEventId) ops.push({ taskId: task.id, op: { kind: "delete", eventId: task.calendarEventId } });
+      continue;
+    }
+    const input = {
+      title:       task.title,
+      startAt:     task.dueAt,
+      endAt:       new Date(task.dueAt.getTime() + 30 * 60 * 1000),
+      notes:       task.notes || null,
+      projectName: task.project?.title ?? null,
+      checklist:   Array.isArray(task.checklist) ? (task.checklist as Array<{ text: string; done: boolean }>) : null,
+      completed:   task.completed,
+      inProgress:  task.inProgress,
+      recurrence:  task.recurrence,
+    };
+    ops.push({
+      taskId: task.id,
+      op: task.calendarEventId ? { kind: "update", eventId: task.calendarEventId, input } : { kind: "create", input },
+    });
+  }
+
+  const results = await batchGoogleCalendarEvents(userId, ops.map((o) => o.op));
+
+  let failed = 0;
+  for (const [i, result] of results.entries()) {
+    const { taskId, op } = ops[i];
+    if (!result.ok) {
+      failed++;
+      console.error(`[tasks] Calendar ${op.kind} failed for task ${taskId}: ${result.error}`);
+      continue;
+    }
+    if (op.kind === "create" && result.externalId) {
+      await prisma.task.update({ where: { id: taskId }, data: { calendarEventId: result.externalId } });
+    } else if (op.kind === "delete") {
+      await prisma.task.update({ where: { id: taskId }, data: { calendarEventId: null } });
+    }
+  }
+
+  return { synced: results.length - failed, failed };
+}
+
+type NewTask = {
+  id: string;
+  title: string;
+  notes: string;
+  dueAt: Date | null;
+  checklist: unknown;
+  recurrence: string | null;
+  projectId: string | null;
+  calendarEventId: string | null;
+};
+
+/**
+ * Creates the Google event of a task that was just created, if it has a due
+ * date, and stores the event id on it (and on `task`). Never throws: resolves
+ * to the status POST /api/tasks reports as `_calendarStatus`.
+ */
+export async function createTaskEvent(userId: string, task: NewTask, logPrefix: string) {
+  const { dueAt } = task;
+  if (!dueAt) {
+    console.log(`[${logPrefix}] No dueAt — skipping calendar sync`);
+    return "skipped_no_due_date";
+  }
+
+  let calendarStatus = "not_attempted";
+  try {
+    const googleAccount = await prisma.account.findFirst({
+      where: { userId, provider: "google" },
+      select: { id: true },
+    });
+
+    if (!googleAccount) {
+      console.warn(`[${logPrefix}] No Google account linked — skipping calendar sync`);
+      calendarStatus = "skipped_no_google_account";
+    } else {
+      // Resolve project name if task belongs to a project
+      let projectName: string | null = null;
+      if (task.projectId) {
+        const project = await prisma.project.findUnique({ where: { id: task.projectId }, select: { title: true } });
+        projectName = project?.title ?? null;
+      }
+
+      const { externalId } = await createGoogleCalendarEvent(userId, {
+        title: task.title,
+        startAt: dueAt,
+        endAt: new Date(dueAt.getTime() + 30 * 60 * 1000),
+        notes: task.notes || null,
+        projectName,
+        checklist: Array.isArray(task.checklist) ? (task.checklist as Array<{ text: string; done: boolean }>) : null,
+        completed: false,
+        inProgress: false,
+        recurrence: task.recurrence,
+      });
+
+      console.log(`[${logPrefix}] Calendar event created externalId=${externalId}`);
+
+      if (externalId) {
+        await prisma.task.update({ where: { id: task.id }, data: { calendarEventId: externalId } });
+        task.calendarEventId = externalId;
+        calendarStatus = "synced";
+      }
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[${logPrefix}] Calendar sync failed: ${message}`);
+    calendarStatus = `error: ${message}`;
+  }
+  return calendarStatus;
+}
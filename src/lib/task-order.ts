@@ -0,0 +1,25 @@
+import type { Prisma } from "@prisma/client";
+import { keysBefore } from "@/lib/sort-key";
+
+// Server side of manual task order (see lib/sort-key): new tasks go to the top
+// of the user's list, ahead of every key already handed out.
+//
+// Keys are read and used inside the caller's transaction, which holds a per-user
+// lock until it commits. Without it two tasks created at once read the same top
+// key and get the same new one, and the list can't be reordered around them.
+
+export async function topSortKeys(userId: string, count: number, tx: Prisma.TransactionClient): Promise<string[]> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
+  const first = await tx.task.findFirst({
+    // Rows from before manual ordering may still have an empty key
+    where: { userId, sortKey: { not: "" } },
+    orderBy: { sortKey: "asc" },
+    select: { sortKey: true },
+  });
+  return keysBefore(first?.sortKey ?? null, count);
+}
+
+export async function topSortKey(userId: string, tx: Prisma.TransactionClient) {
+  const [key] = await topSortKeys(userId, 1, tx);
+  return key;
+}
@@ -0,0 +1,104 @@
+import { buildId } from "@/lib/types";
+import type { ChecklistItem, Task, TaskTemplate } from "@/lib/types";
+
+// Task templates: {{variables}} in the title, notes and checklist are filled in
+// when a template is used, and the due date is counted from that moment.
+
+const VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const MINUTE = 60000;
+
+export type TemplateFields = Omit<TaskTemplate, "id">;
+
+/** Variable names in the order they first appear. */
+export function templateVariables(template: Pick<TaskTemplate, "title" | "notes" | "checklist">): string[] {
+  const names = new Set<string>();
+  for (const text of [template.title, template.notes, ...template.checklist]) {
+    for (const match of text.matchAll(VARIABLE)) names.add(match[1]);
+  }
+  return [...names];
+}
+
+// {{date}} starts as today; every other variable starts empty
+export function defaultVariableValues(names: string[], now = new Date()): Record<string, string> {
+  return Object.fromEntries(names.map((name) => [
+    name,
+    name === "date" ? now.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" }) : "",
+  ]));
+}
+
+// A variable left blank keeps its placeholder so the gap is easy to spot
+export function fillTemplate(text: string, values: Record<string, string>) {
+  return text.replace(VARIABLE, (placeholder, name: string) => values[name]?.trim() || placeholder);
+}
+
+/** The fields of a new task made from the template. */
+export function instantiateTemplate(template: TaskTemplate, values: Record<string, string>, now = Date.now()) {
+  return {
+    title: fillTemplate(template.title, values),
+    notes: fillTemplate(template.notes, values),
+    checklist: template.checklist.map((text): ChecklistItem => ({ id: buildId(), text: fillTemplate(text, values), done: false })),
+    dueAt: template.dueOffsetMinutes !== null ? new Date(now + template.dueOffsetMinutes * MINUTE).toISOString() : null,
+    projectId: template.projectId,
+  };
+}
+
+/** A template that recreates the task; its due date becomes an offset from creation. */
+export function templateFromTask(task: Task, name: string): TemplateFields {
+  const offset = task.dueAt ? Math.round((new Date(task.dueAt).getTime() - task.createdAt) / MINUTE) : null;
+  return {
+    name,
+    title: task.title,
+    notes: task.notes,
+    checklist: (task.checklist ?? []).map((item) => item.text),
+    dueOffsetMinutes: offset !== null && offset >= 0 ? offset : null,
+    projectId: task.projectId ?? null,
+  };
+}
+
+export function describeOffset(minutes: number | null) {
+  if (minutes === null) return "No due date";
+  if (minutes === 0) return "Due right away";
+  if (minutes % (24 * 60) === 0) return `Due in ${minutes / (24 * 60)} d`;
+  if (minutes % 60 === 0) return `Due in ${minutes / 60} h`;
+  return `Due in ${minutes} min`;
+}
+
+/**
+ * Validates a template body for POST (every field) or PATCH (only the fields
+ * present). Project ownership is left to the route.
+ */
+export function parseTemplateInput(body: Record<string, unknown>, partial: boolean): { data: Partial<TemplateFields> } | { error: string } {
+  const data: Partial<TemplateFields> = {};
+  const has = (key: string) => body[key] !== undefined || !partial;
+
+  if (has("name")) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) return { error: "Name is required" };
+    data.name = name;
+  }
+  if (has("title")) {
+    const title = typeof body.title === "string" ? body.title.trim() : "";
+    if (!title) return { error: "Title is required" };
+    data.title = title;
+  }
+  if (has("notes")) {
+    if (body.notes !== undefined && typeof body.notes !== "string") return { error: "Invalid notes" };
+    data.notes = (body.notes as string | undefined)?.trim() ?? "";
+  }
+  if (has("checklist")) {
+    const list = body.checklist ?? [];
+    if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) return { error: "Checklist must be a list of strings" };
+    data.checklist = (list as string[]).map((item) => item.trim()).filter(Boolean);
+  }
+  if (has("dueOffsetMinutes")) {
+    const offset = body.dueOffsetMinutes ?? null;
+    if (offset !== null && (!Number.isInteger(offset) || (offset as number) < 0)) return { error: "Due offset must be a whole number of minutes" };
+    data.dueOffsetMinutes = offset as number | null;
+  }
+  if (has("projectId")) {
+    if (body.projectId != null && typeof body.projectId !== "string") return { error: "Invalid project" };
+    data.projectId = (body.projectId as string | null | undefined) ?? null;
+  }
+  return { data };
+}
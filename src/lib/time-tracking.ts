@@ -0,0 +1,53 @@
+import { prisma } from "@/lib/prisma";
+
+// Server side of time tracking. A task's timer runs while it is in progress
+// and not completed; routes that change either flag call syncTimer (or
+// stopTimers for many tasks) so the entries follow the flag.
+
+export function isTimerRunning(task: { inProgress: boolean; completed: boolean }) {
+  return task.inProgress && !task.completed;
+}
+
+/** Closes every open entry on the given tasks. Usable inside $transaction. */
+export function stopTimers(taskIds: string[], at = new Date()) {
+  return prisma.timeEntry.updateMany({ where: { taskId: { in: taskIds }, endedAt: null }, data: { endedAt: at } });
+}
+
+/** Opens or closes the task's entry when a write started or stopped its timer. */
+export async function syncTimer(
+  userId: string,
+  before: { id: string; inProgress: boolean; completed: boolean },
+  after: { inProgress: boolean; completed: boolean },
+) {
+  const wasRunning = isTimerRunning(before);
+  const running = isTimerRunning(after);
+  if (wasRunning === running) return;
+  if (!running) {
+    await stopTimers([before.id]);
+    return;
+  }
+  // A task left running from before time tracking existed may already have one
+  const open = await prisma.timeEntry.findFirst({ where: { taskId: before.id, endedAt: null }, select: { id: true } });
+  if (!open) await prisma.timeEntry.create({ data: { userId, taskId: before.id, startedAt: new Date() } });
+}
+
+/**
+ * Milliseconds tracked per task and per project, counting running entries up
+ * to now. Project sums include tasks the client hasn't paged in.
+ */
+export async function trackedTotals(userId: string) {
+  const entries = await prisma.timeEntry.findMany({
+    where: { userId, task: { deletedAt: null } },
+    select: { taskId: true, startedAt: true, endedAt: true, task: { select: { projectId: true } } },
+  });
+  const now = Date.now();
+  const totals: Record<string, number> = {};
+  const projects: Record<string, number> = {};
+  for (const entry of entries) {
+    const ms = Math.max((entry.endedAt?.getTime() ?? now) - entry.startedAt.getTime(), 0);
+    totals[entry.taskId] = (totals[entry.taskId] ?? 0) + ms;
+    const projectId = entry.task.projectId;
+    if (projectId) projects[projectId] = (projects[projectId] ?? 0) + ms;
+  }
+  return { totals, projects };
+}
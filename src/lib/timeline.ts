@@ -0,0 +1,43 @@
+import { addDays, startOfWeek } from "@/lib/timesheet";
+
+// The project timeline: a window of local days at one of three zoom levels,
+// and where a task's due date falls in it. Tasks have no start date or
+// estimate, so each one is plotted on the day it's due.
+
+export type TimelineZoom = "week" | "month" | "quarter";
+
+export const TIMELINE_ZOOMS: TimelineZoom[] = ["week", "month", "quarter"];
+
+const DAY_MS = 86_400_000;
+
+/** The window containing `anchor`: a Monday-to-Sunday week, a calendar month or a quarter. */
+export function timelineWindow(zoom: TimelineZoom, anchor: Date) {
+  if (zoom === "week") return { start: startOfWeek(anchor), days: 7 };
+  const firstMonth = zoom === "month" ? anchor.getMonth() : anchor.getMonth() - (anchor.getMonth() % 3);
+  const start = new Date(anchor.getFullYear(), firstMonth, 1);
+  const end = new Date(anchor.getFullYear(), firstMonth + (zoom === "month" ? 1 : 3), 1);
+  return { start, days: daysBetween(start, end) };
+}
+
+/** An anchor inside the previous (-1) or next (1) window. */
+export function shiftTimeline(zoom: TimelineZoom, anchor: Date, direction: -1 | 1) {
+  if (zoom === "week") return addDays(anchor, direction * 7);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction * (zoom === "month" ? 1 : 3), 1);
+}
+
+// Whole local days from one midnight to another, safe across DST changes
+export function daysBetween(from: Date, to: Date) {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/** Index of the local day the date falls on, counted from the window start (may be outside it). */
+export function dayIndex(start: Date, at: Date) {
+  const day = new Date(at);
+  day.setHours(0, 0, 0, 0);
+  return daysBetween(start, day);
+}
+
+/** The due date moved by whole days, keeping its time of day. */
+export function moveDueAt(dueAt: string, days: number) {
+  return addDays(new Date(dueAt), days).toISOString();
+}
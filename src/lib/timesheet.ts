@@ -0,0 +1,80 @@
+import type { TimeEntry, TimesheetEntry } from "@/lib/types";
+
+// Client helpers for tracked time: durations, the weekly timesheet grid and
+// its CSV export. Weeks run Monday to Sunday in local time.
+
+export function entryDuration(entry: Pick<TimeEntry, "startedAt" | "endedAt">, now = Date.now()) {
+  const end = entry.endedAt ? new Date(entry.endedAt).getTime() : now;
+  return Math.max(end - new Date(entry.startedAt).getTime(), 0);
+}
+
+// "1h 05m", "12m", or "<1m"
+export function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return ms > 0 ? "<1m" : "0m";
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+export function startOfWeek(date: Date) {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+export type TimesheetRow = {
+  taskId: string;
+  title: string;
+  project: string | null;
+  // Milliseconds per day, Monday first
+  days: number[];
+  total: number;
+};
+
+/** One row per task; entries crossing midnight are split between the days. */
+export function buildTimesheet(entries: TimesheetEntry[], weekStart: Date, now = Date.now()): TimesheetRow[] {
+  const dayStarts = Array.from({ length: 8 }, (_, i) => addDays(weekStart, i).getTime());
+  const rows = new Map<string, TimesheetRow>();
+  for (const entry of entries) {
+    const start = new Date(entry.startedAt).getTime();
+    const end = start + entryDuration(entry, now);
+    let row = rows.get(entry.taskId);
+    if (!row) {
+      row = { taskId: entry.taskId, title: entry.task.title, project: entry.task.project?.title ?? null, days: Array(7).fill(0), total: 0 };
+      rows.set(entry.taskId, row);
+    }
+    for (let day = 0; day < 7; day++) {
+      const overlap = Math.min(end, dayStarts[day + 1]) - Math.max(start, dayStarts[day]);
+      if (overlap <= 0) continue;
+      row.days[day] += overlap;
+      row.total += overlap;
+    }
+  }
+  return [...rows.values()].filter((r) => r.total > 0).sort((a, b) => b.total - a.total);
+}
+
+function csvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const hours = (ms: number) => (ms / 3600000).toFixed(2);
+
+/** Hours as decimals so the file sums cleanly in a spreadsheet. */
+export function timesheetCsv(rows: TimesheetRow[], weekStart: Date) {
+  const dates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i).toLocaleDateString("en-CA"));
+  const lines = [
+    ["Task", "Project", ...dates, "Total"].map(csvCell).join(","),
+    ...rows.map((r) => [r.title, r.project ?? "", ...r.days.map(hours), hours(r.total)].map(csvCell).join(",")),
+  ];
+  const dayTotals = Array.from({ length: 7 }, (_, i) => rows.reduce((sum, r) => sum + r.days[i], 0));
+  lines.push(["Total", "", ...dayTotals.map(hours), hours(dayTotals.reduce((a, b) => a + b, 0))].map(csvCell).join(","));
+  return lines.join("\n");
+}
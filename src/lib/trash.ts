@@ -0,0 +1,256 @@
+import { feedbackTitle } from "@/lib/activity";
+import { batchGoogleCalendarEvents } from "@/lib/calendar";
+import { BLOCKED_BY_INCLUDE, withBlockedByIds } from "@/lib/dependencies";
+import { deleteMilestoneEvents, syncMilestoneEvent } from "@/lib/milestone-store";
+import { prisma } from "@/lib/prisma";
+import { buildReminderRows } from "@/lib/reminders";
+import { TAG_INCLUDE } from "@/lib/tags";
+import { collectDescendants, syncTaskEvents } from "@/lib/task-effects";
+import { stopTimers } from "@/lib/time-tracking";
+import { TRASH_RETENTION_DAYS } from "@/lib/types";
+import type { TrashItem, TrashRef, TrashType } from "@/lib/types";
+
+// Soft delete. Deleting stamps `deletedAt` and every read path filters on
+// `deletedAt: null`; restoring clears it again. Rows are purged for good from
+// the trash view or by the cron once TRASH_RETENTION_DAYS have passed.
+
+export type CalendarOutcome = { synced: number; failed: number } | { error: string };
+
+function idsOf(items: TrashRef[], type: TrashType) {
+  return items.filter((item) => item.type === type).map((item) => item.id);
+}
+
+/**
+ * Moves tasks and their live subtasks to the trash under one shared timestamp,
+ * so restoring the parent brings back exactly what was deleted with it.
+ * Google events are removed and pending reminders dropped; both come back on
+ * restore. Running timers stop and stay stopped.
+ */
+export async function trashTasks(userId: string, ids: string[]) {
+  const descendantIds = await collectDescendants(ids);
+  const live = await prisma.task.findMany({
+    where: { id: { in: [...ids, ...descendantIds] }, userId, deletedAt: null },
+    select: { id: true, title: true, projectId: true, calendarEventId: true },
+  });
+  const trashedIds = live.map((t) => t.id);
+
+  const deletedAt = new Date();
+  await prisma.$transaction([
+    prisma.task.updateMany({ where: { id: { in: trashedIds } }, data: { deletedAt, calendarEventId: null } }),
+    prisma.scheduledNotification.deleteMany({ where: { userId, sourceId: { in: trashedIds }, sentAt: null } }),
+    stopTimers(trashedIds, deletedAt),
+  ]);
+
+  let calendar: CalendarOutcome = { synced: 0, failed: 0 };
+  const withEvents = live.filter((t) => t.calendarEventId);
+  if (withEvents.length > 0) {
+    try {
+      const results = await batchGoogleCalendarEvents(userId, withEvents.map((t) => ({ kind: "delete" as const, eventId: t.calendarEventId! })));
+      const failed = results.filter((r) => !r.ok).length;
+      calendar = { synced: results.length - failed, failed };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[trash] Calendar event delete failed:`, message);
+      calendar = { error: message };
+    }
+  }
+
+  return { trashed: live.map(({ calendarEventId: _eventId, ...t }) => t), calendar };
+}
+
+/**
+ * Moves a project to the trash. Its tasks stay live and keep pointing at it, so
+ * restoring puts everything back as it was; they only lose the project when it
+ * is purged. Milestone events are removed from Google and re-created on restore.
+ */
+export async function trashProject(userId: string, id: string) {
+  const milestones = await prisma.milestone.findMany({ where: { projectId: id }, select: { id: true, calendarEventId: true } });
+  await deleteMilestoneEvents(userId, milestones);
+
+  await prisma.$transaction([
+    prisma.project.update({ where: { id }, data: { deletedAt: new Date() } }),
+    prisma.milestone.updateMany({ where: { projectId: id }, data: { calendarEventId: null } }),
+  ]);
+}
+
+/** Best effort: re-creates the milestone events of restored projects. */
+async function restoreMilestoneEvents(userId: string, projectIds: string[]) {
+  if (projectIds.length === 0) return;
+  const milestones = await prisma.milestone.findMany({
+    where: { userId, projectId: { in: projectIds } },
+    include: { project: { select: { title: true } } },
+  });
+  for (const milestone of milestones) {
+    try {
+      await syncMilestoneEvent(milestone);
+    } catch (err) {
+      console.error(`[trash] Calendar sync failed on restore for milestone ${milestone.id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
+
+/**
+ * Restores trashed tasks together with the subtasks trashed alongside them.
+ * A subtask whose parent is still in the trash comes back as a top-level task.
+ * Open dated tasks get their reminders rebuilt with the caller's windows and
+ * their Google events re-created.
+ */
+async function restoreTasks(userId: string, ids: string[], reminderWindows: number[]) {
+  const roots = await prisma.task.findMany({
+    where: { id: { in: ids }, userId, deletedAt: { not: null } },
+    include: { parent: { select: { deletedAt: true } } },
+  });
+
+  const restoreIds: string[] = [];
+  const detachIds: string[] = [];
+  for (const root of roots) {
+    const descendantIds = await collectDescendants([root.id]);
+    const family = await prisma.task.findMany({
+      where: { id: { in: descendantIds }, deletedAt: root.deletedAt },
+      select: { id: true },
+    });
+    restoreIds.push(root.id, ...family.map((t) => t.id));
+    if (root.parent?.deletedAt && !ids.includes(root.parentId!)) detachIds.push(root.id);
+  }
+  if (restoreIds.length === 0) return { tasks: [], calendar: { synced: 0, failed: 0 } as CalendarOutcome };
+
+  await prisma.$transaction([
+    prisma.task.updateMany({ where: { id: { in: restoreIds } }, data: { deletedAt: null } }),
+    prisma.task.updateMany({ where: { id: { in: detachIds } }, data: { parentId: null } }),
+  ]);
+
+  const restored = await prisma.task.findMany({
+    where: { id: { in: restoreIds } },
+    include: { project: { select: { title: true } } },
+  });
+
+  const rows = restored
+    .filter((t) => t.dueAt && !t.completed)
+    .flatMap((t) => buildReminderRows({ userId, sourceId: t.id, sourceType: "task", title: t.title, dueAt: t.dueAt!, reminderWindows }));
+  if (rows.length > 0) await prisma.scheduledNotification.createMany({ data: rows });
+
+  let calendar: CalendarOutcome = { synced: 0, failed: 0 };
+  const dated = restored.filter((t) => t.dueAt);
+  if (dated.length > 0) {
+    try {
+      calendar = await syncTaskEvents(userId, dated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[trash] Calendar sync failed on restore:`, message);
+      calendar = { error: message };
+    }
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: restoreIds } },
+    include: { ...BLOCKED_BY_INCLUDE, ...TAG_INCLUDE },
+  });
+  return { tasks: tasks.map(withBlockedByIds), calendar };
+}
+
+/** Clears `deletedAt` on the given items and returns them in their list-endpoint shape. */
+export async function restoreItems(userId: string, items: TrashRef[], reminderWindows: number[]) {
+  const trashed = { userId, deletedAt: { not: null } };
+  const restore = { deletedAt: null };
+
+  const projectIds = idsOf(items, "project");
+  const ideaIds = idsOf(items, "idea");
+  const articleIds = idsOf(items, "article");
+  const planIds = idsOf(items, "learningPlan");
+  const feedbackIds = idsOf(items, "feedback");
+
+  const restoredProjects = await prisma.project.findMany({ where: { id: { in: projectIds }, ...trashed }, select: { id: true } });
+  await prisma.$transaction([
+    prisma.project.updateMany({ where: { id: { in: projectIds }, ...trashed }, data: restore }),
+    prisma.idea.updateMany({ where: { id: { in: ideaIds }, ...trashed }, data: restore }),
+    prisma.article.updateMany({ where: { id: { in: articleIds }, ...trashed }, data: restore }),
+    prisma.learningPlan.updateMany({ where: { id: { in: planIds }, ...trashed }, data: restore }),
+    prisma.feedbackItem.updateMany({ where: { id: { in: feedbackIds }, ...trashed }, data: restore }),
+  ]);
+
+  await restoreMilestoneEvents(userId, restoredProjects.map((p) => p.id));
+
+  const { tasks, calendar } = await restoreTasks(userId, idsOf(items, "task"), reminderWindows);
+  const [projects, ideas, articles, learningPlans, feedback] = await Promise.all([
+    prisma.project.findMany({ where: { id: { in: projectIds }, userId, deletedAt: null } }),
+    prisma.idea.findMany({ where: { id: { in: ideaIds }, userId, deletedAt: null }, include: TAG_INCLUDE }),
+    prisma.article.findMany({ where: { id: { in: articleIds }, userId, deletedAt: null }, include: TAG_INCLUDE }),
+    prisma.learningPlan.findMany({ where: { id: { in: planIds }, userId, deletedAt: null } }),
+    prisma.feedbackItem.findMany({ where: { id: { in: feedbackIds }, userId, deletedAt: null }, include: TAG_INCLUDE }),
+  ]);
+
+  return { tasks, projects, ideas, articles, learningPlans, feedback, calendar };
+}
+
+/**
+ * Trashed items, newest first. Subtasks trashed along with (or after) their
+ * parent are listed under the parent only. Personal-space items are left out
+ * unless the space is unlocked.
+ */
+export async function listTrash(userId: string, includePersonal: boolean): Promise<TrashItem[]> {
+  const trashed = { userId, deletedAt: { not: null } };
+  const spaced = includePersonal ? {} : { space: { not: "personal" } };
+  const listed = { id: true, deletedAt: true, space: true } as const;
+
+  const [tasks, projects, ideas, articles, plans, feedback] = await Promise.all([
+    prisma.task.findMany({
+      where: { ...trashed, ...spaced, OR: [{ parentId: null }, { parent: { deletedAt: null } }] },
+      select: { ...listed, title: true },
+    }),
+    prisma.project.findMany({ where: { ...trashed, ...spaced }, select: { ...listed, title: true } }),
+    prisma.idea.findMany({ where: { ...trashed, ...spaced }, select: { ...listed, title: true } }),
+    prisma.article.findMany({ where: { ...trashed, ...spaced }, select: { ...listed, title: true } }),
+    prisma.learningPlan.findMany({ where: { ...trashed, ...spaced }, select: { ...listed, title: true } }),
+    prisma.feedbackItem.findMany({ where: trashed, select: { id: true, deletedAt: true, from: true, message: true } }),
+  ]);
+
+  const items: TrashItem[] = [
+    ...tasks.map((t) => ({ type: "task" as const, id: t.id, title: t.title, deletedAt: t.deletedAt!.toISOString(), space: t.space })),
+    ...projects.map((p) => ({ type: "project" as const, id: p.id, title: p.title, deletedAt: p.deletedAt!.toISOString(), space: p.space })),
+    ...ideas.map((i) => ({ type: "idea" as const, id: i.id, title: i.title, deletedAt: i.deletedAt!.toISOString(), space: i.space })),
+    ...articles.map((a) => ({ type: "article" as const, id: a.id, title: a.title, deletedAt: a.deletedAt!.toISOString(), space: a.space })),
+    ...plans.map((p) => ({ type: "learningPlan" as const, id: p.id, title: p.title, deletedAt: p.deletedAt!.toISOString(), space: p.space })),
+    ...feedback.map((f) => ({
+      type: "feedback" as const,
+      id: f.id,
+      title: feedbackTitle(f),
+      deletedAt: f.deletedAt!.toISOString(),
+      space: null,
+    })),
+  ];
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Permanently deletes trashed items — the given ones, or the whole trash when
+ * `items` is null. Subtasks go with their parent through the FK cascade; a
+ * purged project's milestones go with it and its tasks are left without one.
+ */
+export async function purgeItems(userId: string, items: TrashRef[] | null) {
+  const scope = (type: TrashType) => ({ userId, deletedAt: { not: null }, ...(items && { id: { in: idsOf(items, type) } }) });
+
+  const [tasks, projects, ideas, articles, learningPlans, feedback] = await prisma.$transaction([
+    prisma.task.deleteMany({ where: scope("task") }),
+    prisma.project.deleteMany({ where: scope("project") }),
+    prisma.idea.deleteMany({ where: scope("idea") }),
+    prisma.article.deleteMany({ where: scope("article") }),
+    prisma.learningPlan.deleteMany({ where: scope("learningPlan") }),
+    prisma.feedbackItem.deleteMany({ where: scope("feedback") }),
+  ]);
+  return tasks.count + projects.count + ideas.count + articles.count + learningPlans.count + feedback.count;
+}
+
+/** Run by /api/push/cron: drops everything trashed more than TRASH_RETENTION_DAYS ago. */
+export async function purgeExpiredTrash(now = new Date()) {
+  const expired = { deletedAt: { lt: new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000) } };
+
+  const [tasks, projects, ideas, articles, learningPlans, feedback] = await prisma.$transaction([
+    prisma.task.deleteMany({ where: expired }),
+    prisma.project.deleteMany({ where: expired }),
+    prisma.idea.deleteMany({ where: expired }),
+    prisma.article.deleteMany({ where: expired }),
+    prisma.learningPlan.deleteMany({ where: expired }),
+    prisma.feedbackItem.deleteMany({ where: expired }),
+  ]);
+  return tasks.count + projects.count + ideas.count + articles.count + learningPlans.count + feedback.count;
+}
@@ -1,5 +1,14 @@
 export type ProjectStatus = "planning" | "active" | "on-hold" | "completed";
 
+export type BoardColumnStatus = "open" | "in-progress" | "done";
+
+// One column of a project's Kanban board; status is the task state it stands for
+export type BoardColumn = {
+  id: string;
+  name: string;
+  status: BoardColumnStatus;
+};
+
 export type Project = {
   id: string;
   title: string;
@@ -7,6 +16,15 @@ export type Project = {
   status: ProjectStatus;
   createdAt: number;
   space?: string;
+  boardColumns?: BoardColumn[] | null;
+};
+
+export type TaskPriority = "high" | "medium" | "low";
+
+export type Tag = {
+  id: string;
+  name: string;
+  color: string;
 };
 
 export type ChecklistItem = {
@@ -25,9 +43,212 @@ export type Task = {
   dueAt: string | null;
   createdAt: number;
   projectId?: string | null;
+  parentId?: string | null;
+  blockedByIds?: string[];
+  tags?: Tag[];
   checklist?: ChecklistItem[] | null;
+  recurrence?: string | null;
+  priority?: TaskPriority | null;
   calendarEventId?: string | null;
   space?: string;
+  // Board column id within the task's project
+  boardColumn?: string | null;
+  // Manual order; see lib/sort-key
+  sortKey?: string;
+  // Last completion (ISO); kept while a repeating task rolls on
+  completedAt?: string | null;
+};
+
+// One change applied to many tasks through /api/tasks/bulk
+export type BulkTaskChange =
+  | { action: "complete" }
+  | { action: "reschedule"; dueAt: string | null }
+  | { action: "move"; projectId: string | null }
+  | { action: "space"; space: "personal" | "professional" }
+  | { action: "delete" };
+
+// Everything that goes to the trash instead of being deleted outright
+export type TrashType = "task" | "project" | "idea" | "article" | "learningPlan" | "feedback";
+
+export const TRASH_TYPES: TrashType[] = ["task", "project", "idea", "article", "learningPlan", "feedback"];
+
+export function isTrashType(value: unknown): value is TrashType {
+  return TRASH_TYPES.includes(value as TrashType);
+}
+
+// Trashed items are purged for good by the cron after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+export type TrashItem = {
+  type: TrashType;
+  id: string;
+  title: string;
+  deletedAt: string;
+  space: string | null;
+};
+
+export type TrashRef = Pick<TrashItem, "type" | "id">;
+
+// ── Activity trail ──────────────────────────────────────────────────────────
+
+export type ActivityEntityType = "task" | "project" | "idea" | "feedback" | "article";
+export type ActivityAction = "create" | "update" | "delete" | "restore";
+export type ActivitySource = "web" | "voice" | "capture" | "push";
+
+// Client code marks non-web writes (notification actions, browser capture)
+// with this header; voice and the capture token endpoint set theirs server-side
+export const ACTIVITY_SOURCE_HEADER = "x-activity-source";
+
+export type ActivityChanges = Record<string, { from: unknown; to: unknown }>;
+
+export type ActivityEntry = {
+  id: string;
+  entityType: ActivityEntityType;
+  entityId: string;
+  projectId: string | null;
+  action: ActivityAction;
+  source: ActivitySource;
+  title: string;
+  changes: ActivityChanges | null;
+  createdAt: string;
+};
+
+// ── Time tracking ───────────────────────────────────────────────────────────
+
+// endedAt is null while the timer is running
+export type TimeEntry = {
+  id: string;
+  taskId: string;
+  startedAt: string;
+  endedAt: string | null;
+};
+
+// Timesheet rows carry the task and project names alongside the entry
+export type TimesheetEntry = TimeEntry & {
+  task: { title: string; projectId: string | null; project: { title: string } | null };
+};
+
+// ── Templates ───────────────────────────────────────────────────────────────
+
+// Checklist items keep only their text; ids and done state are fresh per use
+export type TaskTemplate = {
+  id: string;
+  name: string;
+  title: string;
+  notes: string;
+  checklist: string[];
+  dueOffsetMinutes: number | null;
+  projectId: string | null;
+};
+
+// ── Day plans ───────────────────────────────────────────────────────────────
+
+export type PlanSection = "critical" | "important" | "light";
+
+export const PLAN_SECTIONS: PlanSection[] = ["critical", "important", "light"];
+
+// Task ids per Today section; date is "YYYY-MM-DD" in the user's timezone.
+// The review fields are missing on a day nothing was saved for yet.
+export type DayPlan = {
+  date: string;
+  reflection?: string;
+  reviewedAt?: string | null;
+} & Record<PlanSection, string[]>;
+
+// ── Daily goals ─────────────────────────────────────────────────────────────
+
+// "critical" and "plan" are about the day's Today plan; "tasks" counts any
+// completions that day. Only "tasks" uses target.
+export type GoalKind = "critical" | "plan" | "tasks";
+
+export const GOAL_KINDS: GoalKind[] = ["critical", "plan", "tasks"];
+
+export type DailyGoal = { kind: GoalKind; target: number };
+
+// ── Weekly reviews ──────────────────────────────────────────────────────────
+
+export type WeeklyReviewStep = "ideas" | "feedback" | "projects" | "overdue" | "articles" | "calendar";
+
+export const WEEKLY_REVIEW_STEPS: WeeklyReviewStep[] = ["ideas", "feedback", "projects", "overdue", "articles", "calendar"];
+
+// Per step, how many items there were when the review started and what was
+// done with them
+export type WeeklyReviewStats = {
+  ideas: number;
+  ideasToTasks: number;
+  ideasDeleted: number;
+  feedback: number;
+  feedbackToTasks: number;
+  feedbackDismissed: number;
+  projects: number;
+  projectsWithoutNextAction: number;
+  nextActionsAdded: number;
+  overdue: number;
+  overdueCompleted: number;
+  overdueRescheduled: number;
+  articles: number;
+  articlesRead: number;
+  articlesRemoved: number;
+  eventsNextWeek: number;
+  meetingMinutesNextWeek: number;
+};
+
+export type WeeklyReview = {
+  id: string;
+  weekStart: string;
+  stats: WeeklyReviewStats;
+  notes: string;
+  completedAt: string;
+};
+
+// ── Milestones ──────────────────────────────────────────────────────────────
+
+// dueDate is "YYYY-MM-DD"; taskIds are in the milestone's own order
+export type Milestone = {
+  id: string;
+  projectId: string;
+  title: string;
+  dueDate: string;
+  taskIds: string[];
+  calendarEventId?: string | null;
+};
+
+// ── Project updates ─────────────────────────────────────────────────────────
+
+export type ProjectHealthLevel = "on-track" | "needs-attention" | "off-track";
+
+// A dated status report on a project (Markdown), with the health it had then
+export type ProjectUpdate = {
+  id: string;
+  projectId: string;
+  date: string;
+  body: string;
+  health: ProjectHealthLevel;
+  createdAt: string;
+};
+
+// ── Project templates ───────────────────────────────────────────────────────
+
+// A task in a project template. dueOffsetDays counts from the project's start
+// day (negative for prep work before it) and dueTime is the local "HH:MM";
+// parentIndex points at an earlier task in the list for subtasks.
+export type ProjectTemplateTask = {
+  title: string;
+  notes: string;
+  checklist: string[];
+  priority: TaskPriority | null;
+  dueOffsetDays: number | null;
+  dueTime: string | null;
+  parentIndex: number | null;
+};
+
+export type ProjectTemplate = {
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  space: string;
+  tasks: ProjectTemplateTask[];
 };
 
 export const TASKS_KEY    = "focus-tasks-v1";
@@ -42,6 +263,21 @@ export const STATUS_META: Record<ProjectStatus, { label: string; pill: string }>
   completed: { label: "Completed", pill: "bg-surface-soft text-ink-soft"   },
 };
 
+export const PRIORITY_OPTIONS: TaskPriority[] = ["high", "medium", "low"];
+
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return PRIORITY_OPTIONS.includes(value as TaskPriority);
+}
+
+export const PRIORITY_META: Record<TaskPriority, { label: string; pill: string }> = {
+  high:   { label: "High",   pill: "bg-coral/10 text-coral"         },
+  medium: { label: "Medium", pill: "bg-surface-card text-ink"       },
+  low:    { label: "Low",    pill: "bg-surface-card text-ink-soft"  },
+};
+
+// Swatches offered when creating a tag; the API accepts any #rrggbb value
+export const TAG_COLORS = ["#cc785c", "#d4a72c", "#3aa876", "#4aa3a8", "#5b8def", "#9b6bd6", "#e0607e", "#8e8b82"];
+
 export function buildId() {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
   return `id_${Date.now()}_${Math.random().toString(16).slice(2)}`;
@@ -0,0 +1,44 @@
+import { getReminderWindows } from "@/lib/notifications";
+import type { TrashRef } from "@/lib/types";
+
+// Client side of the trash. Modules call `showUndoToast` right after moving
+// something to the trash; the toast mounted in DashboardShell listens for the
+// event, so it survives module switches. `onUndo` usually wraps
+// `restoreFromTrash` and puts the returned rows back into local state.
+
+export const UNDO_TOAST_EVENT = "undo-toast";
+
+export type UndoToastDetail = {
+  message: string;
+  // Resolves false when the restore didn't go through
+  onUndo: () => Promise<boolean>;
+};
+
+// Restored rows in the same shape their list endpoints return
+export type RestoredItems = {
+  tasks: unknown[];
+  projects: unknown[];
+  ideas: unknown[];
+  articles: unknown[];
+  learningPlans: unknown[];
+  feedback: unknown[];
+};
+
+export function showUndoToast(message: string, onUndo: () => Promise<boolean>) {
+  window.dispatchEvent(new CustomEvent<UndoToastDetail>(UNDO_TOAST_EVENT, { detail: { message, onUndo } }));
+}
+
+/** Restores trashed items; restored tasks get reminders with the local windows. */
+export async function restoreFromTrash(items: TrashRef[]): Promise<RestoredItems | null> {
+  try {
+    const res = await fetch("/api/trash/restore", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items, reminderWindows: getReminderWindows() }),
+    });
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
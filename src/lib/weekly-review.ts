@@ -0,0 +1,104 @@
+import { shiftDayKey } from "@/lib/day-plan";
+import type { WeeklyReviewStats, WeeklyReviewStep } from "@/lib/types";
+
+// The GTD-style weekly review: six steps across the modules, walked through in
+// order from the dashboard header. The server gathers what each step needs
+// (GET /api/weekly-reviews/agenda); the client acts on items through the usual
+// endpoints and saves the tallies when the review is finished.
+
+export const WEEKLY_REVIEW_STEP_META: Record<WeeklyReviewStep, { label: string; prompt: string }> = {
+  ideas:    { label: "Ideas inbox",    prompt: "Turn each idea captured since the last review into a task, keep it, or let it go." },
+  feedback: { label: "Feedback",       prompt: "Triage new feedback: follow it up with a task, keep it on file, or dismiss it." },
+  projects: { label: "Projects",       prompt: "Every active project should have a next action. Add one where it's missing." },
+  overdue:  { label: "Overdue",        prompt: "Finish, reschedule or clear the date on everything that slipped." },
+  articles: { label: "Reading list",   prompt: "Mark what you've read, drop what you won't, keep the rest." },
+  calendar: { label: "Next week",      prompt: "Look over next week's events before it starts." },
+};
+
+// FeedbackItem.status is free-form; new items arrive as "new" and the review
+// moves them to one of the others
+export const FEEDBACK_NEW = "new";
+export const FEEDBACK_TRIAGE = { keep: "triaged", task: "actioned", dismiss: "dismissed" } as const;
+
+export type ReviewIdea = { id: string; title: string; notes: string; space: string; createdAt: string };
+export type ReviewFeedback = { id: string; from: string; message: string; receivedAt: string; dueAt: string | null };
+export type ReviewProject = { id: string; title: string; space: string; nextAction: { id: string; title: string } | null };
+export type ReviewTask = { id: string; title: string; dueAt: string; projectId: string | null };
+export type ReviewArticle = { id: string; title: string; url: string; source: string; createdAt: string };
+export type ReviewEvent = { id: string; title: string; startAt: string; endAt: string; location: string | null };
+
+export type WeeklyReviewAgenda = {
+  // Monday of the current week and of the next one, "YYYY-MM-DD"
+  weekStart: string;
+  nextWeekStart: string;
+  lastReviewedAt: string | null;
+  ideas: ReviewIdea[];
+  feedback: ReviewFeedback[];
+  projects: ReviewProject[];
+  overdue: ReviewTask[];
+  articles: ReviewArticle[];
+  events: ReviewEvent[];
+};
+
+const STAT_KEYS: Array<keyof WeeklyReviewStats> = [
+  "ideas", "ideasToTasks", "ideasDeleted",
+  "feedback", "feedbackToTasks", "feedbackDismissed",
+  "projects", "projectsWithoutNextAction", "nextActionsAdded",
+  "overdue", "overdueCompleted", "overdueRescheduled",
+  "articles", "articlesRead", "articlesRemoved",
+  "eventsNextWeek", "meetingMinutesNextWeek",
+];
+
+export function emptyReviewStats(): WeeklyReviewStats {
+  return Object.fromEntries(STAT_KEYS.map((key) => [key, 0])) as WeeklyReviewStats;
+}
+
+/** The counts known when the review starts; the action counts begin at 0. */
+export function agendaStats(agenda: WeeklyReviewAgenda): WeeklyReviewStats {
+  return {
+    ...emptyReviewStats(),
+    ideas: agenda.ideas.length,
+    feedback: agenda.feedback.length,
+    projects: agenda.projects.length,
+    projectsWithoutNextAction: agenda.projects.filter((p) => !p.nextAction).length,
+    overdue: agenda.overdue.length,
+    articles: agenda.articles.length,
+    eventsNextWeek: agenda.events.length,
+    // All-day and multi-day events aren't meetings
+    meetingMinutesNextWeek: Math.round(agenda.events
+      .map((e) => (new Date(e.endAt).getTime() - new Date(e.startAt).getTime()) / 60000)
+      .filter((minutes) => minutes > 0 && minutes < 24 * 60)
+      .reduce((sum, minutes) => sum + minutes, 0)),
+  };
+}
+
+/** Validates the stats of a POST body; missing counts are 0, unknown keys are dropped. */
+export function parseReviewStats(value: unknown): WeeklyReviewStats | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const stats = emptyReviewStats();
+  for (const key of STAT_KEYS) {
+    const count = (value as Record<string, unknown>)[key];
+    if (count === undefined) continue;
+    if (typeof count !== "number" || !Number.isInteger(count) || count < 0) return null;
+    stats[key] = count;
+  }
+  return stats;
+}
+
+/** The Monday on or before the day key. */
+export function weekStartKey(key: string) {
+  const weekday = new Date(`${key}T00:00:00Z`).getUTCDay();
+  return shiftDayKey(key, -((weekday + 6) % 7));
+}
+
+/** One line per step for the review history. */
+export function summarizeReview(stats: WeeklyReviewStats): Record<WeeklyReviewStep, string> {
+  return {
+    ideas: `${stats.ideas} in the inbox · ${stats.ideasToTasks} to tasks · ${stats.ideasDeleted} deleted`,
+    feedback: `${stats.feedback} new · ${stats.feedbackToTasks} to tasks · ${stats.feedbackDismissed} dismissed`,
+    projects: `${stats.projects} active · ${stats.projectsWithoutNextAction} without a next action · ${stats.nextActionsAdded} added`,
+    overdue: `${stats.overdue} overdue · ${stats.overdueCompleted} done · ${stats.overdueRescheduled} rescheduled`,
+    articles: `${stats.articles} unread · ${stats.articlesRead} read · ${stats.articlesRemoved} removed`,
+    calendar: `${stats.eventsNextWeek} events · ${Math.round(stats.meetingMinutesNextWeek / 60)} h of meetings`,
+  };
+}